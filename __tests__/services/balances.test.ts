@@ -0,0 +1,194 @@
+import {
+  canUndoSettlement,
+  computeMemberBalances,
+  computeSettlementPlan,
+  groupSharesByExpense,
+} from '@/services/balances';
+import { Expense, ExpenseShare } from '@/types/database';
+
+const makeExpense = (id: string, amount: number, paidBy: string): Expense => ({
+  id,
+  tripId: 'trip-1',
+  title: `Expense ${id}`,
+  amount,
+  currency: 'INR',
+  paidBy,
+  category: 'food',
+  createdAt: new Date('2025-01-01'),
+  updatedAt: new Date('2025-01-01'),
+});
+
+const makeShare = (expenseId: string, userId: string, shareAmount: number): ExpenseShare => ({
+  id: `${expenseId}_${userId}`,
+  expenseId,
+  userId,
+  shareAmount,
+});
+
+const byUser = (balances: ReturnType<typeof computeMemberBalances>) =>
+  Object.fromEntries(balances.map((b) => [b.userId, b]));
+
+describe('Balance Engine', () => {
+  describe('computeMemberBalances', () => {
+    it('should use custom share amounts instead of an equal split', () => {
+      const expenses = [makeExpense('e1', 900, 'alice')];
+      const shares = groupSharesByExpense([
+        makeShare('e1', 'alice', 100),
+        makeShare('e1', 'bob', 300),
+        makeShare('e1', 'carol', 500),
+      ]);
+
+      const result = byUser(computeMemberBalances(expenses, shares, ['alice', 'bob', 'carol']));
+
+      expect(result.alice).toMatchObject({ userId: 'alice', paid: 900, owed: 100, balance: 800 });
+      expect(result.bob.balance).toBe(-300);
+      expect(result.carol.balance).toBe(-500);
+    });
+
+    it('should only charge members who are part of the split', () => {
+      const expenses = [makeExpense('e1', 200, 'alice')];
+      const shares = groupSharesByExpense([
+        makeShare('e1', 'alice', 100),
+        makeShare('e1', 'bob', 100),
+      ]);
+
+      const result = byUser(computeMemberBalances(expenses, shares, ['alice', 'bob', 'carol']));
+
+      expect(result.carol).toMatchObject({ userId: 'carol', paid: 0, owed: 0, balance: 0 });
+      expect(result.bob.balance).toBe(-100);
+    });
+
+    it('should fall back to an equal split for expenses without shares', () => {
+      const expenses = [makeExpense('e1', 300, 'bob')];
+
+      const result = byUser(computeMemberBalances(expenses, {}, ['alice', 'bob', 'carol']));
+
+      expect(result.bob.balance).toBe(200);
+      expect(result.alice.balance).toBe(-100);
+      expect(result.carol.balance).toBe(-100);
+    });
+
+    it('should always net to zero across members', () => {
+      const expenses = [makeExpense('e1', 100, 'alice'), makeExpense('e2', 50, 'bob')];
+      const shares = groupSharesByExpense([
+        makeShare('e1', 'alice', 33.33),
+        makeShare('e1', 'bob', 33.33),
+        makeShare('e1', 'carol', 33.34),
+        makeShare('e2', 'carol', 50),
+      ]);
+
+      const balances = computeMemberBalances(expenses, shares, ['alice', 'bob', 'carol']);
+      const total = balances.reduce((sum, b) => sum + b.balance, 0);
+
+      expect(Math.abs(total)).toBeLessThan(0.01);
+    });
+
+    it('should include former members who still appear on expenses', () => {
+      const expenses = [makeExpense('e1', 100, 'dave')];
+      const shares = groupSharesByExpense([makeShare('e1', 'alice', 100)]);
+
+      const result = byUser(computeMemberBalances(expenses, shares, ['alice']));
+
+      expect(result.dave.balance).toBe(100);
+      expect(result.alice.balance).toBe(-100);
+    });
+
+    it('should net recorded settlements out of balances', () => {
+      const expenses = [makeExpense('e1', 300, 'alice')];
+      const shares = groupSharesByExpense([
+        makeShare('e1', 'alice', 100),
+        makeShare('e1', 'bob', 100),
+        makeShare('e1', 'carol', 100),
+      ]);
+      const settlements = [{ payerId: 'bob', payeeId: 'alice', amount: 100 }];
+
+      const result = byUser(
+        computeMemberBalances(expenses, shares, ['alice', 'bob', 'carol'], settlements)
+      );
+
+      expect(result.bob).toMatchObject({ settledOut: 100, balance: 0 });
+      expect(result.alice).toMatchObject({ settledIn: 100, balance: 100 });
+      expect(result.carol.balance).toBe(-100);
+    });
+  });
+
+  describe('computeSettlementPlan', () => {
+    const netAfterTransfers = (
+      balances: { userId: string; balance: number }[],
+      transfers: ReturnType<typeof computeSettlementPlan>
+    ) => {
+      const net: Record<string, number> = {};
+      balances.forEach((b) => (net[b.userId] = Math.round(b.balance * 100)));
+      transfers.forEach((t) => {
+        net[t.fromUserId] += Math.round(t.amount * 100);
+        net[t.toUserId] -= Math.round(t.amount * 100);
+      });
+      return net;
+    };
+
+    it('should return no transfers when everyone is settled', () => {
+      expect(computeSettlementPlan([
+        { userId: 'alice', balance: 0 },
+        { userId: 'bob', balance: 0 },
+      ])).toEqual([]);
+    });
+
+    it('should pay a single creditor directly from each debtor', () => {
+      const plan = computeSettlementPlan([
+        { userId: 'alice', balance: 200 },
+        { userId: 'bob', balance: -100 },
+        { userId: 'carol', balance: -100 },
+      ]);
+
+      expect(plan).toHaveLength(2);
+      expect(plan.every((t) => t.toUserId === 'alice' && t.amount === 100)).toBe(true);
+    });
+
+    it('should find the minimal number of transfers when pairs cancel out', () => {
+      // Greedy largest-first matching needs 4 transfers here; {6, 3, -9} and {8, -8} need 3
+      const balances = [
+        { userId: 'a', balance: 6 },
+        { userId: 'b', balance: 3 },
+        { userId: 'c', balance: 8 },
+        { userId: 'd', balance: -9 },
+        { userId: 'e', balance: -8 },
+      ];
+
+      const plan = computeSettlementPlan(balances);
+
+      expect(plan).toHaveLength(3);
+      expect(plan).toContainEqual({ fromUserId: 'e', toUserId: 'c', amount: 8 });
+      expect(Object.values(netAfterTransfers(balances, plan)).every((v) => v === 0)).toBe(true);
+    });
+
+    it('should absorb rounding drift so the plan still closes out', () => {
+      const balances = [
+        { userId: 'alice', balance: 100 },
+        { userId: 'bob', balance: -33.33 },
+        { userId: 'carol', balance: -33.33 },
+        { userId: 'dave', balance: -33.33 },
+      ];
+
+      const plan = computeSettlementPlan(balances);
+
+      expect(plan).toHaveLength(3);
+      expect(plan.reduce((sum, t) => sum + t.amount, 0)).toBeCloseTo(99.99, 2);
+    });
+  });
+
+  describe('canUndoSettlement', () => {
+    const settlement = { payerId: 'bob', payeeId: 'alice', recordedBy: 'carol' };
+
+    it('should let the payer, the payee and whoever recorded it undo a payment', () => {
+      expect(canUndoSettlement(settlement, 'bob', 'viewer')).toBe(true);
+      expect(canUndoSettlement(settlement, 'alice', 'viewer')).toBe(true);
+      expect(canUndoSettlement(settlement, 'carol', 'editor')).toBe(true);
+    });
+
+    it('should let only the owner undo a payment between other people', () => {
+      expect(canUndoSettlement(settlement, 'dave', 'owner')).toBe(true);
+      expect(canUndoSettlement(settlement, 'dave', 'editor')).toBe(false);
+      expect(canUndoSettlement(settlement, null, 'owner')).toBe(false);
+    });
+  });
+});
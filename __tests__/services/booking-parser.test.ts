@@ -0,0 +1,152 @@
+import {
+  findBookingReference,
+  isDayFirstLocale,
+  parseConfirmationText,
+  parseIcsBookings,
+  toItineraryItemInput,
+} from '@/services/booking-parser';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+
+const loadFixture = (name: string): string =>
+  readFileSync(join(__dirname, '..', 'fixtures', 'bookings', name), 'utf8');
+
+describe('Booking Parser Service', () => {
+  describe('findBookingReference', () => {
+    it('should read references, PNRs and confirmation numbers', () => {
+      expect(findBookingReference('Booking reference: X7K2PQ')).toBe('X7K2PQ');
+      expect(findBookingReference('Your PNR is ABC123')).toBe('ABC123');
+      expect(findBookingReference('Confirmation number: 4829.301.552.')).toBe('4829.301.552');
+      expect(findBookingReference('Thanks for booking with us')).toBeNull();
+    });
+  });
+
+  describe('isDayFirstLocale', () => {
+    it('should tell day-first locales from month-first ones', () => {
+      expect(isDayFirstLocale('en-GB')).toBe(true);
+      expect(isDayFirstLocale('de-DE')).toBe(true);
+      expect(isDayFirstLocale('en-US')).toBe(false);
+    });
+  });
+
+  describe('parseConfirmationText', () => {
+    it('should parse each leg of an airline confirmation', () => {
+      const bookings = parseConfirmationText(loadFixture('airline-confirmation.txt'));
+
+      expect(bookings).toHaveLength(2);
+      expect(bookings[0]).toEqual({
+        kind: 'flight',
+        title: 'Flight TP 1351 LIS → LHR',
+        startTime: new Date(2025, 5, 10, 10, 35),
+        endTime: new Date(2025, 5, 10, 13, 10),
+        location: 'Lisbon (LIS)',
+        reference: 'X7K2PQ',
+        notes: 'Lisbon (LIS) to London Heathrow (LHR)',
+      });
+      expect(bookings[1].title).toBe('Flight TP 1354 LHR → LIS');
+      expect(bookings[1].startTime).toEqual(new Date(2025, 5, 14, 19, 5));
+      expect(bookings[1].endTime).toEqual(new Date(2025, 5, 14, 21, 35));
+    });
+
+    it('should parse a US itinerary with 12-hour times and an overnight arrival', () => {
+      const [flight] = parseConfirmationText(loadFixture('us-airline-itinerary.txt'));
+
+      expect(flight.title).toBe('Flight UA 901 SFO → FRA');
+      expect(flight.startTime).toEqual(new Date(2025, 5, 10, 17, 40));
+      expect(flight.endTime).toEqual(new Date(2025, 5, 11, 13, 35));
+      expect(flight.location).toBe('San Francisco (SFO)');
+      expect(flight.reference).toBe('HQ4ZNB');
+    });
+
+    it('should parse a hotel confirmation with check-in and check-out times', () => {
+      const bookings = parseConfirmationText(loadFixture('hotel-confirmation.txt'));
+
+      expect(bookings).toEqual([
+        {
+          kind: 'hotel',
+          title: 'Hotel Avenida Palace',
+          startTime: new Date(2025, 5, 10, 15, 0),
+          endTime: new Date(2025, 5, 13, 12, 0),
+          location: 'Rua 1º de Dezembro 123, 1200-359 Lisbon, Portugal',
+          reference: '4829.301.552',
+          notes: null,
+        },
+      ]);
+    });
+
+    it('should use the usual hotel times when none are given', () => {
+      const [hotel] = parseConfirmationText('Hotel: Casa do Mar\nCheck-in: 2025-06-10\nCheck-out: 2025-06-12');
+
+      expect(hotel.title).toBe('Casa do Mar');
+      expect(hotel.startTime).toEqual(new Date(2025, 5, 10, 15, 0));
+      expect(hotel.endTime).toEqual(new Date(2025, 5, 12, 11, 0));
+    });
+
+    it('should find nothing in unrelated text', () => {
+      expect(parseConfirmationText('See you at the beach on Friday!')).toEqual([]);
+    });
+  });
+
+  describe('parseIcsBookings', () => {
+    it('should read flights from an airline calendar file', () => {
+      const bookings = parseIcsBookings(loadFixture('airline-flights.ics'));
+
+      expect(bookings).toHaveLength(2);
+      expect(bookings[0].kind).toBe('flight');
+      expect(bookings[0].title).toBe('Flight TP1351 Lisbon (LIS) to London Heathrow (LHR)');
+      expect(bookings[0].startTime).toEqual(new Date(Date.UTC(2025, 5, 10, 9, 35)));
+      expect(bookings[0].endTime).toEqual(new Date(Date.UTC(2025, 5, 10, 12, 10)));
+      expect(bookings[0].location).toBe('Lisbon Humberto Delgado Airport, Terminal 1');
+      expect(bookings[0].reference).toBe('X7K2PQ');
+      // Folded lines are joined back together
+      expect(bookings[0].notes).toContain('Baggage: 1 x 23kg');
+    });
+
+    it('should turn an all-day stay into check-in and check-out times', () => {
+      const [hotel] = parseIcsBookings(loadFixture('hotel-and-tour.ics'));
+
+      expect(hotel.kind).toBe('hotel');
+      expect(hotel.title).toBe('Hotel Avenida Palace');
+      expect(hotel.startTime).toEqual(new Date(2025, 5, 10, 15, 0));
+      expect(hotel.endTime).toEqual(new Date(2025, 5, 13, 12, 0));
+      expect(hotel.reference).toBe('4829.301.552');
+    });
+
+    it('should convert times in a named time zone', () => {
+      const [, tour] = parseIcsBookings(loadFixture('hotel-and-tour.ics'));
+
+      expect(tour.kind).toBe('event');
+      expect(tour.title).toBe('Sintra and Cascais Day Tour');
+      // Lisbon is on UTC+1 in summer
+      expect(tour.startTime).toEqual(new Date(Date.UTC(2025, 5, 11, 9, 0)));
+      expect(tour.endTime).toEqual(new Date(Date.UTC(2025, 5, 11, 12, 0)));
+    });
+  });
+
+  describe('toItineraryItemInput', () => {
+    it('should create a typed itinerary item with the booking reference', () => {
+      const [hotel] = parseConfirmationText(loadFixture('hotel-confirmation.txt'));
+
+      expect(toItineraryItemInput(hotel, 'trip-1', 'user-1')).toEqual({
+        tripId: 'trip-1',
+        title: 'Hotel Avenida Palace',
+        description: 'Booking reference: 4829.301.552',
+        location: 'Rua 1º de Dezembro 123, 1200-359 Lisbon, Portugal',
+        category: 'accommodation',
+        startTime: new Date(2025, 5, 10, 15, 0),
+        endTime: new Date(2025, 5, 13, 12, 0),
+        addedBy: 'user-1',
+        latitude: null,
+        longitude: null,
+      });
+    });
+
+    it('should not repeat a reference the notes already quote', () => {
+      const [flight] = parseIcsBookings(loadFixture('airline-flights.ics'));
+      const input = toItineraryItemInput(flight, 'trip-1', 'user-1');
+
+      expect(input.category).toBe('transport');
+      expect(input.description).toBe('Booking reference: X7K2PQ\nPassenger: Maria Silva\nSeat: 14C\nBaggage: 1 x 23kg');
+    });
+  });
+});
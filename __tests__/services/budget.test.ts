@@ -0,0 +1,75 @@
+import {
+  computeBudgetStatus,
+  getPendingBudgetAlerts,
+  getSpendingByCategory,
+} from '@/services/budget';
+import { Expense, TripBudget } from '@/types/database';
+
+const makeExpense = (
+  amount: number,
+  category: Expense['category'],
+  exchangeRate = 1
+): Pick<Expense, 'amount' | 'exchangeRate' | 'category'> => ({ amount, category, exchangeRate });
+
+describe('Budget Service', () => {
+  const budget: TripBudget = {
+    total: 1000,
+    categoryLimits: { food: 200, accommodation: 500 },
+  };
+
+  describe('getSpendingByCategory', () => {
+    it('should convert foreign expenses and bucket unknown categories as other', () => {
+      const spending = getSpendingByCategory([
+        makeExpense(10, 'food', 90),
+        makeExpense(50, undefined),
+      ]);
+
+      expect(spending.food).toBe(900);
+      expect(spending.other).toBe(50);
+    });
+  });
+
+  describe('computeBudgetStatus', () => {
+    it('should return no lines without a budget', () => {
+      expect(computeBudgetStatus(null, [makeExpense(10, 'food')])).toEqual([]);
+    });
+
+    it('should compare spending with the total and each capped category', () => {
+      const lines = computeBudgetStatus(budget, [
+        makeExpense(170, 'food'),
+        makeExpense(100, 'transport'),
+      ]);
+
+      expect(lines.map((l) => l.key)).toEqual(['total', 'food', 'accommodation']);
+      expect(lines[0]).toMatchObject({ spent: 270, remaining: 730 });
+      expect(lines[1].ratio).toBeCloseTo(0.85);
+    });
+  });
+
+  describe('getPendingBudgetAlerts', () => {
+    it('should alert once when a category passes 80%', () => {
+      const lines = computeBudgetStatus(budget, [makeExpense(170, 'food')]);
+
+      const first = getPendingBudgetAlerts(lines, {});
+      expect(first.alerts).toEqual([{ key: 'food', threshold: 0.8, spent: 170, limit: 200 }]);
+
+      const repeat = getPendingBudgetAlerts(lines, first.levels);
+      expect(repeat.alerts).toEqual([]);
+    });
+
+    it('should alert again when a category goes over 100%', () => {
+      const lines = computeBudgetStatus(budget, [makeExpense(230, 'food')]);
+
+      const { alerts, levels } = getPendingBudgetAlerts(lines, { food: 0.8 });
+
+      expect(alerts).toEqual([{ key: 'food', threshold: 1, spent: 230, limit: 200 }]);
+      expect(levels.food).toBe(1);
+    });
+
+    it('should drop levels when spending falls back under a threshold', () => {
+      const lines = computeBudgetStatus(budget, [makeExpense(50, 'food')]);
+
+      expect(getPendingBudgetAlerts(lines, { food: 1 }).levels).toEqual({});
+    });
+  });
+});
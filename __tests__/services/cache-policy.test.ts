@@ -0,0 +1,109 @@
+import {
+  CacheEntry,
+  CacheSettings,
+  DEFAULT_CACHE_SETTINGS,
+  getCacheUsage,
+  getExpiredTripIds,
+  isTripActive,
+  planCacheCleanup,
+  selectEvictions,
+  TripDateRange,
+} from '@/services/cache-policy';
+
+const MB = 1024 * 1024;
+const DAY = 24 * 60 * 60 * 1000;
+const now = new Date('2024-06-15T12:00:00.000Z').getTime();
+
+const trips: TripDateRange[] = [
+  { id: 'lisbon', startDate: '2024-06-10T00:00:00.000Z', endDate: '2024-06-20T00:00:00.000Z' },
+  { id: 'rome', startDate: new Date('2024-04-01T00:00:00.000Z'), endDate: new Date('2024-04-05T00:00:00.000Z') },
+  { id: 'oslo', startDate: '2024-05-20T00:00:00.000Z', endDate: '2024-06-01T00:00:00.000Z' },
+];
+
+const entry = (id: string, tripId: string, megabytes: number, lastAccessedAt: number): CacheEntry => ({
+  id,
+  kind: id.startsWith('map') ? 'mapRegion' : 'document',
+  tripId,
+  bytes: megabytes * MB,
+  lastAccessedAt,
+});
+
+const settings: CacheSettings = { ...DEFAULT_CACHE_SETTINGS, storageBudgetMB: 100 };
+
+describe('Cache Policy Service', () => {
+  describe('isTripActive', () => {
+    it('should count trips underway or starting within a week', () => {
+      expect(isTripActive(trips[0], now)).toBe(true);
+      expect(isTripActive({ id: 'soon', startDate: '2024-06-20', endDate: '2024-06-25' }, now)).toBe(true);
+      expect(isTripActive({ id: 'later', startDate: '2024-08-01', endDate: '2024-08-05' }, now)).toBe(false);
+      expect(isTripActive(trips[2], now)).toBe(false);
+    });
+
+    it('should include the whole last day', () => {
+      const endsToday = { id: 'today', startDate: '2024-06-10T00:00:00.000Z', endDate: '2024-06-15T00:00:00.000Z' };
+      expect(isTripActive(endsToday, now)).toBe(true);
+    });
+  });
+
+  describe('getExpiredTripIds', () => {
+    it('should pick trips that ended longer ago than the auto-clean period', () => {
+      expect(getExpiredTripIds(trips, { ...settings, autoCleanAfterDays: 30 }, now)).toEqual(['rome']);
+      expect(getExpiredTripIds(trips, { ...settings, autoCleanAfterDays: 7 }, now)).toEqual(['rome', 'oslo']);
+    });
+
+    it('should keep pinned trips and respect a disabled auto-clean', () => {
+      expect(getExpiredTripIds(trips, { ...settings, pinnedTripIds: ['rome'] }, now)).toEqual([]);
+      expect(getExpiredTripIds(trips, { ...settings, autoCleanAfterDays: null }, now)).toEqual([]);
+    });
+  });
+
+  describe('selectEvictions', () => {
+    const entries = [
+      entry('doc1', 'oslo', 40, 3000),
+      entry('map1', 'oslo', 50, 1000),
+      entry('doc2', 'oslo', 30, 2000),
+    ];
+
+    it('should evict least recently used entries until the cache fits', () => {
+      expect(selectEvictions(entries, 50 * MB, () => false).map((item) => item.id)).toEqual(['map1', 'doc2']);
+      expect(selectEvictions(entries, 200 * MB, () => false)).toEqual([]);
+    });
+
+    it('should skip protected entries even if the cache stays over budget', () => {
+      const evictions = selectEvictions(entries, 10 * MB, (item) => item.kind === 'mapRegion');
+      expect(evictions.map((item) => item.id)).toEqual(['doc2', 'doc1']);
+    });
+  });
+
+  describe('planCacheCleanup', () => {
+    it('should clean ended trips before evicting and never evict active or pinned trips', () => {
+      const entries = [
+        entry('doc1', 'rome', 20, 1000),
+        entry('map1', 'lisbon', 60, 500),
+        entry('map2', 'oslo', 30, 2000),
+        entry('doc2', 'paris', 30, 1500),
+      ];
+      const plan = planCacheCleanup(entries, trips, { ...settings, storageBudgetMB: 70 }, [], now);
+
+      expect(plan.expiredTripIds).toEqual(['rome']);
+      expect(plan.evictions.map((item) => item.id)).toEqual(['doc2', 'map2']);
+    });
+
+    it('should keep entries the user just downloaded', () => {
+      const entries = [entry('doc1', 'paris', 80, 1000), entry('doc2', 'paris', 80, 2000)];
+      const plan = planCacheCleanup(entries, trips, settings, ['doc1'], now);
+
+      expect(plan.evictions.map((item) => item.id)).toEqual(['doc2']);
+    });
+  });
+
+  describe('getCacheUsage', () => {
+    it('should total documents and maps separately', () => {
+      expect(getCacheUsage([entry('doc1', 'rome', 1, 0), entry('map1', 'rome', 2, 0)])).toEqual({
+        documents: MB,
+        maps: 2 * MB,
+        total: 3 * MB,
+      });
+    });
+  });
+});
@@ -0,0 +1,77 @@
+import {
+  aggregateCounterpartBalances,
+  buildCombinedSettlements,
+  TripLedger,
+} from '@/services/cross-trip-balances';
+
+const makeLedger = (overrides: Partial<TripLedger> & Pick<TripLedger, 'tripId' | 'transfers'>): TripLedger => ({
+  tripTitle: overrides.tripId,
+  currency: 'USD',
+  rateToDisplay: 1,
+  ...overrides,
+});
+
+describe('Cross-Trip Balances Service', () => {
+  describe('aggregateCounterpartBalances', () => {
+    it('should net what each person owes across trips in the display currency', () => {
+      const balances = aggregateCounterpartBalances('me', [
+        makeLedger({
+          tripId: 'goa',
+          currency: 'INR',
+          rateToDisplay: 0.012,
+          transfers: [{ fromUserId: 'bob', toUserId: 'me', amount: 5000 }],
+        }),
+        makeLedger({
+          tripId: 'paris',
+          transfers: [
+            { fromUserId: 'me', toUserId: 'bob', amount: 20 },
+            { fromUserId: 'carol', toUserId: 'me', amount: 15 },
+          ],
+        }),
+      ]);
+
+      expect(balances).toEqual([
+        {
+          userId: 'bob',
+          net: 40,
+          trips: [
+            { tripId: 'goa', tripTitle: 'goa', currency: 'INR', amount: 5000, displayAmount: 60 },
+            { tripId: 'paris', tripTitle: 'paris', currency: 'USD', amount: -20, displayAmount: -20 },
+          ],
+        },
+        {
+          userId: 'carol',
+          net: 15,
+          trips: [{ tripId: 'paris', tripTitle: 'paris', currency: 'USD', amount: 15, displayAmount: 15 }],
+        },
+      ]);
+    });
+
+    it('should ignore transfers between other members', () => {
+      const balances = aggregateCounterpartBalances('me', [
+        makeLedger({ tripId: 'rome', transfers: [{ fromUserId: 'bob', toUserId: 'carol', amount: 30 }] }),
+      ]);
+
+      expect(balances).toEqual([]);
+    });
+  });
+
+  describe('buildCombinedSettlements', () => {
+    it('should record one payment per trip in the direction that trip needs', () => {
+      const [bob] = aggregateCounterpartBalances('me', [
+        makeLedger({
+          tripId: 'goa',
+          currency: 'INR',
+          rateToDisplay: 0.012,
+          transfers: [{ fromUserId: 'bob', toUserId: 'me', amount: 5000 }],
+        }),
+        makeLedger({ tripId: 'paris', transfers: [{ fromUserId: 'me', toUserId: 'bob', amount: 20 }] }),
+      ]);
+
+      expect(buildCombinedSettlements('me', bob)).toEqual([
+        { tripId: 'goa', payerId: 'bob', payeeId: 'me', amount: 5000, currency: 'INR' },
+        { tripId: 'paris', payerId: 'me', payeeId: 'bob', amount: 20, currency: 'USD' },
+      ]);
+    });
+  });
+});
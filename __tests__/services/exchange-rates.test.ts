@@ -0,0 +1,69 @@
+import {
+  createStaticRateProvider,
+  getConvertedExpenseAmount,
+  getExchangeRate,
+  getExpenseExchangeRate,
+  setExchangeRateProvider,
+} from '@/services/exchange-rates';
+import { computeMemberBalances, groupSharesByExpense } from '@/services/balances';
+import { Expense } from '@/types/database';
+
+const makeExpense = (overrides: Partial<Expense>): Expense => ({
+  id: 'e1',
+  tripId: 'trip-1',
+  title: 'Dinner',
+  amount: 100,
+  currency: 'INR',
+  paidBy: 'alice',
+  category: 'food',
+  createdAt: new Date('2025-01-01'),
+  updatedAt: new Date('2025-01-01'),
+  ...overrides,
+});
+
+describe('Exchange Rates Service', () => {
+  beforeEach(() => {
+    setExchangeRateProvider(createStaticRateProvider({ USD: 1, EUR: 0.5, INR: 80 }));
+  });
+
+  describe('getExchangeRate', () => {
+    it('should return 1 for the same currency', async () => {
+      await expect(getExchangeRate('EUR', 'EUR')).resolves.toBe(1);
+    });
+
+    it('should cross rates through the provider base currency', async () => {
+      await expect(getExchangeRate('EUR', 'INR')).resolves.toBe(160);
+      await expect(getExchangeRate('INR', 'USD')).resolves.toBeCloseTo(0.0125);
+    });
+
+    it('should reject unknown currencies', async () => {
+      await expect(getExchangeRate('XYZ', 'USD')).rejects.toThrow('No exchange rate available');
+    });
+  });
+
+  describe('expense conversion', () => {
+    it('should treat expenses without a stored rate as trip currency', () => {
+      expect(getExpenseExchangeRate(makeExpense({}))).toBe(1);
+      expect(getExpenseExchangeRate(makeExpense({ exchangeRate: 0 }))).toBe(1);
+      expect(getConvertedExpenseAmount(makeExpense({ amount: 250 }))).toBe(250);
+    });
+
+    it('should convert using the rate stored at entry time', () => {
+      const expense = makeExpense({ amount: 20, currency: 'EUR', exchangeRate: 90 });
+      expect(getConvertedExpenseAmount(expense)).toBe(1800);
+    });
+
+    it('should convert foreign shares into trip currency balances', () => {
+      const expenses = [makeExpense({ amount: 20, currency: 'EUR', exchangeRate: 90 })];
+      const shares = groupSharesByExpense([
+        { id: 's1', expenseId: 'e1', userId: 'alice', shareAmount: 10 },
+        { id: 's2', expenseId: 'e1', userId: 'bob', shareAmount: 10 },
+      ]);
+
+      const balances = computeMemberBalances(expenses, shares, ['alice', 'bob']);
+      const bob = balances.find((b) => b.userId === 'bob');
+
+      expect(bob).toMatchObject({ owed: 900, balance: -900 });
+    });
+  });
+});
@@ -0,0 +1,143 @@
+import {
+  compareWithEstimate,
+  computeBurnRate,
+  computeDailySpendSeries,
+  computeMemberSpend,
+  getPlanEstimate,
+  getTripDayCount,
+} from '@/services/expense-analytics';
+import { Expense, ExpenseShare, TripBudget } from '@/types/database';
+
+const makeExpense = (overrides: Partial<Expense> & Pick<Expense, 'id' | 'amount'>): Expense => ({
+  tripId: 'trip1',
+  title: 'Expense',
+  currency: 'USD',
+  exchangeRate: 1,
+  paidBy: 'alice',
+  category: 'other',
+  createdAt: new Date(2024, 5, 1, 12),
+  updatedAt: new Date(2024, 5, 1, 12),
+  ...overrides,
+});
+
+describe('Expense Analytics Service', () => {
+  const startDate = new Date(2024, 5, 1);
+  const endDate = new Date(2024, 5, 4);
+
+  describe('getTripDayCount', () => {
+    it('should count both the first and last day', () => {
+      expect(getTripDayCount(startDate, endDate)).toBe(4);
+      expect(getTripDayCount(startDate, startDate)).toBe(1);
+    });
+  });
+
+  describe('computeDailySpendSeries', () => {
+    it('should zero-fill trip days and keep spending outside the trip', () => {
+      const series = computeDailySpendSeries(
+        [
+          makeExpense({ id: 'e1', amount: 20 }),
+          makeExpense({ id: 'e2', amount: 10, exchangeRate: 2, createdAt: new Date(2024, 5, 3, 9) }),
+          makeExpense({ id: 'e3', amount: 300, createdAt: new Date(2024, 4, 20) }),
+          makeExpense({
+            id: 'e4',
+            amount: 5,
+            createdAt: new Date(2024, 5, 10),
+            occurrenceDate: new Date(2024, 5, 3),
+          }),
+        ],
+        startDate,
+        endDate
+      );
+
+      expect(series.map((point) => [point.date.getDate(), point.amount, point.inTrip])).toEqual([
+        [20, 300, false],
+        [1, 20, true],
+        [2, 0, true],
+        [3, 25, true],
+        [4, 0, true],
+      ]);
+    });
+  });
+
+  describe('computeMemberSpend', () => {
+    it('should compare what each member paid with what they consumed', () => {
+      const expenses = [makeExpense({ id: 'e1', amount: 90, paidBy: 'alice' })];
+      const shares: Record<string, ExpenseShare[]> = {
+        e1: [
+          { id: 's1', expenseId: 'e1', userId: 'alice', shareAmount: 30 },
+          { id: 's2', expenseId: 'e1', userId: 'bob', shareAmount: 60 },
+        ],
+      };
+
+      expect(computeMemberSpend(expenses, shares, ['alice', 'bob'])).toEqual([
+        { userId: 'bob', paid: 0, consumed: 60, net: -60 },
+        { userId: 'alice', paid: 90, consumed: 30, net: 60 },
+      ]);
+    });
+  });
+
+  describe('computeBurnRate', () => {
+    const expenses = [makeExpense({ id: 'e1', amount: 100 }), makeExpense({ id: 'e2', amount: 50 })];
+
+    it('should project the daily average over the remaining days', () => {
+      const rate = computeBurnRate(expenses, startDate, endDate, new Date(2024, 5, 2, 18));
+
+      expect(rate).toEqual({
+        totalSpent: 150,
+        totalDays: 4,
+        elapsedDays: 2,
+        averageDaily: 75,
+        projectedTotal: 300,
+      });
+    });
+
+    it('should not project before the trip starts', () => {
+      const rate = computeBurnRate(expenses, startDate, endDate, new Date(2024, 4, 25));
+
+      expect(rate.elapsedDays).toBe(0);
+      expect(rate.projectedTotal).toBe(150);
+    });
+
+    it('should use actual spending once the trip is over', () => {
+      const rate = computeBurnRate(expenses, startDate, endDate, new Date(2024, 6, 1));
+
+      expect(rate.elapsedDays).toBe(4);
+      expect(rate.averageDaily).toBe(37.5);
+      expect(rate.projectedTotal).toBe(150);
+    });
+  });
+
+  describe('getPlanEstimate', () => {
+    const estimate: TripBudget = { total: 1000, categoryLimits: { food: 300 }, source: 'ai' };
+
+    it('should prefer the stored plan estimate over the budget', () => {
+      const budget: TripBudget = { total: 800, categoryLimits: {}, source: 'manual' };
+      expect(getPlanEstimate({ planEstimate: estimate, budget })).toBe(estimate);
+    });
+
+    it('should fall back to an AI-seeded budget and ignore manual ones', () => {
+      expect(getPlanEstimate({ budget: estimate })).toBe(estimate);
+      expect(getPlanEstimate({ budget: { ...estimate, source: 'manual' } })).toBeNull();
+      expect(getPlanEstimate(null)).toBeNull();
+    });
+  });
+
+  describe('compareWithEstimate', () => {
+    it('should compare the projected total and each estimated category', () => {
+      const lines = compareWithEstimate(
+        { total: 1000, categoryLimits: { food: 300, transport: 200 } },
+        [
+          makeExpense({ id: 'e1', amount: 350, category: 'food' }),
+          makeExpense({ id: 'e2', amount: 120, category: 'transport' }),
+        ],
+        1100
+      );
+
+      expect(lines).toEqual([
+        { key: 'total', estimated: 1000, actual: 1100, difference: 100 },
+        { key: 'food', estimated: 300, actual: 350, difference: 50 },
+        { key: 'transport', estimated: 200, actual: 120, difference: -80 },
+      ]);
+    });
+  });
+});
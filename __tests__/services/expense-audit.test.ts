@@ -0,0 +1,99 @@
+import {
+  canRestoreExpenses,
+  diffExpense,
+  getTrashDaysLeft,
+  getTrashExpiry,
+  isTrashExpired,
+} from '@/services/expense-audit';
+
+describe('Expense Audit Service', () => {
+  const expense = {
+    title: 'Dinner',
+    amount: 90,
+    currency: 'USD',
+    exchangeRate: 1,
+    paidBy: 'alice',
+    category: 'food',
+    splitType: 'equal',
+    itineraryItemId: null,
+    receiptDocumentId: null,
+    occurrenceDate: null,
+    shares: [
+      { userId: 'bob', shareAmount: 45 },
+      { userId: 'alice', shareAmount: 45 },
+    ],
+  };
+
+  describe('diffExpense', () => {
+    it('should record only the fields that changed', () => {
+      const changes = diffExpense(expense, {
+        ...expense,
+        amount: 120,
+        shares: [
+          { userId: 'alice', shareAmount: 60 },
+          { userId: 'bob', shareAmount: 60 },
+        ],
+      });
+
+      expect(changes).toEqual([
+        { field: 'amount', before: 90, after: 120 },
+        { field: 'shares', before: { alice: 45, bob: 45 }, after: { alice: 60, bob: 60 } },
+      ]);
+    });
+
+    it('should ignore share order and untracked fields', () => {
+      const reordered = { ...expense, shares: [...expense.shares].reverse(), tripId: 'trip1' };
+      expect(diffExpense(expense, reordered)).toEqual([]);
+    });
+
+    it('should record every value when an expense is created or deleted', () => {
+      const occurrenceDate = new Date(Date.UTC(2024, 5, 3));
+      const created = diffExpense(null, { ...expense, occurrenceDate });
+
+      expect(created.map((change) => change.field)).toEqual([
+        'title',
+        'amount',
+        'currency',
+        'exchangeRate',
+        'paidBy',
+        'category',
+        'splitType',
+        'shares',
+        'occurrenceDate',
+      ]);
+      expect(created[created.length - 1]).toEqual({
+        field: 'occurrenceDate',
+        before: null,
+        after: '2024-06-03T00:00:00.000Z',
+      });
+
+      const deleted = diffExpense(expense, null);
+      expect(deleted[0]).toEqual({ field: 'title', before: 'Dinner', after: null });
+    });
+  });
+
+  describe('trash retention', () => {
+    const deletedAt = new Date(2024, 5, 1, 12);
+
+    it('should keep deleted expenses for 30 days', () => {
+      expect(getTrashExpiry(deletedAt)).toEqual(new Date(deletedAt.getTime() + 30 * 24 * 60 * 60 * 1000));
+      expect(isTrashExpired(deletedAt, new Date(2024, 5, 30, 12))).toBe(false);
+      expect(isTrashExpired(deletedAt, new Date(2024, 6, 1, 12))).toBe(true);
+    });
+
+    it('should count the days left before the expense is purged', () => {
+      expect(getTrashDaysLeft(deletedAt, deletedAt)).toBe(30);
+      expect(getTrashDaysLeft(deletedAt, new Date(2024, 5, 30, 18))).toBe(1);
+      expect(getTrashDaysLeft(deletedAt, new Date(2024, 6, 5))).toBe(0);
+    });
+  });
+
+  describe('canRestoreExpenses', () => {
+    it('should allow owners and editors only', () => {
+      expect(canRestoreExpenses('owner')).toBe(true);
+      expect(canRestoreExpenses('editor')).toBe(true);
+      expect(canRestoreExpenses('viewer')).toBe(false);
+      expect(canRestoreExpenses(undefined)).toBe(false);
+    });
+  });
+});
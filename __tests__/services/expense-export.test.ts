@@ -0,0 +1,98 @@
+import {
+  buildExpensesCsv,
+  buildSplitwiseCsv,
+  escapeCsvValue,
+  getExportFileName,
+} from '@/services/expense-export';
+import { Expense, ExpenseShare } from '@/types/database';
+
+jest.mock('expo-file-system/legacy', () => ({
+  cacheDirectory: 'file:///cache/',
+  writeAsStringAsync: jest.fn(),
+  EncodingType: { UTF8: 'utf8' },
+}));
+
+jest.mock('expo-sharing', () => ({
+  isAvailableAsync: jest.fn(),
+  shareAsync: jest.fn(),
+}));
+
+const members = [
+  { id: 'alice', name: 'Alice' },
+  { id: 'bob', name: 'Bob' },
+];
+
+const expenses: Expense[] = [
+  {
+    id: 'e2',
+    tripId: 'trip-1',
+    title: 'Museum, tickets',
+    amount: 20,
+    currency: 'EUR',
+    exchangeRate: 90,
+    paidBy: 'bob',
+    category: 'activities',
+    createdAt: new Date(2025, 0, 3),
+    updatedAt: new Date(2025, 0, 3),
+  },
+  {
+    id: 'e1',
+    tripId: 'trip-1',
+    title: 'Dinner',
+    amount: 300,
+    currency: 'INR',
+    exchangeRate: 1,
+    paidBy: 'alice',
+    category: 'food',
+    createdAt: new Date(2025, 0, 2),
+    updatedAt: new Date(2025, 0, 2),
+  },
+];
+
+const shares: ExpenseShare[] = [
+  { id: 's1', expenseId: 'e1', userId: 'alice', shareAmount: 100 },
+  { id: 's2', expenseId: 'e1', userId: 'bob', shareAmount: 200 },
+];
+
+describe('Expense Export Service', () => {
+  describe('escapeCsvValue', () => {
+    it('should quote values with commas and escape quotes', () => {
+      expect(escapeCsvValue('plain')).toBe('plain');
+      expect(escapeCsvValue('a, b')).toBe('"a, b"');
+      expect(escapeCsvValue('say "hi"')).toBe('"say ""hi"""');
+      expect(escapeCsvValue(null)).toBe('');
+    });
+  });
+
+  describe('buildExpensesCsv', () => {
+    it('should export one row per expense with converted amounts and member shares', () => {
+      const lines = buildExpensesCsv({ expenses, shares, members, tripCurrency: 'INR' }).split('\n');
+
+      expect(lines[0]).toBe(
+        'Date,Description,Category,Paid By,Amount,Currency,Exchange Rate,Amount (INR),Alice Share (INR),Bob Share (INR)'
+      );
+      expect(lines[1]).toBe('2025-01-02,Dinner,food,Alice,300.00,INR,1,300.00,100.00,200.00');
+      // No shares recorded -> equal split, converted into the trip currency
+      expect(lines[2]).toBe(
+        '2025-01-03,"Museum, tickets",activities,Bob,20.00,EUR,90,1800.00,900.00,900.00'
+      );
+    });
+  });
+
+  describe('buildSplitwiseCsv', () => {
+    it('should export net amounts per member in the original currency', () => {
+      const lines = buildSplitwiseCsv({ expenses, shares, members, tripCurrency: 'INR' }).split('\n');
+
+      expect(lines[0]).toBe('Date,Description,Category,Cost,Currency,Alice,Bob');
+      expect(lines[1]).toBe('2025-01-02,Dinner,Dining out,300.00,INR,200.00,-200.00');
+      expect(lines[2]).toBe('2025-01-03,"Museum, tickets",Entertainment,20.00,EUR,-10.00,10.00');
+    });
+  });
+
+  describe('getExportFileName', () => {
+    it('should build a safe file name per format', () => {
+      expect(getExportFileName('Goa Trip 2025!', 'csv')).toBe('goa-trip-2025-expenses.csv');
+      expect(getExportFileName('???', 'splitwise')).toBe('trip-splitwise.csv');
+    });
+  });
+});
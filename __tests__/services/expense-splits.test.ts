@@ -0,0 +1,109 @@
+import {
+  allocateCents,
+  getItemizedTotal,
+  resolveSplitShares,
+  validateSplit,
+} from '@/services/expense-splits';
+import { ExpenseSplitDefinition } from '@/types/database';
+
+const sum = (shares: Record<string, number>) =>
+  Math.round(Object.values(shares).reduce((acc, v) => acc + v, 0) * 100) / 100;
+
+describe('Expense Splits Service', () => {
+  describe('allocateCents', () => {
+    it('should hand out leftover cents so parts add up to the total', () => {
+      const parts = allocateCents(1000, [
+        { userId: 'a', weight: 1 },
+        { userId: 'b', weight: 1 },
+        { userId: 'c', weight: 1 },
+      ]);
+
+      expect(Object.values(parts).reduce((acc, v) => acc + v, 0)).toBe(1000);
+      expect(Object.values(parts).sort()).toEqual([333, 333, 334]);
+    });
+
+    it('should ignore members without weight', () => {
+      expect(allocateCents(500, [{ userId: 'a', weight: 0 }])).toEqual({});
+    });
+  });
+
+  describe('resolveSplitShares', () => {
+    it('should split equally among participants', () => {
+      const shares = resolveSplitShares(100, { type: 'equal', participants: ['a', 'b', 'c'] });
+
+      expect(sum(shares)).toBe(100);
+      expect(shares.a).toBeCloseTo(33.33, 1);
+    });
+
+    it('should weight shares so a couple counts as 2', () => {
+      const split: ExpenseSplitDefinition = {
+        type: 'shares',
+        participants: ['couple', 'solo'],
+        weights: { couple: 2, solo: 1 },
+      };
+
+      expect(resolveSplitShares(300, split)).toEqual({ couple: 200, solo: 100 });
+    });
+
+    it('should spread tax and tip proportionally across itemized shares', () => {
+      const split: ExpenseSplitDefinition = {
+        type: 'itemized',
+        participants: ['a', 'b'],
+        items: [
+          { id: '1', name: 'Steak', amount: 30, assignedTo: ['a'] },
+          { id: '2', name: 'Salad', amount: 10, assignedTo: ['b'] },
+          { id: '3', name: 'Wine', amount: 20, assignedTo: ['a', 'b'] },
+        ],
+        tax: 6,
+        tip: 6,
+      };
+
+      const total = getItemizedTotal(split);
+      const shares = resolveSplitShares(total, split);
+
+      expect(total).toBe(72);
+      // a: 40 of 60 in items -> 2/3 of the 12 in tax + tip
+      expect(shares).toEqual({ a: 48, b: 24 });
+    });
+
+    it('should keep itemized shares exact when tax does not divide evenly', () => {
+      const split: ExpenseSplitDefinition = {
+        type: 'itemized',
+        participants: ['a', 'b', 'c'],
+        items: [{ id: '1', name: 'Pizza', amount: 10, assignedTo: ['a', 'b', 'c'] }],
+        tax: 1,
+      };
+
+      expect(sum(resolveSplitShares(11, split))).toBe(11);
+    });
+  });
+
+  describe('validateSplit', () => {
+    it('should reject custom amounts that do not match the total', () => {
+      const split: ExpenseSplitDefinition = {
+        type: 'custom',
+        participants: ['a', 'b'],
+        customAmounts: { a: 10, b: 5 },
+      };
+
+      expect(validateSplit(20, split)).toBe('Custom amounts must equal the total expense amount');
+      expect(validateSplit(15, split)).toBeNull();
+    });
+
+    it('should require every receipt item to be assigned', () => {
+      const split: ExpenseSplitDefinition = {
+        type: 'itemized',
+        participants: [],
+        items: [{ id: '1', name: 'Dessert', amount: 8, assignedTo: [] }],
+      };
+
+      expect(validateSplit(8, split)).toBe('Assign "Dessert" to at least one member');
+    });
+
+    it('should require at least one weighted member', () => {
+      expect(
+        validateSplit(50, { type: 'shares', participants: ['a'], weights: { a: 0 } })
+      ).toBe('Give at least one member a share');
+    });
+  });
+});
@@ -0,0 +1,47 @@
+import {
+  canDeleteItineraryContent,
+  getCommentPreview,
+  isImageAttachment,
+} from '@/services/itinerary-comments';
+
+describe('Itinerary Comments Service', () => {
+  describe('canDeleteItineraryContent', () => {
+    it('should let anyone remove what they added', () => {
+      expect(canDeleteItineraryContent('alice', 'alice', 'viewer')).toBe(true);
+    });
+
+    it('should let owners and editors remove what others added', () => {
+      expect(canDeleteItineraryContent('alice', 'bob', 'owner')).toBe(true);
+      expect(canDeleteItineraryContent('alice', 'bob', 'editor')).toBe(true);
+      expect(canDeleteItineraryContent('alice', 'bob', 'viewer')).toBe(false);
+      expect(canDeleteItineraryContent('alice', 'bob', null)).toBe(false);
+    });
+
+    it('should refuse signed-out users', () => {
+      expect(canDeleteItineraryContent('alice', undefined, 'owner')).toBe(false);
+    });
+  });
+
+  describe('getCommentPreview', () => {
+    it('should keep short comments on one line', () => {
+      expect(getCommentPreview('  Meet at the\n\nfront gate ')).toBe('Meet at the front gate');
+    });
+
+    it('should cut long comments at a word', () => {
+      const preview = getCommentPreview(
+        'The tram gets really busy after ten so we should meet at the stop by nine and grab pastries on the way'
+      );
+
+      expect(preview).toBe('The tram gets really busy after ten so we should meet at the stop by nine and…');
+      expect(preview.length).toBeLessThanOrEqual(80);
+    });
+  });
+
+  describe('isImageAttachment', () => {
+    it('should spot photos by type or file name', () => {
+      expect(isImageAttachment({ type: 'photo', label: 'IMG_0001' })).toBe(true);
+      expect(isImageAttachment({ type: 'other', label: 'boarding.PNG' })).toBe(true);
+      expect(isImageAttachment({ type: 'flight', label: 'ticket.pdf' })).toBe(false);
+    });
+  });
+});
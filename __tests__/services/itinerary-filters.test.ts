@@ -0,0 +1,90 @@
+import {
+  EMPTY_ITINERARY_FILTERS,
+  filterItineraryItems,
+  getItemCategory,
+  hasActiveFilters,
+} from '@/services/itinerary-filters';
+
+const items = [
+  {
+    id: 'dinner',
+    title: 'Dinner at Time Out Market',
+    description: 'Book a table for six',
+    location: 'Cais do Sodré',
+    category: 'food',
+    addedBy: 'alice',
+    latitude: 38.707,
+    longitude: -9.146,
+    startTime: new Date(2025, 5, 10, 20),
+  },
+  {
+    id: 'castle',
+    title: 'São Jorge Castle',
+    description: null,
+    location: 'Alfama',
+    category: 'sightseeing',
+    addedBy: 'bob',
+    latitude: 38.714,
+    longitude: -9.134,
+    startTime: new Date(2025, 5, 10, 10),
+  },
+  {
+    id: 'souvenirs',
+    title: 'Buy souvenirs',
+    description: null,
+    location: null,
+    category: null,
+    addedBy: 'alice',
+    latitude: null,
+    longitude: null,
+    startTime: null,
+  },
+];
+
+const ids = (result: { id: string }[]) => result.map((item) => item.id);
+
+describe('Itinerary Filters Service', () => {
+  describe('filterItineraryItems', () => {
+    it('should list everything in date order with unscheduled items last', () => {
+      expect(ids(filterItineraryItems(items, EMPTY_ITINERARY_FILTERS))).toEqual(['castle', 'dinner', 'souvenirs']);
+    });
+
+    it('should search titles, descriptions and locations by every word', () => {
+      const search = (query: string) => ids(filterItineraryItems(items, { ...EMPTY_ITINERARY_FILTERS, query }));
+
+      expect(search('table')).toEqual(['dinner']);
+      expect(search('ALFAMA castle')).toEqual(['castle']);
+      expect(search('castle market')).toEqual([]);
+    });
+
+    it('should filter by category, treating uncategorised items as other', () => {
+      expect(ids(filterItineraryItems(items, { ...EMPTY_ITINERARY_FILTERS, categories: ['food', 'other'] })))
+        .toEqual(['dinner', 'souvenirs']);
+    });
+
+    it('should filter by who added the item', () => {
+      expect(ids(filterItineraryItems(items, { ...EMPTY_ITINERARY_FILTERS, addedBy: 'bob' }))).toEqual(['castle']);
+    });
+
+    it('should filter by whether the item has a location', () => {
+      expect(ids(filterItineraryItems(items, { ...EMPTY_ITINERARY_FILTERS, hasLocation: true })))
+        .toEqual(['castle', 'dinner']);
+      expect(ids(filterItineraryItems(items, { ...EMPTY_ITINERARY_FILTERS, hasLocation: false })))
+        .toEqual(['souvenirs']);
+    });
+  });
+
+  describe('hasActiveFilters', () => {
+    it('should ignore a blank search', () => {
+      expect(hasActiveFilters({ ...EMPTY_ITINERARY_FILTERS, query: '  ' })).toBe(false);
+      expect(hasActiveFilters({ ...EMPTY_ITINERARY_FILTERS, hasLocation: false })).toBe(true);
+    });
+  });
+
+  describe('getItemCategory', () => {
+    it('should default to other', () => {
+      expect(getItemCategory({ category: null })).toBe('other');
+      expect(getItemCategory({ category: 'food' })).toBe('food');
+    });
+  });
+});
@@ -0,0 +1,108 @@
+import {
+  getDayKey,
+  getItemsForDay,
+  getItineraryDayKeys,
+  planItineraryMove,
+  planMoveToDay,
+} from '@/services/itinerary-schedule';
+
+const at = (day: number, hours: number, minutes: number = 0) => new Date(2025, 5, day, hours, minutes);
+
+const item = (id: string, startTime: Date, endTime: Date | null) => ({ id, startTime, endTime });
+
+describe('Itinerary Schedule Service', () => {
+  const june10 = getDayKey(at(10, 0));
+  const june11 = getDayKey(at(11, 0));
+
+  describe('getItineraryDayKeys', () => {
+    it('should list every trip day plus days outside the trip that have items', () => {
+      const days = getItineraryDayKeys(at(10, 0), at(12, 0), [item('late', at(14, 9), null)]);
+
+      expect(days).toEqual([june10, june11, getDayKey(at(12, 0)), getDayKey(at(14, 0))]);
+    });
+
+    it('should fall back to the days with items when the trip has no dates', () => {
+      expect(getItineraryDayKeys(null, null, [item('a', at(11, 9), null), item('b', at(10, 9), null)]))
+        .toEqual([june10, june11]);
+    });
+  });
+
+  describe('getItemsForDay', () => {
+    it('should return the day\'s items in time order', () => {
+      const items = [item('b', at(10, 12), null), item('c', at(11, 9), null), item('a', at(10, 9), null)];
+
+      expect(getItemsForDay(items, june10).map((i) => i.id)).toEqual(['a', 'b']);
+    });
+  });
+
+  describe('planItineraryMove', () => {
+    it('should leave an item where it is when it is dropped in its own place', () => {
+      const items = [item('a', at(10, 9), at(10, 10)), item('b', at(10, 10, 30), at(10, 11, 30))];
+
+      expect(planItineraryMove(items, 'a', june10, 0)).toEqual([]);
+      expect(planItineraryMove(items, 'missing', june10, 0)).toEqual([]);
+    });
+
+    it('should move an item to end just as the first item of the day starts', () => {
+      const items = [item('a', at(10, 9), at(10, 10)), item('c', at(10, 14), at(10, 15))];
+
+      expect(planItineraryMove(items, 'c', june10, 0)).toEqual([
+        { itemId: 'c', startTime: at(10, 8), endTime: at(10, 9) },
+      ]);
+    });
+
+    it('should push overlapping items back until a gap absorbs the shift', () => {
+      const items = [
+        item('a', at(10, 9), at(10, 10)),
+        item('b', at(10, 10), at(10, 11)),
+        item('c', at(10, 11), at(10, 12)),
+        item('f', at(10, 14), at(10, 15)),
+        item('e', at(10, 15), at(10, 16)),
+      ];
+
+      expect(planItineraryMove(items, 'e', june10, 1)).toEqual([
+        { itemId: 'e', startTime: at(10, 10), endTime: at(10, 11) },
+        { itemId: 'b', startTime: at(10, 11), endTime: at(10, 12) },
+        { itemId: 'c', startTime: at(10, 12), endTime: at(10, 13) },
+      ]);
+    });
+
+    it('should keep the clock time when moving to another day where it fits', () => {
+      const items = [item('c', at(10, 14), at(10, 15)), item('d', at(11, 9), at(11, 10))];
+
+      expect(planItineraryMove(items, 'c', june11, 1)).toEqual([
+        { itemId: 'c', startTime: at(11, 14), endTime: at(11, 15) },
+      ]);
+    });
+
+    it('should give items without an end time a default length', () => {
+      const items = [item('a', at(10, 9), at(10, 10)), item('u', at(10, 16), null)];
+
+      expect(planItineraryMove(items, 'u', june10, 0)).toEqual([
+        { itemId: 'u', startTime: at(10, 8, 30), endTime: null },
+      ]);
+    });
+  });
+
+  describe('planMoveToDay', () => {
+    it('should move selected items to the day at the same clock time, skipping any already there', () => {
+      const items = [
+        item('a', at(10, 9), at(10, 10)),
+        item('b', at(11, 14), null),
+        item('c', at(10, 12), at(10, 13)),
+      ];
+
+      expect(planMoveToDay(items, ['a', 'b'], june11)).toEqual([
+        { itemId: 'a', startTime: at(11, 9), endTime: at(11, 10) },
+      ]);
+    });
+
+    it('should start unscheduled items in the morning', () => {
+      const items = [{ id: 'u', startTime: null, endTime: null }];
+
+      expect(planMoveToDay(items, ['u'], june11)).toEqual([
+        { itemId: 'u', startTime: at(11, 9), endTime: null },
+      ]);
+    });
+  });
+});
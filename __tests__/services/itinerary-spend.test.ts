@@ -0,0 +1,80 @@
+import {
+  computeDailySpend,
+  getExpenseDayKey,
+  getLinkedExpenses,
+  sumConvertedExpenses,
+} from '@/services/itinerary-spend';
+import { Expense } from '@/types/database';
+
+const makeExpense = (
+  overrides: Partial<Expense> & Pick<Expense, 'amount'>
+): Pick<Expense, 'amount' | 'exchangeRate' | 'itineraryItemId' | 'occurrenceDate' | 'createdAt'> => ({
+  exchangeRate: 1,
+  itineraryItemId: null,
+  occurrenceDate: null,
+  createdAt: new Date(2024, 2, 1, 12),
+  ...overrides,
+});
+
+describe('Itinerary Spend Service', () => {
+  const items = [
+    { id: 'museum', startTime: new Date(2024, 2, 2, 10) },
+    { id: 'dinner', startTime: new Date(2024, 2, 3, 19) },
+  ];
+
+  describe('getLinkedExpenses', () => {
+    it('should return only expenses linked to the item', () => {
+      const expenses = [
+        makeExpense({ amount: 10, itineraryItemId: 'museum' }),
+        makeExpense({ amount: 20, itineraryItemId: 'dinner' }),
+        makeExpense({ amount: 30 }),
+      ];
+
+      expect(getLinkedExpenses(expenses, 'museum').map((e) => e.amount)).toEqual([10]);
+    });
+  });
+
+  describe('sumConvertedExpenses', () => {
+    it('should add expenses up in the trip currency', () => {
+      const expenses = [makeExpense({ amount: 10, exchangeRate: 90 }), makeExpense({ amount: 50 })];
+      expect(sumConvertedExpenses(expenses)).toBe(950);
+    });
+  });
+
+  describe('getExpenseDayKey', () => {
+    const itemsById = Object.fromEntries(items.map((item) => [item.id, item]));
+
+    it('should use the linked item day over the logged day', () => {
+      const expense = makeExpense({ amount: 10, itineraryItemId: 'museum' });
+      expect(getExpenseDayKey(expense, itemsById)).toBe(new Date(2024, 2, 2).toDateString());
+    });
+
+    it('should use the occurrence date for recurring expenses', () => {
+      const expense = makeExpense({ amount: 10, occurrenceDate: new Date(2024, 2, 4, 9) });
+      expect(getExpenseDayKey(expense, itemsById)).toBe(new Date(2024, 2, 4).toDateString());
+    });
+
+    it('should fall back to the created date when the linked item is gone', () => {
+      const expense = makeExpense({ amount: 10, itineraryItemId: 'deleted' });
+      expect(getExpenseDayKey(expense, itemsById)).toBe(new Date(2024, 2, 1).toDateString());
+    });
+  });
+
+  describe('computeDailySpend', () => {
+    it('should roll spending up per day', () => {
+      const spend = computeDailySpend(
+        [
+          makeExpense({ amount: 15, itineraryItemId: 'museum' }),
+          makeExpense({ amount: 5, exchangeRate: 2, createdAt: new Date(2024, 2, 2, 8) }),
+          makeExpense({ amount: 40, itineraryItemId: 'dinner' }),
+        ],
+        items
+      );
+
+      expect(spend).toEqual({
+        [new Date(2024, 2, 2).toDateString()]: 25,
+        [new Date(2024, 2, 3).toDateString()]: 40,
+      });
+    });
+  });
+});
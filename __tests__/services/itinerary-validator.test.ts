@@ -0,0 +1,115 @@
+import { getDayKey } from '@/services/itinerary-schedule';
+import {
+  estimateStraightLineMinutes,
+  getItemWarnings,
+  validateItineraryDay,
+} from '@/services/itinerary-validator';
+import { ItineraryItem } from '@/types/database';
+
+const at = (day: number, hours: number, minutes: number = 0) => new Date(2025, 5, day, hours, minutes);
+
+const item = (
+  id: string,
+  startTime: Date,
+  endTime: Date | null,
+  extra: Partial<ItineraryItem> = {}
+): ItineraryItem => ({
+  id,
+  tripId: 'trip-1',
+  title: id,
+  startTime,
+  endTime,
+  addedBy: 'user-1',
+  createdAt: at(1, 0),
+  ...extra,
+});
+
+const LISBON = { latitude: 38.7139, longitude: -9.1394 };
+const SINTRA = { latitude: 38.8029, longitude: -9.3817 };
+
+// A stay covering every night of the trip, so tests can focus on one check at a time
+const hotel = item('hotel', at(10, 15), at(12, 11), { category: 'accommodation' });
+
+describe('Itinerary Validator Service', () => {
+  const trip = { startDate: at(10, 0), endDate: at(12, 0) };
+  const june10 = getDayKey(at(10, 0));
+
+  const types = async (items: ItineraryItem[], dayKey: string = june10) =>
+    (await validateItineraryDay(trip, items, dayKey)).map((warning) => `${warning.type}:${warning.itemId}`);
+
+  describe('estimateStraightLineMinutes', () => {
+    it('should walk short hops and drive longer ones', async () => {
+      const nearby = { latitude: LISBON.latitude + 0.009, longitude: LISBON.longitude };
+
+      expect(await estimateStraightLineMinutes(LISBON, nearby)).toBeCloseTo(12, 0);
+      expect(await estimateStraightLineMinutes(LISBON, SINTRA)).toBeGreaterThan(40);
+    });
+  });
+
+  describe('validateItineraryDay', () => {
+    it('should pass a day with nothing wrong', async () => {
+      expect(await types([hotel, item('a', at(10, 9), at(10, 10)), item('b', at(10, 11), at(10, 12))])).toEqual([]);
+    });
+
+    it('should flag overlapping items', async () => {
+      expect(await types([hotel, item('a', at(10, 9), at(10, 11)), item('b', at(10, 10), at(10, 12))]))
+        .toEqual(['overlap:b']);
+    });
+
+    it('should flag items outside the trip dates', async () => {
+      expect(await types([hotel, item('late', at(14, 10), at(14, 11))], getDayKey(at(14, 0))))
+        .toEqual(['outsideTrip:late']);
+    });
+
+    it('should flag transfers that take longer than the gap', async () => {
+      const items = [
+        hotel,
+        item('castle', at(10, 9), at(10, 11), LISBON),
+        item('palace', at(10, 11, 15), at(10, 13), SINTRA),
+      ];
+
+      expect(await types(items)).toEqual(['impossibleTransfer:palace']);
+    });
+
+    it('should use the travel time estimator it is given', async () => {
+      const items = [
+        hotel,
+        item('castle', at(10, 9), at(10, 11), LISBON),
+        item('palace', at(10, 11, 15), at(10, 13), SINTRA),
+      ];
+
+      expect(await validateItineraryDay(trip, items, june10, async () => 10)).toEqual([]);
+      // No route found: falls back to the straight-line estimate
+      expect(await validateItineraryDay(trip, items, june10, async () => null)).toHaveLength(1);
+    });
+
+    it('should flag nights of the trip without accommodation, but not the last day', async () => {
+      const warnings = await validateItineraryDay(trip, [item('a', at(10, 9), at(10, 10))], june10);
+
+      expect(warnings).toHaveLength(1);
+      expect(warnings[0].type).toBe('missingAccommodation');
+      expect(warnings[0].itemId).toBeNull();
+      expect(await types([], getDayKey(at(12, 0)))).toEqual([]);
+    });
+
+    it('should flag late finishes with nowhere to stay', async () => {
+      const items = [item('party', at(11, 22), at(12, 0, 30)), item('brunch', at(12, 10), at(12, 11))];
+
+      expect(await types(items, getDayKey(at(11, 0)))).toEqual(['lateNightGap:party', 'missingAccommodation:null']);
+      expect(await types([hotel, ...items], getDayKey(at(11, 0)))).toEqual([]);
+    });
+  });
+
+  describe('getItemWarnings', () => {
+    it('should pick out one item\'s warnings', async () => {
+      const warnings = await validateItineraryDay(trip, [
+        hotel,
+        item('a', at(10, 9), at(10, 11)),
+        item('b', at(10, 10), at(10, 12)),
+      ], june10);
+
+      expect(getItemWarnings(warnings, 'b')).toHaveLength(1);
+      expect(getItemWarnings(warnings, 'a')).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,96 @@
+import {
+  countTiles,
+  estimateMapDownload,
+  getBoundsForPoints,
+  getTilePath,
+  getTileRange,
+  getTileUrl,
+  iterateTiles,
+  latitudeToTileY,
+  longitudeToTileX,
+} from '@/services/map-tiles';
+
+const lisbon = { north: 38.75, south: 38.7, east: -9.1, west: -9.2 };
+
+describe('Map Tiles Service', () => {
+  describe('getBoundsForPoints', () => {
+    it('should pad the box around every located stop', () => {
+      const bounds = getBoundsForPoints([
+        { latitude: 38.7, longitude: -9.2 },
+        { latitude: null, longitude: null },
+        { latitude: 38.8, longitude: -9.0 },
+      ]);
+
+      expect(bounds?.north).toBeCloseTo(38.825);
+      expect(bounds?.south).toBeCloseTo(38.675);
+      expect(bounds?.east).toBeCloseTo(-8.975);
+      expect(bounds?.west).toBeCloseTo(-9.225);
+    });
+
+    it('should cover an area around a single point', () => {
+      const bounds = getBoundsForPoints([{ latitude: 38.7, longitude: -9.1 }]);
+
+      expect(bounds?.north).toBeCloseTo(38.725);
+      expect(bounds?.west).toBeCloseTo(-9.125);
+    });
+
+    it('should return null without coordinates', () => {
+      expect(getBoundsForPoints([])).toBeNull();
+      expect(getBoundsForPoints([{ latitude: 38.7 }])).toBeNull();
+    });
+  });
+
+  describe('tile coordinates', () => {
+    it('should match the standard slippy-map scheme', () => {
+      expect(longitudeToTileX(0, 1)).toBe(1);
+      expect(latitudeToTileY(0, 1)).toBe(1);
+      expect(longitudeToTileX(-9.14, 12)).toBe(1944);
+      expect(latitudeToTileY(38.71, 12)).toBe(1569);
+    });
+
+    it('should keep the edges of the world on the map', () => {
+      expect(longitudeToTileX(180, 3)).toBe(7);
+      expect(latitudeToTileY(90, 3)).toBe(0);
+      expect(latitudeToTileY(-90, 3)).toBe(7);
+    });
+  });
+
+  describe('estimates', () => {
+    it('should count tiles across the zoom range', () => {
+      const { minX, maxX, minY, maxY } = getTileRange(lisbon, 14);
+      const atFourteen = (maxX - minX + 1) * (maxY - minY + 1);
+
+      expect(countTiles(lisbon, 14, 14)).toBe(atFourteen);
+      expect(countTiles(lisbon, 10, 14)).toBeGreaterThan(atFourteen);
+    });
+
+    it('should estimate the download size from the tile count', () => {
+      const estimate = estimateMapDownload(lisbon, 10, 16);
+
+      expect(estimate.tileCount).toBe(countTiles(lisbon, 10, 16));
+      expect(estimate.sizeInMB).toBeGreaterThan(0);
+    });
+  });
+
+  describe('iterateTiles', () => {
+    it('should list every tile once, lowest zoom first', () => {
+      const tiles = [...iterateTiles(lisbon, 10, 13)];
+
+      expect(tiles).toHaveLength(countTiles(lisbon, 10, 13));
+      expect(tiles[0].z).toBe(10);
+      expect(tiles[tiles.length - 1].z).toBe(13);
+      expect(new Set(tiles.map(getTilePath)).size).toBe(tiles.length);
+    });
+  });
+
+  describe('tile locations', () => {
+    it('should fill in the URL template and file path', () => {
+      const tile = { x: 1944, y: 1569, z: 12 };
+
+      expect(getTileUrl('https://tiles.example.com/{z}/{x}/{y}.png', tile)).toBe(
+        'https://tiles.example.com/12/1944/1569.png'
+      );
+      expect(getTilePath(tile)).toBe('12/1944/1569.png');
+    });
+  });
+});
@@ -0,0 +1,229 @@
+import {
+  checkMutationConflict,
+  collectLocalIds,
+  createLocalId,
+  describeMutation,
+  getMutationDependencies,
+  getMutationKeys,
+  getMutationStatus,
+  getNextRetryAt,
+  getRetryDelay,
+  isLocalId,
+  keepLocalChanges,
+  MAX_MUTATION_ATTEMPTS,
+  MutationBase,
+  OfflineQueueItem,
+  recordMutationFailure,
+  remapLocalIds,
+  reviveDateFields,
+} from '@/services/mutation-queue';
+
+const tripCreate: OfflineQueueItem = {
+  id: 'q1',
+  type: 'create',
+  collection: 'trips',
+  data: {
+    tempId: 'local_trip',
+    tripData: {
+      title: 'Lisbon',
+      startDate: new Date(2024, 5, 1),
+      endDate: new Date(2024, 5, 7),
+      creatorId: 'alice',
+    },
+  },
+  timestamp: 1000,
+};
+
+const itineraryCreate: OfflineQueueItem = {
+  id: 'q2',
+  type: 'create',
+  collection: 'itineraryItems',
+  data: {
+    tempId: 'local_item',
+    itemData: { tripId: 'local_trip', title: 'Tram 28', addedBy: 'alice' },
+  },
+  timestamp: 2000,
+};
+
+const itineraryUpdate: OfflineQueueItem = {
+  id: 'q3',
+  type: 'update',
+  collection: 'itineraryItems',
+  data: {
+    itemId: 'item1',
+    changes: { title: 'Sunset at Miradouro', location: 'Graça' },
+    base: { title: 'Miradouro', location: 'Alfama' },
+    baseUpdatedAt: 5000,
+  },
+  timestamp: 6000,
+};
+
+describe('Mutation Queue Service', () => {
+  describe('local IDs', () => {
+    it('should mark IDs created offline', () => {
+      expect(isLocalId(createLocalId())).toBe(true);
+      expect(isLocalId('e1')).toBe(false);
+      expect(createLocalId()).not.toBe(createLocalId());
+    });
+  });
+
+  describe('temp ID remapping', () => {
+    it('should find local IDs anywhere in a payload', () => {
+      expect([...collectLocalIds(itineraryCreate.data)].sort()).toEqual(['local_item', 'local_trip']);
+    });
+
+    it('should point dependent mutations at the real ID', () => {
+      const remapped = remapLocalIds(itineraryCreate, { local_trip: 'trip1' });
+
+      expect(remapped.data).toEqual({
+        tempId: 'local_item',
+        itemData: { tripId: 'trip1', title: 'Tram 28', addedBy: 'alice' },
+      });
+      expect(itineraryCreate.data).not.toBe(remapped.data);
+    });
+
+    it('should leave dates and unrelated values alone', () => {
+      const date = new Date(2024, 5, 1);
+      expect(remapLocalIds({ date, amount: 5, note: 'local_trip' }, {})).toEqual({
+        date,
+        amount: 5,
+        note: 'local_trip',
+      });
+    });
+  });
+
+  describe('ordering', () => {
+    it('should key mutations by their target and the offline records they use', () => {
+      expect(getMutationKeys(tripCreate)).toEqual(['local_trip']);
+      expect(getMutationKeys(itineraryCreate).sort()).toEqual(['local_item', 'local_trip']);
+      expect(getMutationKeys(itineraryUpdate)).toEqual(['item1']);
+    });
+
+    it('should wait for offline-created records the mutation depends on', () => {
+      expect(getMutationDependencies(tripCreate)).toEqual([]);
+      expect(getMutationDependencies(itineraryCreate)).toEqual(['local_trip']);
+      expect(
+        getMutationDependencies({
+          id: 'q4',
+          type: 'delete',
+          collection: 'itineraryItems',
+          data: { itemId: 'local_item' },
+          timestamp: 3000,
+        })
+      ).toEqual(['local_item']);
+    });
+  });
+
+  describe('retries', () => {
+    it('should back off exponentially up to an hour', () => {
+      expect(getRetryDelay(1)).toBe(5000);
+      expect(getRetryDelay(2)).toBe(10000);
+      expect(getRetryDelay(4)).toBe(40000);
+      expect(getRetryDelay(20)).toBe(60 * 60 * 1000);
+    });
+
+    it('should schedule the next attempt after a transient failure', () => {
+      const { item, deadLetter } = recordMutationFailure(tripCreate, new Error('unavailable'), 10000);
+
+      expect(deadLetter).toBe(false);
+      expect(item).toMatchObject({ attempts: 1, nextAttemptAt: 15000, lastError: 'unavailable' });
+      expect(getNextRetryAt([tripCreate, item], 10000)).toBe(15000);
+      expect(getNextRetryAt([item], 20000)).toBeNull();
+    });
+
+    it('should dead-letter permanent errors and exhausted retries', () => {
+      const denied = Object.assign(new Error('Missing or insufficient permissions.'), { code: 'permission-denied' });
+      expect(recordMutationFailure(tripCreate, denied).deadLetter).toBe(true);
+
+      const exhausted = { ...tripCreate, attempts: MAX_MUTATION_ATTEMPTS - 1 };
+      expect(recordMutationFailure(exhausted, new Error('unavailable')).deadLetter).toBe(true);
+    });
+
+    it('should not retry items waiting on a conflict', () => {
+      const conflicted: OfflineQueueItem = {
+        ...itineraryUpdate,
+        nextAttemptAt: 9000,
+        conflict: { fields: ['title'], remote: { title: 'Castle' }, remoteUpdatedAt: 7000, detectedAt: 8000 },
+      };
+      expect(getNextRetryAt([conflicted], 8000)).toBeNull();
+    });
+  });
+
+  describe('checkMutationConflict', () => {
+    const changes = { title: 'Sunset at Miradouro', location: 'Graça' };
+    const base = { base: { title: 'Miradouro', location: 'Alfama' }, baseUpdatedAt: 5000 };
+
+    it('should apply edits to documents nobody else changed', () => {
+      const remote = { title: 'Miradouro', location: 'Alfama', updatedAt: new Date(5000) };
+      expect(checkMutationConflict(changes, base, remote, 6000, 'field-merge')).toEqual({ outcome: 'apply' });
+    });
+
+    it('should merge edits to fields the other side left alone', () => {
+      const remote = { title: 'Miradouro', location: 'Alfama', startTime: new Date(1), updatedAt: new Date(7000) };
+      expect(checkMutationConflict(changes, base, remote, 6000, 'field-merge')).toEqual({ outcome: 'apply' });
+    });
+
+    it('should report fields both sides changed differently', () => {
+      const remote = { title: 'Castle', location: 'Graça', updatedAt: new Date(7000) };
+
+      expect(checkMutationConflict(changes, base, remote, 6000, 'field-merge', 8000)).toEqual({
+        outcome: 'conflict',
+        conflict: { fields: ['title'], remote: { title: 'Castle' }, remoteUpdatedAt: 7000, detectedAt: 8000 },
+      });
+    });
+
+    it('should keep whichever write is later under last-write-wins', () => {
+      const remote = { title: 'Castle', updatedAt: new Date(7000) };
+
+      expect(checkMutationConflict(changes, base, remote, 6000, 'last-write-wins')).toEqual({ outcome: 'superseded' });
+      expect(checkMutationConflict(changes, base, remote, 8000, 'last-write-wins')).toEqual({ outcome: 'apply' });
+    });
+
+    it('should report documents deleted elsewhere', () => {
+      expect(checkMutationConflict(changes, base, null, 6000, 'field-merge')).toEqual({ outcome: 'missing' });
+    });
+
+    it('should replay the offline edit over theirs once the user keeps it', () => {
+      const remote = { title: 'Castle', location: 'Alfama', updatedAt: new Date(7000) };
+      const check = checkMutationConflict(changes, base, remote, 6000, 'field-merge', 8000);
+      if (check.outcome !== 'conflict') throw new Error('Expected a conflict');
+
+      const kept = keepLocalChanges({ ...itineraryUpdate, conflict: check.conflict });
+      expect(kept.conflict).toBeNull();
+      expect(checkMutationConflict(changes, kept.data as MutationBase, remote, 6000, 'field-merge')).toEqual({ outcome: 'apply' });
+    });
+  });
+
+  describe('sync status', () => {
+    it('should report where each queued change stands', () => {
+      const conflict = { fields: ['title'], remote: { title: 'Castle' }, remoteUpdatedAt: 7000, detectedAt: 8000 };
+
+      expect(getMutationStatus(tripCreate, null)).toBe('pending');
+      expect(getMutationStatus(tripCreate, 'q1')).toBe('syncing');
+      expect(getMutationStatus({ ...tripCreate, lastError: 'unavailable' }, null)).toBe('failed');
+      expect(getMutationStatus({ ...itineraryUpdate, conflict }, 'q3')).toBe('conflict');
+    });
+
+    it('should describe changes by entity, action and name', () => {
+      expect(describeMutation(tripCreate)).toEqual({ entity: 'Trip', action: 'Added', title: 'Lisbon' });
+      expect(describeMutation(itineraryUpdate)).toEqual({
+        entity: 'Itinerary item',
+        action: 'Edited',
+        title: 'Sunset at Miradouro',
+      });
+      expect(
+        describeMutation({ type: 'delete', collection: 'documents', data: { documentId: 'd1' } })
+      ).toEqual({ entity: 'Document', action: 'Deleted', title: null });
+    });
+  });
+
+  describe('reviveDateFields', () => {
+    it('should turn stored ISO strings back into Dates', () => {
+      const revived = reviveDateFields({ title: 'Lisbon', startDate: '2024-06-01T00:00:00.000Z' }, [
+        'startDate',
+        'endDate',
+      ]);
+      expect(revived).toEqual({ title: 'Lisbon', startDate: new Date('2024-06-01T00:00:00.000Z') });
+    });
+  });
+});
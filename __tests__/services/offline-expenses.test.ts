@@ -0,0 +1,175 @@
+import type { OfflineQueueItem } from '@/services/mutation-queue';
+import {
+  applyPendingExpenses,
+  applyPendingShares,
+  getPendingExpenseChanges,
+  reviveQueuedExpenseInput,
+} from '@/services/offline-expenses';
+import { Expense, ExpenseShare } from '@/types/database';
+
+const expenseData = {
+  tripId: 'trip1',
+  title: 'Taxi',
+  amount: 40,
+  currency: 'USD',
+  paidBy: 'alice',
+  category: 'transport',
+  split: { type: 'equal' as const, participants: ['alice', 'bob'] },
+  occurrenceDate: '2024-06-02T00:00:00.000Z',
+  shares: [
+    { userId: 'alice', shareAmount: 20 },
+    { userId: 'bob', shareAmount: 20 },
+  ],
+  actorId: 'alice',
+};
+
+const queue: OfflineQueueItem[] = [
+  {
+    id: 'q1',
+    type: 'create',
+    collection: 'expenses',
+    data: { tempId: 'local_1', expenseData },
+    timestamp: new Date(2024, 5, 2, 10).getTime(),
+  },
+  {
+    id: 'q2',
+    type: 'create',
+    collection: 'expenses',
+    data: { tempId: 'local_2', expenseData: { ...expenseData, tripId: 'trip2' } },
+    timestamp: new Date(2024, 5, 2, 11).getTime(),
+  },
+  {
+    id: 'q3',
+    type: 'update',
+    collection: 'expenses',
+    data: {
+      expenseId: 'e1',
+      changes: { title: 'Dinner for two', amount: 80 },
+      shares: [
+        { userId: 'alice', shareAmount: 40 },
+        { userId: 'bob', shareAmount: 40 },
+      ],
+      actorId: 'bob',
+    },
+    timestamp: new Date(2024, 5, 2, 12).getTime(),
+  },
+  {
+    id: 'q4',
+    type: 'update',
+    collection: 'expenses',
+    data: { expenseId: 'e1', changes: { category: 'food' }, actorId: 'bob' },
+    timestamp: new Date(2024, 5, 2, 13).getTime(),
+  },
+  {
+    id: 'q5',
+    type: 'update',
+    collection: 'trips',
+    data: { tripId: 'trip1', updateData: { title: 'Renamed' } },
+    timestamp: new Date(2024, 5, 2, 14).getTime(),
+  },
+];
+
+const syncedExpense: Expense = {
+  id: 'e1',
+  tripId: 'trip1',
+  title: 'Dinner',
+  amount: 60,
+  currency: 'USD',
+  exchangeRate: 1,
+  paidBy: 'bob',
+  category: 'other',
+  createdAt: new Date(2024, 5, 1, 20),
+  updatedAt: new Date(2024, 5, 1, 20),
+};
+
+describe('Offline Expenses Service', () => {
+  describe('getPendingExpenseChanges', () => {
+    it('should show queued creates for the trip as pending expenses', () => {
+      const pending = getPendingExpenseChanges(queue, 'trip1');
+
+      expect(pending.created).toHaveLength(1);
+      expect(pending.created[0]).toMatchObject({
+        id: 'local_1',
+        title: 'Taxi',
+        exchangeRate: 1,
+        category: 'transport',
+        splitType: 'equal',
+        pendingSync: true,
+        createdAt: new Date(2024, 5, 2, 10),
+      });
+      expect(pending.created[0].occurrenceDate).toEqual(new Date('2024-06-02T00:00:00.000Z'));
+      expect(pending.shares.local_1.map((share) => share.shareAmount)).toEqual([20, 20]);
+    });
+
+    it('should combine successive edits to the same expense', () => {
+      const pending = getPendingExpenseChanges(queue, 'trip1');
+
+      expect(pending.updates.e1.changes).toEqual({ title: 'Dinner for two', amount: 80, category: 'food' });
+      expect(pending.updates.e1.shares).toHaveLength(2);
+    });
+
+    it('should include every trip when no trip is given', () => {
+      expect(getPendingExpenseChanges(queue).created.map((e) => e.id)).toEqual(['local_1', 'local_2']);
+    });
+  });
+
+  describe('applyPendingExpenses', () => {
+    it('should apply offline edits and list offline expenses newest first', () => {
+      const expenses = applyPendingExpenses([syncedExpense], getPendingExpenseChanges(queue, 'trip1'));
+
+      expect(expenses.map((e) => e.id)).toEqual(['local_1', 'e1']);
+      expect(expenses[1]).toMatchObject({
+        title: 'Dinner for two',
+        amount: 80,
+        category: 'food',
+        pendingSync: true,
+      });
+    });
+
+    it('should hide expenses deleted offline', () => {
+      const deleteQueue: OfflineQueueItem[] = [
+        {
+          id: 'q6',
+          type: 'delete',
+          collection: 'expenses',
+          data: { expenseId: 'e1', actorId: 'alice' },
+          timestamp: new Date(2024, 5, 2, 15).getTime(),
+        },
+      ];
+
+      expect(applyPendingExpenses([syncedExpense], getPendingExpenseChanges(deleteQueue, 'trip1'))).toEqual([]);
+    });
+
+    it('should leave expenses without pending changes untouched', () => {
+      const expenses = applyPendingExpenses([syncedExpense], getPendingExpenseChanges([], 'trip1'));
+      expect(expenses).toEqual([syncedExpense]);
+    });
+  });
+
+  describe('applyPendingShares', () => {
+    it('should swap in queued splits for the requested expenses', () => {
+      const synced: ExpenseShare[] = [
+        { id: 's1', expenseId: 'e1', userId: 'bob', shareAmount: 60 },
+        { id: 's2', expenseId: 'e2', userId: 'alice', shareAmount: 15 },
+      ];
+
+      const shares = applyPendingShares(synced, getPendingExpenseChanges(queue), ['e1', 'e2', 'local_1']);
+
+      expect(shares.map((share) => [share.expenseId, share.userId, share.shareAmount])).toEqual([
+        ['e2', 'alice', 15],
+        ['e1', 'alice', 40],
+        ['e1', 'bob', 40],
+        ['local_1', 'alice', 20],
+        ['local_1', 'bob', 20],
+      ]);
+    });
+  });
+
+  describe('reviveQueuedExpenseInput', () => {
+    it('should turn the stored date back into a Date', () => {
+      const revived = reviveQueuedExpenseInput(expenseData);
+      expect(revived.occurrenceDate).toEqual(new Date('2024-06-02T00:00:00.000Z'));
+      expect(reviveQueuedExpenseInput({ ...expenseData, occurrenceDate: null }).occurrenceDate).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,186 @@
+import { runMutation } from '@/services/mutation-handlers';
+import { OfflineQueueItem } from '@/services/mutation-queue';
+import { getDeadLetterQueue, getOfflineQueue, processOfflineQueue } from '@/services/offline';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+// In-memory AsyncStorage, so the queue can be read back after each sync
+const mockStorage = new Map<string, string>();
+
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  getItem: jest.fn((key: string) => Promise.resolve(mockStorage.get(key) ?? null)),
+  setItem: jest.fn((key: string, value: string) => {
+    mockStorage.set(key, value);
+    return Promise.resolve();
+  }),
+  removeItem: jest.fn((key: string) => {
+    mockStorage.delete(key);
+    return Promise.resolve();
+  }),
+}));
+
+jest.mock('@react-native-community/netinfo', () => ({
+  fetch: jest.fn(() => Promise.resolve({ isConnected: true })),
+  addEventListener: jest.fn(),
+}));
+
+jest.mock('expo-file-system/legacy', () => ({
+  documentDirectory: 'file:///documents/',
+}));
+
+jest.mock('expo-constants', () => ({
+  expoConfig: {},
+}));
+
+jest.mock('@/services/mutation-handlers', () => ({
+  runMutation: jest.fn(),
+}));
+
+const mockRunMutation = runMutation as jest.MockedFunction<typeof runMutation>;
+const mockAsyncStorage = AsyncStorage as jest.Mocked<typeof AsyncStorage>;
+
+const QUEUE_KEY = '@tripbuddy/offline_queue';
+const LAST_SYNC_KEY = '@tripbuddy/last_sync';
+const NOW = 1_700_000_000_000;
+
+const tripCreate: OfflineQueueItem = {
+  id: 'q1',
+  type: 'create',
+  collection: 'trips',
+  data: {
+    tempId: 'local_trip',
+    tripData: {
+      title: 'Lisbon',
+      startDate: new Date(2024, 5, 1),
+      endDate: new Date(2024, 5, 7),
+      creatorId: 'alice',
+    },
+  },
+  timestamp: 1000,
+};
+
+const itineraryCreate: OfflineQueueItem = {
+  id: 'q2',
+  type: 'create',
+  collection: 'itineraryItems',
+  data: {
+    tempId: 'local_item',
+    itemData: { tripId: 'local_trip', title: 'Tram 28', addedBy: 'alice' },
+  },
+  timestamp: 2000,
+};
+
+const tripUpdate = (id: string, tripId: string, title: string): OfflineQueueItem => ({
+  id,
+  type: 'update',
+  collection: 'trips',
+  data: { tripId, updateData: { title } },
+  timestamp: 3000,
+});
+
+const setQueue = (queue: OfflineQueueItem[]) => mockStorage.set(QUEUE_KEY, JSON.stringify(queue));
+
+// Every version of the queue that was saved, oldest first
+const savedQueues = (): OfflineQueueItem[][] =>
+  mockAsyncStorage.setItem.mock.calls
+    .filter(([key]) => key === QUEUE_KEY)
+    .map(([, value]) => JSON.parse(value));
+
+describe('Offline Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockStorage.clear();
+    jest.spyOn(Date, 'now').mockReturnValue(NOW);
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('processOfflineQueue', () => {
+    it('should replay items in order and point later items at the real ID in the same write', async () => {
+      setQueue([tripCreate, itineraryCreate]);
+      mockRunMutation
+        .mockResolvedValueOnce({ outcome: 'done', createdId: 'trip-1' })
+        .mockResolvedValueOnce({ outcome: 'done', createdId: 'item-1' });
+
+      await processOfflineQueue();
+
+      const remapped = { tempId: 'local_item', itemData: { tripId: 'trip-1', title: 'Tram 28', addedBy: 'alice' } };
+      expect(mockRunMutation.mock.calls.map(([item]) => item.id)).toEqual(['q1', 'q2']);
+      // The trip leaves the queue in the same write that remaps the item waiting on it
+      expect(savedQueues()[0]).toEqual([{ ...itineraryCreate, data: remapped }]);
+      expect(mockRunMutation.mock.calls[1][0].data).toEqual(remapped);
+      expect(await getOfflineQueue()).toEqual([]);
+      expect(mockStorage.get(LAST_SYNC_KEY)).toBe(String(NOW));
+    });
+
+    it('should hold back items that share an ID with a failed one and carry on with the rest', async () => {
+      setQueue([
+        tripUpdate('q1', 'trip-a', 'First'),
+        tripUpdate('q2', 'trip-a', 'Second'),
+        tripUpdate('q3', 'trip-b', 'Other'),
+      ]);
+      mockRunMutation.mockImplementation(async (item) => {
+        if (item.id === 'q1') throw new Error('unavailable');
+        return { outcome: 'done' };
+      });
+
+      await processOfflineQueue();
+
+      expect(mockRunMutation.mock.calls.map(([item]) => item.id)).toEqual(['q1', 'q3']);
+      const queue = await getOfflineQueue();
+      expect(queue.map((item) => item.id)).toEqual(['q1', 'q2']);
+      expect(queue[0].attempts).toBe(1);
+      expect(queue[0].nextAttemptAt).toBe(NOW + 5000);
+      expect(queue[0].lastError).toBe('unavailable');
+      expect(mockStorage.get(LAST_SYNC_KEY)).toBeUndefined();
+    });
+
+    it('should wait for the create an item depends on', async () => {
+      setQueue([{ ...tripCreate, attempts: 1, nextAttemptAt: NOW + 5000 }, itineraryCreate]);
+
+      await processOfflineQueue();
+
+      expect(mockRunMutation).not.toHaveBeenCalled();
+      expect((await getOfflineQueue()).map((item) => item.id)).toEqual(['q1', 'q2']);
+    });
+
+    it('should dead-letter items whose create is no longer queued', async () => {
+      setQueue([itineraryCreate]);
+
+      await processOfflineQueue();
+
+      expect(mockRunMutation).not.toHaveBeenCalled();
+      expect(await getOfflineQueue()).toEqual([]);
+      const deadLetters = await getDeadLetterQueue();
+      expect(deadLetters).toHaveLength(1);
+      expect(deadLetters[0].id).toBe('q2');
+      expect(deadLetters[0].reason).toBe('It depends on a change that failed to sync');
+    });
+
+    it('should dead-letter an item that fails with an error a retry cannot fix', async () => {
+      setQueue([tripUpdate('q1', 'trip-a', 'First')]);
+      mockRunMutation.mockRejectedValue(
+        Object.assign(new Error('Missing or insufficient permissions.'), { code: 'permission-denied' })
+      );
+
+      await processOfflineQueue();
+
+      expect(await getOfflineQueue()).toEqual([]);
+      const deadLetters = await getDeadLetterQueue();
+      expect(deadLetters).toHaveLength(1);
+      expect(deadLetters[0].reason).toBe('Missing or insufficient permissions.');
+      expect(deadLetters[0].failedAt).toBe(NOW);
+    });
+
+    it('should skip items still backing off', async () => {
+      setQueue([{ ...tripUpdate('q1', 'trip-a', 'First'), attempts: 2, nextAttemptAt: NOW + 1000 }]);
+
+      await processOfflineQueue();
+
+      expect(mockRunMutation).not.toHaveBeenCalled();
+      expect((await getOfflineQueue())[0].attempts).toBe(2);
+    });
+  });
+});
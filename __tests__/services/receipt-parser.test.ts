@@ -0,0 +1,128 @@
+import {
+  detectReceiptCurrency,
+  joinRecognizedLines,
+  parseReceiptAmount,
+  parseReceiptText,
+} from '@/services/receipt-parser';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+
+const loadFixture = (name: string): string =>
+  readFileSync(join(__dirname, '..', 'fixtures', 'receipts', name), 'utf8');
+
+describe('Receipt Parser Service', () => {
+  describe('parseReceiptAmount', () => {
+    it('should read both decimal point and decimal comma amounts', () => {
+      expect(parseReceiptAmount('1,234.56')).toBe(1234.56);
+      expect(parseReceiptAmount('1.234,56')).toBe(1234.56);
+      expect(parseReceiptAmount('12,99')).toBe(12.99);
+      expect(parseReceiptAmount('450')).toBe(450);
+    });
+  });
+
+  describe('detectReceiptCurrency', () => {
+    it('should prefer an explicit currency code over symbols', () => {
+      expect(detectReceiptCurrency('Total SGD $12.00')).toBe('SGD');
+    });
+
+    it('should fall back to the currency symbol', () => {
+      expect(detectReceiptCurrency('Total ₹ 450')).toBe('INR');
+      expect(detectReceiptCurrency('Total S$ 12.00')).toBe('SGD');
+      expect(detectReceiptCurrency('Total 12.00')).toBeNull();
+    });
+  });
+
+  describe('parseReceiptText', () => {
+    it('should parse a US restaurant bill with tax and tip', () => {
+      const receipt = parseReceiptText(loadFixture('us-restaurant.txt'));
+
+      expect(receipt.merchant).toBe('The Corner Bistro');
+      expect(receipt.date).toEqual(new Date(2024, 2, 14));
+      expect(receipt.currency).toBe('USD');
+      expect(receipt.subtotal).toBe(44);
+      expect(receipt.tax).toBe(3.8);
+      expect(receipt.tip).toBe(8);
+      expect(receipt.total).toBe(55.8);
+      expect(receipt.items).toEqual([
+        { name: 'Margherita Pizza', amount: 28, quantity: 2 },
+        { name: 'Caesar Salad', amount: 11.5 },
+        { name: 'Sparkling Water', amount: 4.5 },
+      ]);
+    });
+
+    it('should parse an Indian GST bill with a quantity column', () => {
+      const receipt = parseReceiptText(loadFixture('india-gst.txt'));
+
+      expect(receipt.merchant).toBe('Spice Route Kitchen');
+      expect(receipt.date).toEqual(new Date(2024, 0, 5));
+      expect(receipt.currency).toBe('INR');
+      expect(receipt.subtotal).toBe(620);
+      expect(receipt.tax).toBe(31);
+      expect(receipt.total).toBe(651);
+      expect(receipt.items).toEqual([
+        { name: 'Paneer Tikka', amount: 320 },
+        { name: 'Butter Naan', amount: 180, quantity: 3 },
+        { name: 'Masala Chai', amount: 120, quantity: 2 },
+      ]);
+    });
+
+    it('should parse a European receipt with decimal commas and included VAT', () => {
+      const receipt = parseReceiptText(loadFixture('eu-bakery.txt'));
+
+      expect(receipt.merchant).toBe('Bäckerei Müller');
+      expect(receipt.date).toEqual(new Date(2024, 1, 9));
+      expect(receipt.currency).toBe('EUR');
+      expect(receipt.tax).toBeNull();
+      expect(receipt.total).toBe(19.54);
+      expect(receipt.items.map((item) => item.name)).toEqual([
+        'Bread Rolls',
+        'Coffee Beans 1kg',
+        'Cheese',
+      ]);
+      expect(receipt.items[0].quantity).toBe(6);
+    });
+
+    it('should read ambiguous numeric dates month first when asked', () => {
+      const text = 'Cafe Nero\n04/03/2024\nLatte 3.50\nTotal 3.50';
+
+      expect(parseReceiptText(text).date).toEqual(new Date(2024, 2, 4));
+      expect(parseReceiptText(text, { dayFirst: false }).date).toEqual(new Date(2024, 3, 3));
+    });
+
+    it('should derive the total from the items when no total line is found', () => {
+      const receipt = parseReceiptText('Food Truck\nTaco 4.00\nBurrito 8.50\nTax 1.05');
+
+      expect(receipt.total).toBe(13.55);
+    });
+
+    it('should leave fields empty for unreadable text', () => {
+      expect(parseReceiptText('')).toEqual({
+        merchant: null,
+        date: null,
+        currency: null,
+        subtotal: null,
+        tax: null,
+        tip: null,
+        total: null,
+        items: [],
+      });
+    });
+  });
+
+  describe('joinRecognizedLines', () => {
+    it('should put each item back on the same row as its price', () => {
+      const line = (text: string, top: number, left: number) => ({ text, top, left, height: 20 });
+      const lines = [
+        line('12.50', 101, 300),
+        line('Cafe Rossi', 40, 10),
+        line('Total', 160, 10),
+        line('Pasta', 98, 10),
+        line('17.00', 163, 300),
+        line('Wine', 130, 10),
+        line('4.50', 128, 300),
+      ];
+
+      expect(joinRecognizedLines(lines)).toBe('Cafe Rossi\nPasta 12.50\nWine 4.50\nTotal 17.00');
+    });
+  });
+});
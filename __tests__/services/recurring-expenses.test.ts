@@ -0,0 +1,61 @@
+import {
+  getFutureOccurrenceDates,
+  getOccurrenceDates,
+  validateRecurrence,
+} from '@/services/recurring-expenses';
+
+const day = (d: number, hour = 0) => new Date(2025, 2, d, hour);
+
+describe('Recurring Expenses Service', () => {
+  describe('getOccurrenceDates', () => {
+    it('should include both ends for daily expenses', () => {
+      const dates = getOccurrenceDates('daily', day(10, 15), day(12, 9));
+
+      expect(dates).toEqual([day(10), day(11), day(12)]);
+    });
+
+    it('should skip the check-out day for nightly expenses', () => {
+      expect(getOccurrenceDates('nightly', day(10), day(13))).toEqual([day(10), day(11), day(12)]);
+    });
+
+    it('should return nothing for a same-day nightly stay', () => {
+      expect(getOccurrenceDates('nightly', day(10), day(10))).toEqual([]);
+    });
+
+    it('should cross month boundaries', () => {
+      expect(getOccurrenceDates('daily', day(31), new Date(2025, 3, 1))).toHaveLength(2);
+    });
+  });
+
+  describe('getFutureOccurrenceDates', () => {
+    it('should keep today and later occurrences only', () => {
+      const dates = [day(10), day(11), day(12)];
+
+      expect(getFutureOccurrenceDates(dates, day(11, 18))).toEqual([day(11), day(12)]);
+    });
+  });
+
+  describe('validateRecurrence', () => {
+    it('should accept a range inside the trip', () => {
+      expect(validateRecurrence('daily', day(10), day(12), day(9), day(14))).toBeNull();
+    });
+
+    it('should reject ranges outside the trip', () => {
+      expect(validateRecurrence('daily', day(8), day(12), day(9), day(14))).toBe(
+        'Recurring dates must fall within the trip'
+      );
+    });
+
+    it('should reject an end date before the start date', () => {
+      expect(validateRecurrence('daily', day(12), day(10), day(9), day(14))).toBe(
+        'End date must be after the start date'
+      );
+    });
+
+    it('should require at least one night for nightly expenses', () => {
+      expect(validateRecurrence('nightly', day(10), day(10), day(9), day(14))).toBe(
+        'Pick at least one night'
+      );
+    });
+  });
+});
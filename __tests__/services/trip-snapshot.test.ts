@@ -0,0 +1,68 @@
+import {
+  parseSnapshotSection,
+  serializeSnapshotSection,
+  TRIP_SNAPSHOT_VERSION,
+} from '@/services/trip-snapshot';
+import { Expense, TripWithDetails } from '@/types/database';
+
+const trip: TripWithDetails = {
+  id: 'trip1',
+  title: 'Lisbon',
+  startDate: new Date('2024-06-01T00:00:00.000Z'),
+  endDate: new Date('2024-06-07T00:00:00.000Z'),
+  creatorId: 'alice',
+  createdAt: new Date('2024-05-01T09:00:00.000Z'),
+  creator: {
+    id: 'alice',
+    name: 'Alice',
+    email: 'alice@example.com',
+    defaultCurrency: 'EUR',
+    createdAt: new Date('2023-01-01T00:00:00.000Z'),
+    subscriptionTier: 'free',
+  },
+};
+
+const expense: Expense = {
+  id: 'e1',
+  tripId: 'trip1',
+  title: 'Dinner',
+  amount: 60,
+  currency: 'EUR',
+  exchangeRate: 1,
+  paidBy: 'alice',
+  category: 'food',
+  occurrenceDate: null,
+  createdAt: new Date('2024-06-02T20:00:00.000Z'),
+  updatedAt: new Date('2024-06-02T20:00:00.000Z'),
+};
+
+describe('Trip Snapshot Service', () => {
+  it('should round-trip a section with its dates intact', () => {
+    const stored = parseSnapshotSection('trip', serializeSnapshotSection<'trip'>(trip, 5000));
+
+    expect(stored).toMatchObject({ version: TRIP_SNAPSHOT_VERSION, savedAt: 5000 });
+    expect(stored?.data).toEqual(trip);
+  });
+
+  it('should revive dates in list sections', () => {
+    const stored = parseSnapshotSection('expenses', serializeSnapshotSection<'expenses'>([expense]));
+
+    expect(stored?.data[0].createdAt).toEqual(new Date('2024-06-02T20:00:00.000Z'));
+    expect(stored?.data[0].occurrenceDate).toBeNull();
+  });
+
+  it('should store Firestore Timestamps as dates', () => {
+    const timestamp = { seconds: 1717444800, nanoseconds: 0, toDate: () => new Date('2024-06-03T20:00:00.000Z') };
+    const raw = serializeSnapshotSection<'expenses'>([{ ...expense, updatedAt: timestamp as unknown as Date }]);
+
+    expect(parseSnapshotSection('expenses', raw)?.data[0].updatedAt).toEqual(new Date('2024-06-03T20:00:00.000Z'));
+  });
+
+  it('should ignore missing, unreadable and outdated snapshots', () => {
+    const outdated = JSON.stringify({ version: TRIP_SNAPSHOT_VERSION - 1, savedAt: 5000, data: [] });
+
+    expect(parseSnapshotSection('expenses', null)).toBeNull();
+    expect(parseSnapshotSection('expenses', '{not json')).toBeNull();
+    expect(parseSnapshotSection('expenses', outdated)).toBeNull();
+  });
+});
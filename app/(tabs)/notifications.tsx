@@ -34,9 +34,11 @@ const getNotificationIcon = (type: NotificationType): keyof typeof Ionicons.glyp
       return 'mail-outline';
     case 'expense_added':
     case 'expense_updated':
+    case 'settlement_recorded':
       return 'wallet-outline';
     case 'itinerary_added':
     case 'itinerary_updated':
+    case 'itinerary_comment':
       return 'calendar-outline';
     case 'trip_updated':
       return 'airplane-outline';
@@ -60,9 +62,11 @@ const getNotificationColor = (type: NotificationType): string => {
       return '#8B5CF6';
     case 'expense_added':
     case 'expense_updated':
+    case 'settlement_recorded':
       return Colors.secondary;
     case 'itinerary_added':
     case 'itinerary_updated':
+    case 'itinerary_comment':
       return Colors.accent;
     case 'trip_updated':
       return Colors.info;
@@ -212,6 +216,7 @@ export default function NotificationsScreen() {
 
       case 'expense_added':
       case 'expense_updated':
+      case 'settlement_recorded':
         if (notification.tripId) {
           router.push(`/trips/${notification.tripId}/expenses`);
         }
@@ -219,6 +224,7 @@ export default function NotificationsScreen() {
 
       case 'itinerary_added':
       case 'itinerary_updated':
+      case 'itinerary_comment':
         if (notification.tripId && notification.itineraryId) {
           router.push(`/trips/${notification.tripId}/itinerary/${notification.itineraryId}`);
         } else if (notification.tripId) {
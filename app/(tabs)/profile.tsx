@@ -112,6 +112,13 @@ export default function ProfileScreen() {
       color: Colors.secondary,
       onPress: () => router.push('/(tabs)'),
     },
+    {
+      id: 'people',
+      icon: 'people-outline',
+      label: 'People',
+      color: Colors.success,
+      onPress: () => router.push('/people'),
+    },
     {
       id: 'settings',
       icon: 'settings-outline',
@@ -39,6 +39,8 @@ function RootLayoutNav() {
             <Stack.Screen name="auth" options={{ headerShown: false, animation: 'fade' }} />
             <Stack.Screen name="edit-profile" options={{ headerShown: false, animation: 'slide_from_right' }} />
             <Stack.Screen name="settings" options={{ headerShown: false, animation: 'slide_from_right' }} />
+            <Stack.Screen name="people" options={{ headerShown: false, animation: 'slide_from_right' }} />
+            <Stack.Screen name="sync" options={{ headerShown: false, animation: 'slide_from_right' }} />
             <Stack.Screen name="subscription" options={{ headerShown: false, animation: 'slide_from_bottom' }} />
             <Stack.Screen name="trips" options={{ headerShown: false }} />
             <Stack.Screen 
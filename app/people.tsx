@@ -0,0 +1,404 @@
+import { ScreenHeader } from '@/components/navigation/screen-header';
+import { ScreenContainer } from '@/components/screen-container';
+import { Button } from '@/components/ui/button';
+import { EmptyState } from '@/components/ui/empty-state';
+import { BorderRadius, Colors, FontSizes, FontWeights, Spacing } from '@/constants/theme';
+import { useAuth } from '@/hooks/use-auth';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { useCounterpartBalances } from '@/hooks/use-trips';
+import { buildCombinedSettlements, CounterpartBalance } from '@/services/cross-trip-balances';
+import { createSettlements } from '@/services/firestore';
+import { notifySettlementRecorded } from '@/services/notifications';
+import { SettlementMethod, User } from '@/types/database';
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import React, { useState } from 'react';
+import {
+    ActivityIndicator,
+    Alert,
+    Modal,
+    RefreshControl,
+    ScrollView,
+    StyleSheet,
+    Text,
+    TouchableOpacity,
+    View,
+} from 'react-native';
+
+const SETTLEMENT_METHODS: { id: SettlementMethod; label: string }[] = [
+  { id: 'upi', label: 'UPI' },
+  { id: 'cash', label: 'Cash' },
+  { id: 'bank', label: 'Bank' },
+  { id: 'other', label: 'Other' },
+];
+
+type PersonBalance = CounterpartBalance & { user: User | null };
+
+const formatAmount = (amount: number, currency: string) => {
+  const formattedAmount = new Intl.NumberFormat('en-IN', {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(Math.abs(amount));
+  return `${currency} ${formattedAmount}`;
+};
+
+export default function PeopleScreen() {
+  const router = useRouter();
+  const colorScheme = useColorScheme();
+  const isDark = colorScheme === 'dark';
+  const colors = isDark ? Colors.dark : Colors.light;
+
+  const { user } = useAuth();
+  const { balances, displayCurrency, loading, error, refresh } = useCounterpartBalances();
+
+  const [activePerson, setActivePerson] = useState<PersonBalance | null>(null);
+  const [settlementMethod, setSettlementMethod] = useState<SettlementMethod>('upi');
+  const [settling, setSettling] = useState(false);
+
+  const getName = (person: PersonBalance) => person.user?.name || 'Unknown';
+
+  const openSettleUp = (person: PersonBalance) => {
+    setActivePerson(person);
+    setSettlementMethod('upi');
+  };
+
+  const handleSettleUp = async () => {
+    if (!user || !activePerson) return;
+
+    setSettling(true);
+    try {
+      const entries = buildCombinedSettlements(user.id, activePerson);
+      await createSettlements(
+        entries.map((entry) => ({ ...entry, method: settlementMethod, recordedBy: user.id }))
+      );
+
+      // Let the counterpart know about every trip where they were paid
+      entries.forEach((entry) => {
+        if (entry.payeeId === user.id) return;
+        const trip = activePerson.trips.find((t) => t.tripId === entry.tripId);
+        notifySettlementRecorded(
+          entry.payeeId,
+          entry.tripId,
+          trip?.tripTitle || 'Trip',
+          user.name,
+          formatAmount(entry.amount, entry.currency),
+          user.id,
+          user.name
+        ).catch(console.error); // Don't block on notification
+      });
+
+      setActivePerson(null);
+      refresh();
+    } catch (err) {
+      console.error('Failed to settle up across trips:', err);
+      Alert.alert('Error', 'Failed to record payments. Please try again.');
+    } finally {
+      setSettling(false);
+    }
+  };
+
+  const renderPerson = (person: PersonBalance) => {
+    const owesYou = person.net > 0;
+    const amountColor = owesYou ? Colors.success : Colors.error;
+
+    return (
+      <View
+        key={person.userId}
+        style={[styles.personCard, { backgroundColor: colors.card, borderColor: colors.border }]}
+      >
+        <View style={styles.personHeader}>
+          <View style={[styles.avatar, { backgroundColor: Colors.primary + '20' }]}>
+            <Text style={[styles.avatarText, { color: Colors.primary }]}>
+              {getName(person).charAt(0).toUpperCase()}
+            </Text>
+          </View>
+          <View style={styles.personInfo}>
+            <Text style={[styles.personName, { color: colors.text }]}>{getName(person)}</Text>
+            <Text style={[styles.personSummary, { color: colors.textSecondary }]}>
+              {person.net === 0 ? 'Evens out across trips' : owesYou ? 'Owes you' : 'You owe'}
+            </Text>
+          </View>
+          <Text style={[styles.netAmount, { color: person.net === 0 ? colors.text : amountColor }]}>
+            {formatAmount(person.net, displayCurrency)}
+          </Text>
+        </View>
+
+        <View style={[styles.tripList, { borderTopColor: colors.border }]}>
+          {person.trips.map((trip) => (
+            <TouchableOpacity
+              key={trip.tripId}
+              style={styles.tripRow}
+              onPress={() => router.push(`/trips/${trip.tripId}/expenses`)}
+            >
+              <Text style={[styles.tripTitle, { color: colors.textSecondary }]} numberOfLines={1}>
+                {trip.tripTitle}
+              </Text>
+              <Text
+                style={[
+                  styles.tripAmount,
+                  { color: trip.amount > 0 ? Colors.success : Colors.error },
+                ]}
+              >
+                {trip.amount > 0 ? '+' : '-'}
+                {formatAmount(trip.amount, trip.currency)}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <Button
+          title="Settle Up"
+          variant="outline"
+          size="sm"
+          onPress={() => openSettleUp(person)}
+          fullWidth
+        />
+      </View>
+    );
+  };
+
+  return (
+    <ScreenContainer style={styles.container} backgroundColor={colors.background} padded={false}>
+      <ScreenHeader title="People" onBack={() => router.back()} />
+
+      {loading && balances.length === 0 ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={Colors.primary} />
+        </View>
+      ) : error ? (
+        <EmptyState
+          icon="alert-circle-outline"
+          title="Couldn't load balances"
+          description="Check your connection and try again."
+          actionLabel="Retry"
+          onAction={refresh}
+        />
+      ) : balances.length === 0 ? (
+        <EmptyState
+          icon="people-outline"
+          title="All settled up"
+          description="Nobody owes anybody across your trips."
+        />
+      ) : (
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.scrollContent}
+          showsVerticalScrollIndicator={false}
+          refreshControl={<RefreshControl refreshing={loading} onRefresh={refresh} />}
+        >
+          <Text style={[styles.hint, { color: colors.textMuted }]}>
+            Totals are shown in {displayCurrency}; each trip keeps its own currency.
+          </Text>
+          {balances.map(renderPerson)}
+        </ScrollView>
+      )}
+
+      {/* Settle Up Modal */}
+      <Modal
+        visible={!!activePerson}
+        animationType="slide"
+        transparent
+        onRequestClose={() => setActivePerson(null)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={[styles.modalContent, { backgroundColor: colors.background }]}>
+            <View style={styles.modalHeader}>
+              <Text style={[styles.modalTitle, { color: colors.text }]}>Settle Up</Text>
+              <TouchableOpacity onPress={() => setActivePerson(null)}>
+                <Ionicons name="close" size={24} color={colors.textSecondary} />
+              </TouchableOpacity>
+            </View>
+
+            {activePerson && (
+              <View style={styles.settleContent}>
+                <Text style={[styles.settleAmountLarge, { color: Colors.primary }]}>
+                  {formatAmount(activePerson.net, displayCurrency)}
+                </Text>
+                <Text style={[styles.settleDescription, { color: colors.textSecondary }]}>
+                  {activePerson.net > 0
+                    ? `${getName(activePerson)} pays you`
+                    : `You pay ${getName(activePerson)}`}
+                  {' · '}
+                  {activePerson.trips.length === 1
+                    ? '1 trip'
+                    : `${activePerson.trips.length} trips`}
+                </Text>
+                <Text style={[styles.settleNote, { color: colors.textMuted }]}>
+                  A payment is recorded in each trip so every trip&apos;s balances close out.
+                </Text>
+              </View>
+            )}
+
+            <View style={styles.methodOptions}>
+              {SETTLEMENT_METHODS.map((method) => (
+                <TouchableOpacity
+                  key={method.id}
+                  style={[
+                    styles.methodChip,
+                    {
+                      backgroundColor:
+                        settlementMethod === method.id ? Colors.primary + '15' : colors.card,
+                      borderColor: settlementMethod === method.id ? Colors.primary : colors.border,
+                    },
+                  ]}
+                  onPress={() => setSettlementMethod(method.id)}
+                >
+                  <Text
+                    style={[
+                      styles.methodChipText,
+                      { color: settlementMethod === method.id ? Colors.primary : colors.text },
+                    ]}
+                  >
+                    {method.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <Button
+              title="Record Payments"
+              onPress={handleSettleUp}
+              loading={settling}
+              fullWidth
+              style={{ marginTop: Spacing.lg }}
+            />
+          </View>
+        </View>
+      </Modal>
+    </ScreenContainer>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingHorizontal: Spacing.lg,
+    paddingBottom: Spacing['3xl'],
+  },
+  hint: {
+    fontSize: FontSizes.xs,
+    marginBottom: Spacing.md,
+  },
+  personCard: {
+    padding: Spacing.md,
+    borderRadius: BorderRadius.lg,
+    borderWidth: 1,
+    marginBottom: Spacing.md,
+  },
+  personHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.md,
+  },
+  avatar: {
+    width: 40,
+    height: 40,
+    borderRadius: BorderRadius.full,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  avatarText: {
+    fontSize: FontSizes.md,
+    fontWeight: FontWeights.bold,
+  },
+  personInfo: {
+    flex: 1,
+  },
+  personName: {
+    fontSize: FontSizes.md,
+    fontWeight: FontWeights.semibold,
+  },
+  personSummary: {
+    fontSize: FontSizes.sm,
+    marginTop: 2,
+  },
+  netAmount: {
+    fontSize: FontSizes.md,
+    fontWeight: FontWeights.bold,
+  },
+  tripList: {
+    borderTopWidth: 1,
+    marginTop: Spacing.md,
+    paddingTop: Spacing.sm,
+    marginBottom: Spacing.md,
+  },
+  tripRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: Spacing.xs,
+    gap: Spacing.md,
+  },
+  tripTitle: {
+    flex: 1,
+    fontSize: FontSizes.sm,
+  },
+  tripAmount: {
+    fontSize: FontSizes.sm,
+    fontWeight: FontWeights.medium,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContent: {
+    borderTopLeftRadius: BorderRadius.xlarge,
+    borderTopRightRadius: BorderRadius.xlarge,
+    padding: Spacing.lg,
+    paddingBottom: Spacing['3xl'],
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: Spacing.lg,
+  },
+  modalTitle: {
+    fontSize: FontSizes.xl,
+    fontWeight: FontWeights.bold,
+  },
+  settleContent: {
+    alignItems: 'center',
+    paddingVertical: Spacing.lg,
+  },
+  settleAmountLarge: {
+    fontSize: FontSizes.display,
+    fontWeight: FontWeights.bold,
+    marginBottom: Spacing.xs,
+  },
+  settleDescription: {
+    fontSize: FontSizes.md,
+    marginBottom: Spacing.sm,
+  },
+  settleNote: {
+    fontSize: FontSizes.xs,
+    textAlign: 'center',
+  },
+  methodOptions: {
+    flexDirection: 'row',
+    gap: Spacing.sm,
+    marginBottom: Spacing.md,
+  },
+  methodChip: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.lg,
+    borderWidth: 1.5,
+  },
+  methodChipText: {
+    fontSize: FontSizes.sm,
+    fontWeight: FontWeights.medium,
+  },
+});
@@ -4,6 +4,7 @@ import { ScreenContainer } from '@/components/screen-container';
 import { Button } from '@/components/ui/button';
 import { BorderRadius, Colors, FontSizes, FontWeights, Spacing } from '@/constants/theme';
 import { useAuth } from '@/hooks/use-auth';
+import { useOffline } from '@/hooks/use-offline';
 import { useSettings } from '@/hooks/use-settings';
 import { useAppColorScheme, useTheme } from '@/hooks/use-theme';
 import { Ionicons } from '@expo/vector-icons';
@@ -53,11 +54,10 @@ export default function SettingsScreen() {
     setPushNotifications,
     setEmailNotifications,
     setOfflineMode,
-    syncData,
     clearCache,
-    isSyncing,
     isClearing,
   } = useSettings();
+  const { pendingActions, failedActions } = useOffline();
 
   // Modal state - must be called before any conditional returns
   const [themeModalVisible, setThemeModalVisible] = useState(false);
@@ -80,6 +80,12 @@ export default function SettingsScreen() {
     return option ? option.label : 'System';
   };
 
+  const getSyncLabel = () => {
+    if (failedActions > 0) return `${failedActions} failed`;
+    if (pendingActions > 0) return `${pendingActions} pending`;
+    return 'Up to date';
+  };
+
   const handleLogout = () => {
     Alert.alert(
       isGuestMode ? 'Exit Guest Mode' : 'Sign Out',
@@ -137,7 +143,7 @@ export default function SettingsScreen() {
       items: [
         { id: 'offline', icon: 'cloud-offline-outline', label: 'Offline Mode', description: 'Access your trips without internet', type: 'toggle' },
         { id: 'storage', icon: 'folder-outline', label: 'Manage Offline Storage', description: 'View and clear cached data', type: 'navigation' },
-        { id: 'sync', icon: 'sync-outline', label: isSyncing ? 'Syncing...' : 'Sync Now', type: 'navigation' },
+        { id: 'sync', icon: 'sync-outline', label: 'Sync Center', value: getSyncLabel(), type: 'navigation' },
         { id: 'cache', icon: 'trash-outline', label: isClearing ? 'Clearing...' : 'Clear Cache', type: 'navigation' },
       ],
     },
@@ -195,9 +201,7 @@ export default function SettingsScreen() {
         handleDeleteAccount();
         break;
       case 'sync':
-        if (!isSyncing) {
-          syncData();
-        }
+        router.push('/sync');
         break;
       case 'cache':
         Alert.alert(
@@ -255,7 +259,7 @@ export default function SettingsScreen() {
                     styles.settingIcon,
                     { backgroundColor: item.danger ? Colors.error + '15' : (item.color ? item.color + '15' : Colors.primary + '15') },
                   ]}>
-                    {(item.id === 'sync' && isSyncing) || (item.id === 'cache' && isClearing) ? (
+                    {item.id === 'cache' && isClearing ? (
                       <ActivityIndicator size="small" color={Colors.primary} />
                     ) : (
                       <Ionicons
@@ -291,7 +295,7 @@ export default function SettingsScreen() {
                           {item.value}
                         </Text>
                       )}
-                      {(item.id === 'sync' && isSyncing) || (item.id === 'cache' && isClearing) ? null : (
+                      {item.id === 'cache' && isClearing ? null : (
                         <Ionicons name="chevron-forward" size={18} color={colors.textMuted} />
                       )}
                     </View>
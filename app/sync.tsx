@@ -0,0 +1,416 @@
+import { ScreenHeader } from '@/components/navigation/screen-header';
+import { ScreenContainer } from '@/components/screen-container';
+import { Button } from '@/components/ui/button';
+import { EmptyState } from '@/components/ui/empty-state';
+import { BorderRadius, Colors, FontSizes, FontWeights, Spacing } from '@/constants/theme';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { useOffline, useSyncQueue } from '@/hooks/use-offline';
+import {
+    DeadLetterItem,
+    describeMutation,
+    getMutationChanges,
+    getMutationStatus,
+    MutationStatus,
+    OfflineQueueItem,
+} from '@/services/mutation-queue';
+import {
+    discardDeadLetterItem,
+    discardOfflineQueueItem,
+    resolveQueuedConflict,
+    retryDeadLetterItem,
+    retryOfflineQueueItem,
+} from '@/services/offline';
+import { Ionicons } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import React, { useState } from 'react';
+import {
+    ActivityIndicator,
+    Alert,
+    ScrollView,
+    StyleSheet,
+    Text,
+    View,
+} from 'react-native';
+
+const STATUS_STYLES: Record<MutationStatus, { label: string; color: string; icon: keyof typeof Ionicons.glyphMap }> = {
+  pending: { label: 'Pending', color: Colors.info, icon: 'time-outline' },
+  syncing: { label: 'Syncing', color: Colors.primary, icon: 'sync-outline' },
+  failed: { label: 'Failed', color: Colors.warning, icon: 'alert-circle-outline' },
+  conflict: { label: 'Conflict', color: Colors.error, icon: 'git-compare-outline' },
+};
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}T/;
+
+const formatDateTime = (date: Date) =>
+  date.toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+
+// Queued values come back from storage as JSON, so dates arrive as ISO strings
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return 'Empty';
+  if (value instanceof Date) return formatDateTime(value);
+  if (typeof value === 'string') return ISO_DATE_PATTERN.test(value) ? formatDateTime(new Date(value)) : value;
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+export default function SyncScreen() {
+  const router = useRouter();
+  const colorScheme = useColorScheme();
+  const isDark = colorScheme === 'dark';
+  const colors = isDark ? Colors.dark : Colors.light;
+
+  const { isOnline, lastSync, syncData } = useOffline();
+  const { queue, deadLetters, syncingItemId, loading } = useSyncQueue();
+
+  const [syncing, setSyncing] = useState(false);
+  const [busyItemId, setBusyItemId] = useState<string | null>(null);
+
+  const runAction = async (itemId: string, action: () => Promise<void>) => {
+    setBusyItemId(itemId);
+    try {
+      await action();
+    } catch (err) {
+      console.error('Sync action failed:', err);
+      Alert.alert('Error', 'Something went wrong. Please try again.');
+    } finally {
+      setBusyItemId(null);
+    }
+  };
+
+  const handleSyncNow = async () => {
+    setSyncing(true);
+    try {
+      await syncData();
+    } finally {
+      setSyncing(false);
+    }
+  };
+
+  const confirmDiscard = (itemId: string, discard: (id: string) => Promise<void>) => {
+    Alert.alert(
+      'Discard Change',
+      'This change will be lost and never synced. Are you sure?',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Discard', style: 'destructive', onPress: () => runAction(itemId, () => discard(itemId)) },
+      ]
+    );
+  };
+
+  const renderItemHeader = (item: OfflineQueueItem, status: MutationStatus | null) => {
+    const { entity, action, title } = describeMutation(item);
+    const statusStyle = status ? STATUS_STYLES[status] : null;
+
+    return (
+      <View style={styles.itemHeader}>
+        <View style={styles.itemInfo}>
+          <Text style={[styles.itemTitle, { color: colors.text }]} numberOfLines={1}>
+            {title || entity}
+          </Text>
+          <Text style={[styles.itemMeta, { color: colors.textSecondary }]}>
+            {action} {entity.toLowerCase()} · {formatDateTime(new Date(item.timestamp))}
+          </Text>
+        </View>
+        {statusStyle && (
+          <View style={[styles.statusChip, { backgroundColor: statusStyle.color + '15' }]}>
+            {status === 'syncing' ? (
+              <ActivityIndicator size="small" color={statusStyle.color} />
+            ) : (
+              <Ionicons name={statusStyle.icon} size={14} color={statusStyle.color} />
+            )}
+            <Text style={[styles.statusText, { color: statusStyle.color }]}>{statusStyle.label}</Text>
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  const renderConflict = (item: OfflineQueueItem) => {
+    if (!item.conflict) return null;
+    const changes = getMutationChanges(item);
+
+    return (
+      <View style={[styles.details, { borderTopColor: colors.border }]}>
+        <Text style={[styles.detailText, { color: colors.textSecondary }]}>
+          Someone else changed this while you were offline.
+        </Text>
+        {item.conflict.fields.map((field) => (
+          <View key={field} style={styles.conflictField}>
+            <Text style={[styles.conflictFieldName, { color: colors.text }]}>{field}</Text>
+            <Text style={[styles.detailText, { color: colors.textSecondary }]} numberOfLines={2}>
+              Yours: {formatValue(changes[field])}
+            </Text>
+            <Text style={[styles.detailText, { color: colors.textSecondary }]} numberOfLines={2}>
+              Theirs: {formatValue(item.conflict?.remote[field])}
+            </Text>
+          </View>
+        ))}
+        <View style={styles.actions}>
+          <Button
+            title="Keep Mine"
+            size="sm"
+            onPress={() => runAction(item.id, () => resolveQueuedConflict(item.id, 'mine'))}
+            disabled={busyItemId !== null}
+            style={styles.actionButton}
+          />
+          <Button
+            title="Keep Theirs"
+            variant="outline"
+            size="sm"
+            onPress={() => runAction(item.id, () => resolveQueuedConflict(item.id, 'theirs'))}
+            disabled={busyItemId !== null}
+            style={styles.actionButton}
+          />
+        </View>
+      </View>
+    );
+  };
+
+  const renderQueueItem = (item: OfflineQueueItem) => {
+    const status = getMutationStatus(item, syncingItemId);
+
+    return (
+      <View key={item.id} style={[styles.itemCard, { backgroundColor: colors.card, borderColor: colors.border }]}>
+        {renderItemHeader(item, status)}
+
+        {status === 'conflict' ? (
+          renderConflict(item)
+        ) : status === 'failed' ? (
+          <View style={[styles.details, { borderTopColor: colors.border }]}>
+            <Text style={[styles.detailText, { color: colors.textSecondary }]}>
+              {item.lastError}
+            </Text>
+            <Text style={[styles.detailText, { color: colors.textMuted }]}>
+              {item.attempts === 1 ? '1 attempt' : `${item.attempts} attempts`}
+              {item.nextAttemptAt ? ` · Next try ${formatDateTime(new Date(item.nextAttemptAt))}` : ''}
+            </Text>
+            <View style={styles.actions}>
+              <Button
+                title="Retry"
+                size="sm"
+                onPress={() => runAction(item.id, () => retryOfflineQueueItem(item.id))}
+                loading={busyItemId === item.id}
+                disabled={!isOnline || busyItemId !== null}
+                style={styles.actionButton}
+              />
+              <Button
+                title="Discard"
+                variant="ghost"
+                size="sm"
+                onPress={() => confirmDiscard(item.id, discardOfflineQueueItem)}
+                disabled={busyItemId !== null}
+                style={styles.actionButton}
+              />
+            </View>
+          </View>
+        ) : null}
+      </View>
+    );
+  };
+
+  const renderDeadLetter = (item: DeadLetterItem) => (
+    <View key={item.id} style={[styles.itemCard, { backgroundColor: colors.card, borderColor: colors.border }]}>
+      {renderItemHeader(item, null)}
+      <View style={[styles.details, { borderTopColor: colors.border }]}>
+        <Text style={[styles.detailText, { color: Colors.error }]}>{item.reason}</Text>
+        <Text style={[styles.detailText, { color: colors.textMuted }]}>
+          Gave up {formatDateTime(new Date(item.failedAt))}
+        </Text>
+        <View style={styles.actions}>
+          <Button
+            title="Retry"
+            size="sm"
+            onPress={() => runAction(item.id, () => retryDeadLetterItem(item.id))}
+            loading={busyItemId === item.id}
+            disabled={!isOnline || busyItemId !== null}
+            style={styles.actionButton}
+          />
+          <Button
+            title="Discard"
+            variant="ghost"
+            size="sm"
+            onPress={() => confirmDiscard(item.id, discardDeadLetterItem)}
+            disabled={busyItemId !== null}
+            style={styles.actionButton}
+          />
+        </View>
+      </View>
+    </View>
+  );
+
+  return (
+    <ScreenContainer style={styles.container} backgroundColor={colors.background} padded={false}>
+      <ScreenHeader title="Sync Center" onBack={() => router.back()} />
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={Colors.primary} />
+        </View>
+      ) : (
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.scrollContent}
+          showsVerticalScrollIndicator={false}
+        >
+          <View style={[styles.statusCard, { backgroundColor: colors.card, borderColor: colors.border }]}>
+            <View style={styles.statusRow}>
+              <Ionicons
+                name={isOnline ? 'cloud-done-outline' : 'cloud-offline-outline'}
+                size={24}
+                color={isOnline ? Colors.success : colors.textMuted}
+              />
+              <View style={styles.itemInfo}>
+                <Text style={[styles.itemTitle, { color: colors.text }]}>
+                  {isOnline ? 'Online' : 'Offline'}
+                </Text>
+                <Text style={[styles.itemMeta, { color: colors.textSecondary }]}>
+                  {lastSync ? `Last synced ${formatDateTime(lastSync)}` : 'Not synced yet'}
+                </Text>
+              </View>
+            </View>
+            <Button
+              title="Sync Now"
+              variant="outline"
+              size="sm"
+              onPress={handleSyncNow}
+              loading={syncing || syncingItemId !== null}
+              disabled={!isOnline}
+              fullWidth
+              icon={<Ionicons name="sync-outline" size={16} color={Colors.primary} />}
+              style={{ marginTop: Spacing.md }}
+            />
+          </View>
+
+          {queue.length === 0 && deadLetters.length === 0 ? (
+            <EmptyState
+              icon="checkmark-circle-outline"
+              title="All changes synced"
+              description="Changes you make offline will wait here until they reach the cloud."
+            />
+          ) : (
+            <>
+              {queue.length > 0 && (
+                <View style={styles.section}>
+                  <Text style={[styles.sectionTitle, { color: colors.textSecondary }]}>
+                    Waiting to sync ({queue.length})
+                  </Text>
+                  {queue.map(renderQueueItem)}
+                </View>
+              )}
+
+              {deadLetters.length > 0 && (
+                <View style={styles.section}>
+                  <Text style={[styles.sectionTitle, { color: colors.textSecondary }]}>
+                    Couldn&apos;t sync ({deadLetters.length})
+                  </Text>
+                  {deadLetters.map(renderDeadLetter)}
+                </View>
+              )}
+            </>
+          )}
+        </ScrollView>
+      )}
+    </ScreenContainer>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingHorizontal: Spacing.lg,
+    paddingBottom: Spacing['3xl'],
+  },
+  statusCard: {
+    padding: Spacing.md,
+    borderRadius: BorderRadius.lg,
+    borderWidth: 1,
+    marginBottom: Spacing.lg,
+  },
+  statusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.md,
+  },
+  section: {
+    marginBottom: Spacing.lg,
+  },
+  sectionTitle: {
+    fontSize: FontSizes.sm,
+    fontWeight: FontWeights.semibold,
+    textTransform: 'uppercase',
+    marginBottom: Spacing.sm,
+  },
+  itemCard: {
+    padding: Spacing.md,
+    borderRadius: BorderRadius.lg,
+    borderWidth: 1,
+    marginBottom: Spacing.md,
+  },
+  itemHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.md,
+  },
+  itemInfo: {
+    flex: 1,
+  },
+  itemTitle: {
+    fontSize: FontSizes.md,
+    fontWeight: FontWeights.semibold,
+  },
+  itemMeta: {
+    fontSize: FontSizes.sm,
+    marginTop: 2,
+  },
+  statusChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 4,
+    borderRadius: BorderRadius.full,
+  },
+  statusText: {
+    fontSize: FontSizes.xs,
+    fontWeight: FontWeights.medium,
+  },
+  details: {
+    borderTopWidth: 1,
+    marginTop: Spacing.md,
+    paddingTop: Spacing.sm,
+    gap: Spacing.xs,
+  },
+  detailText: {
+    fontSize: FontSizes.sm,
+  },
+  conflictField: {
+    marginTop: Spacing.xs,
+  },
+  conflictFieldName: {
+    fontSize: FontSizes.sm,
+    fontWeight: FontWeights.medium,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: Spacing.sm,
+    marginTop: Spacing.sm,
+  },
+  actionButton: {
+    flex: 1,
+  },
+});
@@ -16,6 +16,9 @@ export default function ExpensesLayout() {
       }}
     >
       <Stack.Screen name="index" />
+      <Stack.Screen name="stats" />
+      <Stack.Screen name="history" />
+      <Stack.Screen name="trash" />
       <Stack.Screen 
         name="add" 
         options={{
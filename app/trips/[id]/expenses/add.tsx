@@ -11,10 +11,52 @@ import {
 import { useAuth } from "@/hooks/use-auth";
 import { useColorScheme } from "@/hooks/use-color-scheme";
 import { useSubscription, useTripUsage } from "@/hooks/use-subscription";
-import { useTrip, useTripCollaborators } from "@/hooks/use-trips";
-import { createExpense, createExpenseShare } from "@/services/firestore";
-import { notifyExpenseAdded } from "@/services/notifications";
+import {
+    useTrip,
+    useTripCollaborators,
+    useTripDocuments,
+    useTripItinerary,
+} from "@/hooks/use-trips";
+import { TRASH_RETENTION_DAYS } from "@/services/expense-audit";
+import { getExchangeRate } from "@/services/exchange-rates";
+import {
+    getItemizedTotal,
+    resolveSplitShares,
+    validateSplit,
+} from "@/services/expense-splits";
+import {
+    createExpense,
+    createRecurringExpense,
+    deleteExpense,
+    deleteRecurringExpense,
+    getExpense,
+    getExpenseShares,
+    getRecurringExpense,
+    updateExpenseWithShares,
+    updateRecurringExpense,
+} from "@/services/firestore";
+import { isLocalId } from "@/services/mutation-queue";
+import { checkNetworkStatus } from "@/services/offline";
+import {
+    checkBudgetAlerts,
+    notifyExpenseAdded,
+    notifyExpenseUpdated,
+} from "@/services/notifications";
+import { takePendingReceiptScan } from "@/services/receipt-scanner";
+import {
+    getOccurrenceDates,
+    validateRecurrence,
+} from "@/services/recurring-expenses";
+import {
+    Expense,
+    ExpenseShare,
+    ExpenseSplitDefinition,
+    ExpenseSplitItem,
+    ExpenseSplitType,
+    RecurrenceFrequency,
+} from "@/types/database";
 import { Ionicons } from "@expo/vector-icons";
+import DateTimePicker from "@react-native-community/datetimepicker";
 import { useLocalSearchParams, useRouter } from "expo-router";
 import React, { useEffect, useState } from "react";
 import {
@@ -39,7 +81,6 @@ type ExpenseCategory =
   | "activities"
   | "shopping"
   | "other";
-type ExpenseSplitType = "equal" | "percentage" | "custom";
 
 const CATEGORIES: {
   id: ExpenseCategory;
@@ -93,6 +134,42 @@ const SPLIT_TYPES: {
     description: "Enter exact amounts",
     icon: "calculator-outline",
   },
+  {
+    id: "shares",
+    label: "By Shares",
+    description: "Weight members, e.g. a couple counts as 2",
+    icon: "people-outline",
+  },
+  {
+    id: "itemized",
+    label: "Itemized Receipt",
+    description: "Assign line items, tax & tip split proportionally",
+    icon: "list-outline",
+  },
+];
+
+// Currencies offered in the picker (the trip currency is always listed first)
+const CURRENCY_OPTIONS = ["USD", "EUR", "GBP", "INR", "JPY", "AUD", "CAD", "SGD", "THB", "AED"];
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  USD: "$",
+  EUR: "€",
+  GBP: "£",
+  INR: "₹",
+  JPY: "¥",
+  AUD: "A$",
+  CAD: "C$",
+  SGD: "S$",
+  THB: "฿",
+  AED: "AED ",
+};
+
+const getCurrencySymbol = (code: string) => CURRENCY_SYMBOLS[code] || `${code} `;
+
+const REPEAT_OPTIONS: { id: "none" | RecurrenceFrequency; label: string }[] = [
+  { id: "none", label: "Once" },
+  { id: "daily", label: "Every Day" },
+  { id: "nightly", label: "Every Night" },
 ];
 
 interface Member {
@@ -100,11 +177,44 @@ interface Member {
   name: string;
   selected: boolean;
   customAmount?: string; // For custom split amounts
+  weight?: string; // For shares split weights
+}
+
+// Receipt line item while it is being edited (amount kept as typed)
+interface ItemDraft {
+  id: string;
+  name: string;
+  amount: string;
+  assignedTo: string[];
 }
 
+let itemDraftCounter = 0;
+const createItemDraft = (assignedTo: string[]): ItemDraft => ({
+  id: `item_${Date.now()}_${itemDraftCounter++}`,
+  name: "",
+  amount: "",
+  assignedTo,
+});
+
 export default function AddExpenseScreen() {
   const router = useRouter();
-  const { id } = useLocalSearchParams<{ id: string }>();
+  // expenseId edits a single expense; templateId edits a recurring template.
+  // itineraryItemId pre-links a new expense to an activity, and
+  // scannedReceiptId to a captured receipt whose scan prefills the form.
+  const {
+    id,
+    expenseId,
+    templateId,
+    itineraryItemId,
+    receiptDocumentId: scannedReceiptId,
+  } = useLocalSearchParams<{
+    id: string;
+    expenseId?: string;
+    templateId?: string;
+    itineraryItemId?: string;
+    receiptDocumentId?: string;
+  }>();
+  const isEditing = !!expenseId || !!templateId;
   const colorScheme = useColorScheme();
   const isDark = colorScheme === "dark";
   const colors = isDark ? Colors.dark : Colors.light;
@@ -118,6 +228,19 @@ export default function AddExpenseScreen() {
     error: collaboratorsError,
   } = useTripCollaborators(id);
 
+  // Activities and documents an expense can be linked to
+  const { items: itineraryItems } = useTripItinerary(id);
+  const { documents } = useTripDocuments(id);
+  const [linkedItemId, setLinkedItemId] = useState<string | null>(
+    itineraryItemId || null,
+  );
+  const [receiptDocumentId, setReceiptDocumentId] = useState<string | null>(
+    scannedReceiptId || null,
+  );
+  const [receiptDate, setReceiptDate] = useState<Date | null>(null);
+  const [scanApplied, setScanApplied] = useState(false);
+  const [prefilledFromScan, setPrefilledFromScan] = useState(false);
+
   // Subscription and usage limits
   const { limits } = useSubscription();
   const {
@@ -130,14 +253,140 @@ export default function AddExpenseScreen() {
   // Use trip's currency or user's default currency
   const currency = trip?.currency || user?.defaultCurrency || "USD";
 
+  // Currency the expense was paid in (defaults to the trip currency)
+  const [expenseCurrency, setExpenseCurrency] = useState<string | null>(null);
+  const selectedCurrency = expenseCurrency || currency;
+  const isForeignCurrency = selectedCurrency !== currency;
+  const [exchangeRate, setExchangeRate] = useState("");
+  const [rateLoading, setRateLoading] = useState(false);
+
   const [title, setTitle] = useState("");
   const [amount, setAmount] = useState("");
   const [category, setCategory] = useState<ExpenseCategory>("food");
   const [splitType, setSplitType] = useState<ExpenseSplitType>("equal");
   const [paidBy, setPaidBy] = useState<string>("");
   const [members, setMembers] = useState<Member[]>([]);
+  const [items, setItems] = useState<ItemDraft[]>([]);
+  const [tax, setTax] = useState("");
+  const [tip, setTip] = useState("");
   const [loading, setLoading] = useState(false);
-  const [errors, setErrors] = useState<{ title?: string; amount?: string }>({});
+  const [editingExpense, setEditingExpense] = useState<Expense | null>(null);
+  const [editingShares, setEditingShares] = useState<ExpenseShare[]>([]);
+  const [expenseLoading, setExpenseLoading] = useState(isEditing);
+  const [hydrated, setHydrated] = useState(false);
+
+  // Recurrence (hotels, rentals, per-diems)
+  const [repeat, setRepeat] = useState<"none" | RecurrenceFrequency>("none");
+  const [repeatStart, setRepeatStart] = useState<Date | null>(null);
+  const [repeatEnd, setRepeatEnd] = useState<Date | null>(null);
+  const [showRepeatStartPicker, setShowRepeatStartPicker] = useState(false);
+  const [showRepeatEndPicker, setShowRepeatEndPicker] = useState(false);
+  const recurrenceStart = repeatStart || trip?.startDate || new Date();
+  const recurrenceEnd = repeatEnd || trip?.endDate || new Date();
+  const occurrenceCount =
+    repeat === "none"
+      ? 1
+      : getOccurrenceDates(repeat, recurrenceStart, recurrenceEnd).length;
+
+  const [errors, setErrors] = useState<{
+    title?: string;
+    amount?: string;
+    exchangeRate?: string;
+    split?: string;
+    recurrence?: string;
+  }>({});
+
+  // Look up the current rate whenever a foreign currency is picked
+  useEffect(() => {
+    if (!isForeignCurrency) {
+      setExchangeRate("");
+      return;
+    }
+
+    // Keep the rate captured when the expense was first entered
+    if (
+      editingExpense &&
+      editingExpense.currency === selectedCurrency &&
+      editingExpense.exchangeRate
+    ) {
+      setExchangeRate(String(editingExpense.exchangeRate));
+      return;
+    }
+
+    let cancelled = false;
+    setRateLoading(true);
+    getExchangeRate(selectedCurrency, currency)
+      .then((rate) => {
+        if (!cancelled) setExchangeRate(rate.toFixed(4));
+      })
+      .catch((err) => {
+        console.warn("Failed to fetch exchange rate:", err);
+        if (!cancelled) setExchangeRate("");
+      })
+      .finally(() => {
+        if (!cancelled) setRateLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedCurrency, currency, isForeignCurrency, editingExpense]);
+
+  // Load a recurring template; it fills the form the same way a single expense does
+  useEffect(() => {
+    if (!templateId) return;
+
+    getRecurringExpense(templateId)
+      .then((template) => {
+        if (!template) {
+          Alert.alert("Error", "This recurring expense no longer exists.");
+          router.back();
+          return;
+        }
+        setEditingExpense({
+          id: template.id,
+          tripId: template.tripId,
+          title: template.title,
+          amount: template.amount,
+          currency: template.currency,
+          exchangeRate: template.exchangeRate,
+          paidBy: template.paidBy,
+          category: template.category,
+          split: template.split,
+          createdAt: template.createdAt,
+          updatedAt: template.updatedAt,
+        });
+        setRepeat(template.frequency);
+        setRepeatStart(template.startDate);
+        setRepeatEnd(template.endDate);
+      })
+      .catch((err) => {
+        console.error("Error loading recurring expense:", err);
+        Alert.alert("Error", "Failed to load expense. Please try again.");
+      })
+      .finally(() => setExpenseLoading(false));
+  }, [templateId]);
+
+  // Load the expense and its shares when editing
+  useEffect(() => {
+    if (!expenseId) return;
+
+    Promise.all([getExpense(expenseId), getExpenseShares(expenseId)])
+      .then(([expense, shares]) => {
+        if (!expense) {
+          Alert.alert("Error", "This expense no longer exists.");
+          router.back();
+          return;
+        }
+        setEditingExpense(expense);
+        setEditingShares(shares);
+      })
+      .catch((err) => {
+        console.error("Error loading expense:", err);
+        Alert.alert("Error", "Failed to load expense. Please try again.");
+      })
+      .finally(() => setExpenseLoading(false));
+  }, [expenseId]);
 
   // Initialize paidBy to current user and members from collaborators
   useEffect(() => {
@@ -160,6 +409,116 @@ export default function AddExpenseScreen() {
     }
   }, [collaborators, members.length]);
 
+  // Fill the form from the saved expense once members are available
+  useEffect(() => {
+    if (!editingExpense || hydrated || members.length === 0) return;
+
+    setTitle(editingExpense.title);
+    setAmount(String(editingExpense.amount));
+    setCategory((editingExpense.category as ExpenseCategory) || "other");
+    setPaidBy(editingExpense.paidBy);
+    setLinkedItemId(editingExpense.itineraryItemId || null);
+    setReceiptDocumentId(editingExpense.receiptDocumentId || null);
+    if (editingExpense.currency !== currency) {
+      setExpenseCurrency(editingExpense.currency);
+    }
+
+    // Expenses saved before split definitions were stored are rebuilt from their shares
+    const split: ExpenseSplitDefinition = editingExpense.split || {
+      type: "custom",
+      participants: editingShares.map((s) => s.userId),
+      customAmounts: Object.fromEntries(
+        editingShares.map((s) => [s.userId, s.shareAmount]),
+      ),
+    };
+    const participants =
+      split.participants.length > 0
+        ? split.participants
+        : editingShares.map((s) => s.userId);
+
+    if (split.type === "itemized") {
+      setItems(
+        (split.items || []).map((item) => ({
+          id: item.id,
+          name: item.name,
+          amount: String(item.amount),
+          assignedTo: item.assignedTo,
+        })),
+      );
+      setTax(split.tax ? String(split.tax) : "");
+      setTip(split.tip ? String(split.tip) : "");
+    }
+
+    const shareByUser = Object.fromEntries(
+      editingShares.map((s) => [s.userId, s.shareAmount]),
+    );
+    setSplitType(split.type === "percentage" ? "custom" : split.type);
+    setMembers(
+      members.map((m) => ({
+        ...m,
+        selected: split.type === "itemized" || participants.includes(m.id),
+        customAmount:
+          split.customAmounts?.[m.id] !== undefined
+            ? String(split.customAmounts[m.id])
+            : shareByUser[m.id] !== undefined
+              ? String(shareByUser[m.id])
+              : undefined,
+        weight:
+          split.weights?.[m.id] !== undefined
+            ? String(split.weights[m.id])
+            : undefined,
+      })),
+    );
+    setHydrated(true);
+  }, [editingExpense, editingShares, hydrated, members, currency]);
+
+  // Fill the form from a scanned receipt once the trip and members are loaded
+  useEffect(() => {
+    if (!scannedReceiptId || scanApplied || isEditing) return;
+    if (!trip || members.length === 0) return;
+    setScanApplied(true);
+
+    const receipt = takePendingReceiptScan(scannedReceiptId);
+    if (!receipt) return;
+
+    if (receipt.merchant) setTitle(receipt.merchant);
+    if (
+      receipt.currency &&
+      receipt.currency !== currency &&
+      CURRENCY_OPTIONS.includes(receipt.currency)
+    ) {
+      setExpenseCurrency(receipt.currency);
+    }
+    setReceiptDate(receipt.date);
+
+    // Line items are only trusted when they add back up to the printed total
+    const itemsTotal =
+      receipt.items.reduce((sum, item) => sum + item.amount, 0) +
+      (receipt.tax || 0) +
+      (receipt.tip || 0);
+    if (
+      receipt.items.length > 1 &&
+      receipt.total !== null &&
+      Math.abs(itemsTotal - receipt.total) < 0.01
+    ) {
+      setItems(
+        receipt.items.map((item) => ({
+          ...createItemDraft(members.map((m) => m.id)),
+          name: item.quantity ? `${item.name} ×${item.quantity}` : item.name,
+          amount: String(item.amount),
+        })),
+      );
+      setTax(receipt.tax ? String(receipt.tax) : "");
+      setTip(receipt.tip ? String(receipt.tip) : "");
+      setSplitType("itemized");
+    } else if (receipt.total) {
+      setAmount(String(receipt.total));
+    }
+    setPrefilledFromScan(
+      !!(receipt.merchant || receipt.total || receipt.items.length > 0),
+    );
+  }, [scannedReceiptId, scanApplied, isEditing, trip, members, currency]);
+
   const toggleMember = (memberId: string) => {
     setMembers(
       members.map((m) =>
@@ -176,17 +535,129 @@ export default function AddExpenseScreen() {
     );
   };
 
+  const updateWeight = (memberId: string, weight: string) => {
+    setMembers(
+      members.map((m) => (m.id === memberId ? { ...m, weight } : m)),
+    );
+  };
+
+  const addItem = () => {
+    setItems([...items, createItemDraft(members.map((m) => m.id))]);
+  };
+
+  const updateItem = (itemId: string, changes: Partial<ItemDraft>) => {
+    setItems(items.map((i) => (i.id === itemId ? { ...i, ...changes } : i)));
+  };
+
+  const removeItem = (itemId: string) => {
+    setItems(items.filter((i) => i.id !== itemId));
+  };
+
+  const toggleItemAssignee = (itemId: string, memberId: string) => {
+    setItems(
+      items.map((i) =>
+        i.id === itemId
+          ? {
+              ...i,
+              assignedTo: i.assignedTo.includes(memberId)
+                ? i.assignedTo.filter((uid) => uid !== memberId)
+                : [...i.assignedTo, memberId],
+            }
+          : i,
+      ),
+    );
+  };
+
+  // Build the split definition that is saved with the expense
+  const buildSplitDefinition = (): ExpenseSplitDefinition => {
+    const selected = members.filter((m) => m.selected);
+
+    switch (splitType) {
+      case "custom":
+        return {
+          type: "custom",
+          participants: selected.map((m) => m.id),
+          customAmounts: Object.fromEntries(
+            selected.map((m) => [m.id, parseFloat(m.customAmount || "0") || 0]),
+          ),
+        };
+      case "shares":
+        return {
+          type: "shares",
+          participants: selected.map((m) => m.id),
+          weights: Object.fromEntries(
+            selected.map((m) => [m.id, parseFloat(m.weight ?? "1") || 0]),
+          ),
+        };
+      case "itemized": {
+        const splitItems: ExpenseSplitItem[] = items.map((i) => ({
+          id: i.id,
+          name: i.name.trim(),
+          amount: parseFloat(i.amount) || 0,
+          assignedTo: i.assignedTo,
+        }));
+        return {
+          type: "itemized",
+          participants: Array.from(
+            new Set(splitItems.flatMap((i) => i.assignedTo)),
+          ),
+          items: splitItems,
+          tax: parseFloat(tax) || 0,
+          tip: parseFloat(tip) || 0,
+        };
+      }
+      default:
+        return { type: splitType, participants: selected.map((m) => m.id) };
+    }
+  };
+
+  const splitDefinition = buildSplitDefinition();
+  const itemizedTotal =
+    splitType === "itemized" ? getItemizedTotal(splitDefinition) : 0;
+
+  // Itemized receipts derive their total from the line items
+  useEffect(() => {
+    if (splitType === "itemized") {
+      setAmount(itemizedTotal > 0 ? itemizedTotal.toFixed(2) : "");
+    }
+  }, [splitType, itemizedTotal]);
+
   const handleSave = async () => {
-    // Check expense limit before saving
-    if (!expenseAccess.allowed) {
+    // Check expense limit before saving (edits don't add to the count)
+    if (!isEditing && !expenseAccess.allowed) {
       setShowUpgradePrompt(true);
       return;
     }
 
-    const newErrors: { title?: string; amount?: string } = {};
+    const newErrors: typeof errors = {};
     if (!title.trim()) newErrors.title = "Title is required";
     if (!amount || parseFloat(amount) <= 0)
       newErrors.amount = "Enter a valid amount";
+    if (isForeignCurrency && !(parseFloat(exchangeRate) > 0))
+      newErrors.exchangeRate = "Enter a valid exchange rate";
+    const splitError = validateSplit(parseFloat(amount) || 0, splitDefinition);
+    if (splitError) newErrors.split = splitError;
+    if (repeat !== "none") {
+      const recurrenceError = validateRecurrence(
+        repeat,
+        recurrenceStart,
+        recurrenceEnd,
+        trip?.startDate || recurrenceStart,
+        trip?.endDate || recurrenceEnd,
+      );
+      if (recurrenceError) newErrors.recurrence = recurrenceError;
+
+      // Every occurrence is an expense of its own and counts towards the plan's limit
+      if (!isEditing && usage && limits.maxExpensesPerTrip !== Infinity) {
+        const remaining = Math.max(
+          0,
+          limits.maxExpensesPerTrip - usage.expenseCount,
+        );
+        if (!recurrenceError && occurrenceCount > remaining) {
+          newErrors.recurrence = `This repeats ${occurrenceCount} times, but your plan allows ${remaining} more ${remaining === 1 ? "expense" : "expenses"} on this trip`;
+        }
+      }
+    }
 
     if (Object.keys(newErrors).length > 0) {
       setErrors(newErrors);
@@ -201,61 +672,150 @@ export default function AddExpenseScreen() {
     setLoading(true);
     try {
       const expenseAmount = parseFloat(amount);
+      const formattedAmount = `${selectedCurrency} ${expenseAmount.toFixed(2)}`;
 
-      // Create expense in Firestore - include category
+      if (repeat !== "none") {
+        // Recurring expenses write many occurrences at once and aren't queued offline
+        if (!(await checkNetworkStatus())) {
+          Alert.alert(
+            "You're Offline",
+            "Recurring expenses can only be saved while you're online. Save it as a single expense or try again once you're connected.",
+          );
+          return;
+        }
+
+        // Every occurrence gets the same shares, resolved once
+        const shares = Object.entries(
+          resolveSplitShares(expenseAmount, splitDefinition),
+        ).map(([userId, shareAmount]) => ({ userId, shareAmount }));
+        const templateData = {
+          tripId: id,
+          title: title.trim(),
+          amount: expenseAmount,
+          currency: selectedCurrency,
+          exchangeRate: isForeignCurrency ? parseFloat(exchangeRate) : 1,
+          paidBy,
+          category,
+          split: splitDefinition,
+          frequency: repeat,
+          startDate: recurrenceStart,
+          endDate: recurrenceEnd,
+          createdBy: user.id,
+        };
+        const recurringTitle = `${title.trim()} (repeats ${occurrenceCount}×)`;
+
+        if (templateId) {
+          await updateRecurringExpense(
+            templateId,
+            templateData,
+            shares,
+            user.id,
+          );
+          notifyExpenseUpdated(
+            id,
+            trip?.title || "Trip",
+            templateId,
+            recurringTitle,
+            formattedAmount,
+            user.id,
+            user.name,
+          ).catch(console.error); // Don't block on notification
+        } else {
+          const newTemplateId = await createRecurringExpense(
+            templateData,
+            shares,
+            user.id,
+          );
+          notifyExpenseAdded(
+            id,
+            trip?.title || "Trip",
+            newTemplateId,
+            recurringTitle,
+            formattedAmount,
+            user.id,
+            user.name,
+          ).catch(console.error); // Don't block on notification
+          await refreshUsage();
+        }
+        checkBudgetAlerts(id).catch(console.error);
+
+        router.back();
+        return;
+      }
+
+      if (expenseId) {
+        // Rewrite the expense and its shares together
+        const shares = resolveSplitShares(expenseAmount, splitDefinition);
+        await updateExpenseWithShares(
+          expenseId,
+          {
+            title: title.trim(),
+            amount: expenseAmount,
+            currency: selectedCurrency,
+            exchangeRate: isForeignCurrency ? parseFloat(exchangeRate) : 1,
+            paidBy,
+            category,
+            split: splitDefinition,
+            itineraryItemId: linkedItemId,
+            receiptDocumentId,
+          },
+          Object.entries(shares).map(([userId, shareAmount]) => ({
+            userId,
+            shareAmount,
+          })),
+          user.id,
+        );
+
+        notifyExpenseUpdated(
+          id,
+          trip?.title || "Trip",
+          expenseId,
+          title.trim(),
+          formattedAmount,
+          user.id,
+          user.name,
+        ).catch(console.error); // Don't block on notification
+        checkBudgetAlerts(id).catch(console.error);
+
+        router.back();
+        return;
+      }
+
+      // Create the expense together with the resolved share for each member
+      const shares = resolveSplitShares(expenseAmount, splitDefinition);
       const expenseId = await createExpense({
         tripId: id,
         title: title.trim(),
         amount: expenseAmount,
-        currency,
+        currency: selectedCurrency,
+        exchangeRate: isForeignCurrency ? parseFloat(exchangeRate) : 1,
         paidBy,
         category, // Add the selected category
+        split: splitDefinition, // Keep the original inputs for editing later
+        itineraryItemId: linkedItemId,
+        receiptDocumentId,
+        occurrenceDate: receiptDate,
+        shares: Object.entries(shares).map(([userId, shareAmount]) => ({
+          userId,
+          shareAmount,
+        })),
+        actorId: user.id,
       });
 
-      // Create expense shares for selected members
-      const selectedMembers = members.filter((m) => m.selected);
-      if (selectedMembers.length > 0) {
-        let shareAmount: number;
-
-        if (splitType === "custom") {
-          // Custom split - use individual amounts
-          await Promise.all(
-            selectedMembers.map((member) => {
-              const customAmt = parseFloat(member.customAmount || "0");
-              return createExpenseShare({
-                expenseId,
-                userId: member.id,
-                shareAmount: customAmt,
-              });
-            }),
-          );
-        } else {
-          // Equal split
-          shareAmount = expenseAmount / selectedMembers.length;
-          await Promise.all(
-            selectedMembers.map((member) =>
-              createExpenseShare({
-                expenseId,
-                userId: member.id,
-                shareAmount,
-              }),
-            ),
-          );
-        }
+      // Notify collaborators about the new expense, unless it is waiting offline
+      if (!isLocalId(expenseId)) {
+        notifyExpenseAdded(
+          id,
+          trip?.title || "Trip",
+          expenseId,
+          title.trim(),
+          formattedAmount,
+          user.id,
+          user.name,
+        ).catch(console.error); // Don't block on notification
+        checkBudgetAlerts(id).catch(console.error);
       }
 
-      // Notify collaborators about the new expense
-      const formattedAmount = `${currency} ${expenseAmount.toFixed(2)}`;
-      notifyExpenseAdded(
-        id,
-        trip?.title || "Trip",
-        expenseId,
-        title.trim(),
-        formattedAmount,
-        user.id,
-        user.name,
-      ).catch(console.error); // Don't block on notification
-
       // Refresh usage counts
       await refreshUsage();
 
@@ -268,6 +828,70 @@ export default function AddExpenseScreen() {
     }
   };
 
+  const handleDeleteTemplate = () => {
+    if (!templateId || !user) return;
+
+    Alert.alert(
+      "Delete Recurring Expense",
+      "This removes the template and all upcoming days. Past days are kept.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: async () => {
+            if (!(await checkNetworkStatus())) {
+              Alert.alert(
+                "You're Offline",
+                "Recurring expenses can only be deleted while you're online.",
+              );
+              return;
+            }
+            try {
+              await deleteRecurringExpense(templateId, user.id);
+              router.back();
+            } catch (err) {
+              console.error("Error deleting recurring expense:", err);
+              Alert.alert("Error", "Failed to delete recurring expense");
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  const handleDeleteExpense = () => {
+    if (!expenseId || !user) return;
+
+    Alert.alert(
+      "Delete Expense",
+      `This moves the expense to the trash. An owner or editor can restore it within ${TRASH_RETENTION_DAYS} days.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await deleteExpense(expenseId, user.id);
+              checkBudgetAlerts(id).catch(console.error);
+              router.back();
+            } catch (err) {
+              console.error("Error deleting expense:", err);
+              Alert.alert("Error", "Failed to delete expense");
+            }
+          },
+        },
+      ],
+    );
+  };
+
+  const formatRepeatDate = (date: Date) =>
+    new Date(date).toLocaleDateString("en-US", {
+      month: "short",
+      day: "numeric",
+    });
+
   const selectedMembersCount = members.filter((m) => m.selected).length;
 
   // Calculate per person amount or total of custom amounts
@@ -285,6 +909,12 @@ export default function AddExpenseScreen() {
     amount &&
     totalCustomAmount !== parseFloat(amount);
 
+  // Preview of what each member owes under the current split
+  const sharePreview =
+    amount && parseFloat(amount) > 0
+      ? resolveSplitShares(parseFloat(amount), splitDefinition)
+      : {};
+
   return (
     <ScreenContainer
       style={styles.container}
@@ -317,9 +947,37 @@ export default function AddExpenseScreen() {
             <Ionicons name="arrow-back" size={24} color={colors.text} />
           </TouchableOpacity>
           <Text style={[styles.headerTitle, { color: colors.text }]}>
-            Add Expense
+            {isEditing ? "Edit Expense" : "Add Expense"}
           </Text>
-          <View style={styles.headerPlaceholder} />
+          {templateId ? (
+            <TouchableOpacity
+              onPress={handleDeleteTemplate}
+              style={styles.backButton}
+            >
+              <Ionicons name="trash-outline" size={22} color={Colors.error} />
+            </TouchableOpacity>
+          ) : expenseId ? (
+            <View style={styles.headerActions}>
+              <TouchableOpacity
+                onPress={() =>
+                  router.push(
+                    `/trips/${id}/expenses/history?expenseId=${expenseId}`,
+                  )
+                }
+                style={styles.backButton}
+              >
+                <Ionicons name="time-outline" size={22} color={colors.text} />
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={handleDeleteExpense}
+                style={styles.backButton}
+              >
+                <Ionicons name="trash-outline" size={22} color={Colors.error} />
+              </TouchableOpacity>
+            </View>
+          ) : (
+            <View style={styles.headerPlaceholder} />
+          )}
         </View>
 
         <ScrollView
@@ -329,7 +987,7 @@ export default function AddExpenseScreen() {
           showsVerticalScrollIndicator={false}
         >
           {/* Limit Warning */}
-          {limits.maxExpensesPerTrip !== Infinity && usage && (
+          {!isEditing && limits.maxExpensesPerTrip !== Infinity && usage && (
             <LimitWarning
               current={usage.expenseCount}
               limit={limits.maxExpensesPerTrip}
@@ -337,6 +995,31 @@ export default function AddExpenseScreen() {
             />
           )}
 
+          {prefilledFromScan && (
+            <View
+              style={[
+                styles.scanNotice,
+                { backgroundColor: Colors.primary + "10" },
+              ]}
+            >
+              <Ionicons name="scan-outline" size={16} color={Colors.primary} />
+              <Text style={[styles.scanNoticeText, { color: colors.text }]}>
+                Filled in from your receipt. Check the details before saving.
+              </Text>
+            </View>
+          )}
+
+          {expenseLoading && (
+            <View style={styles.loadingContainer}>
+              <ActivityIndicator size="small" color={Colors.primary} />
+              <Text
+                style={[styles.loadingText, { color: colors.textSecondary }]}
+              >
+                Loading expense...
+              </Text>
+            </View>
+          )}
+
           {/* Amount Input - Improved visibility */}
           <View
             style={[
@@ -347,11 +1030,11 @@ export default function AddExpenseScreen() {
             <Text
               style={[styles.currencyLabel, { color: colors.textSecondary }]}
             >
-              Amount ({currency})
+              Amount ({selectedCurrency})
             </Text>
             <View style={styles.amountInputContainer}>
               <Text style={[styles.currencySymbol, { color: colors.text }]}>
-                {currency === "INR" ? "₹" : currency === "EUR" ? "€" : "$"}
+                {getCurrencySymbol(selectedCurrency)}
               </Text>
               <TextInput
                 placeholder="0.00"
@@ -363,12 +1046,126 @@ export default function AddExpenseScreen() {
                     setErrors({ ...errors, amount: undefined });
                 }}
                 keyboardType="decimal-pad"
+                editable={splitType !== "itemized"}
                 style={[styles.amountInputText, { color: colors.text }]}
               />
             </View>
+            {splitType === "itemized" && (
+              <Text
+                style={[
+                  styles.convertedAmountText,
+                  { color: colors.textSecondary },
+                ]}
+              >
+                Total is calculated from the receipt items below
+              </Text>
+            )}
             {errors.amount && (
               <Text style={styles.errorText}>{errors.amount}</Text>
             )}
+
+            {/* Currency Picker */}
+            <ScrollView
+              horizontal
+              showsHorizontalScrollIndicator={false}
+              contentContainerStyle={styles.currencyOptions}
+            >
+              {[currency, ...CURRENCY_OPTIONS.filter((c) => c !== currency)].map(
+                (code) => (
+                  <TouchableOpacity
+                    key={code}
+                    style={[
+                      styles.currencyChip,
+                      {
+                        backgroundColor:
+                          selectedCurrency === code
+                            ? Colors.primary + "15"
+                            : colors.backgroundSecondary,
+                        borderColor:
+                          selectedCurrency === code
+                            ? Colors.primary
+                            : colors.border,
+                      },
+                    ]}
+                    onPress={() => setExpenseCurrency(code)}
+                  >
+                    <Text
+                      style={[
+                        styles.currencyChipText,
+                        {
+                          color:
+                            selectedCurrency === code
+                              ? Colors.primary
+                              : colors.textSecondary,
+                        },
+                      ]}
+                    >
+                      {code}
+                    </Text>
+                  </TouchableOpacity>
+                ),
+              )}
+            </ScrollView>
+
+            {/* Exchange Rate (stored with the expense) */}
+            {isForeignCurrency && (
+              <View style={styles.exchangeRateRow}>
+                <Text
+                  style={[
+                    styles.exchangeRateLabel,
+                    { color: colors.textSecondary },
+                  ]}
+                >
+                  1 {selectedCurrency} =
+                </Text>
+                {rateLoading ? (
+                  <ActivityIndicator size="small" color={Colors.primary} />
+                ) : (
+                  <TextInput
+                    style={[
+                      styles.exchangeRateInput,
+                      {
+                        color: colors.text,
+                        backgroundColor: colors.inputBackground,
+                      },
+                    ]}
+                    placeholder="0.0000"
+                    placeholderTextColor={colors.textMuted}
+                    value={exchangeRate}
+                    onChangeText={(text) => {
+                      setExchangeRate(text);
+                      if (errors.exchangeRate)
+                        setErrors({ ...errors, exchangeRate: undefined });
+                    }}
+                    keyboardType="decimal-pad"
+                  />
+                )}
+                <Text
+                  style={[
+                    styles.exchangeRateLabel,
+                    { color: colors.textSecondary },
+                  ]}
+                >
+                  {currency}
+                </Text>
+              </View>
+            )}
+            {isForeignCurrency &&
+              amount &&
+              parseFloat(exchangeRate) > 0 && (
+                <Text
+                  style={[
+                    styles.convertedAmountText,
+                    { color: colors.textSecondary },
+                  ]}
+                >
+                  ≈ {currency}{" "}
+                  {(parseFloat(amount) * parseFloat(exchangeRate)).toFixed(2)}
+                </Text>
+              )}
+            {errors.exchangeRate && (
+              <Text style={styles.errorText}>{errors.exchangeRate}</Text>
+            )}
           </View>
 
           {/* Title/Description - Improved spacing */}
@@ -451,6 +1248,94 @@ export default function AddExpenseScreen() {
             </View>
           </View>
 
+          {/* Links to an itinerary activity and a receipt */}
+          {repeat === "none" &&
+            (itineraryItems.length > 0 || documents.length > 0) && (
+              <View style={styles.section}>
+                <Text style={[styles.sectionTitle, { color: colors.text }]}>
+                  Link To
+                </Text>
+                {[
+                  {
+                    key: "activity",
+                    icon: "calendar-outline" as const,
+                    options: [...itineraryItems]
+                      .sort(
+                        (a, b) =>
+                          new Date(a.startTime || a.createdAt).getTime() -
+                          new Date(b.startTime || b.createdAt).getTime(),
+                      )
+                      .map((item) => ({ id: item.id, label: item.title })),
+                    selected: linkedItemId,
+                    onSelect: setLinkedItemId,
+                  },
+                  {
+                    key: "receipt",
+                    icon: "document-attach-outline" as const,
+                    options: documents.map((doc) => ({
+                      id: doc.id,
+                      label: doc.label || "Untitled Document",
+                    })),
+                    selected: receiptDocumentId,
+                    onSelect: setReceiptDocumentId,
+                  },
+                ]
+                  .filter((group) => group.options.length > 0)
+                  .map((group) => (
+                    <View key={group.key} style={styles.linkRow}>
+                      <Ionicons
+                        name={group.icon}
+                        size={18}
+                        color={colors.textSecondary}
+                      />
+                      <ScrollView
+                        horizontal
+                        showsHorizontalScrollIndicator={false}
+                        contentContainerStyle={styles.linkOptions}
+                      >
+                        {group.options.map((option) => {
+                          const isSelected = group.selected === option.id;
+                          return (
+                            <TouchableOpacity
+                              key={option.id}
+                              style={[
+                                styles.currencyChip,
+                                {
+                                  backgroundColor: isSelected
+                                    ? Colors.primary + "15"
+                                    : colors.card,
+                                  borderColor: isSelected
+                                    ? Colors.primary
+                                    : colors.border,
+                                },
+                              ]}
+                              // Tap again to unlink
+                              onPress={() =>
+                                group.onSelect(isSelected ? null : option.id)
+                              }
+                            >
+                              <Text
+                                style={[
+                                  styles.currencyChipText,
+                                  {
+                                    color: isSelected
+                                      ? Colors.primary
+                                      : colors.textSecondary,
+                                  },
+                                ]}
+                                numberOfLines={1}
+                              >
+                                {option.label}
+                              </Text>
+                            </TouchableOpacity>
+                          );
+                        })}
+                      </ScrollView>
+                    </View>
+                  ))}
+              </View>
+            )}
+
           {/* Paid By */}
           <View style={styles.section}>
             <Text style={[styles.sectionTitle, { color: colors.text }]}>
@@ -519,6 +1404,147 @@ export default function AddExpenseScreen() {
             )}
           </View>
 
+          {/* Repeat (not for a single day of a recurring expense) */}
+          {!expenseId && (
+            <View style={styles.section}>
+              <Text style={[styles.sectionTitle, { color: colors.text }]}>
+                Repeat
+              </Text>
+              <View style={styles.repeatOptions}>
+                {REPEAT_OPTIONS.filter(
+                  (option) => !templateId || option.id !== "none",
+                ).map((option) => (
+                  <TouchableOpacity
+                    key={option.id}
+                    style={[
+                      styles.currencyChip,
+                      {
+                        backgroundColor:
+                          repeat === option.id
+                            ? Colors.primary + "15"
+                            : colors.card,
+                        borderColor:
+                          repeat === option.id ? Colors.primary : colors.border,
+                      },
+                    ]}
+                    onPress={() => {
+                      setRepeat(option.id);
+                      if (errors.recurrence)
+                        setErrors({ ...errors, recurrence: undefined });
+                    }}
+                  >
+                    <Text
+                      style={[
+                        styles.currencyChipText,
+                        {
+                          color:
+                            repeat === option.id
+                              ? Colors.primary
+                              : colors.textSecondary,
+                        },
+                      ]}
+                    >
+                      {option.label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              {repeat !== "none" && (
+                <>
+                  <View style={styles.repeatDates}>
+                    {[
+                      {
+                        label: "From",
+                        date: recurrenceStart,
+                        onPress: () => setShowRepeatStartPicker(true),
+                      },
+                      {
+                        label: "To",
+                        date: recurrenceEnd,
+                        onPress: () => setShowRepeatEndPicker(true),
+                      },
+                    ].map((field) => (
+                      <TouchableOpacity
+                        key={field.label}
+                        style={[
+                          styles.repeatDateButton,
+                          {
+                            backgroundColor: colors.card,
+                            borderColor: colors.border,
+                          },
+                        ]}
+                        onPress={field.onPress}
+                      >
+                        <Ionicons
+                          name="calendar-outline"
+                          size={18}
+                          color={Colors.primary}
+                        />
+                        <Text
+                          style={[
+                            styles.customAmountLabel,
+                            { color: colors.textSecondary },
+                          ]}
+                        >
+                          {field.label}
+                        </Text>
+                        <Text
+                          style={[styles.repeatDateText, { color: colors.text }]}
+                        >
+                          {formatRepeatDate(field.date)}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                  <Text
+                    style={[
+                      styles.convertedAmountText,
+                      { color: colors.textSecondary },
+                    ]}
+                  >
+                    {occurrenceCount}{" "}
+                    {repeat === "nightly" ? "nights" : "days"} ×{" "}
+                    {getCurrencySymbol(selectedCurrency)}
+                    {amount || "0.00"}
+                    {templateId ? " · past days are not changed" : ""}
+                  </Text>
+                  {errors.recurrence && (
+                    <Text style={styles.errorText}>{errors.recurrence}</Text>
+                  )}
+
+                  {showRepeatStartPicker && (
+                    <DateTimePicker
+                      value={recurrenceStart}
+                      mode="date"
+                      display="spinner"
+                      onChange={(_event: unknown, date?: Date) => {
+                        setShowRepeatStartPicker(Platform.OS === "ios");
+                        if (date) setRepeatStart(date);
+                      }}
+                      minimumDate={trip?.startDate}
+                      maximumDate={trip?.endDate}
+                    />
+                  )}
+
+                  {showRepeatEndPicker && (
+                    <DateTimePicker
+                      value={recurrenceEnd}
+                      mode="date"
+                      display="spinner"
+                      onChange={(_event: unknown, date?: Date) => {
+                        setShowRepeatEndPicker(Platform.OS === "ios");
+                        if (date) setRepeatEnd(date);
+                      }}
+                      minimumDate={recurrenceStart}
+                      maximumDate={trip?.endDate}
+                    />
+                  )}
+                </>
+              )}
+            </View>
+          )}
+
           {/* Split Type */}
           <View style={styles.section}>
             <Text style={[styles.sectionTitle, { color: colors.text }]}>
@@ -538,7 +1564,13 @@ export default function AddExpenseScreen() {
                       splitType === type.id ? Colors.primary : colors.border,
                   },
                 ]}
-                onPress={() => setSplitType(type.id)}
+                onPress={() => {
+                  setSplitType(type.id);
+                  if (type.id === "itemized" && items.length === 0) {
+                    setItems([createItemDraft(members.map((m) => m.id))]);
+                  }
+                  if (errors.split) setErrors({ ...errors, split: undefined });
+                }}
               >
                 <View
                   style={[
@@ -597,114 +1629,65 @@ export default function AddExpenseScreen() {
             ))}
           </View>
 
-          {/* Split Among */}
-          <View style={styles.section}>
-            <View style={styles.sectionHeader}>
-              <Text
-                style={[
-                  styles.sectionTitle,
-                  { color: colors.text, marginBottom: 0 },
-                ]}
-              >
-                Split Among
-              </Text>
-              {splitType === "equal" && (
+          {/* Receipt Items (itemized split) */}
+          {splitType === "itemized" && (
+            <View style={styles.section}>
+              <View style={styles.sectionHeader}>
                 <Text
-                  style={[styles.perPersonLabel, { color: Colors.primary }]}
-                >
-                  {currency === "INR" ? "₹" : currency === "EUR" ? "€" : "$"}
-                  {perPersonAmount} each
-                </Text>
-              )}
-              {splitType === "custom" && customAmountError && (
-                <Text style={[styles.perPersonLabel, { color: Colors.error }]}>
-                  Total: {totalCustomAmount.toFixed(2)} / {amount}
-                </Text>
-              )}
-            </View>
-            <View style={styles.membersContainer}>
-              {members.map((member) => (
-                <View
-                  key={member.id}
                   style={[
-                    styles.memberOptionWrapper,
-                    {
-                      backgroundColor: colors.card,
-                      borderColor: colors.border,
-                    },
+                    styles.sectionTitle,
+                    { color: colors.text, marginBottom: 0 },
                   ]}
                 >
-                  <TouchableOpacity
-                    style={styles.memberOption}
-                    onPress={() => toggleMember(member.id)}
+                  Receipt Items
+                </Text>
+                <TouchableOpacity onPress={addItem}>
+                  <Text
+                    style={[styles.perPersonLabel, { color: Colors.primary }]}
                   >
-                    <View
-                      style={[
-                        styles.memberAvatar,
-                        { backgroundColor: Colors.primary + "20" },
-                      ]}
-                    >
-                      <Text
-                        style={[
-                          styles.memberAvatarText,
-                          { color: Colors.primary },
-                        ]}
-                      >
-                        {member.name.charAt(0)}
-                      </Text>
-                    </View>
-                    <Text style={[styles.memberName, { color: colors.text }]}>
-                      {member.name}
-                    </Text>
-                    <View
-                      style={[
-                        styles.checkbox,
-                        {
-                          backgroundColor: member.selected
-                            ? Colors.primary
-                            : "transparent",
-                          borderColor: member.selected
-                            ? Colors.primary
-                            : colors.border,
-                        },
-                      ]}
-                    >
-                      {member.selected && (
-                        <Ionicons name="checkmark" size={16} color="#FFFFFF" />
-                      )}
-                    </View>
-                  </TouchableOpacity>
-
-                  {splitType === "custom" && member.selected && (
-                    <View
-                      style={[
-                        styles.customAmountContainer,
-                        { borderTopColor: colors.border },
-                      ]}
-                    >
-                      <Text
+                    + Add Item
+                  </Text>
+                </TouchableOpacity>
+              </View>
+              <View style={styles.membersContainer}>
+                {items.map((item) => (
+                  <View
+                    key={item.id}
+                    style={[
+                      styles.memberOptionWrapper,
+                      {
+                        backgroundColor: colors.card,
+                        borderColor: colors.border,
+                      },
+                    ]}
+                  >
+                    <View style={styles.itemRow}>
+                      <TextInput
                         style={[
-                          styles.customAmountLabel,
-                          { color: colors.textSecondary },
+                          styles.itemNameInput,
+                          {
+                            color: colors.text,
+                            backgroundColor: colors.inputBackground,
+                          },
                         ]}
-                      >
-                        Amount:
-                      </Text>
+                        placeholder="Item name"
+                        placeholderTextColor={colors.textMuted}
+                        value={item.name}
+                        onChangeText={(text) =>
+                          updateItem(item.id, { name: text })
+                        }
+                      />
                       <Text
                         style={[
                           styles.currencySymbolSmall,
                           { color: colors.text },
                         ]}
                       >
-                        {currency === "INR"
-                          ? "₹"
-                          : currency === "EUR"
-                            ? "€"
-                            : "$"}
+                        {getCurrencySymbol(selectedCurrency)}
                       </Text>
                       <TextInput
                         style={[
-                          styles.customAmountInput,
+                          styles.itemAmountInput,
                           {
                             color: colors.text,
                             backgroundColor: colors.inputBackground,
@@ -712,23 +1695,328 @@ export default function AddExpenseScreen() {
                         ]}
                         placeholder="0.00"
                         placeholderTextColor={colors.textMuted}
-                        value={member.customAmount || ""}
+                        value={item.amount}
                         onChangeText={(text) =>
-                          updateCustomAmount(member.id, text)
+                          updateItem(item.id, { amount: text })
                         }
                         keyboardType="decimal-pad"
                       />
+                      <TouchableOpacity onPress={() => removeItem(item.id)}>
+                        <Ionicons
+                          name="trash-outline"
+                          size={18}
+                          color={colors.textSecondary}
+                        />
+                      </TouchableOpacity>
                     </View>
-                  )}
+                    <View
+                      style={[
+                        styles.itemAssignees,
+                        { borderTopColor: colors.border },
+                      ]}
+                    >
+                      {members.map((member) => {
+                        const assigned = item.assignedTo.includes(member.id);
+                        return (
+                          <TouchableOpacity
+                            key={member.id}
+                            style={[
+                              styles.currencyChip,
+                              {
+                                backgroundColor: assigned
+                                  ? Colors.primary + "15"
+                                  : colors.backgroundSecondary,
+                                borderColor: assigned
+                                  ? Colors.primary
+                                  : colors.border,
+                              },
+                            ]}
+                            onPress={() =>
+                              toggleItemAssignee(item.id, member.id)
+                            }
+                          >
+                            <Text
+                              style={[
+                                styles.currencyChipText,
+                                {
+                                  color: assigned
+                                    ? Colors.primary
+                                    : colors.textSecondary,
+                                },
+                              ]}
+                            >
+                              {member.name}
+                            </Text>
+                          </TouchableOpacity>
+                        );
+                      })}
+                    </View>
+                  </View>
+                ))}
+
+                {/* Tax & Tip */}
+                {[
+                  { label: "Tax", value: tax, onChange: setTax },
+                  { label: "Tip", value: tip, onChange: setTip },
+                ].map((extra) => (
+                  <View
+                    key={extra.label}
+                    style={[
+                      styles.customAmountContainer,
+                      {
+                        backgroundColor: colors.card,
+                        borderColor: colors.border,
+                        borderWidth: 1,
+                        borderRadius: BorderRadius.md,
+                      },
+                    ]}
+                  >
+                    <Text
+                      style={[
+                        styles.customAmountLabel,
+                        { color: colors.textSecondary },
+                      ]}
+                    >
+                      {extra.label}:
+                    </Text>
+                    <Text
+                      style={[
+                        styles.currencySymbolSmall,
+                        { color: colors.text },
+                      ]}
+                    >
+                      {getCurrencySymbol(selectedCurrency)}
+                    </Text>
+                    <TextInput
+                      style={[
+                        styles.customAmountInput,
+                        {
+                          color: colors.text,
+                          backgroundColor: colors.inputBackground,
+                        },
+                      ]}
+                      placeholder="0.00"
+                      placeholderTextColor={colors.textMuted}
+                      value={extra.value}
+                      onChangeText={extra.onChange}
+                      keyboardType="decimal-pad"
+                    />
+                  </View>
+                ))}
+              </View>
+
+              {/* Per-member totals including their share of tax & tip */}
+              {Object.keys(sharePreview).length > 0 && (
+                <View style={styles.itemSummary}>
+                  {members
+                    .filter((m) => sharePreview[m.id])
+                    .map((member) => (
+                      <View key={member.id} style={styles.itemSummaryRow}>
+                        <Text
+                          style={[
+                            styles.customAmountLabel,
+                            { color: colors.textSecondary },
+                          ]}
+                        >
+                          {member.name}
+                        </Text>
+                        <Text
+                          style={[
+                            styles.customAmountLabel,
+                            { color: colors.text },
+                          ]}
+                        >
+                          {getCurrencySymbol(selectedCurrency)}
+                          {sharePreview[member.id].toFixed(2)}
+                        </Text>
+                      </View>
+                    ))}
                 </View>
-              ))}
+              )}
+              {errors.split && (
+                <Text style={[styles.errorText, { marginTop: Spacing.sm }]}>
+                  {errors.split}
+                </Text>
+              )}
             </View>
-            {customAmountError && (
-              <Text style={[styles.errorText, { marginTop: Spacing.sm }]}>
-                Custom amounts must equal the total expense amount
-              </Text>
-            )}
-          </View>
+          )}
+
+          {/* Split Among */}
+          {splitType !== "itemized" && (
+            <View style={styles.section}>
+              <View style={styles.sectionHeader}>
+                <Text
+                  style={[
+                    styles.sectionTitle,
+                    { color: colors.text, marginBottom: 0 },
+                  ]}
+                >
+                  Split Among
+                </Text>
+                {splitType === "equal" && (
+                  <Text
+                    style={[styles.perPersonLabel, { color: Colors.primary }]}
+                  >
+                    {getCurrencySymbol(selectedCurrency)}
+                    {perPersonAmount} each
+                  </Text>
+                )}
+                {splitType === "custom" && customAmountError && (
+                  <Text style={[styles.perPersonLabel, { color: Colors.error }]}>
+                    Total: {totalCustomAmount.toFixed(2)} / {amount}
+                  </Text>
+                )}
+              </View>
+              <View style={styles.membersContainer}>
+                {members.map((member) => (
+                  <View
+                    key={member.id}
+                    style={[
+                      styles.memberOptionWrapper,
+                      {
+                        backgroundColor: colors.card,
+                        borderColor: colors.border,
+                      },
+                    ]}
+                  >
+                    <TouchableOpacity
+                      style={styles.memberOption}
+                      onPress={() => toggleMember(member.id)}
+                    >
+                      <View
+                        style={[
+                          styles.memberAvatar,
+                          { backgroundColor: Colors.primary + "20" },
+                        ]}
+                      >
+                        <Text
+                          style={[
+                            styles.memberAvatarText,
+                            { color: Colors.primary },
+                          ]}
+                        >
+                          {member.name.charAt(0)}
+                        </Text>
+                      </View>
+                      <Text style={[styles.memberName, { color: colors.text }]}>
+                        {member.name}
+                      </Text>
+                      <View
+                        style={[
+                          styles.checkbox,
+                          {
+                            backgroundColor: member.selected
+                              ? Colors.primary
+                              : "transparent",
+                            borderColor: member.selected
+                              ? Colors.primary
+                              : colors.border,
+                          },
+                        ]}
+                      >
+                        {member.selected && (
+                          <Ionicons name="checkmark" size={16} color="#FFFFFF" />
+                        )}
+                      </View>
+                    </TouchableOpacity>
+
+                    {splitType === "custom" && member.selected && (
+                      <View
+                        style={[
+                          styles.customAmountContainer,
+                          { borderTopColor: colors.border },
+                        ]}
+                      >
+                        <Text
+                          style={[
+                            styles.customAmountLabel,
+                            { color: colors.textSecondary },
+                          ]}
+                        >
+                          Amount:
+                        </Text>
+                        <Text
+                          style={[
+                            styles.currencySymbolSmall,
+                            { color: colors.text },
+                          ]}
+                        >
+                          {getCurrencySymbol(selectedCurrency)}
+                        </Text>
+                        <TextInput
+                          style={[
+                            styles.customAmountInput,
+                            {
+                              color: colors.text,
+                              backgroundColor: colors.inputBackground,
+                            },
+                          ]}
+                          placeholder="0.00"
+                          placeholderTextColor={colors.textMuted}
+                          value={member.customAmount || ""}
+                          onChangeText={(text) =>
+                            updateCustomAmount(member.id, text)
+                          }
+                          keyboardType="decimal-pad"
+                        />
+                      </View>
+                    )}
+
+                    {splitType === "shares" && member.selected && (
+                      <View
+                        style={[
+                          styles.customAmountContainer,
+                          { borderTopColor: colors.border },
+                        ]}
+                      >
+                        <Text
+                          style={[
+                            styles.customAmountLabel,
+                            { color: colors.textSecondary },
+                          ]}
+                        >
+                          Shares:
+                        </Text>
+                        <TextInput
+                          style={[
+                            styles.customAmountInput,
+                            {
+                              color: colors.text,
+                              backgroundColor: colors.inputBackground,
+                            },
+                          ]}
+                          placeholder="1"
+                          placeholderTextColor={colors.textMuted}
+                          value={member.weight ?? "1"}
+                          onChangeText={(text) => updateWeight(member.id, text)}
+                          keyboardType="decimal-pad"
+                        />
+                        <Text
+                          style={[
+                            styles.customAmountLabel,
+                            { color: colors.text },
+                          ]}
+                        >
+                          {getCurrencySymbol(selectedCurrency)}
+                          {(sharePreview[member.id] || 0).toFixed(2)}
+                        </Text>
+                      </View>
+                    )}
+                  </View>
+                ))}
+              </View>
+              {customAmountError && (
+                <Text style={[styles.errorText, { marginTop: Spacing.sm }]}>
+                  Custom amounts must equal the total expense amount
+                </Text>
+              )}
+              {errors.split && !customAmountError && (
+                <Text style={[styles.errorText, { marginTop: Spacing.sm }]}>
+                  {errors.split}
+                </Text>
+              )}
+            </View>
+          )}
         </ScrollView>
 
         {/* Bottom Button */}
@@ -739,7 +2027,7 @@ export default function AddExpenseScreen() {
           ]}
         >
           <Button
-            title="Save Expense"
+            title={isEditing ? "Save Changes" : "Save Expense"}
             onPress={handleSave}
             loading={loading}
             fullWidth
@@ -779,6 +2067,9 @@ const styles = StyleSheet.create({
   headerPlaceholder: {
     width: 40,
   },
+  headerActions: {
+    flexDirection: "row",
+  },
   scrollView: {
     flex: 1,
   },
@@ -815,6 +2106,43 @@ const styles = StyleSheet.create({
     textAlign: "center",
     minWidth: 150,
   },
+  currencyOptions: {
+    gap: Spacing.xs,
+    paddingTop: Spacing.md,
+  },
+  currencyChip: {
+    paddingVertical: Spacing.xs,
+    paddingHorizontal: Spacing.md,
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+  },
+  currencyChipText: {
+    fontSize: FontSizes.sm,
+    fontWeight: FontWeights.semibold,
+  },
+  exchangeRateRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginTop: Spacing.md,
+    gap: Spacing.sm,
+  },
+  exchangeRateLabel: {
+    fontSize: FontSizes.sm,
+    fontWeight: FontWeights.medium,
+  },
+  exchangeRateInput: {
+    minWidth: 100,
+    fontSize: FontSizes.md,
+    fontWeight: FontWeights.semibold,
+    paddingVertical: Spacing.xs,
+    paddingHorizontal: Spacing.sm,
+    borderRadius: BorderRadius.sm,
+    textAlign: "center",
+  },
+  convertedAmountText: {
+    fontSize: FontSizes.sm,
+    marginTop: Spacing.xs,
+  },
   section: {
     marginBottom: Spacing.xl,
   },
@@ -867,6 +2195,18 @@ const styles = StyleSheet.create({
   loadingText: {
     fontSize: FontSizes.sm,
   },
+  scanNotice: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.lg,
+    marginBottom: Spacing.md,
+  },
+  scanNoticeText: {
+    flex: 1,
+    fontSize: FontSizes.sm,
+  },
   categoriesGrid: {
     flexDirection: "row",
     flexWrap: "wrap",
@@ -993,6 +2333,73 @@ const styles = StyleSheet.create({
     paddingHorizontal: Spacing.sm,
     borderRadius: BorderRadius.sm,
   },
+  linkRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+    marginBottom: Spacing.sm,
+  },
+  linkOptions: {
+    gap: Spacing.xs,
+  },
+  repeatOptions: {
+    flexDirection: "row",
+    gap: Spacing.sm,
+  },
+  repeatDates: {
+    flexDirection: "row",
+    gap: Spacing.sm,
+    marginTop: Spacing.md,
+  },
+  repeatDateButton: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.xs,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+  },
+  repeatDateText: {
+    fontSize: FontSizes.sm,
+    fontWeight: FontWeights.semibold,
+  },
+  itemRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: Spacing.md,
+    gap: Spacing.sm,
+  },
+  itemNameInput: {
+    flex: 2,
+    fontSize: FontSizes.md,
+    paddingVertical: Spacing.xs,
+    paddingHorizontal: Spacing.sm,
+    borderRadius: BorderRadius.sm,
+  },
+  itemAmountInput: {
+    flex: 1,
+    fontSize: FontSizes.md,
+    fontWeight: FontWeights.semibold,
+    paddingVertical: Spacing.xs,
+    paddingHorizontal: Spacing.sm,
+    borderRadius: BorderRadius.sm,
+  },
+  itemAssignees: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.xs,
+    padding: Spacing.md,
+    borderTopWidth: 1,
+  },
+  itemSummary: {
+    marginTop: Spacing.md,
+    gap: Spacing.xs,
+  },
+  itemSummaryRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+  },
   memberAvatar: {
     width: 40,
     height: 40,
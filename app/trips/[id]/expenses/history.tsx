@@ -0,0 +1,289 @@
+import { ScreenHeader } from "@/components/navigation/screen-header";
+import { ScreenContainer } from "@/components/screen-container";
+import { EmptyState } from "@/components/ui/empty-state";
+import {
+    BorderRadius,
+    Colors,
+    FontSizes,
+    FontWeights,
+    Spacing,
+} from "@/constants/theme";
+import { useColorScheme } from "@/hooks/use-color-scheme";
+import {
+    useExpenseHistory,
+    useTripCollaborators,
+    useTripDocuments,
+    useTripItinerary,
+} from "@/hooks/use-trips";
+import {
+    ExpenseAuditAction,
+    ExpenseAuditChange,
+    ExpenseAuditValue,
+} from "@/types/database";
+import { Ionicons } from "@expo/vector-icons";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import React, { useMemo } from "react";
+import {
+    ActivityIndicator,
+    ScrollView,
+    StyleSheet,
+    Text,
+    View,
+} from "react-native";
+
+const FIELD_LABELS: Record<string, string> = {
+  title: "Title",
+  amount: "Amount",
+  currency: "Currency",
+  exchangeRate: "Exchange rate",
+  paidBy: "Paid by",
+  category: "Category",
+  splitType: "Split",
+  shares: "Shares",
+  itineraryItemId: "Activity",
+  receiptDocumentId: "Receipt",
+  occurrenceDate: "Date",
+};
+
+const ACTIONS: Record<
+  ExpenseAuditAction,
+  { label: string; icon: keyof typeof Ionicons.glyphMap; color: string }
+> = {
+  created: { label: "added this expense", icon: "add-circle-outline", color: Colors.success },
+  updated: { label: "edited this expense", icon: "create-outline", color: Colors.info },
+  deleted: { label: "deleted this expense", icon: "trash-outline", color: Colors.error },
+  restored: { label: "restored this expense", icon: "refresh-outline", color: Colors.primary },
+};
+
+export default function ExpenseHistoryScreen() {
+  const router = useRouter();
+  const { id, expenseId } = useLocalSearchParams<{
+    id: string;
+    expenseId: string;
+  }>();
+  const colorScheme = useColorScheme();
+  const isDark = colorScheme === "dark";
+  const colors = isDark ? Colors.dark : Colors.light;
+
+  const { entries, loading, error } = useExpenseHistory(expenseId);
+  const { collaborators } = useTripCollaborators(id);
+  const { items: itineraryItems } = useTripItinerary(id);
+  const { documents } = useTripDocuments(id);
+
+  const names = useMemo(
+    () =>
+      Object.fromEntries(
+        collaborators
+          .filter((c) => c.user)
+          .map((c) => [c.userId, c.user!.name]),
+      ) as Record<string, string>,
+    [collaborators],
+  );
+
+  const getName = (userId: string) => names[userId] || "Former member";
+
+  const formatValue = (field: string, value: ExpenseAuditValue): string => {
+    if (value === null || value === "") return "—";
+    if (typeof value === "object") {
+      return Object.entries(value)
+        .map(([userId, amount]) => `${getName(userId)} ${amount}`)
+        .join(", ");
+    }
+    switch (field) {
+      case "paidBy":
+        return getName(String(value));
+      case "itineraryItemId":
+        return itineraryItems.find((item) => item.id === value)?.title || "Activity";
+      case "receiptDocumentId":
+        return documents.find((d) => d.id === value)?.label || "Receipt";
+      case "occurrenceDate":
+        return new Date(String(value)).toLocaleDateString("en-US", {
+          month: "short",
+          day: "numeric",
+          year: "numeric",
+        });
+      default:
+        return String(value);
+    }
+  };
+
+  const formatTimestamp = (date: Date) =>
+    date.toLocaleString("en-US", {
+      month: "short",
+      day: "numeric",
+      hour: "numeric",
+      minute: "2-digit",
+    });
+
+  const renderChange = (change: ExpenseAuditChange, showBefore: boolean) => (
+    <View key={change.field} style={styles.changeRow}>
+      <Text style={[styles.changeField, { color: colors.textSecondary }]}>
+        {FIELD_LABELS[change.field] || change.field}
+      </Text>
+      <Text style={[styles.changeValue, { color: colors.text }]}>
+        {showBefore && (
+          <>
+            <Text style={[styles.beforeValue, { color: colors.textMuted }]}>
+              {formatValue(change.field, change.before)}
+            </Text>
+            {" → "}
+          </>
+        )}
+        {formatValue(
+          change.field,
+          change.after === null && !showBefore ? change.before : change.after,
+        )}
+      </Text>
+    </View>
+  );
+
+  return (
+    <ScreenContainer
+      style={styles.container}
+      backgroundColor={colors.background}
+      padded={false}
+    >
+      <ScreenHeader title="History" onBack={() => router.back()} />
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={Colors.primary} />
+        </View>
+      ) : error ? (
+        <EmptyState
+          icon="alert-circle-outline"
+          title="Couldn't load history"
+          description={error.message || "Something went wrong. Please try again."}
+        />
+      ) : entries.length === 0 ? (
+        <EmptyState
+          icon="time-outline"
+          title="No changes recorded"
+          description="Changes are recorded from now on whenever someone adds, edits or deletes this expense."
+        />
+      ) : (
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.scrollContent}
+          showsVerticalScrollIndicator={false}
+        >
+          {entries.map((entry) => {
+            const action = ACTIONS[entry.action] || ACTIONS.updated;
+            return (
+              <View
+                key={entry.id}
+                style={[
+                  styles.entryCard,
+                  { backgroundColor: colors.card, borderColor: colors.border },
+                ]}
+              >
+                <View style={styles.entryHeader}>
+                  <View
+                    style={[
+                      styles.entryIcon,
+                      { backgroundColor: action.color + "15" },
+                    ]}
+                  >
+                    <Ionicons name={action.icon} size={18} color={action.color} />
+                  </View>
+                  <View style={styles.entryInfo}>
+                    <Text style={[styles.entryTitle, { color: colors.text }]}>
+                      <Text style={styles.entryActor}>
+                        {getName(entry.actorId)}
+                      </Text>{" "}
+                      {action.label}
+                    </Text>
+                    <Text
+                      style={[styles.entryTime, { color: colors.textMuted }]}
+                    >
+                      {formatTimestamp(entry.createdAt)}
+                    </Text>
+                  </View>
+                </View>
+                {entry.changes.length > 0 && (
+                  <View
+                    style={[styles.changes, { borderTopColor: colors.border }]}
+                  >
+                    {entry.changes.map((change) =>
+                      renderChange(change, entry.action === "updated"),
+                    )}
+                  </View>
+                )}
+              </View>
+            );
+          })}
+        </ScrollView>
+      )}
+    </ScreenContainer>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingHorizontal: Spacing.lg,
+    paddingBottom: Spacing["3xl"],
+  },
+  entryCard: {
+    padding: Spacing.md,
+    borderRadius: BorderRadius.lg,
+    borderWidth: 1,
+    marginBottom: Spacing.sm,
+  },
+  entryHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+  },
+  entryIcon: {
+    width: 32,
+    height: 32,
+    borderRadius: BorderRadius.full,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  entryInfo: {
+    flex: 1,
+  },
+  entryTitle: {
+    fontSize: FontSizes.sm,
+  },
+  entryActor: {
+    fontWeight: FontWeights.semibold,
+  },
+  entryTime: {
+    fontSize: FontSizes.xs,
+    marginTop: 2,
+  },
+  changes: {
+    borderTopWidth: 1,
+    marginTop: Spacing.sm,
+    paddingTop: Spacing.sm,
+    gap: Spacing.xs,
+  },
+  changeRow: {
+    flexDirection: "row",
+    gap: Spacing.sm,
+  },
+  changeField: {
+    width: 96,
+    fontSize: FontSizes.xs,
+  },
+  changeValue: {
+    flex: 1,
+    fontSize: FontSizes.xs,
+  },
+  beforeValue: {
+    textDecorationLine: "line-through",
+  },
+});
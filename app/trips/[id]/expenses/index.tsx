@@ -2,6 +2,7 @@ import {
     ScreenContainer,
     useScreenPadding,
 } from "@/components/screen-container";
+import { UpgradePrompt } from "@/components/subscription";
 import { Button } from "@/components/ui/button";
 import { EmptyState } from "@/components/ui/empty-state";
 import { Input } from "@/components/ui/input";
@@ -15,21 +16,64 @@ import {
 } from "@/constants/theme";
 import { useAuth } from "@/hooks/use-auth";
 import { useColorScheme } from "@/hooks/use-color-scheme";
+import { useSubscription } from "@/hooks/use-subscription";
 import {
     useTrip,
     useTripCollaborators,
+    useTripDocuments,
     useTripExpenses,
+    useTripExpenseShares,
+    useTripSettlements,
 } from "@/hooks/use-trips";
-import { updateUser } from "@/services/firestore";
-import { Expense, User } from "@/types/database";
+import {
+    canUndoSettlement,
+    computeMemberBalances,
+    computeSettlementPlan,
+    groupSharesByExpense,
+    SettlementTransfer,
+} from "@/services/balances";
+import { isDayFirstLocale } from "@/services/booking-parser";
+import {
+    BUDGET_CATEGORIES,
+    computeBudgetStatus,
+    TOTAL_BUDGET_KEY,
+} from "@/services/budget";
+import { getConvertedExpenseAmount } from "@/services/exchange-rates";
+import {
+    ExpenseExportFormat,
+    shareExpenseExport,
+} from "@/services/expense-export";
+import {
+    createSettlement,
+    deleteSettlement,
+    updateTrip,
+    updateUser,
+} from "@/services/firestore";
+import {
+    checkBudgetAlerts,
+    notifySettlementRecorded,
+} from "@/services/notifications";
+import { captureReceipt } from "@/services/receipt-scanner";
+import {
+    Expense,
+    Settlement,
+    SettlementMethod,
+    TripBudget,
+    TripDocument,
+    User,
+} from "@/types/database";
+import { GatedFeature } from "@/types/subscription";
 import { Ionicons } from "@expo/vector-icons";
+import * as ImagePicker from "expo-image-picker";
 import { useLocalSearchParams, useRouter } from "expo-router";
 import React, { useMemo, useState } from "react";
 import {
     ActivityIndicator,
     Alert,
+    Image,
     Linking,
     Modal,
+    Pressable,
     ScrollView,
     StyleSheet,
     Text,
@@ -38,6 +82,14 @@ import {
 } from "react-native";
 import QRCode from "react-native-qrcode-svg";
 
+const IMAGE_EXTENSION_PATTERN = /\.(jpe?g|png|gif|webp|bmp|heic)$/i;
+
+// Receipts are stored as generic trip documents; only photos get a preview
+const isImageDocument = (doc: TripDocument) =>
+  [doc.label, doc.fileUrl.split("?")[0]].some(
+    (name) => !!name && IMAGE_EXTENSION_PATTERN.test(name),
+  );
+
 type ExpenseCategory =
   | "food"
   | "transport"
@@ -66,9 +118,27 @@ const CATEGORY_CONFIG: Record<
 interface Balance {
   userId: string;
   name: string;
+  paid: number;
+  owed: number;
   balance: number;
 }
 
+const SETTLEMENT_METHODS: { id: SettlementMethod; label: string }[] = [
+  { id: "upi", label: "UPI" },
+  { id: "cash", label: "Cash" },
+  { id: "bank", label: "Bank" },
+  { id: "other", label: "Other" },
+];
+
+interface UpiPayee {
+  name: string;
+  upiId: string;
+}
+
+// UPI deep link / QR payload for paying a specific person
+const buildUpiPaymentUrl = (payee: UpiPayee, amount: number) =>
+  `upi://pay?pa=${payee.upiId}&pn=${encodeURIComponent(payee.name)}&am=${amount.toFixed(2)}&cu=INR&tn=TripBuddy%20Settlement`;
+
 interface CategorySpending {
   category: string;
   amount: number;
@@ -100,6 +170,29 @@ export default function ExpensesScreen() {
     loading: collaboratorsLoading,
     error: collaboratorsError,
   } = useTripCollaborators(id);
+  const {
+    shares,
+    loading: sharesLoading,
+    error: sharesError,
+  } = useTripExpenseShares(rawExpenses.map((e) => e.id), id);
+  const {
+    settlements,
+    loading: settlementsLoading,
+    error: settlementsError,
+  } = useTripSettlements(id);
+  const { documents } = useTripDocuments(id);
+  const documentsById = useMemo(
+    () => Object.fromEntries(documents.map((doc) => [doc.id, doc])),
+    [documents],
+  );
+
+  // Exports are a Pro feature
+  const { checkFeature } = useSubscription();
+  const [upgradeFeature, setUpgradeFeature] = useState<GatedFeature | null>(
+    null,
+  );
+  const [exporting, setExporting] = useState(false);
+  const [scanning, setScanning] = useState(false);
 
   // Get currency - prefer trip currency, fall back to user's default currency
   const currency = trip?.currency || user?.defaultCurrency || "USD";
@@ -112,12 +205,36 @@ export default function ExpensesScreen() {
   const [qrModalVisible, setQrModalVisible] = useState(false);
   const [upiModalVisible, setUpiModalVisible] = useState(false);
   const [qrAmount, setQrAmount] = useState(0);
+  const [qrPayee, setQrPayee] = useState<UpiPayee | null>(null); // null = current user collects
   const [newUpiId, setNewUpiId] = useState("");
   const [savingUpi, setSavingUpi] = useState(false);
 
+  // Settlement recording state
+  const [activeTransfer, setActiveTransfer] =
+    useState<SettlementTransfer | null>(null);
+  const [recordModalVisible, setRecordModalVisible] = useState(false);
+  const [settlementMethod, setSettlementMethod] =
+    useState<SettlementMethod>("upi");
+  const [settlementReference, setSettlementReference] = useState("");
+  const [recordingSettlement, setRecordingSettlement] = useState(false);
+
+  // Budget editing state
+  const [budgetModalVisible, setBudgetModalVisible] = useState(false);
+  const [budgetTotalInput, setBudgetTotalInput] = useState("");
+  const [budgetLimitInputs, setBudgetLimitInputs] = useState<
+    Record<string, string>
+  >({});
+  const [savingBudget, setSavingBudget] = useState(false);
+
   // Include tripLoading in the loading state
-  const loading = tripLoading || expensesLoading || collaboratorsLoading;
-  const error = expensesError || collaboratorsError;
+  const loading =
+    tripLoading ||
+    expensesLoading ||
+    collaboratorsLoading ||
+    sharesLoading ||
+    settlementsLoading;
+  const error =
+    expensesError || collaboratorsError || sharesError || settlementsError;
 
   // Map collaborators to a lookup for names
   const collaboratorMap = useMemo(() => {
@@ -147,7 +264,8 @@ export default function ExpensesScreen() {
 
     expenses.forEach((expense) => {
       const cat = expense.category || "other";
-      spendingByCategory[cat] = (spendingByCategory[cat] || 0) + expense.amount;
+      spendingByCategory[cat] =
+        (spendingByCategory[cat] || 0) + getConvertedExpenseAmount(expense);
     });
 
     return Object.entries(spendingByCategory)
@@ -160,29 +278,36 @@ export default function ExpensesScreen() {
       .sort((a, b) => b.amount - a.amount);
   }, [expenses, totalExpenses]);
 
-  // Calculate balances from expenses
+  // Budget vs. actual for the total and each capped category
+  const budgetLines = useMemo(
+    () => computeBudgetStatus(trip?.budget, expenses),
+    [trip?.budget, expenses],
+  );
+
+  // Calculate balances from each expense's actual ExpenseShare records,
+  // minus any payments already recorded between members
   const balances: Balance[] = useMemo(() => {
     if (collaborators.length === 0 || expenses.length === 0) return [];
 
-    // Calculate total paid by each person
-    const paidByPerson: Record<string, number> = {};
-    expenses.forEach((expense) => {
-      paidByPerson[expense.paidBy] =
-        (paidByPerson[expense.paidBy] || 0) + expense.amount;
-    });
+    const memberBalances = computeMemberBalances(
+      expenses,
+      groupSharesByExpense(shares),
+      collaborators.map((c) => c.userId),
+      settlements,
+    );
 
-    // For simplicity, assume equal split among all collaborators
-    const perPersonShare = totalExpenses / collaborators.length;
+    // Former members stay in: dropping them would leave the balances not summing to zero
+    return memberBalances.map((b) => ({
+      ...b,
+      name: collaboratorMap[b.userId]?.name || "Former member",
+    }));
+  }, [collaborators, collaboratorMap, expenses, shares, settlements]);
 
-    // Calculate balance: amount paid - amount owed
-    return collaborators
-      .filter((c) => c.user)
-      .map((c) => ({
-        userId: c.userId,
-        name: c.user!.name,
-        balance: (paidByPerson[c.userId] || 0) - perPersonShare,
-      }));
-  }, [collaborators, expenses, totalExpenses]);
+  // Minimal set of transfers that settles every balance
+  const settlementPlan: SettlementTransfer[] = useMemo(
+    () => computeSettlementPlan(balances),
+    [balances],
+  );
 
   // Calculate number of people for display
   const peopleCount = collaborators.length || 1;
@@ -201,6 +326,15 @@ export default function ExpensesScreen() {
     return `${amount < 0 ? "-" : ""}${currency} ${formattedAmount}`;
   };
 
+  // Format an amount in a currency other than the trip's
+  const formatForeignAmount = (amount: number, code: string) => {
+    const formattedAmount = new Intl.NumberFormat("en-IN", {
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    }).format(amount);
+    return `${code} ${formattedAmount}`;
+  };
+
   const formatDate = (date: Date) => {
     return new Date(date).toLocaleDateString("en-US", {
       month: "short",
@@ -212,6 +346,140 @@ export default function ExpensesScreen() {
     router.push(`/trips/${id}/expenses/add`);
   };
 
+  const exportExpenses = async (format: ExpenseExportFormat) => {
+    setExporting(true);
+    try {
+      await shareExpenseExport(trip?.title || "Trip", format, {
+        expenses,
+        shares,
+        members: collaborators
+          .filter((c) => c.user)
+          .map((c) => ({ id: c.userId, name: c.user!.name })),
+        tripCurrency: currency,
+      });
+    } catch (err) {
+      console.error("Export failed:", err);
+      Alert.alert(
+        "Export Failed",
+        "Could not export expenses. Please try again.",
+      );
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleExport = () => {
+    if (!checkFeature("advanced_exports").allowed) {
+      setUpgradeFeature("advanced_exports");
+      return;
+    }
+    if (expenses.length === 0) {
+      Alert.alert("Nothing to Export", "Add an expense first.");
+      return;
+    }
+
+    Alert.alert("Export Expenses", "Choose a format", [
+      { text: "Spreadsheet (CSV)", onPress: () => exportExpenses("csv") },
+      { text: "Splitwise", onPress: () => exportExpenses("splitwise") },
+      { text: "Cancel", style: "cancel" },
+    ]);
+  };
+
+  const scanReceipt = async (source: "camera" | "library") => {
+    if (!user || !id) return;
+
+    try {
+      const permission =
+        source === "camera"
+          ? await ImagePicker.requestCameraPermissionsAsync()
+          : await ImagePicker.requestMediaLibraryPermissionsAsync();
+      if (!permission.granted) {
+        Alert.alert(
+          "Permission Denied",
+          source === "camera"
+            ? "Camera access is required to scan receipts."
+            : "Photo library access is required.",
+        );
+        return;
+      }
+
+      const result =
+        source === "camera"
+          ? await ImagePicker.launchCameraAsync({
+              mediaTypes: ["images"],
+              quality: 0.8,
+            })
+          : await ImagePicker.launchImageLibraryAsync({
+              mediaTypes: ["images"],
+              quality: 0.8,
+            });
+      if (result.canceled || !result.assets[0]) return;
+
+      setScanning(true);
+      const asset = result.assets[0];
+      const { documentId, receipt } = await captureReceipt({
+        tripId: id,
+        userId: user.id,
+        imageUri: asset.uri,
+        mimeType: asset.mimeType,
+        // Numeric dates are read the way the user's locale writes them
+        dayFirst: isDayFirstLocale(),
+      });
+
+      if (!receipt) {
+        Alert.alert(
+          "Couldn't Read Receipt",
+          "The photo was saved to your documents. Enter the details manually.",
+        );
+      }
+      router.push(
+        `/trips/${id}/expenses/add?receiptDocumentId=${documentId}`,
+      );
+    } catch (err) {
+      console.error("Receipt capture failed:", err);
+      Alert.alert("Error", "Failed to save the receipt. Please try again.");
+    } finally {
+      setScanning(false);
+    }
+  };
+
+  const handleScanReceipt = () => {
+    if (!checkFeature("document_scanning").allowed) {
+      setUpgradeFeature("document_scanning");
+      return;
+    }
+
+    Alert.alert("Scan Receipt", "Add a photo of the receipt", [
+      { text: "Take Photo", onPress: () => scanReceipt("camera") },
+      { text: "Photo Library", onPress: () => scanReceipt("library") },
+      { text: "Cancel", style: "cancel" },
+    ]);
+  };
+
+  const handleEditExpense = (expense: Expense) => {
+    if (!expense.recurringTemplateId) {
+      router.push(`/trips/${id}/expenses/add?expenseId=${expense.id}`);
+      return;
+    }
+
+    // Recurring occurrences can be edited alone or through their template
+    Alert.alert("Recurring Expense", "What would you like to edit?", [
+      {
+        text: "This Day Only",
+        onPress: () =>
+          router.push(`/trips/${id}/expenses/add?expenseId=${expense.id}`),
+      },
+      {
+        text: "All Future Days",
+        onPress: () =>
+          router.push(
+            `/trips/${id}/expenses/add?templateId=${expense.recurringTemplateId}`,
+          ),
+      },
+      { text: "Cancel", style: "cancel" },
+    ]);
+  };
+
   const openGPayScanner = async () => {
     try {
       // Try opening Google Pay Scanner (Tez) - common in India/Asia
@@ -265,15 +533,136 @@ export default function ExpensesScreen() {
       if (!user.upiId) {
         // Prompt to set UPI ID first
         setQrAmount(Math.abs(person.balance)); // Store for later
+        setQrPayee(null);
         setNewUpiId("");
         setUpiModalVisible(true);
       } else {
         setQrAmount(Math.abs(person.balance));
+        setQrPayee(null);
+        setQrModalVisible(true);
+      }
+    }
+  };
+
+  const handleSettlementPress = async (transfer: SettlementTransfer) => {
+    if (!user) return;
+    setActiveTransfer(transfer);
+
+    // I am the payee -> show my QR for the payer to scan
+    if (transfer.toUserId === user.id) {
+      setQrAmount(transfer.amount);
+      setQrPayee(null);
+      if (!user.upiId) {
+        setNewUpiId("");
+        setUpiModalVisible(true);
+      } else {
         setQrModalVisible(true);
       }
+      return;
+    }
+
+    const payee = collaboratorMap[transfer.toUserId];
+    if (!payee?.upiId) {
+      Alert.alert(
+        "UPI Not Set Up",
+        `Ask ${payee?.name || "the payee"} to add their UPI ID so you can pay them.`,
+      );
+      return;
+    }
+
+    const upiPayee = { name: payee.name, upiId: payee.upiId };
+
+    // I am the payer -> open my UPI app prefilled, fall back to the QR code
+    if (transfer.fromUserId === user.id) {
+      try {
+        const url = buildUpiPaymentUrl(upiPayee, transfer.amount);
+        if (await Linking.canOpenURL(url)) {
+          await Linking.openURL(url);
+          return;
+        }
+      } catch (err) {
+        console.error("Error opening UPI app:", err);
+      }
+    }
+
+    setQrAmount(transfer.amount);
+    setQrPayee(upiPayee);
+    setQrModalVisible(true);
+  };
+
+  const openRecordSettlement = (transfer: SettlementTransfer) => {
+    setActiveTransfer(transfer);
+    setSettlementMethod("upi");
+    setSettlementReference("");
+    setQrModalVisible(false);
+    setRecordModalVisible(true);
+  };
+
+  const handleRecordSettlement = async () => {
+    if (!user || !id || !activeTransfer) return;
+
+    setRecordingSettlement(true);
+    try {
+      await createSettlement({
+        tripId: id,
+        payerId: activeTransfer.fromUserId,
+        payeeId: activeTransfer.toUserId,
+        amount: activeTransfer.amount,
+        currency,
+        method: settlementMethod,
+        referenceId: settlementReference.trim() || null,
+        recordedBy: user.id,
+      });
+
+      // Let the payee confirm they received the money
+      if (activeTransfer.toUserId !== user.id) {
+        notifySettlementRecorded(
+          activeTransfer.toUserId,
+          id,
+          trip?.title || "Trip",
+          collaboratorMap[activeTransfer.fromUserId]?.name || user.name,
+          formatCurrency(activeTransfer.amount),
+          user.id,
+          user.name,
+        ).catch(console.error); // Don't block on notification
+      }
+
+      setRecordModalVisible(false);
+      setActiveTransfer(null);
+    } catch (err) {
+      console.error("Failed to record settlement:", err);
+      Alert.alert("Error", "Failed to record payment. Please try again.");
+    } finally {
+      setRecordingSettlement(false);
     }
   };
 
+  // A payment recorded by mistake goes back into the balances
+  const handleUndoSettlement = (settlement: Settlement) => {
+    const role = collaborators.find((c) => c.userId === user?.id)?.role;
+    if (!user || !canUndoSettlement(settlement, user.id, role)) return;
+
+    Alert.alert(
+      "Undo Payment",
+      `This removes the ${formatCurrency(settlement.amount)} payment and adds it back to the balances.`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Undo",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await deleteSettlement(settlement.id, user.id);
+            } catch (err) {
+              console.error("Failed to undo settlement:", err);
+              Alert.alert("Error", "Failed to undo payment. Please try again.");
+            }
+          },
+        },
+      ],
+    );
+  };
+
   const saveUpiId = async () => {
     if (!newUpiId.trim() || !newUpiId.includes("@")) {
       Alert.alert("Invalid ID", "Please enter a valid UPI ID (e.g., name@upi)");
@@ -296,10 +685,14 @@ export default function ExpensesScreen() {
     }
   };
 
+  // Whoever receives the money shown in the QR modal
+  const qrRecipient: UpiPayee | null =
+    qrPayee ||
+    (user?.upiId ? { name: user.name, upiId: user.upiId } : null);
+
   const getQrData = () => {
-    if (!user?.upiId) return "";
-    // UPI URL format
-    return `upi://pay?pa=${user.upiId}&pn=${encodeURIComponent(user.name)}&am=${qrAmount.toFixed(2)}&cu=INR&tn=TripBuddy%20Settlement`;
+    if (!qrRecipient) return "";
+    return buildUpiPaymentUrl(qrRecipient, qrAmount);
   };
 
   // Group expenses by date
@@ -313,6 +706,170 @@ export default function ExpensesScreen() {
     {} as Record<string, typeof expenses>,
   );
 
+  const openBudgetEditor = () => {
+    const budget = trip?.budget;
+    setBudgetTotalInput(budget?.total ? String(budget.total) : "");
+    setBudgetLimitInputs(
+      Object.fromEntries(
+        BUDGET_CATEGORIES.map((category) => [
+          category,
+          budget?.categoryLimits?.[category]
+            ? String(budget.categoryLimits[category])
+            : "",
+        ]),
+      ),
+    );
+    setBudgetModalVisible(true);
+  };
+
+  const handleSaveBudget = async () => {
+    if (!id) return;
+
+    const categoryLimits: TripBudget["categoryLimits"] = {};
+    BUDGET_CATEGORIES.forEach((category) => {
+      const limit = parseFloat(budgetLimitInputs[category] || "");
+      if (limit > 0) categoryLimits[category] = limit;
+    });
+    const total = parseFloat(budgetTotalInput);
+
+    setSavingBudget(true);
+    try {
+      // Reset alert levels so the new limits are checked from scratch
+      await updateTrip(id, {
+        budget: {
+          total: total > 0 ? total : null,
+          categoryLimits,
+          source: "manual",
+        },
+        budgetAlertLevels: {},
+      });
+      checkBudgetAlerts(id).catch(console.error);
+      setBudgetModalVisible(false);
+    } catch (err) {
+      console.error("Failed to save budget:", err);
+      Alert.alert("Error", "Failed to save budget. Please try again.");
+    } finally {
+      setSavingBudget(false);
+    }
+  };
+
+  // Render budget vs. actual
+  const renderBudget = () => {
+    return (
+      <View
+        style={[
+          styles.categoryBreakdownCard,
+          { backgroundColor: colors.card, borderColor: colors.border },
+        ]}
+      >
+        <View style={styles.categoryBreakdownHeader}>
+          <View style={styles.categoryBreakdownTitleRow}>
+            <Ionicons name="wallet" size={20} color={Colors.primary} />
+            <Text
+              style={[styles.categoryBreakdownTitle, { color: colors.text }]}
+            >
+              Budget
+            </Text>
+          </View>
+          <TouchableOpacity onPress={openBudgetEditor}>
+            <Text style={[styles.budgetEditText, { color: Colors.primary }]}>
+              {trip?.budget ? "Edit" : "Set Budget"}
+            </Text>
+          </TouchableOpacity>
+        </View>
+
+        {budgetLines.length === 0 ? (
+          <Text
+            style={[styles.budgetEmptyText, { color: colors.textSecondary }]}
+          >
+            Set a total or per-category limits to track spending.
+          </Text>
+        ) : (
+          <View style={styles.categoryBarsContainer}>
+            {budgetLines.map((line) => {
+              const config =
+                line.key === TOTAL_BUDGET_KEY
+                  ? {
+                      icon: "wallet" as const,
+                      color: Colors.primary,
+                      label: "Total",
+                    }
+                  : CATEGORY_CONFIG[line.key];
+              const barColor =
+                line.ratio >= 1
+                  ? Colors.error
+                  : line.ratio >= 0.8
+                    ? Colors.warning
+                    : config.color;
+              return (
+                <View key={line.key} style={styles.categoryBarRow}>
+                  <View style={styles.categoryBarLabel}>
+                    <View
+                      style={[
+                        styles.categoryBarIcon,
+                        { backgroundColor: config.color + "20" },
+                      ]}
+                    >
+                      <Ionicons
+                        name={config.icon}
+                        size={16}
+                        color={config.color}
+                      />
+                    </View>
+                    <Text
+                      style={[styles.categoryBarName, { color: colors.text }]}
+                      numberOfLines={1}
+                    >
+                      {config.label}
+                    </Text>
+                  </View>
+                  <View style={styles.categoryBarWrapper}>
+                    <View
+                      style={[
+                        styles.categoryBarBackground,
+                        { backgroundColor: colors.backgroundSecondary },
+                      ]}
+                    >
+                      <View
+                        style={[
+                          styles.categoryBarFill,
+                          {
+                            backgroundColor: barColor,
+                            width: `${Math.max(Math.min(line.ratio, 1) * 100, 2)}%`,
+                          },
+                        ]}
+                      />
+                    </View>
+                    <Text
+                      style={[styles.categoryBarPercent, { color: barColor }]}
+                    >
+                      {(line.ratio * 100).toFixed(0)}%
+                    </Text>
+                  </View>
+                  <View style={styles.budgetAmounts}>
+                    <Text
+                      style={[styles.categoryBarAmount, { color: colors.text }]}
+                    >
+                      {formatCurrency(line.spent)}
+                    </Text>
+                    <Text
+                      style={[
+                        styles.budgetLimitText,
+                        { color: colors.textSecondary },
+                      ]}
+                    >
+                      of {formatCurrency(line.limit)}
+                    </Text>
+                  </View>
+                </View>
+              );
+            })}
+          </View>
+        )}
+      </View>
+    );
+  };
+
   // Render category spending breakdown
   const renderCategoryBreakdown = () => {
     if (categorySpending.length === 0) return null;
@@ -443,13 +1000,51 @@ export default function ExpensesScreen() {
     >
       {/* Header */}
       <View style={styles.header}>
-        <View style={styles.headerPlaceholder} />
+        <TouchableOpacity
+          style={styles.headerPlaceholder}
+          onPress={handleScanReceipt}
+          disabled={scanning}
+        >
+          {scanning ? (
+            <ActivityIndicator size="small" color={Colors.primary} />
+          ) : (
+            <Ionicons name="scan-outline" size={22} color={colors.text} />
+          )}
+        </TouchableOpacity>
         <Text style={[styles.headerTitle, { color: colors.text }]}>
           Expenses
         </Text>
-        <View style={styles.headerPlaceholder} />
+        <TouchableOpacity
+          style={styles.headerPlaceholder}
+          onPress={handleExport}
+          disabled={exporting}
+        >
+          {exporting ? (
+            <ActivityIndicator size="small" color={Colors.primary} />
+          ) : (
+            <Ionicons name="share-outline" size={22} color={colors.text} />
+          )}
+        </TouchableOpacity>
       </View>
 
+      {/* Upgrade Prompt for exports and receipt scanning */}
+      <UpgradePrompt
+        visible={upgradeFeature !== null}
+        onClose={() => setUpgradeFeature(null)}
+        feature={upgradeFeature || "advanced_exports"}
+        title={
+          upgradeFeature === "document_scanning"
+            ? "Receipt Scanning"
+            : "Advanced Exports"
+        }
+        message={
+          upgradeFeature === "document_scanning"
+            ? "Scan receipts to fill in expenses automatically with a Pro plan."
+            : "Export expenses to CSV or Splitwise with a Pro plan."
+        }
+        requiredPlan="pro"
+      />
+
       {/* Summary Card - Only render when trip data is loaded */}
       {tripLoading ? (
         <View
@@ -584,6 +1179,29 @@ export default function ExpensesScreen() {
             Settle Up
           </Text>
         </TouchableOpacity>
+        <TouchableOpacity
+          style={[
+            styles.quickActionButton,
+            { backgroundColor: colors.backgroundSecondary },
+          ]}
+          onPress={() => router.push(`/trips/${id}/expenses/stats`)}
+        >
+          <Ionicons name="stats-chart-outline" size={18} color="#8B5CF6" />
+          <Text style={[styles.quickActionText, { color: "#8B5CF6" }]}>
+            Statistics
+          </Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[
+            styles.quickActionButton,
+            styles.quickActionIconButton,
+            { backgroundColor: colors.backgroundSecondary },
+          ]}
+          onPress={() => router.push(`/trips/${id}/expenses/trash`)}
+          accessibilityLabel="Deleted expenses"
+        >
+          <Ionicons name="trash-outline" size={18} color={colors.textSecondary} />
+        </TouchableOpacity>
       </View>
 
       {/* Loading State */}
@@ -626,6 +1244,9 @@ export default function ExpensesScreen() {
               />
             ) : (
               <>
+                {/* Budget vs. Actual */}
+                {renderBudget()}
+
                 {/* Category Breakdown Visualization */}
                 {renderCategoryBreakdown()}
 
@@ -642,6 +1263,9 @@ export default function ExpensesScreen() {
                     </Text>
                     {dateExpenses.map((expense) => {
                       const config = getCategoryConfig(expense.category);
+                      const receipt = expense.receiptDocumentId
+                        ? documentsById[expense.receiptDocumentId]
+                        : undefined;
                       return (
                         <TouchableOpacity
                           key={expense.id}
@@ -653,6 +1277,7 @@ export default function ExpensesScreen() {
                             },
                           ]}
                           activeOpacity={0.7}
+                          onPress={() => handleEditExpense(expense)}
                         >
                           <View
                             style={[
@@ -699,16 +1324,69 @@ export default function ExpensesScreen() {
                               >
                                 • {expense.paidByName}
                               </Text>
+                              {expense.recurringTemplateId && (
+                                <Ionicons
+                                  name="repeat"
+                                  size={14}
+                                  color={colors.textSecondary}
+                                />
+                              )}
+                              {expense.pendingSync && (
+                                <Ionicons
+                                  name="cloud-upload-outline"
+                                  size={14}
+                                  color={Colors.warning}
+                                  accessibilityLabel="Waiting to sync"
+                                />
+                              )}
                             </View>
                           </View>
-                          <Text
-                            style={[
-                              styles.expenseAmount,
-                              { color: colors.text },
-                            ]}
-                          >
-                            {formatCurrency(expense.amount)}
-                          </Text>
+                          <View style={styles.expenseAmountContainer}>
+                            <Text
+                              style={[
+                                styles.expenseAmount,
+                                { color: colors.text },
+                              ]}
+                            >
+                              {formatCurrency(getConvertedExpenseAmount(expense))}
+                            </Text>
+                            {expense.currency !== currency && (
+                              <Text
+                                style={[
+                                  styles.expenseOriginalAmount,
+                                  { color: colors.textSecondary },
+                                ]}
+                              >
+                                {formatForeignAmount(
+                                  expense.amount,
+                                  expense.currency,
+                                )}
+                              </Text>
+                            )}
+                          </View>
+                          {receipt && (
+                            <TouchableOpacity
+                              style={[
+                                styles.receiptThumbnail,
+                                { borderColor: colors.border },
+                              ]}
+                              onPress={() => Linking.openURL(receipt.fileUrl)}
+                              hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+                            >
+                              {isImageDocument(receipt) ? (
+                                <Image
+                                  source={{ uri: receipt.fileUrl }}
+                                  style={styles.receiptImage}
+                                />
+                              ) : (
+                                <Ionicons
+                                  name="document-text-outline"
+                                  size={20}
+                                  color={colors.textSecondary}
+                                />
+                              )}
+                            </TouchableOpacity>
+                          )}
                         </TouchableOpacity>
                       );
                     })}
@@ -722,7 +1400,7 @@ export default function ExpensesScreen() {
               <Text
                 style={[styles.balancesInfo, { color: colors.textSecondary }]}
               >
-                These are the settlements needed to balance the trip expenses.
+                Net balances based on each expense's split.
               </Text>
               {balances.length === 0 ? (
                 <EmptyState
@@ -814,6 +1492,219 @@ export default function ExpensesScreen() {
                   </View>
                 ))
               )}
+
+              {/* Settlement Plan */}
+              {balances.length > 0 && (
+                <View style={styles.settlementsSection}>
+                  <Text
+                    style={[styles.settlementsTitle, { color: colors.text }]}
+                  >
+                    Settlement Plan
+                  </Text>
+                  {settlementPlan.length === 0 ? (
+                    <Text
+                      style={[
+                        styles.balancesInfo,
+                        { color: colors.textSecondary },
+                      ]}
+                    >
+                      Everyone is settled up.
+                    </Text>
+                  ) : (
+                    settlementPlan.map((transfer) => {
+                      const fromName =
+                        collaboratorMap[transfer.fromUserId]?.name ||
+                        "Former member";
+                      const toName =
+                        collaboratorMap[transfer.toUserId]?.name ||
+                        "Former member";
+                      return (
+                        <View
+                          key={`${transfer.fromUserId}_${transfer.toUserId}`}
+                          style={[
+                            styles.settlementCard,
+                            {
+                              backgroundColor: colors.card,
+                              borderColor: colors.border,
+                            },
+                          ]}
+                        >
+                          <View style={styles.settlementParties}>
+                            <View
+                              style={[
+                                styles.settlementAvatar,
+                                { backgroundColor: Colors.error + "20" },
+                              ]}
+                            >
+                              <Text
+                                style={[
+                                  styles.settlementAvatarText,
+                                  { color: Colors.error },
+                                ]}
+                              >
+                                {fromName.charAt(0)}
+                              </Text>
+                            </View>
+                            <View style={styles.settlementArrow}>
+                              <Text
+                                style={[
+                                  styles.settlementAmountSmall,
+                                  { color: colors.text },
+                                ]}
+                              >
+                                {formatCurrency(transfer.amount)}
+                              </Text>
+                              <Ionicons
+                                name="arrow-forward"
+                                size={18}
+                                color={colors.textSecondary}
+                              />
+                            </View>
+                            <View
+                              style={[
+                                styles.settlementAvatar,
+                                { backgroundColor: Colors.secondary + "20" },
+                              ]}
+                            >
+                              <Text
+                                style={[
+                                  styles.settlementAvatarText,
+                                  { color: Colors.secondary },
+                                ]}
+                              >
+                                {toName.charAt(0)}
+                              </Text>
+                            </View>
+                          </View>
+                          <Text
+                            style={[
+                              styles.settlementText,
+                              { color: colors.textSecondary },
+                            ]}
+                          >
+                            {transfer.fromUserId === user?.id ? "You" : fromName}{" "}
+                            {transfer.fromUserId === user?.id ? "pay" : "pays"}{" "}
+                            {transfer.toUserId === user?.id ? "you" : toName}
+                          </Text>
+                          <View style={styles.settleButtonRow}>
+                            <TouchableOpacity
+                              style={[
+                                styles.settleButton,
+                                { backgroundColor: Colors.primary },
+                              ]}
+                              onPress={() => handleSettlementPress(transfer)}
+                            >
+                              <Ionicons
+                                name="qr-code-outline"
+                                size={16}
+                                color="#FFFFFF"
+                              />
+                              <Text style={styles.settleButtonText}>
+                                {transfer.toUserId === user?.id
+                                  ? "Collect via UPI"
+                                  : "Pay via UPI"}
+                              </Text>
+                            </TouchableOpacity>
+                            <TouchableOpacity
+                              style={[
+                                styles.settleButton,
+                                {
+                                  borderWidth: 1,
+                                  borderColor: colors.border,
+                                  marginTop: Spacing.xs,
+                                },
+                              ]}
+                              onPress={() => openRecordSettlement(transfer)}
+                            >
+                              <Ionicons
+                                name="checkmark-done-outline"
+                                size={16}
+                                color={colors.text}
+                              />
+                              <Text
+                                style={[
+                                  styles.settleButtonText,
+                                  { color: colors.text },
+                                ]}
+                              >
+                                Mark as Paid
+                              </Text>
+                            </TouchableOpacity>
+                          </View>
+                        </View>
+                      );
+                    })
+                  )}
+                </View>
+              )}
+
+              {/* Recorded Payments */}
+              {settlements.length > 0 && (
+                <View style={styles.settlementsSection}>
+                  <Text
+                    style={[styles.settlementsTitle, { color: colors.text }]}
+                  >
+                    Recorded Payments
+                  </Text>
+                  {settlements.map((settlement) => (
+                    <Pressable
+                      key={settlement.id}
+                      onLongPress={() => handleUndoSettlement(settlement)}
+                      delayLongPress={400}
+                      style={[
+                        styles.expenseCard,
+                        {
+                          backgroundColor: colors.card,
+                          borderColor: colors.border,
+                        },
+                      ]}
+                    >
+                      <View
+                        style={[
+                          styles.expenseIcon,
+                          { backgroundColor: Colors.secondary + "15" },
+                        ]}
+                      >
+                        <Ionicons
+                          name="checkmark-done"
+                          size={24}
+                          color={Colors.secondary}
+                        />
+                      </View>
+                      <View style={styles.expenseContent}>
+                        <Text
+                          style={[styles.expenseTitle, { color: colors.text }]}
+                        >
+                          {collaboratorMap[settlement.payerId]?.name ||
+                            "Unknown"}{" "}
+                          →{" "}
+                          {collaboratorMap[settlement.payeeId]?.name ||
+                            "Unknown"}
+                        </Text>
+                        <Text
+                          style={[
+                            styles.expensePaidBy,
+                            { color: colors.textSecondary },
+                          ]}
+                        >
+                          {SETTLEMENT_METHODS.find(
+                            (m) => m.id === settlement.method,
+                          )?.label || "Other"}{" "}
+                          • {formatDate(settlement.createdAt)}
+                          {settlement.referenceId
+                            ? ` • Ref ${settlement.referenceId}`
+                            : ""}
+                        </Text>
+                      </View>
+                      <Text
+                        style={[styles.expenseAmount, { color: colors.text }]}
+                      >
+                        {formatCurrency(settlement.amount)}
+                      </Text>
+                    </Pressable>
+                  ))}
+                </View>
+              )}
             </View>
           )}
         </ScrollView>
@@ -915,7 +1806,7 @@ export default function ExpensesScreen() {
                 ...Shadows.md,
               }}
             >
-              {user?.upiId && <QRCode value={getQrData()} size={200} />}
+              {qrRecipient && <QRCode value={getQrData()} size={200} />}
             </View>
 
             <Text
@@ -936,9 +1827,30 @@ export default function ExpensesScreen() {
                 marginBottom: Spacing["2xl"],
               }}
             >
-              to {user?.name}
+              to {qrRecipient?.name}
             </Text>
 
+            {activeTransfer && (
+              <TouchableOpacity
+                style={[
+                  styles.markSettledButton,
+                  { borderColor: colors.border, marginBottom: Spacing.md },
+                ]}
+                onPress={() => openRecordSettlement(activeTransfer)}
+              >
+                <Ionicons
+                  name="checkmark-done-outline"
+                  size={20}
+                  color={Colors.secondary}
+                />
+                <Text
+                  style={[styles.markSettledText, { color: Colors.secondary }]}
+                >
+                  Mark as Paid
+                </Text>
+              </TouchableOpacity>
+            )}
+
             <Button
               title="Close"
               variant="outline"
@@ -949,6 +1861,164 @@ export default function ExpensesScreen() {
         </View>
       </Modal>
 
+      {/* Record Settlement Modal */}
+      <Modal
+        visible={recordModalVisible}
+        animationType="slide"
+        transparent
+        onRequestClose={() => setRecordModalVisible(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View
+            style={[
+              styles.modalContent,
+              { backgroundColor: colors.background },
+            ]}
+          >
+            <View style={styles.modalHeader}>
+              <Text style={[styles.modalTitle, { color: colors.text }]}>
+                Record Payment
+              </Text>
+              <TouchableOpacity onPress={() => setRecordModalVisible(false)}>
+                <Ionicons name="close" size={24} color={colors.textSecondary} />
+              </TouchableOpacity>
+            </View>
+
+            {activeTransfer && (
+              <View style={styles.settleContent}>
+                <Text
+                  style={[styles.settleAmountLarge, { color: Colors.primary }]}
+                >
+                  {formatCurrency(activeTransfer.amount)}
+                </Text>
+                <Text
+                  style={[
+                    styles.settleDescription,
+                    { color: colors.textSecondary },
+                  ]}
+                >
+                  {collaboratorMap[activeTransfer.fromUserId]?.name ||
+                    "Unknown"}{" "}
+                  paid{" "}
+                  {collaboratorMap[activeTransfer.toUserId]?.name || "Unknown"}
+                </Text>
+              </View>
+            )}
+
+            <View style={styles.methodOptions}>
+              {SETTLEMENT_METHODS.map((method) => (
+                <TouchableOpacity
+                  key={method.id}
+                  style={[
+                    styles.methodChip,
+                    {
+                      backgroundColor:
+                        settlementMethod === method.id
+                          ? Colors.primary + "15"
+                          : colors.card,
+                      borderColor:
+                        settlementMethod === method.id
+                          ? Colors.primary
+                          : colors.border,
+                    },
+                  ]}
+                  onPress={() => setSettlementMethod(method.id)}
+                >
+                  <Text
+                    style={[
+                      styles.methodChipText,
+                      {
+                        color:
+                          settlementMethod === method.id
+                            ? Colors.primary
+                            : colors.text,
+                      },
+                    ]}
+                  >
+                    {method.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <Input
+              placeholder="e.g. UPI transaction ID"
+              value={settlementReference}
+              onChangeText={setSettlementReference}
+              autoCapitalize="none"
+              label="Reference ID (optional)"
+            />
+
+            <Button
+              title="Save Payment"
+              onPress={handleRecordSettlement}
+              loading={recordingSettlement}
+              fullWidth
+              style={{ marginTop: Spacing.lg }}
+            />
+          </View>
+        </View>
+      </Modal>
+
+      {/* Budget Modal */}
+      <Modal
+        visible={budgetModalVisible}
+        animationType="slide"
+        transparent
+        onRequestClose={() => setBudgetModalVisible(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View
+            style={[
+              styles.modalContent,
+              { backgroundColor: colors.background },
+            ]}
+          >
+            <View style={styles.modalHeader}>
+              <Text style={[styles.modalTitle, { color: colors.text }]}>
+                Trip Budget
+              </Text>
+              <TouchableOpacity onPress={() => setBudgetModalVisible(false)}>
+                <Ionicons name="close" size={24} color={colors.textSecondary} />
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView style={styles.budgetForm}>
+              <Input
+                placeholder="No overall limit"
+                value={budgetTotalInput}
+                onChangeText={setBudgetTotalInput}
+                keyboardType="decimal-pad"
+                label={`Total (${currency})`}
+              />
+              {BUDGET_CATEGORIES.map((category) => (
+                <Input
+                  key={category}
+                  placeholder="No limit"
+                  value={budgetLimitInputs[category] || ""}
+                  onChangeText={(text) =>
+                    setBudgetLimitInputs({
+                      ...budgetLimitInputs,
+                      [category]: text,
+                    })
+                  }
+                  keyboardType="decimal-pad"
+                  label={CATEGORY_CONFIG[category].label}
+                />
+              ))}
+            </ScrollView>
+
+            <Button
+              title="Save Budget"
+              onPress={handleSaveBudget}
+              loading={savingBudget}
+              fullWidth
+              style={{ marginTop: Spacing.lg }}
+            />
+          </View>
+        </View>
+      </Modal>
+
       {/* Split Summary Modal */}
       <Modal
         visible={splitSummaryVisible}
@@ -994,27 +2064,65 @@ export default function ExpensesScreen() {
                 </Text>
               </View>
 
-              <View
-                style={[
-                  styles.splitSummaryCard,
-                  { backgroundColor: colors.backgroundSecondary },
-                ]}
-              >
-                <Text
-                  style={[
-                    styles.splitSummaryLabel,
-                    { color: colors.textSecondary },
-                  ]}
-                >
-                  Per Person ({peopleCount}{" "}
-                  {peopleCount === 1 ? "person" : "people"})
-                </Text>
-                <Text
-                  style={[styles.splitSummaryAmount, { color: colors.text }]}
-                >
-                  {formatCurrency(totalExpenses / peopleCount)}
-                </Text>
-              </View>
+              {balances.length > 0 && (
+                <View style={styles.modalCategoryBreakdown}>
+                  <Text
+                    style={[
+                      styles.modalCategoryBreakdownTitle,
+                      { color: colors.text },
+                    ]}
+                  >
+                    By Member
+                  </Text>
+                  {balances.map((person) => (
+                    <View key={person.userId} style={styles.modalCategoryRow}>
+                      <View style={styles.modalCategoryInfo}>
+                        <View
+                          style={[
+                            styles.modalCategoryIcon,
+                            { backgroundColor: Colors.primary + "20" },
+                          ]}
+                        >
+                          <Text
+                            style={[
+                              styles.balanceAvatarText,
+                              { color: Colors.primary },
+                            ]}
+                          >
+                            {person.name.charAt(0)}
+                          </Text>
+                        </View>
+                        <Text
+                          style={[
+                            styles.modalCategoryName,
+                            { color: colors.text },
+                          ]}
+                        >
+                          {person.name}
+                        </Text>
+                      </View>
+                      <View style={styles.modalCategoryAmountContainer}>
+                        <Text
+                          style={[
+                            styles.modalCategoryAmount,
+                            { color: colors.text },
+                          ]}
+                        >
+                          Share {formatCurrency(person.owed)}
+                        </Text>
+                        <Text
+                          style={[
+                            styles.modalCategoryPercent,
+                            { color: colors.textSecondary },
+                          ]}
+                        >
+                          Paid {formatCurrency(person.paid)}
+                        </Text>
+                      </View>
+                    </View>
+                  ))}
+                </View>
+              )}
 
               <View style={styles.modalCategoryBreakdown}>
                 <Text
@@ -1112,6 +2220,8 @@ const styles = StyleSheet.create({
   headerPlaceholder: {
     width: 40,
     height: 40,
+    alignItems: "center",
+    justifyContent: "center",
   },
   headerTitle: {
     fontSize: FontSizes.lg,
@@ -1212,6 +2322,10 @@ const styles = StyleSheet.create({
     paddingVertical: Spacing.sm,
     borderRadius: BorderRadius.lg,
   },
+  quickActionIconButton: {
+    flex: 0,
+    paddingHorizontal: Spacing.md,
+  },
   quickActionText: {
     fontSize: FontSizes.sm,
     fontWeight: FontWeights.medium,
@@ -1279,6 +2393,24 @@ const styles = StyleSheet.create({
     marginHorizontal: Spacing.sm,
     gap: Spacing.xs,
   },
+  budgetEditText: {
+    fontSize: FontSizes.sm,
+    fontWeight: FontWeights.semibold,
+  },
+  budgetEmptyText: {
+    fontSize: FontSizes.sm,
+    paddingHorizontal: Spacing.md,
+    paddingBottom: Spacing.md,
+  },
+  budgetAmounts: {
+    alignItems: "flex-end",
+  },
+  budgetLimitText: {
+    fontSize: FontSizes.xs,
+  },
+  budgetForm: {
+    maxHeight: 420,
+  },
   categoryBarBackground: {
     flex: 1,
     height: 8,
@@ -1373,6 +2505,26 @@ const styles = StyleSheet.create({
     fontSize: FontSizes.md,
     fontWeight: FontWeights.semibold,
   },
+  expenseAmountContainer: {
+    alignItems: "flex-end",
+  },
+  receiptThumbnail: {
+    width: 40,
+    height: 40,
+    borderRadius: BorderRadius.sm,
+    borderWidth: 1,
+    overflow: "hidden",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  receiptImage: {
+    width: "100%",
+    height: "100%",
+  },
+  expenseOriginalAmount: {
+    fontSize: FontSizes.xs,
+    marginTop: 2,
+  },
   balancesView: {
     paddingTop: Spacing.sm,
   },
@@ -1618,6 +2770,22 @@ const styles = StyleSheet.create({
     fontSize: FontSizes.md,
     fontWeight: FontWeights.medium,
   },
+  methodOptions: {
+    flexDirection: "row",
+    gap: Spacing.sm,
+    marginBottom: Spacing.md,
+  },
+  methodChip: {
+    flex: 1,
+    alignItems: "center",
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.lg,
+    borderWidth: 1.5,
+  },
+  methodChipText: {
+    fontSize: FontSizes.sm,
+    fontWeight: FontWeights.medium,
+  },
   fab: {
     position: "absolute",
     bottom: Spacing.xl,
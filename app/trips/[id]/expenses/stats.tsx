@@ -0,0 +1,481 @@
+import { ScreenHeader } from "@/components/navigation/screen-header";
+import { ScreenContainer } from "@/components/screen-container";
+import { EmptyState } from "@/components/ui/empty-state";
+import {
+    BorderRadius,
+    Colors,
+    FontSizes,
+    FontWeights,
+    Shadows,
+    Spacing,
+} from "@/constants/theme";
+import { useColorScheme } from "@/hooks/use-color-scheme";
+import {
+    useTrip,
+    useTripCollaborators,
+    useTripExpenses,
+    useTripExpenseShares,
+} from "@/hooks/use-trips";
+import { groupSharesByExpense } from "@/services/balances";
+import {
+    compareWithEstimate,
+    computeBurnRate,
+    computeDailySpendSeries,
+    computeMemberSpend,
+    getPlanEstimate,
+} from "@/services/expense-analytics";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import React, { useMemo } from "react";
+import {
+    ActivityIndicator,
+    ScrollView,
+    StyleSheet,
+    Text,
+    View,
+} from "react-native";
+
+const ESTIMATE_LABELS: Record<string, string> = {
+  total: "Projected Total",
+  food: "Food",
+  transport: "Transport",
+  accommodation: "Stay",
+  activities: "Activities",
+  shopping: "Shopping",
+  other: "Other",
+};
+
+const DAY_CHART_HEIGHT = 120;
+
+export default function ExpenseStatsScreen() {
+  const router = useRouter();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const colorScheme = useColorScheme();
+  const isDark = colorScheme === "dark";
+  const colors = isDark ? Colors.dark : Colors.light;
+
+  const { trip, loading: tripLoading } = useTrip(id);
+  const { expenses, loading: expensesLoading } = useTripExpenses(id);
+  const { collaborators, loading: collaboratorsLoading } =
+    useTripCollaborators(id);
+  const { shares, loading: sharesLoading } = useTripExpenseShares(
+    expenses.map((e) => e.id),
+    id,
+  );
+
+  const loading =
+    tripLoading || expensesLoading || collaboratorsLoading || sharesLoading;
+  const currency = trip?.currency || "USD";
+
+  const dailySeries = useMemo(
+    () =>
+      trip ? computeDailySpendSeries(expenses, trip.startDate, trip.endDate) : [],
+    [trip, expenses],
+  );
+
+  const burnRate = useMemo(
+    () =>
+      trip ? computeBurnRate(expenses, trip.startDate, trip.endDate) : null,
+    [trip, expenses],
+  );
+
+  const memberSpend = useMemo(() => {
+    const names = Object.fromEntries(
+      collaborators
+        .filter((c) => c.user)
+        .map((c) => [c.userId, c.user!.name]),
+    );
+    return computeMemberSpend(
+      expenses,
+      groupSharesByExpense(shares),
+      collaborators.map((c) => c.userId),
+    ).map((member) => ({
+      ...member,
+      name: names[member.userId] || "Former member",
+    }));
+  }, [expenses, shares, collaborators]);
+
+  const estimateLines = useMemo(() => {
+    const estimate = getPlanEstimate(trip);
+    return estimate && burnRate
+      ? compareWithEstimate(estimate, expenses, burnRate.projectedTotal)
+      : [];
+  }, [trip, expenses, burnRate]);
+
+  const maxDaily = Math.max(0, ...dailySeries.map((point) => point.amount));
+  const maxMember = Math.max(
+    0,
+    ...memberSpend.flatMap((member) => [member.paid, member.consumed]),
+  );
+
+  const formatCurrency = (amount: number) => {
+    const formattedAmount = new Intl.NumberFormat("en-IN", {
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 2,
+    }).format(Math.abs(amount));
+    return `${amount < 0 ? "-" : ""}${currency} ${formattedAmount}`;
+  };
+
+  const formatDay = (date: Date) =>
+    date.toLocaleDateString("en-US", { month: "short", day: "numeric" });
+
+  const renderStat = (label: string, value: string) => (
+    <View
+      style={[
+        styles.statCard,
+        { backgroundColor: colors.card, borderColor: colors.border },
+      ]}
+    >
+      <Text style={[styles.statValue, { color: colors.text }]}>{value}</Text>
+      <Text style={[styles.statLabel, { color: colors.textSecondary }]}>
+        {label}
+      </Text>
+    </View>
+  );
+
+  return (
+    <ScreenContainer
+      style={styles.container}
+      backgroundColor={colors.background}
+      padded={false}
+    >
+      <ScreenHeader title="Statistics" onBack={() => router.back()} />
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={Colors.primary} />
+        </View>
+      ) : expenses.length === 0 || !burnRate ? (
+        <EmptyState
+          icon="stats-chart-outline"
+          title="No spending yet"
+          description="Statistics appear once the group adds expenses."
+        />
+      ) : (
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.scrollContent}
+          showsVerticalScrollIndicator={false}
+        >
+          {/* Burn rate */}
+          <View style={styles.statsGrid}>
+            {renderStat("Spent So Far", formatCurrency(burnRate.totalSpent))}
+            {renderStat("Daily Average", formatCurrency(burnRate.averageDaily))}
+            {renderStat(
+              "Projected Total",
+              formatCurrency(burnRate.projectedTotal),
+            )}
+            {renderStat(
+              "Trip Days",
+              `${burnRate.elapsedDays} of ${burnRate.totalDays}`,
+            )}
+          </View>
+
+          {/* Spend per day */}
+          <Text style={[styles.sectionTitle, { color: colors.text }]}>
+            Spend per Day
+          </Text>
+          <View
+            style={[
+              styles.card,
+              { backgroundColor: colors.card, borderColor: colors.border },
+              Shadows.sm,
+            ]}
+          >
+            <ScrollView
+              horizontal
+              showsHorizontalScrollIndicator={false}
+              contentContainerStyle={styles.dayChart}
+            >
+              {dailySeries.map((point) => (
+                <View key={point.date.getTime()} style={styles.dayColumn}>
+                  <Text
+                    style={[styles.dayAmount, { color: colors.textSecondary }]}
+                    numberOfLines={1}
+                  >
+                    {point.amount > 0 ? formatCurrency(point.amount) : ""}
+                  </Text>
+                  <View style={styles.dayBarTrack}>
+                    <View
+                      style={[
+                        styles.dayBar,
+                        {
+                          height:
+                            maxDaily > 0
+                              ? (point.amount / maxDaily) * DAY_CHART_HEIGHT
+                              : 0,
+                          backgroundColor: point.inTrip
+                            ? Colors.primary
+                            : colors.textMuted,
+                        },
+                      ]}
+                    />
+                  </View>
+                  <Text style={[styles.dayLabel, { color: colors.textMuted }]}>
+                    {formatDay(point.date)}
+                  </Text>
+                </View>
+              ))}
+            </ScrollView>
+          </View>
+
+          {/* Spend per member */}
+          <Text style={[styles.sectionTitle, { color: colors.text }]}>
+            Paid vs. Consumed
+          </Text>
+          <View
+            style={[
+              styles.card,
+              { backgroundColor: colors.card, borderColor: colors.border },
+              Shadows.sm,
+            ]}
+          >
+            {memberSpend.map((member) => (
+              <View key={member.userId} style={styles.memberRow}>
+                <View style={styles.memberHeader}>
+                  <Text style={[styles.memberName, { color: colors.text }]}>
+                    {member.name}
+                  </Text>
+                  <Text
+                    style={[
+                      styles.memberNet,
+                      {
+                        color:
+                          member.net >= 0 ? Colors.success : Colors.error,
+                      },
+                    ]}
+                  >
+                    {member.net >= 0 ? "+" : ""}
+                    {formatCurrency(member.net)}
+                  </Text>
+                </View>
+                {[
+                  { label: "Paid", value: member.paid, color: Colors.primary },
+                  {
+                    label: "Consumed",
+                    value: member.consumed,
+                    color: Colors.secondary,
+                  },
+                ].map((bar) => (
+                  <View key={bar.label} style={styles.memberBarRow}>
+                    <Text
+                      style={[
+                        styles.memberBarLabel,
+                        { color: colors.textSecondary },
+                      ]}
+                    >
+                      {bar.label}
+                    </Text>
+                    <View
+                      style={[
+                        styles.memberBarTrack,
+                        { backgroundColor: colors.backgroundSecondary },
+                      ]}
+                    >
+                      <View
+                        style={[
+                          styles.memberBar,
+                          {
+                            width: `${maxMember > 0 ? (bar.value / maxMember) * 100 : 0}%`,
+                            backgroundColor: bar.color,
+                          },
+                        ]}
+                      />
+                    </View>
+                    <Text
+                      style={[styles.memberBarValue, { color: colors.text }]}
+                    >
+                      {formatCurrency(bar.value)}
+                    </Text>
+                  </View>
+                ))}
+              </View>
+            ))}
+          </View>
+
+          {/* Comparison with the AI plan estimate */}
+          {estimateLines.length > 0 && (
+            <>
+              <Text style={[styles.sectionTitle, { color: colors.text }]}>
+                vs. Plan Estimate
+              </Text>
+              <View
+                style={[
+                  styles.card,
+                  { backgroundColor: colors.card, borderColor: colors.border },
+                  Shadows.sm,
+                ]}
+              >
+                {estimateLines.map((line) => (
+                  <View key={line.key} style={styles.estimateRow}>
+                    <Text
+                      style={[styles.estimateLabel, { color: colors.text }]}
+                    >
+                      {ESTIMATE_LABELS[line.key] || line.key}
+                    </Text>
+                    <View style={styles.estimateValues}>
+                      <Text
+                        style={[styles.estimateActual, { color: colors.text }]}
+                      >
+                        {formatCurrency(line.actual)}
+                      </Text>
+                      <Text
+                        style={[
+                          styles.estimateDetail,
+                          {
+                            color:
+                              line.difference > 0
+                                ? Colors.error
+                                : Colors.success,
+                          },
+                        ]}
+                      >
+                        {line.difference > 0 ? "+" : ""}
+                        {formatCurrency(line.difference)} vs{" "}
+                        {formatCurrency(line.estimated)}
+                      </Text>
+                    </View>
+                  </View>
+                ))}
+              </View>
+            </>
+          )}
+        </ScrollView>
+      )}
+    </ScreenContainer>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingHorizontal: Spacing.lg,
+    paddingBottom: Spacing["3xl"],
+  },
+  statsGrid: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.sm,
+    marginBottom: Spacing.lg,
+  },
+  statCard: {
+    flexBasis: "48%",
+    flexGrow: 1,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.lg,
+    borderWidth: 1,
+  },
+  statValue: {
+    fontSize: FontSizes.lg,
+    fontWeight: FontWeights.bold,
+  },
+  statLabel: {
+    fontSize: FontSizes.xs,
+    marginTop: 2,
+  },
+  sectionTitle: {
+    fontSize: FontSizes.md,
+    fontWeight: FontWeights.semibold,
+    marginBottom: Spacing.sm,
+  },
+  card: {
+    padding: Spacing.md,
+    borderRadius: BorderRadius.lg,
+    borderWidth: 1,
+    marginBottom: Spacing.lg,
+  },
+  dayChart: {
+    alignItems: "flex-end",
+    gap: Spacing.sm,
+  },
+  dayColumn: {
+    alignItems: "center",
+    width: 56,
+  },
+  dayAmount: {
+    fontSize: 10,
+    marginBottom: 4,
+  },
+  dayBarTrack: {
+    height: DAY_CHART_HEIGHT,
+    justifyContent: "flex-end",
+  },
+  dayBar: {
+    width: 20,
+    borderRadius: BorderRadius.sm,
+  },
+  dayLabel: {
+    fontSize: FontSizes.xs,
+    marginTop: 4,
+  },
+  memberRow: {
+    marginBottom: Spacing.md,
+  },
+  memberHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginBottom: Spacing.xs,
+  },
+  memberName: {
+    fontSize: FontSizes.md,
+    fontWeight: FontWeights.medium,
+  },
+  memberNet: {
+    fontSize: FontSizes.sm,
+    fontWeight: FontWeights.semibold,
+  },
+  memberBarRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+    marginTop: 4,
+  },
+  memberBarLabel: {
+    width: 72,
+    fontSize: FontSizes.xs,
+  },
+  memberBarTrack: {
+    flex: 1,
+    height: 8,
+    borderRadius: BorderRadius.full,
+    overflow: "hidden",
+  },
+  memberBar: {
+    height: "100%",
+    borderRadius: BorderRadius.full,
+  },
+  memberBarValue: {
+    width: 96,
+    fontSize: FontSizes.xs,
+    textAlign: "right",
+  },
+  estimateRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingVertical: Spacing.sm,
+  },
+  estimateLabel: {
+    fontSize: FontSizes.md,
+  },
+  estimateValues: {
+    alignItems: "flex-end",
+  },
+  estimateActual: {
+    fontSize: FontSizes.md,
+    fontWeight: FontWeights.semibold,
+  },
+  estimateDetail: {
+    fontSize: FontSizes.xs,
+    marginTop: 2,
+  },
+});
@@ -0,0 +1,236 @@
+import { ScreenHeader } from "@/components/navigation/screen-header";
+import { ScreenContainer } from "@/components/screen-container";
+import { Button } from "@/components/ui/button";
+import { EmptyState } from "@/components/ui/empty-state";
+import {
+    BorderRadius,
+    Colors,
+    FontSizes,
+    FontWeights,
+    Spacing,
+} from "@/constants/theme";
+import { useAuth } from "@/hooks/use-auth";
+import { useColorScheme } from "@/hooks/use-color-scheme";
+import { useTripCollaborators, useTripExpenseTrash } from "@/hooks/use-trips";
+import {
+    canRestoreExpenses,
+    getTrashDaysLeft,
+    TRASH_RETENTION_DAYS,
+} from "@/services/expense-audit";
+import { purgeExpiredExpenseTrash, restoreExpense } from "@/services/firestore";
+import { checkBudgetAlerts } from "@/services/notifications";
+import { DeletedExpense } from "@/types/database";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import React, { useEffect, useState } from "react";
+import {
+    ActivityIndicator,
+    Alert,
+    ScrollView,
+    StyleSheet,
+    Text,
+    TouchableOpacity,
+    View,
+} from "react-native";
+
+export default function ExpenseTrashScreen() {
+  const router = useRouter();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const colorScheme = useColorScheme();
+  const isDark = colorScheme === "dark";
+  const colors = isDark ? Colors.dark : Colors.light;
+
+  const { user } = useAuth();
+  const { deletedExpenses, loading, error } = useTripExpenseTrash(id);
+  const { collaborators } = useTripCollaborators(id);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  const currentRole = collaborators.find((c) => c.userId === user?.id)?.role;
+  const canRestore = canRestoreExpenses(currentRole);
+
+  // Clear out anything past the retention period while an owner or editor is here
+  useEffect(() => {
+    if (!id || !canRestore) return;
+    purgeExpiredExpenseTrash(id).catch(console.error);
+  }, [id, canRestore]);
+
+  const getName = (userId: string) =>
+    collaborators.find((c) => c.userId === userId)?.user?.name ||
+    "Former member";
+
+  const formatAmount = (amount: number, currency: string) =>
+    `${currency} ${new Intl.NumberFormat("en-IN", {
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    }).format(amount)}`;
+
+  const handleRestore = async (item: DeletedExpense) => {
+    if (!user) return;
+
+    setRestoringId(item.id);
+    try {
+      await restoreExpense(item.id, user.id);
+      checkBudgetAlerts(item.tripId).catch(console.error);
+    } catch (err) {
+      console.error("Error restoring expense:", err);
+      Alert.alert(
+        "Error",
+        err instanceof Error ? err.message : "Failed to restore expense",
+      );
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  return (
+    <ScreenContainer
+      style={styles.container}
+      backgroundColor={colors.background}
+      padded={false}
+    >
+      <ScreenHeader title="Deleted Expenses" onBack={() => router.back()} />
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={Colors.primary} />
+        </View>
+      ) : error ? (
+        <EmptyState
+          icon="alert-circle-outline"
+          title="Couldn't load deleted expenses"
+          description={error.message || "Something went wrong. Please try again."}
+        />
+      ) : deletedExpenses.length === 0 ? (
+        <EmptyState
+          icon="trash-outline"
+          title="Trash is empty"
+          description={`Deleted expenses stay here for ${TRASH_RETENTION_DAYS} days before they are removed for good.`}
+        />
+      ) : (
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.scrollContent}
+          showsVerticalScrollIndicator={false}
+        >
+          <Text style={[styles.hint, { color: colors.textMuted }]}>
+            {canRestore
+              ? `Restore an expense within ${TRASH_RETENTION_DAYS} days to bring back its split.`
+              : "Only the trip owner or an editor can restore expenses."}
+          </Text>
+
+          {deletedExpenses.map((item) => {
+            const daysLeft = getTrashDaysLeft(item.deletedAt);
+            return (
+              <View
+                key={item.id}
+                style={[
+                  styles.card,
+                  { backgroundColor: colors.card, borderColor: colors.border },
+                ]}
+              >
+                <View style={styles.cardHeader}>
+                  <View style={styles.cardInfo}>
+                    <Text
+                      style={[styles.title, { color: colors.text }]}
+                      numberOfLines={1}
+                    >
+                      {item.expense.title}
+                    </Text>
+                    <Text style={[styles.meta, { color: colors.textSecondary }]}>
+                      Deleted by {getName(item.deletedBy)} ·{" "}
+                      {daysLeft === 1 ? "1 day left" : `${daysLeft} days left`}
+                    </Text>
+                  </View>
+                  <Text style={[styles.amount, { color: colors.text }]}>
+                    {formatAmount(item.expense.amount, item.expense.currency)}
+                  </Text>
+                </View>
+
+                <View style={styles.actions}>
+                  <TouchableOpacity
+                    onPress={() =>
+                      router.push(
+                        `/trips/${id}/expenses/history?expenseId=${item.id}`,
+                      )
+                    }
+                  >
+                    <Text style={[styles.link, { color: Colors.primary }]}>
+                      View history
+                    </Text>
+                  </TouchableOpacity>
+                  {canRestore && (
+                    <Button
+                      title="Restore"
+                      variant="outline"
+                      size="sm"
+                      onPress={() => handleRestore(item)}
+                      loading={restoringId === item.id}
+                      disabled={!!restoringId}
+                    />
+                  )}
+                </View>
+              </View>
+            );
+          })}
+        </ScrollView>
+      )}
+    </ScreenContainer>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingHorizontal: Spacing.lg,
+    paddingBottom: Spacing["3xl"],
+  },
+  hint: {
+    fontSize: FontSizes.xs,
+    marginBottom: Spacing.md,
+  },
+  card: {
+    padding: Spacing.md,
+    borderRadius: BorderRadius.lg,
+    borderWidth: 1,
+    marginBottom: Spacing.sm,
+  },
+  cardHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.md,
+  },
+  cardInfo: {
+    flex: 1,
+  },
+  title: {
+    fontSize: FontSizes.md,
+    fontWeight: FontWeights.semibold,
+  },
+  meta: {
+    fontSize: FontSizes.xs,
+    marginTop: 2,
+  },
+  amount: {
+    fontSize: FontSizes.md,
+    fontWeight: FontWeights.bold,
+  },
+  actions: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginTop: Spacing.md,
+  },
+  link: {
+    fontSize: FontSizes.sm,
+    fontWeight: FontWeights.medium,
+  },
+});
@@ -4,11 +4,14 @@ import { Skeleton } from '@/components/ui/skeleton';
 import { BorderRadius, Colors, FontSizes, FontWeights, Shadows, Spacing } from '@/constants/theme';
 import { useAuth } from '@/hooks/use-auth';
 import { useColorScheme } from '@/hooks/use-color-scheme';
+import { useCacheSettings, useTripOfflineSnapshot } from '@/hooks/use-offline';
 import { useTrip, useTripCollaborators, useTripDocuments, useTripExpenses, useTripItinerary } from '@/hooks/use-trips';
 import { Ionicons } from '@expo/vector-icons';
 import { useLocalSearchParams, useRouter } from 'expo-router';
 import React from 'react';
 import {
+    ActivityIndicator,
+    Alert,
     Dimensions,
     ScrollView,
     StyleSheet,
@@ -55,6 +58,9 @@ export default function TripOverviewScreen() {
   const { collaborators, loading: collabLoading } = useTripCollaborators(id);
   const { totalExpenses, loading: expensesLoading } = useTripExpenses(id);
   const { documents } = useTripDocuments(id);
+  const { isAvailableOffline, saving, makeAvailableOffline, removeOfflineCopy } = useTripOfflineSnapshot(id);
+  const { settings: cacheSettings, setPinned } = useCacheSettings();
+  const isPinned = !!id && cacheSettings.pinnedTripIds.includes(id);
 
   // Get currency - prefer trip currency, fall back to user's default currency
   const currency = trip?.currency || user?.defaultCurrency || 'USD';
@@ -73,6 +79,37 @@ export default function TripOverviewScreen() {
     return Math.ceil(diffTime / (1000 * 60 * 60 * 24)) + 1;
   };
 
+  const downloadForOffline = async () => {
+    try {
+      await makeAvailableOffline();
+    } catch (err) {
+      console.error('Failed to make trip available offline:', err);
+      Alert.alert('Error', 'Unable to download this trip. Check your connection and try again.');
+    }
+  };
+
+  const handleOfflinePress = () => {
+    if (!isAvailableOffline) {
+      downloadForOffline();
+      return;
+    }
+    Alert.alert(
+      'Available Offline',
+      'This trip stays up to date on this device while you are online.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Download Again', onPress: downloadForOffline },
+        { text: 'Remove', style: 'destructive', onPress: () => removeOfflineCopy() },
+      ]
+    );
+  };
+
+  // Pinned trips are never cleaned up to make room in offline storage
+  const handlePinPress = () => {
+    if (!id) return;
+    setPinned(id, !isPinned);
+  };
+
   const handleQuickAction = (action: QuickAction) => {
     router.push(`/trips/${id}/${action.route}`);
   };
@@ -187,6 +224,43 @@ export default function TripOverviewScreen() {
               </Text>
             </View>
           </View>
+          <View style={styles.offlineActions}>
+            <TouchableOpacity
+              style={[styles.offlineButton, { borderColor: isAvailableOffline ? Colors.success : colors.border }]}
+              onPress={handleOfflinePress}
+              disabled={saving}
+              activeOpacity={0.7}
+            >
+              {saving ? (
+                <ActivityIndicator size="small" color={Colors.primary} />
+              ) : (
+                <Ionicons
+                  name={isAvailableOffline ? 'cloud-done-outline' : 'cloud-download-outline'}
+                  size={16}
+                  color={isAvailableOffline ? Colors.success : colors.textSecondary}
+                />
+              )}
+              <Text style={[styles.metaText, { color: isAvailableOffline ? Colors.success : colors.textSecondary }]}>
+                {saving ? 'Downloading...' : isAvailableOffline ? 'Available offline' : 'Make available offline'}
+              </Text>
+            </TouchableOpacity>
+            {isAvailableOffline && (
+              <TouchableOpacity
+                style={[styles.offlineButton, { borderColor: isPinned ? Colors.primary : colors.border }]}
+                onPress={handlePinPress}
+                activeOpacity={0.7}
+              >
+                <Ionicons
+                  name={isPinned ? 'pin' : 'pin-outline'}
+                  size={16}
+                  color={isPinned ? Colors.primary : colors.textSecondary}
+                />
+                <Text style={[styles.metaText, { color: isPinned ? Colors.primary : colors.textSecondary }]}>
+                  {isPinned ? 'Pinned' : 'Pin'}
+                </Text>
+              </TouchableOpacity>
+            )}
+          </View>
         </View>
 
         {/* Quick Actions */}
@@ -419,6 +493,21 @@ const styles = StyleSheet.create({
     fontSize: FontSizes.caption,
     fontWeight: FontWeights.semibold,
   },
+  offlineActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+    marginTop: Spacing.md,
+  },
+  offlineButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.xs,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.chip,
+    borderWidth: 1,
+  },
   quickActionsSection: {
     paddingHorizontal: Spacing.screenPadding,
     marginBottom: Spacing.lg,
@@ -8,9 +8,35 @@ import {
     FontWeights,
     Spacing,
 } from "@/constants/theme";
+import { useAuth } from "@/hooks/use-auth";
 import { useColorScheme } from "@/hooks/use-color-scheme";
-import { useItineraryItem } from "@/hooks/use-trips";
-import { deleteItineraryItem, updateItineraryItem } from "@/services/firestore";
+import {
+    useItineraryAttachments,
+    useItineraryComments,
+    useItineraryItem,
+    useTrip,
+    useTripCollaborators,
+    useTripExpenses,
+} from "@/hooks/use-trips";
+import {
+    addItineraryComment,
+    createDocument,
+    deleteItineraryAttachment,
+    deleteItineraryComment,
+    deleteItineraryItem,
+    updateItineraryItem,
+} from "@/services/firestore";
+import {
+    canDeleteItineraryContent,
+    isImageAttachment,
+} from "@/services/itinerary-comments";
+import {
+    getLinkedExpenses,
+    sumConvertedExpenses,
+} from "@/services/itinerary-spend";
+import { notifyItineraryComment } from "@/services/notifications";
+import { uploadFileToStorage } from "@/services/storage";
+import { ItineraryComment, TripDocument } from "@/types/database";
 import { Ionicons } from "@expo/vector-icons";
 import * as DocumentPicker from "expo-document-picker";
 import * as Linking from "expo-linking";
@@ -32,22 +58,6 @@ import {
     View,
 } from "react-native";
 
-interface Attachment {
-  id: string;
-  name: string;
-  type: string;
-  uri: string;
-  size?: number;
-}
-
-interface Comment {
-  id: string;
-  userId: string;
-  userName: string;
-  text: string;
-  createdAt: Date;
-}
-
 const CATEGORY_CONFIG: Record<
   string,
   { icon: keyof typeof Ionicons.glyphMap; color: string; label: string }
@@ -83,16 +93,32 @@ export default function ItineraryItemDetailScreen() {
   const isDark = colorScheme === "dark";
   const colors = isDark ? Colors.dark : Colors.light;
 
+  const { user } = useAuth();
   const { item, loading, error } = useItineraryItem(itemId);
-  const [comments, setComments] = useState<Comment[]>([]);
+  const { trip } = useTrip(item?.tripId);
+  const { expenses } = useTripExpenses(item?.tripId);
+  const { collaborators } = useTripCollaborators(item?.tripId);
+  const { comments } = useItineraryComments(itemId);
+  const { attachments } = useItineraryAttachments(itemId);
+  const linkedExpenses = itemId ? getLinkedExpenses(expenses, itemId) : [];
+  const linkedTotal = sumConvertedExpenses(linkedExpenses);
+  const currency = trip?.currency || user?.defaultCurrency || "USD";
   const [newComment, setNewComment] = useState("");
-  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [isUploading, setIsUploading] = useState(false);
   const [isEditModalVisible, setIsEditModalVisible] = useState(false);
   const [editTitle, setEditTitle] = useState("");
   const [editDescription, setEditDescription] = useState("");
   const [editLocation, setEditLocation] = useState("");
   const [isSaving, setIsSaving] = useState(false);
 
+  const currentRole = collaborators.find((c) => c.userId === user?.id)?.role;
+  const canDelete = (authorId: string) =>
+    canDeleteItineraryContent(authorId, user?.id, currentRole);
+
+  const getName = (comment: ItineraryComment) =>
+    collaborators.find((c) => c.userId === comment.authorId)?.user?.name ||
+    comment.authorName;
+
   const config = item
     ? CATEGORY_CONFIG[item.category || "other"] || CATEGORY_CONFIG.other
     : CATEGORY_CONFIG.other;
@@ -105,6 +131,13 @@ export default function ItineraryItemDetailScreen() {
     });
   };
 
+  const formatAmount = (amount: number, code: string = currency) => {
+    return `${code} ${new Intl.NumberFormat("en-IN", {
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    }).format(amount)}`;
+  };
+
   const formatDate = (date: Date) => {
     return new Date(date).toLocaleDateString("en-US", {
       weekday: "long",
@@ -173,48 +206,119 @@ export default function ItineraryItemDetailScreen() {
         copyToCacheDirectory: true,
       });
 
-      if (!result.canceled && result.assets && result.assets.length > 0) {
+      if (
+        !result.canceled &&
+        result.assets &&
+        result.assets.length > 0 &&
+        item &&
+        user
+      ) {
         const asset = result.assets[0];
-        const newAttachment: Attachment = {
-          id: Date.now().toString(),
-          name: asset.name,
-          type: asset.mimeType || "application/octet-stream",
-          uri: asset.uri,
-          size: asset.size,
-        };
-        setAttachments([...attachments, newAttachment]);
+        const mimeType = asset.mimeType || "application/octet-stream";
+        setIsUploading(true);
+        // Stored like attachments added with the activity, as trip documents linked to it
+        const fileUrl = await uploadFileToStorage(
+          asset.uri,
+          `trips/${item.tripId}/documents/${Date.now()}_${asset.name}`,
+          mimeType,
+        );
+        await createDocument({
+          tripId: item.tripId,
+          itineraryId: item.id,
+          uploadedBy: user.id,
+          fileUrl,
+          label: asset.name,
+          type: mimeType.startsWith("image/") ? "photo" : "other",
+        });
       }
     } catch (err) {
-      console.error("Error picking document:", err);
-      Alert.alert("Error", "Failed to pick document");
+      console.error("Error adding attachment:", err);
+      Alert.alert("Error", "Failed to add attachment");
+    } finally {
+      setIsUploading(false);
     }
   };
 
-  const handleRemoveAttachment = (attachmentId: string) => {
-    setAttachments(attachments.filter((a) => a.id !== attachmentId));
+  const handleRemoveAttachment = (attachment: TripDocument) => {
+    if (!user) return;
+
+    Alert.alert(
+      "Remove Attachment",
+      `Remove "${attachment.label || "this file"}" from this activity?`,
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Remove",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              await deleteItineraryAttachment(attachment.id, user.id);
+            } catch (err) {
+              console.error("Error removing attachment:", err);
+              Alert.alert(
+                "Error",
+                err instanceof Error
+                  ? err.message
+                  : "Failed to remove attachment",
+              );
+            }
+          },
+        },
+      ],
+    );
   };
 
-  const formatFileSize = (bytes?: number) => {
-    if (!bytes) return "";
-    if (bytes < 1024) return `${bytes} B`;
-    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
-    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  const handleAddComment = async () => {
+    const text = newComment.trim();
+    if (!text || !item || !user) return;
+
+    setNewComment("");
+    try {
+      await addItineraryComment({
+        tripId: item.tripId,
+        itineraryId: item.id,
+        authorId: user.id,
+        authorName: user.name,
+        text,
+      });
+
+      notifyItineraryComment(
+        item.tripId,
+        trip?.title || "Trip",
+        item.id,
+        item.title,
+        text,
+        user.id,
+        user.name,
+      ).catch(console.error); // Don't block on notification
+    } catch (err) {
+      console.error("Error adding comment:", err);
+      setNewComment(text);
+      Alert.alert("Error", "Failed to post comment");
+    }
   };
 
-  const handleAddComment = () => {
-    if (!newComment.trim()) return;
+  const handleDeleteComment = (comment: ItineraryComment) => {
+    if (!user) return;
 
-    setComments([
-      ...comments,
+    Alert.alert("Delete Comment", "Delete this comment for everyone?", [
+      { text: "Cancel", style: "cancel" },
       {
-        id: Date.now().toString(),
-        userId: "user1",
-        userName: "You",
-        text: newComment,
-        createdAt: new Date(),
+        text: "Delete",
+        style: "destructive",
+        onPress: async () => {
+          try {
+            await deleteItineraryComment(comment.id, user.id);
+          } catch (err) {
+            console.error("Error deleting comment:", err);
+            Alert.alert(
+              "Error",
+              err instanceof Error ? err.message : "Failed to delete comment",
+            );
+          }
+        },
       },
     ]);
-    setNewComment("");
   };
 
   const handleOpenMap = () => {
@@ -436,18 +540,95 @@ export default function ItineraryItemDetailScreen() {
           </View>
         )}
 
+        {/* Costs */}
+        <View style={styles.section}>
+          <View style={styles.sectionHeaderRow}>
+            <Text style={[styles.sectionTitle, { color: colors.text }]}>
+              Costs
+            </Text>
+            {linkedExpenses.length > 0 && (
+              <Text style={[styles.costTotal, { color: Colors.primary }]}>
+                {formatAmount(linkedTotal)}
+              </Text>
+            )}
+          </View>
+          {linkedExpenses.map((expense) => (
+            <TouchableOpacity
+              key={expense.id}
+              style={[
+                styles.attachmentCard,
+                { backgroundColor: colors.card, borderColor: colors.border },
+              ]}
+              onPress={() =>
+                router.push(
+                  `/trips/${item.tripId}/expenses/add?expenseId=${expense.id}`,
+                )
+              }
+            >
+              <View
+                style={[
+                  styles.attachmentIcon,
+                  { backgroundColor: Colors.primary + "15" },
+                ]}
+              >
+                <Ionicons
+                  name="wallet-outline"
+                  size={20}
+                  color={Colors.primary}
+                />
+              </View>
+              <View style={styles.attachmentContent}>
+                <Text
+                  style={[styles.attachmentName, { color: colors.text }]}
+                  numberOfLines={1}
+                >
+                  {expense.title}
+                </Text>
+                {expense.currency !== currency && (
+                  <Text
+                    style={[styles.attachmentSize, { color: colors.textMuted }]}
+                  >
+                    {formatAmount(expense.amount, expense.currency)}
+                  </Text>
+                )}
+              </View>
+              <Text style={[styles.costAmount, { color: colors.text }]}>
+                {formatAmount(sumConvertedExpenses([expense]))}
+              </Text>
+            </TouchableOpacity>
+          ))}
+          <TouchableOpacity
+            style={[styles.attachButton, { borderColor: colors.border }]}
+            onPress={() =>
+              router.push(
+                `/trips/${item.tripId}/expenses/add?itineraryItemId=${item.id}`,
+              )
+            }
+          >
+            <Ionicons
+              name="add-outline"
+              size={24}
+              color={colors.textSecondary}
+            />
+            <Text style={[styles.attachText, { color: colors.textSecondary }]}>
+              Add expense
+            </Text>
+          </TouchableOpacity>
+        </View>
+
         {/* Attachments */}
         <View style={styles.section}>
           <Text style={[styles.sectionTitle, { color: colors.text }]}>
             Attachments ({attachments.length})
           </Text>
           {attachments.map((attachment) => (
-            <View
+            <TouchableOpacity
               key={attachment.id}
               style={[
                 styles.attachmentCard,
                 { backgroundColor: colors.card, borderColor: colors.border },
               ]}
+              onPress={() => Linking.openURL(attachment.fileUrl)}
             >
               <View
                 style={[
@@ -457,7 +638,7 @@ export default function ItineraryItemDetailScreen() {
               >
                 <Ionicons
                   name={
-                    attachment.type.includes("image")
+                    isImageAttachment(attachment)
                       ? "image-outline"
                       : "document-outline"
                   }
@@ -470,35 +651,44 @@ export default function ItineraryItemDetailScreen() {
                   style={[styles.attachmentName, { color: colors.text }]}
                   numberOfLines={1}
                 >
-                  {attachment.name}
+                  {attachment.label || "Attachment"}
+                </Text>
+                <Text
+                  style={[styles.attachmentSize, { color: colors.textMuted }]}
+                >
+                  {new Date(attachment.createdAt).toLocaleDateString()}
                 </Text>
-                {attachment.size && (
-                  <Text
-                    style={[styles.attachmentSize, { color: colors.textMuted }]}
-                  >
-                    {formatFileSize(attachment.size)}
-                  </Text>
-                )}
               </View>
-              <TouchableOpacity
-                onPress={() => handleRemoveAttachment(attachment.id)}
-                hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
-              >
-                <Ionicons name="close-circle" size={22} color={Colors.error} />
-              </TouchableOpacity>
-            </View>
+              {canDelete(attachment.uploadedBy) && (
+                <TouchableOpacity
+                  onPress={() => handleRemoveAttachment(attachment)}
+                  hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                >
+                  <Ionicons
+                    name="close-circle"
+                    size={22}
+                    color={Colors.error}
+                  />
+                </TouchableOpacity>
+              )}
+            </TouchableOpacity>
           ))}
           <TouchableOpacity
             style={[styles.attachButton, { borderColor: colors.border }]}
             onPress={handleAddAttachment}
+            disabled={isUploading}
           >
-            <Ionicons
-              name="add-outline"
-              size={24}
-              color={colors.textSecondary}
-            />
+            {isUploading ? (
+              <ActivityIndicator size="small" color={colors.textSecondary} />
+            ) : (
+              <Ionicons
+                name="add-outline"
+                size={24}
+                color={colors.textSecondary}
+              />
+            )}
             <Text style={[styles.attachText, { color: colors.textSecondary }]}>
-              Add attachment
+              {isUploading ? "Uploading..." : "Add attachment"}
             </Text>
           </TouchableOpacity>
         </View>
@@ -523,19 +713,31 @@ export default function ItineraryItemDetailScreen() {
                 ]}
               >
                 <Text style={[styles.avatarText, { color: Colors.primary }]}>
-                  {comment.userName.charAt(0)}
+                  {getName(comment).charAt(0)}
                 </Text>
               </View>
               <View style={styles.commentContent}>
                 <View style={styles.commentHeader}>
                   <Text style={[styles.commentAuthor, { color: colors.text }]}>
-                    {comment.userName}
+                    {comment.authorId === user?.id ? "You" : getName(comment)}
                   </Text>
                   <Text
                     style={[styles.commentTime, { color: colors.textMuted }]}
                   >
                     {new Date(comment.createdAt).toLocaleDateString()}
                   </Text>
+                  {canDelete(comment.authorId) && (
+                    <TouchableOpacity
+                      onPress={() => handleDeleteComment(comment)}
+                      hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                    >
+                      <Ionicons
+                        name="trash-outline"
+                        size={14}
+                        color={colors.textMuted}
+                      />
+                    </TouchableOpacity>
+                  )}
                 </View>
                 <Text
                   style={[styles.commentText, { color: colors.textSecondary }]}
@@ -787,6 +989,19 @@ const styles = StyleSheet.create({
     fontWeight: FontWeights.semibold,
     marginBottom: Spacing.sm,
   },
+  sectionHeaderRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "baseline",
+  },
+  costTotal: {
+    fontSize: FontSizes.md,
+    fontWeight: FontWeights.semibold,
+  },
+  costAmount: {
+    fontSize: FontSizes.md,
+    fontWeight: FontWeights.semibold,
+  },
   descriptionCard: {
     padding: Spacing.md,
     borderRadius: BorderRadius.lg,
@@ -835,9 +1050,11 @@ const styles = StyleSheet.create({
     flexDirection: "row",
     justifyContent: "space-between",
     alignItems: "center",
+    gap: Spacing.sm,
     marginBottom: 4,
   },
   commentAuthor: {
+    flex: 1,
     fontSize: FontSizes.sm,
     fontWeight: FontWeights.semibold,
   },
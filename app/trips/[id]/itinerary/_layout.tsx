@@ -23,6 +23,13 @@ export default function ItineraryLayout() {
           animation: 'slide_from_bottom',
         }}
       />
+      <Stack.Screen 
+        name="import" 
+        options={{
+          presentation: 'modal',
+          animation: 'slide_from_bottom',
+        }}
+      />
       <Stack.Screen name="[itemId]" />
     </Stack>
   );
@@ -302,6 +302,25 @@ export default function AddItineraryItemScreen() {
           keyboardShouldPersistTaps="handled"
           showsVerticalScrollIndicator={false}
         >
+          {/* Import from a confirmation */}
+          <TouchableOpacity
+            style={[
+              styles.importRow,
+              { backgroundColor: colors.card, borderColor: colors.border },
+            ]}
+            onPress={() => router.replace(`/trips/${id}/itinerary/import`)}
+          >
+            <Ionicons name="mail-open-outline" size={20} color={Colors.primary} />
+            <Text style={[styles.importText, { color: colors.text }]}>
+              Import flights and hotels from a confirmation
+            </Text>
+            <Ionicons
+              name="chevron-forward"
+              size={18}
+              color={colors.textSecondary}
+            />
+          </TouchableOpacity>
+
           {/* Category Selection */}
           <View style={styles.section}>
             <Text style={[styles.sectionTitle, { color: colors.text }]}>
@@ -524,6 +543,20 @@ const styles = StyleSheet.create({
     fontWeight: FontWeights.semibold,
     marginBottom: Spacing.sm,
   },
+  importRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: Spacing.md,
+    borderRadius: BorderRadius.card,
+    borderWidth: 1,
+    marginBottom: Spacing.lg,
+    gap: Spacing.sm,
+  },
+  importText: {
+    flex: 1,
+    fontSize: FontSizes.bodySmall,
+    fontWeight: FontWeights.medium,
+  },
   categoriesContainer: {
     gap: Spacing.sm,
     paddingVertical: Spacing.xs,
@@ -0,0 +1,506 @@
+import { ScreenHeader } from "@/components/navigation/screen-header";
+import { ScreenContainer } from "@/components/screen-container";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+    BorderRadius,
+    Colors,
+    FontSizes,
+    FontWeights,
+    Spacing,
+} from "@/constants/theme";
+import { useAuth } from "@/hooks/use-auth";
+import { useColorScheme } from "@/hooks/use-color-scheme";
+import { useTrip } from "@/hooks/use-trips";
+import {
+    BOOKING_DOCUMENT_TYPES,
+    BookingKind,
+    isDayFirstLocale,
+    parseConfirmationText,
+    parseIcsBookings,
+    ParsedBooking,
+    toItineraryItemInput,
+} from "@/services/booking-parser";
+import { createDocument, createItineraryItems } from "@/services/firestore";
+import { notifyItineraryAdded } from "@/services/notifications";
+import { uploadFileToStorage } from "@/services/storage";
+import { Ionicons } from "@expo/vector-icons";
+import * as DocumentPicker from "expo-document-picker";
+import * as FileSystem from "expo-file-system/legacy";
+import { useLocalSearchParams, useRouter } from "expo-router";
+import React, { useState } from "react";
+import {
+    Alert,
+    KeyboardAvoidingView,
+    Platform,
+    ScrollView,
+    StyleSheet,
+    Text,
+    TouchableOpacity,
+    View,
+} from "react-native";
+
+// The original confirmation, kept as a trip document linked to each imported item
+interface BookingSource {
+  uri: string;
+  name: string;
+  mimeType: string;
+}
+
+const KIND_CONFIG: Record<
+  BookingKind,
+  { label: string; icon: keyof typeof Ionicons.glyphMap; color: string }
+> = {
+  flight: { label: "Flight", icon: "airplane-outline", color: Colors.primary },
+  hotel: { label: "Stay", icon: "bed-outline", color: Colors.secondary },
+  event: { label: "Booking", icon: "ticket-outline", color: "#8B5CF6" },
+};
+
+export default function ImportBookingsScreen() {
+  const router = useRouter();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { user } = useAuth();
+  const { trip } = useTrip(id);
+  const colorScheme = useColorScheme();
+  const isDark = colorScheme === "dark";
+  const colors = isDark ? Colors.dark : Colors.light;
+
+  const [text, setText] = useState("");
+  const [source, setSource] = useState<BookingSource | null>(null);
+  const [bookings, setBookings] = useState<ParsedBooking[]>([]);
+  const [selected, setSelected] = useState<number[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const showBookings = (found: ParsedBooking[], from: BookingSource) => {
+    if (found.length === 0) {
+      Alert.alert(
+        "No Bookings Found",
+        "We couldn't find a flight, hotel stay or event in this confirmation.",
+      );
+      return;
+    }
+    setSource(from);
+    setBookings(found);
+    setSelected(found.map((_, index) => index));
+  };
+
+  const handlePickCalendarFile = async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: ["text/calendar", "application/ics", "*/*"],
+        copyToCacheDirectory: true,
+      });
+      if (result.canceled || !result.assets[0]) return;
+
+      const asset = result.assets[0];
+      if (!/\.ics$/i.test(asset.name) && asset.mimeType !== "text/calendar") {
+        Alert.alert("Unsupported File", "Choose a calendar (.ics) file.");
+        return;
+      }
+      const contents = await FileSystem.readAsStringAsync(asset.uri);
+      showBookings(parseIcsBookings(contents), {
+        uri: asset.uri,
+        name: asset.name,
+        mimeType: "text/calendar",
+      });
+    } catch (err) {
+      console.error(err);
+      Alert.alert("Error", "Failed to read calendar file");
+    }
+  };
+
+  const handleParseText = async () => {
+    if (!text.trim()) return;
+    try {
+      // Saved as a text file so the pasted email is kept with the bookings
+      const name = `confirmation_${Date.now()}.txt`;
+      const uri = `${FileSystem.cacheDirectory}${name}`;
+      await FileSystem.writeAsStringAsync(uri, text, {
+        encoding: FileSystem.EncodingType.UTF8,
+      });
+      // Numeric dates like 03/04 are read the way the user's locale writes them
+      showBookings(parseConfirmationText(text, { dayFirst: isDayFirstLocale() }), {
+        uri,
+        name,
+        mimeType: "text/plain",
+      });
+    } catch (err) {
+      console.error(err);
+      Alert.alert("Error", "Failed to read confirmation");
+    }
+  };
+
+  const toggleSelected = (index: number) => {
+    setSelected(
+      selected.includes(index)
+        ? selected.filter((i) => i !== index)
+        : [...selected, index],
+    );
+  };
+
+  const handleStartOver = () => {
+    setBookings([]);
+    setSelected([]);
+    setSource(null);
+  };
+
+  const formatDateTime = (date: Date | null) => {
+    if (!date) return "No date found";
+    return new Date(date).toLocaleString("en-US", {
+      weekday: "short",
+      month: "short",
+      day: "numeric",
+      hour: "numeric",
+      minute: "2-digit",
+    });
+  };
+
+  const handleImport = async () => {
+    if (!id || !user || !trip || !source) return;
+    const toImport = bookings.filter((_, index) => selected.includes(index));
+    if (toImport.length === 0) return;
+
+    setLoading(true);
+    try {
+      // Bookings without a date go on the first morning of the trip, as new activities do
+      const fallbackStart = new Date(trip.startDate);
+      fallbackStart.setHours(9, 0, 0, 0);
+
+      // Written together, so a failed import adds nothing and can simply be retried
+      const itemIds = await createItineraryItems(
+        toImport.map((booking) => {
+          const input = toItineraryItemInput(booking, id, user.id);
+          return { ...input, startTime: input.startTime || fallbackStart };
+        }),
+      );
+
+      // One upload of the original, linked to every item imported from it
+      let documentSaved = true;
+      try {
+        const fileUrl = await uploadFileToStorage(
+          source.uri,
+          `trips/${id}/documents/${Date.now()}_${source.name}`,
+          source.mimeType,
+        );
+        await Promise.all(
+          toImport.map((booking, index) =>
+            createDocument({
+              tripId: id,
+              itineraryId: itemIds[index],
+              uploadedBy: user.id,
+              fileUrl,
+              label: source.name,
+              type: BOOKING_DOCUMENT_TYPES[booking.kind],
+            }),
+          ),
+        );
+      } catch (err) {
+        console.error("Failed to save confirmation:", err);
+        documentSaved = false;
+      }
+
+      toImport.forEach((booking, index) => {
+        notifyItineraryAdded(
+          id,
+          trip.title || "Trip",
+          itemIds[index],
+          booking.title,
+          user.id,
+          user.name,
+        ).catch(console.error); // Don't block on notification
+      });
+
+      if (documentSaved) {
+        router.back();
+      } else {
+        // The bookings are already in the itinerary, only the attachment is missing
+        Alert.alert(
+          "Bookings Imported",
+          "We couldn't attach the original confirmation. You can add it from each item's documents.",
+          [{ text: "OK", onPress: () => router.back() }],
+        );
+      }
+    } catch (error) {
+      console.error("Import error:", error);
+      Alert.alert("Error", "Failed to import bookings. Please try again.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <ScreenContainer
+      style={styles.container}
+      backgroundColor={colors.background}
+      padded={false}
+    >
+      <KeyboardAvoidingView
+        behavior={Platform.OS === "ios" ? "padding" : "height"}
+        style={styles.keyboardView}
+      >
+        <ScreenHeader title="Import Bookings" showBack={false} />
+
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.scrollContent}
+          keyboardShouldPersistTaps="handled"
+          showsVerticalScrollIndicator={false}
+        >
+          {bookings.length === 0 ? (
+            <>
+              {/* Calendar file */}
+              <View style={styles.section}>
+                <Text style={[styles.sectionTitle, { color: colors.text }]}>
+                  Calendar File
+                </Text>
+                <TouchableOpacity
+                  style={[styles.pickButton, { borderColor: colors.border }]}
+                  onPress={handlePickCalendarFile}
+                >
+                  <Ionicons
+                    name="calendar-outline"
+                    size={24}
+                    color={colors.textSecondary}
+                  />
+                  <Text
+                    style={[styles.pickText, { color: colors.textSecondary }]}
+                  >
+                    Choose an .ics file
+                  </Text>
+                </TouchableOpacity>
+              </View>
+
+              {/* Pasted confirmation */}
+              <View style={styles.section}>
+                <Text style={[styles.sectionTitle, { color: colors.text }]}>
+                  Confirmation Email
+                </Text>
+                <Input
+                  placeholder="Paste a flight or hotel confirmation here"
+                  value={text}
+                  onChangeText={setText}
+                  multiline
+                  numberOfLines={8}
+                  textAlignVertical="top"
+                  containerStyle={styles.textArea}
+                />
+                <Text
+                  style={[styles.helperText, { color: colors.textSecondary }]}
+                >
+                  Flight numbers, booking references, hotel names and
+                  check-in/check-out dates are picked up automatically
+                </Text>
+              </View>
+            </>
+          ) : (
+            <View style={styles.section}>
+              <View style={styles.resultsHeader}>
+                <Text style={[styles.sectionTitle, { color: colors.text }]}>
+                  Found {bookings.length}{" "}
+                  {bookings.length === 1 ? "booking" : "bookings"}
+                </Text>
+                <TouchableOpacity onPress={handleStartOver}>
+                  <Text style={[styles.startOver, { color: Colors.primary }]}>
+                    Start over
+                  </Text>
+                </TouchableOpacity>
+              </View>
+
+              {bookings.map((booking, index) => {
+                const config = KIND_CONFIG[booking.kind];
+                const isSelected = selected.includes(index);
+                return (
+                  <TouchableOpacity
+                    key={index}
+                    style={[
+                      styles.bookingCard,
+                      {
+                        backgroundColor: colors.card,
+                        borderColor: isSelected ? config.color : colors.border,
+                      },
+                    ]}
+                    onPress={() => toggleSelected(index)}
+                    activeOpacity={0.7}
+                  >
+                    <View
+                      style={[
+                        styles.bookingIcon,
+                        { backgroundColor: config.color + "15" },
+                      ]}
+                    >
+                      <Ionicons
+                        name={config.icon}
+                        size={20}
+                        color={config.color}
+                      />
+                    </View>
+                    <View style={styles.bookingInfo}>
+                      <Text
+                        style={[styles.bookingTitle, { color: colors.text }]}
+                        numberOfLines={2}
+                      >
+                        {booking.title}
+                      </Text>
+                      <Text
+                        style={[
+                          styles.bookingMeta,
+                          { color: colors.textSecondary },
+                        ]}
+                      >
+                        {formatDateTime(booking.startTime)}
+                        {booking.endTime &&
+                          ` – ${formatDateTime(booking.endTime)}`}
+                      </Text>
+                      {booking.location && (
+                        <Text
+                          style={[
+                            styles.bookingMeta,
+                            { color: colors.textMuted },
+                          ]}
+                          numberOfLines={1}
+                        >
+                          {booking.location}
+                        </Text>
+                      )}
+                      {booking.reference && (
+                        <Text
+                          style={[
+                            styles.bookingMeta,
+                            { color: colors.textMuted },
+                          ]}
+                        >
+                          {config.label} · Ref {booking.reference}
+                        </Text>
+                      )}
+                    </View>
+                    <Ionicons
+                      name={isSelected ? "checkbox" : "square-outline"}
+                      size={22}
+                      color={isSelected ? config.color : colors.textMuted}
+                    />
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          )}
+        </ScrollView>
+
+        {/* Bottom Button */}
+        <View
+          style={[
+            styles.bottomContainer,
+            { backgroundColor: colors.background },
+          ]}
+        >
+          {bookings.length === 0 ? (
+            <Button
+              title="Find Bookings"
+              onPress={handleParseText}
+              disabled={!text.trim()}
+              fullWidth
+              size="lg"
+              icon={<Ionicons name="search" size={20} color="#FFFFFF" />}
+            />
+          ) : (
+            <Button
+              title={`Import ${selected.length} to Itinerary`}
+              onPress={handleImport}
+              loading={loading}
+              disabled={selected.length === 0}
+              fullWidth
+              size="lg"
+              icon={<Ionicons name="download-outline" size={20} color="#FFFFFF" />}
+            />
+          )}
+        </View>
+      </KeyboardAvoidingView>
+    </ScreenContainer>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  keyboardView: {
+    flex: 1,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingHorizontal: Spacing.screenPadding,
+    paddingBottom: Spacing["2xl"],
+  },
+  section: {
+    marginBottom: Spacing.lg,
+  },
+  sectionTitle: {
+    fontSize: FontSizes.body,
+    fontWeight: FontWeights.semibold,
+    marginBottom: Spacing.sm,
+  },
+  pickButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    padding: Spacing.lg,
+    borderRadius: BorderRadius.large,
+    borderWidth: 1.5,
+    borderStyle: "dashed",
+    gap: Spacing.sm,
+  },
+  pickText: {
+    fontSize: FontSizes.body,
+  },
+  textArea: {
+    marginBottom: 0,
+  },
+  helperText: {
+    fontSize: FontSizes.bodySmall,
+    marginTop: Spacing.xs,
+  },
+  resultsHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  startOver: {
+    fontSize: FontSizes.bodySmall,
+    fontWeight: FontWeights.medium,
+    marginBottom: Spacing.sm,
+  },
+  bookingCard: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: Spacing.md,
+    borderRadius: BorderRadius.card,
+    borderWidth: 1.5,
+    marginBottom: Spacing.sm,
+    gap: Spacing.md,
+  },
+  bookingIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: BorderRadius.pill,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  bookingInfo: {
+    flex: 1,
+  },
+  bookingTitle: {
+    fontSize: FontSizes.body,
+    fontWeight: FontWeights.semibold,
+    marginBottom: 2,
+  },
+  bookingMeta: {
+    fontSize: FontSizes.caption,
+    marginTop: 2,
+  },
+  bottomContainer: {
+    padding: Spacing.screenPadding,
+    borderTopWidth: 1,
+    borderTopColor: "rgba(0,0,0,0.05)",
+  },
+});
@@ -1,15 +1,30 @@
 import { ScreenHeader } from '@/components/navigation/screen-header';
 import { ScreenContainer } from '@/components/screen-container';
+import { DragPosition, DraggableTimelineItem } from '@/components/trips/draggable-timeline-item';
+import { ItineraryListView } from '@/components/trips/itinerary-list-view';
 import { EmptyState } from '@/components/ui/empty-state';
 import { BorderRadius, Colors, FontSizes, FontWeights, Shadows, Spacing } from '@/constants/theme';
+import { useAuth } from '@/hooks/use-auth';
 import { useColorScheme } from '@/hooks/use-color-scheme';
-import { useTripItinerary } from '@/hooks/use-trips';
-import { ItineraryCategory, ItineraryItem } from '@/types/database';
+import { useTrip, useTripCollaborators, useTripExpenses, useTripItinerary } from '@/hooks/use-trips';
+import { getTravelMinutes } from '@/services/directions';
+import { rescheduleItineraryItems } from '@/services/firestore';
+import { getItemsForDay, getItineraryDayKeys, planItineraryMove } from '@/services/itinerary-schedule';
+import { computeDailySpend, getLinkedExpenses, sumConvertedExpenses } from '@/services/itinerary-spend';
+import {
+    getItemWarnings,
+    ItineraryWarning,
+    TravelTimeEstimator,
+    validateItineraryDay,
+} from '@/services/itinerary-validator';
+import { checkNetworkStatus } from '@/services/offline';
+import { ItineraryCategory } from '@/types/database';
 import { Ionicons } from '@expo/vector-icons';
 import { useLocalSearchParams, useRouter } from 'expo-router';
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import {
     ActivityIndicator,
+    Alert,
     ScrollView,
     StyleSheet,
     Text,
@@ -17,7 +32,14 @@ import {
     View
 } from 'react-native';
 
-type ViewMode = 'timeline' | 'map';
+type ViewMode = 'timeline' | 'map' | 'list';
+
+interface Frame {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
 
 const CATEGORY_CONFIG: Record<ItineraryCategory | string, { icon: keyof typeof Ionicons.glyphMap; color: string }> = {
   activity: { icon: 'flash-outline', color: '#8B5CF6' },
@@ -35,25 +57,82 @@ export default function ItineraryScreen() {
   const isDark = colorScheme === 'dark';
   const colors = isDark ? Colors.dark : Colors.light;
 
+  const { user } = useAuth();
   const { items, loading, error } = useTripItinerary(id);
+  const { trip } = useTrip(id);
+  const { expenses } = useTripExpenses(id);
+  const { collaborators } = useTripCollaborators(id);
+  const currency = trip?.currency || user?.defaultCurrency || 'USD';
   const [viewMode, setViewMode] = useState<ViewMode>('timeline');
   const [selectedDay, setSelectedDay] = useState(0);
+  const [isReordering, setIsReordering] = useState(false);
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropDayKey, setDropDayKey] = useState<string | null>(null);
+  const [isSelectingInList, setIsSelectingInList] = useState(false);
 
-  // Group items by day
-  const groupedItems = items.reduce((acc, item) => {
-    if (!item.startTime) return acc;
-    const dateKey = new Date(item.startTime).toDateString();
-    if (!acc[dateKey]) {
-      acc[dateKey] = [];
-    }
-    acc[dateKey].push(item);
-    return acc;
-  }, {} as Record<string, ItineraryItem[]>);
+  // Where rows and day tabs sit on screen, so a drop can be matched to a position or another day
+  const rowLayouts = useRef<Record<string, Frame>>({});
+  const dayTabRefs = useRef<Record<string, View | null>>({});
+  const dayTabFrames = useRef<Record<string, Frame>>({});
+
+  const [warnings, setWarnings] = useState<ItineraryWarning[]>([]);
+  // Route times already looked up, so redrawing the day doesn't query directions again
+  const travelTimes = useRef<Map<string, number | null>>(new Map());
 
-  const days = Object.keys(groupedItems).sort((a, b) => 
-    new Date(a).getTime() - new Date(b).getTime()
+  const currentRole = collaborators.find(c => c.userId === user?.id)?.role;
+  const canEdit = currentRole === 'owner' || currentRole === 'editor';
+  const memberNames = Object.fromEntries(
+    collaborators.filter(c => c.user).map(c => [c.userId, c.user!.name])
   );
 
+  // Every trip day gets a tab, so items can be dragged onto days with nothing planned yet
+  const days = getItineraryDayKeys(trip?.startDate, trip?.endDate, items);
+  const selectedDayKey = days[selectedDay];
+  const dayItems = getItemsForDay(items, selectedDayKey);
+
+  useEffect(() => {
+    if (!trip || !selectedDayKey) {
+      setWarnings([]);
+      return;
+    }
+
+    let cancelled = false;
+    // Offline, or without a route, the validator falls back to a straight-line estimate
+    const estimateTravelMinutes: TravelTimeEstimator = async (origin, destination) => {
+      const key = `${origin.latitude},${origin.longitude}>${destination.latitude},${destination.longitude}`;
+      if (travelTimes.current.has(key)) return travelTimes.current.get(key)!;
+      if (!(await checkNetworkStatus())) return null;
+      const minutes = await getTravelMinutes({ origin, destination });
+      travelTimes.current.set(key, minutes);
+      return minutes;
+    };
+
+    validateItineraryDay(trip, items, selectedDayKey, estimateTravelMinutes)
+      .then((result) => {
+        if (!cancelled) setWarnings(result);
+      })
+      .catch((err) => console.error('Error checking itinerary:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [trip, items, selectedDayKey]);
+
+  const dayWarnings = warnings.filter((warning) => warning.itemId === null);
+
+  // The list has its own empty and filtered states; loading and errors still show as in the timeline
+  const showList = viewMode === 'list' && !loading && !error && items.length > 0;
+
+  // Spend per day; linked expenses count towards their activity's day
+  const dailySpend = computeDailySpend(expenses, items);
+
+  const formatAmount = (amount: number) => {
+    return `${currency} ${new Intl.NumberFormat('en-IN', {
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 2,
+    }).format(amount)}`;
+  };
+
   const formatTime = (date: Date) => {
     return new Date(date).toLocaleTimeString('en-US', { 
       hour: '2-digit', 
@@ -83,10 +162,82 @@ export default function ItineraryScreen() {
     router.push(`/trips/${id}/itinerary/${itemId}`);
   };
 
+  const getDayAtPosition = ({ pageX, pageY }: DragPosition): string | null => {
+    const day = Object.keys(dayTabFrames.current).find((key) => {
+      const frame = dayTabFrames.current[key];
+      return pageX >= frame.x && pageX <= frame.x + frame.width && pageY >= frame.y && pageY <= frame.y + frame.height;
+    });
+    return day && day !== days[selectedDay] ? day : null;
+  };
+
+  const handleDragStart = (itemId: string) => {
+    setDraggingId(itemId);
+    dayTabFrames.current = {};
+    days.forEach((day) => {
+      dayTabRefs.current[day]?.measureInWindow((x, y, width, height) => {
+        dayTabFrames.current[day] = { x, y, width, height };
+      });
+    });
+  };
+
+  const handleDragMove = (position: DragPosition) => {
+    const day = getDayAtPosition(position);
+    if (day !== dropDayKey) setDropDayKey(day);
+  };
+
+  const handleDragEnd = async (itemId: string, position: DragPosition) => {
+    setDraggingId(null);
+    setDropDayKey(null);
+
+    const currentDay = days[selectedDay];
+    const targetDay = getDayAtPosition(position) || currentDay;
+    let targetIndex: number;
+
+    if (targetDay !== currentDay) {
+      // Dropped on another day's tab: it goes to the end of that day
+      targetIndex = getItemsForDay(items, targetDay).length;
+    } else {
+      // Within the day, its new place is after every row whose middle it was dragged past
+      const layout = rowLayouts.current[itemId];
+      if (!layout) return;
+      const droppedAt = layout.y + layout.height / 2 + position.dy;
+      const others = dayItems.filter((item) => item.id !== itemId);
+      targetIndex = others.filter((item) => {
+        const other = rowLayouts.current[item.id];
+        return other && other.y + other.height / 2 < droppedAt;
+      }).length;
+      if (targetIndex === dayItems.findIndex((item) => item.id === itemId)) return;
+    }
+
+    const changes = planItineraryMove(items, itemId, targetDay, targetIndex);
+    try {
+      await rescheduleItineraryItems(changes);
+      if (targetDay !== currentDay) setSelectedDay(days.indexOf(targetDay));
+    } catch (err: any) {
+      Alert.alert('Error', err.message || 'Failed to move activity');
+    }
+  };
+
   return (
     <ScreenContainer style={styles.container} backgroundColor={colors.background} padded={false}>
       {/* Header */}
-      <ScreenHeader title="Itinerary" showBack={false} />
+      <ScreenHeader
+        title="Itinerary"
+        showBack={false}
+        right={canEdit && viewMode === 'timeline' && items.length > 0 ? (
+          <TouchableOpacity
+            style={styles.headerButton}
+            onPress={() => setIsReordering(!isReordering)}
+            hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+          >
+            <Ionicons
+              name={isReordering ? 'checkmark' : 'swap-vertical'}
+              size={22}
+              color={isReordering ? Colors.primary : colors.text}
+            />
+          </TouchableOpacity>
+        ) : undefined}
+      />
 
       {/* View Toggle */}
       <View style={styles.viewToggle}>
@@ -124,10 +275,30 @@ export default function ItineraryScreen() {
             { color: viewMode === 'map' ? '#FFFFFF' : colors.textSecondary },
           ]}>Map</Text>
         </TouchableOpacity>
+        <TouchableOpacity
+          style={[
+            styles.toggleButton,
+            viewMode === 'list' && { backgroundColor: Colors.primary },
+          ]}
+          onPress={() => {
+            setIsReordering(false);
+            setViewMode('list');
+          }}
+        >
+          <Ionicons 
+            name="list-outline" 
+            size={18} 
+            color={viewMode === 'list' ? '#FFFFFF' : colors.textSecondary} 
+          />
+          <Text style={[
+            styles.toggleText,
+            { color: viewMode === 'list' ? '#FFFFFF' : colors.textSecondary },
+          ]}>List</Text>
+        </TouchableOpacity>
       </View>
 
       {/* Day Tabs */}
-      {days.length > 0 && (
+      {!showList && days.length > 0 && (
         <ScrollView 
           horizontal 
           showsHorizontalScrollIndicator={false}
@@ -135,121 +306,191 @@ export default function ItineraryScreen() {
           contentContainerStyle={styles.dayTabsContent}
         >
           {days.map((day, index) => (
-            <TouchableOpacity
+            <View
               key={day}
-              style={[
-                styles.dayTab,
-                selectedDay === index && { backgroundColor: Colors.primary + '15', borderColor: Colors.primary },
-                { borderColor: colors.border },
-              ]}
-              onPress={() => setSelectedDay(index)}
+              ref={(ref) => { dayTabRefs.current[day] = ref; }}
+              collapsable={false}
             >
-              <Text style={[
-                styles.dayNumber,
-                { color: selectedDay === index ? Colors.primary : colors.text },
-              ]}>Day {index + 1}</Text>
-              <Text style={[
-                styles.dayDate,
-                { color: selectedDay === index ? Colors.primary : colors.textSecondary },
-              ]}>{formatDate(day)}</Text>
-            </TouchableOpacity>
+              <TouchableOpacity
+                style={[
+                  styles.dayTab,
+                  selectedDay === index && { backgroundColor: Colors.primary + '15', borderColor: Colors.primary },
+                  { borderColor: colors.border },
+                  dropDayKey === day && { backgroundColor: Colors.primary + '30', borderColor: Colors.primary },
+                ]}
+                onPress={() => setSelectedDay(index)}
+              >
+                <Text style={[
+                  styles.dayNumber,
+                  { color: selectedDay === index ? Colors.primary : colors.text },
+                ]}>Day {index + 1}</Text>
+                <Text style={[
+                  styles.dayDate,
+                  { color: selectedDay === index ? Colors.primary : colors.textSecondary },
+                ]}>{formatDate(day)}</Text>
+                {dailySpend[day] > 0 && (
+                  <Text style={[
+                    styles.daySpend,
+                    { color: selectedDay === index ? Colors.primary : colors.textMuted },
+                  ]}>{formatAmount(dailySpend[day])}</Text>
+                )}
+              </TouchableOpacity>
+            </View>
           ))}
         </ScrollView>
       )}
 
+      {isReordering && (
+        <Text style={[styles.reorderHint, { color: colors.textSecondary }]}>
+          Drag an activity to move it, or onto another day to reschedule it
+        </Text>
+      )}
+
       {/* Content */}
-      <ScrollView 
-        style={styles.content}
-        contentContainerStyle={styles.contentContainer}
-        showsVerticalScrollIndicator={false}
-      >
-        {loading ? (
-          <View style={styles.loadingContainer}>
-            <ActivityIndicator size="large" color={Colors.primary} />
-            <Text style={[styles.loadingText, { color: colors.textSecondary }]}>Loading itinerary...</Text>
-          </View>
-        ) : error ? (
-          <EmptyState
-            icon="alert-circle-outline"
-            title="Failed to load itinerary"
-            description={error.message || "Something went wrong. Please try again."}
-            actionLabel="Retry"
-            onAction={() => router.replace(`/trips/${id}/itinerary`)}
-          />
-        ) : items.length === 0 ? (
-          <EmptyState
-            icon="calendar-outline"
-            title="No activities yet"
-            description="Start planning your trip by adding activities, reservations, and places to visit."
-            actionLabel="Add Activity"
-            onAction={handleAddItem}
-          />
-        ) : (
-          // Timeline View
-          <View style={styles.timeline}>
-            {(groupedItems[days[selectedDay]] || [])
-              .sort((a, b) => new Date(a.startTime!).getTime() - new Date(b.startTime!).getTime())
-              .map((item, index, arr) => {
+      {showList ? (
+        <ItineraryListView
+          items={items}
+          days={days}
+          memberNames={memberNames}
+          currentUserId={user?.id}
+          canEdit={canEdit}
+          onItemPress={handleItemPress}
+          onSelectingChange={setIsSelectingInList}
+        />
+      ) : (
+        <ScrollView 
+          style={styles.content}
+          contentContainerStyle={styles.contentContainer}
+          showsVerticalScrollIndicator={false}
+          scrollEnabled={!draggingId}
+        >
+          {loading ? (
+            <View style={styles.loadingContainer}>
+              <ActivityIndicator size="large" color={Colors.primary} />
+              <Text style={[styles.loadingText, { color: colors.textSecondary }]}>Loading itinerary...</Text>
+            </View>
+          ) : error ? (
+            <EmptyState
+              icon="alert-circle-outline"
+              title="Failed to load itinerary"
+              description={error.message || "Something went wrong. Please try again."}
+              actionLabel="Retry"
+              onAction={() => router.replace(`/trips/${id}/itinerary`)}
+            />
+          ) : items.length === 0 ? (
+            <EmptyState
+              icon="calendar-outline"
+              title="No activities yet"
+              description="Start planning your trip by adding activities, reservations, and places to visit."
+              actionLabel="Add Activity"
+              onAction={handleAddItem}
+            />
+          ) : (
+            // Timeline View
+            <View style={styles.timeline}>
+              {dayWarnings.map((warning) => (
+                <View
+                  key={warning.type}
+                  style={[styles.dayWarning, { backgroundColor: Colors.warning + '15', borderColor: Colors.warning + '40' }]}
+                >
+                  <Ionicons name="bed-outline" size={16} color={Colors.warning} />
+                  <Text style={[styles.warningText, { color: colors.text }]}>{warning.message}</Text>
+                </View>
+              ))}
+              {dayItems.length === 0 && (
+                <Text style={[styles.emptyDayText, { color: colors.textMuted }]}>
+                  Nothing planned for this day
+                </Text>
+              )}
+              {dayItems.map((item, index, arr) => {
                 const config = getCategoryConfig(item.category);
+                const linkedCost = sumConvertedExpenses(getLinkedExpenses(expenses, item.id));
+                const itemWarnings = getItemWarnings(warnings, item.id);
                 return (
-                  <TouchableOpacity
+                  <DraggableTimelineItem
                     key={item.id}
-                    style={styles.timelineItem}
-                    onPress={() => handleItemPress(item.id)}
-                    activeOpacity={0.7}
+                    enabled={isReordering}
+                    handleColor={colors.textMuted}
+                    onDragStart={() => handleDragStart(item.id)}
+                    onDragMove={handleDragMove}
+                    onDragEnd={(position) => handleDragEnd(item.id, position)}
+                    onLayout={(event) => { rowLayouts.current[item.id] = event.nativeEvent.layout; }}
                   >
-                    {/* Timeline Line */}
-                    <View style={styles.timelineLine}>
-                      <View style={[styles.timelineDot, { backgroundColor: config.color }]}>
-                        <Ionicons name={config.icon} size={16} color="#FFFFFF" />
-                      </View>
-                      {index < arr.length - 1 && (
-                        <View style={[styles.timelineConnector, { backgroundColor: colors.border }]} />
-                      )}
-                    </View>
-
-                    {/* Content */}
-                    <View style={[
-                      styles.timelineContent,
-                      { backgroundColor: colors.card, borderColor: colors.border },
-                      Shadows.sm,
-                    ]}>
-                      <View style={styles.timelineHeader}>
-                        <Text style={[styles.itemTime, { color: config.color }]}>
-                          {formatTime(item.startTime!)}
-                          {item.endTime && ` - ${formatTime(item.endTime)}`}
-                        </Text>
+                    <TouchableOpacity
+                      style={styles.timelineItem}
+                      onPress={() => handleItemPress(item.id)}
+                      activeOpacity={0.7}
+                    >
+                      {/* Timeline Line */}
+                      <View style={styles.timelineLine}>
+                        <View style={[styles.timelineDot, { backgroundColor: config.color }]}>
+                          <Ionicons name={config.icon} size={16} color="#FFFFFF" />
+                        </View>
+                        {index < arr.length - 1 && (
+                          <View style={[styles.timelineConnector, { backgroundColor: colors.border }]} />
+                        )}
                       </View>
-                      <Text style={[styles.itemTitle, { color: colors.text }]}>{item.title}</Text>
-                      {item.description && (
-                        <Text style={[styles.itemDescription, { color: colors.textSecondary }]} numberOfLines={2}>
-                          {item.description}
-                        </Text>
-                      )}
-                      {item.location && (
-                        <View style={styles.locationRow}>
-                          <Ionicons name="location-outline" size={14} color={colors.textMuted} />
-                          <Text style={[styles.locationText, { color: colors.textMuted }]}>
-                            {item.location}
+
+                      {/* Content */}
+                      <View style={[
+                        styles.timelineContent,
+                        { backgroundColor: colors.card, borderColor: colors.border },
+                        Shadows.sm,
+                      ]}>
+                        <View style={styles.timelineHeader}>
+                          <Text style={[styles.itemTime, { color: config.color }]}>
+                            {formatTime(item.startTime!)}
+                            {item.endTime && ` - ${formatTime(item.endTime)}`}
                           </Text>
+                          {linkedCost > 0 && (
+                            <View style={styles.costBadge}>
+                              <Ionicons name="wallet-outline" size={12} color={colors.textSecondary} />
+                              <Text style={[styles.costText, { color: colors.textSecondary }]}>
+                                {formatAmount(linkedCost)}
+                              </Text>
+                            </View>
+                          )}
                         </View>
-                      )}
-                    </View>
-                  </TouchableOpacity>
+                        <Text style={[styles.itemTitle, { color: colors.text }]}>{item.title}</Text>
+                        {item.description && (
+                          <Text style={[styles.itemDescription, { color: colors.textSecondary }]} numberOfLines={2}>
+                            {item.description}
+                          </Text>
+                        )}
+                        {item.location && (
+                          <View style={styles.locationRow}>
+                            <Ionicons name="location-outline" size={14} color={colors.textMuted} />
+                            <Text style={[styles.locationText, { color: colors.textMuted }]}>
+                              {item.location}
+                            </Text>
+                          </View>
+                        )}
+                        {itemWarnings.map((warning) => (
+                          <View key={warning.type} style={styles.itemWarning}>
+                            <Ionicons name="warning-outline" size={14} color={Colors.warning} />
+                            <Text style={[styles.warningText, { color: Colors.warning }]}>{warning.message}</Text>
+                          </View>
+                        ))}
+                      </View>
+                    </TouchableOpacity>
+                  </DraggableTimelineItem>
                 );
               })}
-          </View>
-        )}
-      </ScrollView>
+            </View>
+          )}
+        </ScrollView>
+      )}
 
       {/* FAB */}
-      <TouchableOpacity
-        style={[styles.fab, Shadows.lg]}
-        onPress={handleAddItem}
-        activeOpacity={0.8}
-      >
-        <Ionicons name="add" size={28} color="#FFFFFF" />
-      </TouchableOpacity>
+      {!(showList && isSelectingInList) && (
+        <TouchableOpacity
+          style={[styles.fab, Shadows.lg]}
+          onPress={handleAddItem}
+          activeOpacity={0.8}
+        >
+          <Ionicons name="add" size={28} color="#FFFFFF" />
+        </TouchableOpacity>
+      )}
     </ScreenContainer>
   );
 }
@@ -273,6 +514,12 @@ const styles = StyleSheet.create({
     fontSize: FontSizes.lg,
     fontWeight: FontWeights.semibold,
   },
+  headerButton: {
+    width: 40,
+    height: 40,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
   addButton: {
     width: 40,
     height: 40,
@@ -301,7 +548,7 @@ const styles = StyleSheet.create({
     fontWeight: FontWeights.medium,
   },
   dayTabs: {
-    maxHeight: 70,
+    maxHeight: 86,
     marginBottom: Spacing.md,
   },
   dayTabsContent: {
@@ -323,6 +570,22 @@ const styles = StyleSheet.create({
   dayDate: {
     fontSize: FontSizes.caption,
   },
+  daySpend: {
+    fontSize: FontSizes.caption,
+    fontWeight: FontWeights.semibold,
+    marginTop: 2,
+  },
+  reorderHint: {
+    fontSize: FontSizes.caption,
+    textAlign: 'center',
+    marginHorizontal: Spacing.screenPadding,
+    marginBottom: Spacing.sm,
+  },
+  emptyDayText: {
+    fontSize: FontSizes.bodySmall,
+    textAlign: 'center',
+    paddingVertical: Spacing.xl,
+  },
   content: {
     flex: 1,
   },
@@ -360,8 +623,20 @@ const styles = StyleSheet.create({
     borderWidth: 1,
   },
   timelineHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
     marginBottom: Spacing.xs,
   },
+  costBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  costText: {
+    fontSize: FontSizes.caption,
+    fontWeight: FontWeights.medium,
+  },
   itemTime: {
     fontSize: FontSizes.bodySmall,
     fontWeight: FontWeights.semibold,
@@ -384,6 +659,26 @@ const styles = StyleSheet.create({
   locationText: {
     fontSize: FontSizes.bodySmall,
   },
+  dayWarning: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.xs,
+    padding: Spacing.sm,
+    borderRadius: BorderRadius.medium,
+    borderWidth: 1,
+    marginBottom: Spacing.md,
+  },
+  itemWarning: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 4,
+    marginTop: Spacing.xs,
+  },
+  warningText: {
+    flex: 1,
+    fontSize: FontSizes.caption,
+    lineHeight: 16,
+  },
   locationTextSmall: {
     fontSize: FontSizes.caption,
   },
@@ -16,11 +16,25 @@ import { useColorScheme } from "@/hooks/use-color-scheme";
 import { useOffline } from "@/hooks/use-offline";
 import { useTrip, useTripItinerary } from "@/hooks/use-trips";
 import { getDirections } from "@/services/directions";
+import {
+    BoundingBox,
+    DEFAULT_MAX_ZOOM,
+    DEFAULT_MIN_ZOOM,
+    estimateMapDownload,
+    getBoundsForPoints,
+    isOfflineMapDownloadAvailable,
+    MAX_TILES_PER_REGION,
+} from "@/services/map-tiles";
+import {
+    getOfflineTileTemplates,
+    MapDownloadProgress,
+    OfflineMapRegion,
+} from "@/services/offline";
 import { ItineraryItem } from "@/types/database";
 import { Ionicons } from "@expo/vector-icons";
 import * as Location from "expo-location";
 import { useLocalSearchParams, useRouter } from "expo-router";
-import React, { useEffect, useRef, useState } from "react";
+import React, { useCallback, useEffect, useRef, useState } from "react";
 import {
     ActivityIndicator,
     Alert,
@@ -70,6 +84,9 @@ const CATEGORY_ICONS: Record<string, keyof typeof Ionicons.glyphMap> = {
   other: "location",
 };
 
+// Lighter offline download: street names stay readable, buildings don't show
+const BASIC_MAX_ZOOM = 14;
+
 // Initial region centered on Paris
 const INITIAL_REGION: Region = {
   latitude: 48.8566,
@@ -89,7 +106,13 @@ export default function MapScreen() {
 
   const { trip } = useTrip(id);
   const { items, loading, error } = useTripItinerary(id);
-  const { isOnline, downloadMapRegion, getCachedMapRegions } = useOffline();
+  const {
+    isOnline,
+    downloadMapRegion,
+    resumeMapRegion,
+    getCachedMapRegions,
+    removeMapRegion,
+  } = useOffline();
 
   const [selectedDay, setSelectedDay] = useState<number | null>(null);
   const [searchQuery, setSearchQuery] = useState("");
@@ -98,55 +121,155 @@ export default function MapScreen() {
   const [userLocation, setUserLocation] =
     useState<Location.LocationObject | null>(null);
   const [showRoute, setShowRoute] = useState(false);
-  const [isMapSaved, setIsMapSaved] = useState(false);
-  const [savingMap, setSavingMap] = useState(false);
+  const [savedMapRegion, setSavedMapRegion] =
+    useState<OfflineMapRegion | null>(null);
+  const [mapDownloadProgress, setMapDownloadProgress] = useState<
+    number | null
+  >(null);
+  const [offlineTileTemplates, setOfflineTileTemplates] = useState<string[]>(
+    [],
+  );
   const [routePoints, setRoutePoints] = useState<
     { latitude: number; longitude: number }[]
   >([]);
   const [calculatingRoute, setCalculatingRoute] = useState(false);
 
   // Check if map region is already saved for this trip
-  useEffect(() => {
-    const checkSavedMaps = async () => {
-      if (id) {
-        const savedRegions = await getCachedMapRegions(id);
-        setIsMapSaved(savedRegions.length > 0);
-      }
-    };
-    checkSavedMaps();
+  const loadSavedMaps = useCallback(async () => {
+    if (!id) return;
+    const savedRegions = await getCachedMapRegions(id);
+    setSavedMapRegion(savedRegions[0] ?? null);
+    setOfflineTileTemplates(await getOfflineTileTemplates(id));
   }, [id, getCachedMapRegions]);
 
-  // Save map for offline use
-  const handleSaveMapForOffline = async () => {
-    if (!trip || !region) return;
+  useEffect(() => {
+    loadSavedMaps();
+  }, [loadSavedMaps]);
 
-    setSavingMap(true);
-    try {
-      const result = await downloadMapRegion({
+  const isMapSaved = savedMapRegion?.status === "complete";
+  const savingMap = mapDownloadProgress !== null;
+  // Saving maps needs a tile source that allows offline downloads
+  const canDownloadMaps = isOfflineMapDownloadAvailable();
+
+  const handleMapDownloadProgress = (progress: MapDownloadProgress) => {
+    setMapDownloadProgress(
+      progress.tileCount > 0
+        ? (progress.downloadedTiles + progress.failedTiles) / progress.tileCount
+        : 0,
+    );
+  };
+
+  const finishMapDownload = async (result: OfflineMapRegion | null) => {
+    setMapDownloadProgress(null);
+    await loadSavedMaps();
+    if (!result) {
+      Alert.alert("Error", "Failed to save map for offline use.");
+    } else if (result.status === "complete") {
+      Alert.alert("Map Saved", "This map area is now available offline.");
+    } else {
+      Alert.alert(
+        "Download Incomplete",
+        `${result.downloadedTiles} of ${result.tileCount} map tiles were saved. Tap the download button again to resume.`,
+      );
+    }
+  };
+
+  const startMapDownload = async (
+    bounds: BoundingBox,
+    minZoom: number,
+    maxZoom: number,
+  ) => {
+    setMapDownloadProgress(0);
+    const result = await downloadMapRegion(
+      {
         id: `${id}_${Date.now()}`,
         tripId: id || "",
-        name: trip.title || "Trip Map",
-        latitude: region.latitude,
-        longitude: region.longitude,
-        latitudeDelta: region.latitudeDelta,
-        longitudeDelta: region.longitudeDelta,
-        zoomLevel: Math.round(Math.log2(360 / region.longitudeDelta)),
-        tileCount: 0,
-        sizeInMB: 0,
-      });
+        name: trip?.title || "Trip Map",
+        bounds,
+        minZoom,
+        maxZoom,
+      },
+      handleMapDownloadProgress,
+    );
+    await finishMapDownload(result);
+  };
 
-      if (result) {
-        setIsMapSaved(true);
-        Alert.alert("Map Saved", "This map region is now available offline.");
-      } else {
-        Alert.alert("Error", "Failed to save map for offline use.");
-      }
-    } catch (error) {
-      console.error("Error saving map:", error);
-      Alert.alert("Error", "Failed to save map for offline use.");
-    } finally {
-      setSavingMap(false);
+  // Save map for offline use: the area around every stop, at the detail level the user picks
+  const handleSaveMapForOffline = async () => {
+    if (!trip) return;
+
+    if (savedMapRegion && !isMapSaved && canDownloadMaps) {
+      setMapDownloadProgress(0);
+      const result = await resumeMapRegion(
+        savedMapRegion.id,
+        handleMapDownloadProgress,
+      );
+      await finishMapDownload(result);
+      return;
+    }
+
+    if (savedMapRegion) {
+      Alert.alert(
+        "Map Saved",
+        `${savedMapRegion.sizeInMB.toFixed(1)} MB of map tiles are saved for this trip.`,
+        [
+          { text: "OK", style: "cancel" },
+          {
+            text: "Remove",
+            style: "destructive",
+            onPress: async () => {
+              await removeMapRegion(savedMapRegion.id);
+              await loadSavedMaps();
+            },
+          },
+        ],
+      );
+      return;
+    }
+
+    const bounds =
+      getBoundsForPoints(items) ??
+      getBoundsForPoints([
+        { latitude: trip.destinationLat, longitude: trip.destinationLng },
+      ]) ??
+      getBoundsForPoints([region]);
+    if (!bounds) return;
+
+    const basic = estimateMapDownload(bounds, DEFAULT_MIN_ZOOM, BASIC_MAX_ZOOM);
+    const detailed = estimateMapDownload(
+      bounds,
+      DEFAULT_MIN_ZOOM,
+      DEFAULT_MAX_ZOOM,
+    );
+    if (basic.tileCount > MAX_TILES_PER_REGION) {
+      Alert.alert(
+        "Area Too Large",
+        "Your stops are spread too far apart to save as one offline map.",
+      );
+      return;
     }
+
+    Alert.alert(
+      "Save Map Offline",
+      "Download the map around your stops. Detailed maps show buildings and footpaths.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: `Basic (~${basic.sizeInMB} MB)`,
+          onPress: () =>
+            startMapDownload(bounds, DEFAULT_MIN_ZOOM, BASIC_MAX_ZOOM),
+        },
+        ...(detailed.tileCount <= MAX_TILES_PER_REGION
+          ? [
+              {
+                text: `Detailed (~${detailed.sizeInMB} MB)`,
+                onPress: () =>
+                  startMapDownload(bounds, DEFAULT_MIN_ZOOM, DEFAULT_MAX_ZOOM),
+              },
+            ]
+          : []),
+      ],
+    );
   };
 
   // Animation values
@@ -427,6 +550,7 @@ export default function MapScreen() {
           showsScale={true}
           customMapStyle={undefined}
           onMapReady={fitToMarkers}
+          offlineTileTemplates={isOnline ? undefined : offlineTileTemplates}
         >
           {/* Markers for each itinerary item */}
           {filteredItems.map((item, index) => {
@@ -633,7 +757,7 @@ export default function MapScreen() {
             <Ionicons name="scan-outline" size={20} color={colors.text} />
           </TouchableOpacity>
           {/* Offline Map Save Button */}
-          {isOnline && (
+          {isOnline && (canDownloadMaps || savedMapRegion) && (
             <TouchableOpacity
               style={[
                 styles.mapButton,
@@ -651,7 +775,11 @@ export default function MapScreen() {
               disabled={savingMap}
             >
               {savingMap ? (
-                <ActivityIndicator size="small" color={Colors.primary} />
+                <Text
+                  style={[styles.mapButtonProgress, { color: Colors.primary }]}
+                >
+                  {Math.round((mapDownloadProgress ?? 0) * 100)}%
+                </Text>
               ) : (
                 <Ionicons
                   name={isMapSaved ? "cloud-done" : "cloud-download-outline"}
@@ -992,6 +1120,10 @@ const styles = StyleSheet.create({
     alignItems: "center",
     justifyContent: "center",
   },
+  mapButtonProgress: {
+    fontSize: 11,
+    fontWeight: "700",
+  },
   searchContainer: {
     flex: 1,
     flexDirection: "row",
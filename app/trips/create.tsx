@@ -20,6 +20,7 @@ import {
     getUserByEmail,
 } from "@/services/firestore";
 import {
+    convertToBudget,
     convertToItineraryItems,
     GeneratedTripPlan,
     generateTripPlan,
@@ -723,6 +724,9 @@ export default function CreateTripScreen() {
 
     setIsSubmitting(true);
     try {
+      // Seed the budget from the AI's estimated breakdown
+      const planEstimate = generatedPlan ? convertToBudget(generatedPlan) : null;
+
       // Create trip in Firestore
       const tripId = await createTrip({
         title: title.trim(),
@@ -741,6 +745,8 @@ export default function CreateTripScreen() {
         tripDuration: tripDuration || null,
         accommodationType:
           accommodationType.length > 0 ? accommodationType.join(", ") : null,
+        budget: planEstimate,
+        planEstimate,
       });
 
       // Add creator as owner collaborator
@@ -1,6 +1,7 @@
+import { TILE_SIZE } from '@/services/map-tiles';
 import React from 'react';
 import { Platform, StyleSheet } from 'react-native';
-import MapView, { MapStyleElement, Marker, Polyline, PROVIDER_GOOGLE, Region } from 'react-native-maps';
+import MapView, { LocalTile, MapStyleElement, Marker, Polyline, PROVIDER_GOOGLE, Region } from 'react-native-maps';
 
 interface MapViewComponentProps {
   mapRef?: React.RefObject<any>;
@@ -13,6 +14,7 @@ interface MapViewComponentProps {
   showsScale?: boolean;
   customMapStyle?: MapStyleElement[];
   onMapReady?: () => void;
+  offlineTileTemplates?: string[]; // Downloaded {z}/{x}/{y} tile paths to draw when the map can't load its own
   children?: React.ReactNode;
   style?: object;
 }
@@ -28,6 +30,7 @@ export function MapViewComponent({
   showsScale = true,
   customMapStyle,
   onMapReady,
+  offlineTileTemplates,
   children,
   style,
 }: MapViewComponentProps) {
@@ -46,6 +49,9 @@ export function MapViewComponent({
       customMapStyle={customMapStyle}
       onMapReady={onMapReady}
     >
+      {offlineTileTemplates?.map((pathTemplate) => (
+        <LocalTile key={pathTemplate} pathTemplate={pathTemplate} tileSize={TILE_SIZE} />
+      ))}
       {children}
     </MapView>
   );
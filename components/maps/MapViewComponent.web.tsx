@@ -24,6 +24,7 @@ interface MapViewComponentProps {
   showsScale?: boolean;
   customMapStyle?: object[];
   onMapReady?: () => void;
+  offlineTileTemplates?: string[];
   children?: React.ReactNode;
   style?: object;
 }
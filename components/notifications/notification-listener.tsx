@@ -29,6 +29,7 @@ export function NotificationListener() {
       
       case 'expense_added':
       case 'expense_updated':
+      case 'settlement_recorded':
         if (notification.tripId) {
           router.push(`/trips/${notification.tripId}/expenses`);
         }
@@ -36,6 +37,7 @@ export function NotificationListener() {
       
       case 'itinerary_added':
       case 'itinerary_updated':
+      case 'itinerary_comment':
         if (notification.tripId && notification.itineraryId) {
           router.push(`/trips/${notification.tripId}/itinerary/${notification.itineraryId}`);
         } else if (notification.tripId) {
@@ -5,7 +5,14 @@
 
 import { BorderRadius, Colors, FontSizes, FontWeights, Spacing } from '@/constants/theme';
 import { useColorScheme } from '@/hooks/use-color-scheme';
-import { useOffline } from '@/hooks/use-offline';
+import { useCacheSettings, useOffline } from '@/hooks/use-offline';
+import { AUTO_CLEAN_OPTIONS_DAYS, STORAGE_BUDGET_OPTIONS_MB } from '@/services/cache-policy';
+import {
+  DEFAULT_MAX_ZOOM,
+  DEFAULT_MIN_ZOOM,
+  getBoundsForPoints,
+  isOfflineMapDownloadAvailable,
+} from '@/services/map-tiles';
 import { CachedDocument, formatBytes, OfflineMapRegion } from '@/services/offline';
 import { Ionicons } from '@expo/vector-icons';
 import React, { useCallback, useEffect, useState } from 'react';
@@ -194,11 +201,12 @@ export function MapDownloadCard({
   const colorScheme = useColorScheme();
   const isDark = colorScheme === 'dark';
   const colors = isDark ? Colors.dark : Colors.light;
+  const canDownload = isOfflineMapDownloadAvailable();
   
   const checkDownloadStatus = useCallback(async () => {
     const regions = await getCachedMapRegions(tripId);
     if (regions.length > 0) {
-      setIsDownloaded(true);
+      setIsDownloaded(regions[0].status === 'complete');
       setCachedRegion(regions[0]);
     }
   }, [getCachedMapRegions, tripId]);
@@ -208,26 +216,30 @@ export function MapDownloadCard({
   }, [checkDownloadStatus]);
   
   const handleDownload = async () => {
+    const bounds = getBoundsForPoints([{ latitude, longitude }]);
+    if (!bounds) return;
+
     setIsDownloading(true);
     try {
       const regionId = `map_${tripId}_${Date.now()}`;
-      const success = await downloadMapRegion({
+      const region = await downloadMapRegion({
         id: regionId,
         tripId,
         name: tripName,
-        latitude,
-        longitude,
-        latitudeDelta: 0.1,
-        longitudeDelta: 0.1,
-        zoomLevel: 14,
-        tileCount: 100, // Estimated
-        sizeInMB: 5, // Estimated
+        bounds,
+        minZoom: DEFAULT_MIN_ZOOM,
+        maxZoom: DEFAULT_MAX_ZOOM,
       });
       
-      if (success) {
-        setIsDownloaded(true);
+      if (region) {
+        setCachedRegion(region);
+        setIsDownloaded(region.status === 'complete');
         onDownloadComplete?.();
-        Alert.alert('Map Downloaded', 'This area is now available offline.');
+        if (region.status === 'complete') {
+          Alert.alert('Map Downloaded', 'This area is now available offline.');
+        } else {
+          Alert.alert('Download Incomplete', 'Some map tiles could not be saved. Open the trip map to resume.');
+        }
       }
     } finally {
       setIsDownloading(false);
@@ -264,7 +276,11 @@ export function MapDownloadCard({
         <View style={styles.mapCardInfo}>
           <Text style={[styles.mapCardTitle, { color: colors.text }]}>Offline Map</Text>
           <Text style={[styles.mapCardSubtitle, { color: colors.textSecondary }]}>
-            {isDownloaded ? `${cachedRegion?.sizeInMB || 5} MB • Downloaded` : 'Download for offline use'}
+            {isDownloaded
+              ? `${cachedRegion?.sizeInMB.toFixed(1)} MB • Downloaded`
+              : canDownload
+                ? 'Download for offline use'
+                : 'Offline maps are not available'}
           </Text>
         </View>
       </View>
@@ -273,10 +289,11 @@ export function MapDownloadCard({
           styles.mapDownloadBtn,
           {
             backgroundColor: isDownloaded ? Colors.success + '15' : Colors.primary,
+            opacity: isDownloaded || canDownload ? 1 : 0.5,
           },
         ]}
         onPress={isDownloaded ? handleRemove : handleDownload}
-        disabled={isDownloading}
+        disabled={isDownloading || (!isDownloaded && !canDownload)}
       >
         {isDownloading ? (
           <ActivityIndicator size="small" color="#FFFFFF" />
@@ -320,6 +337,7 @@ function CacheManagerContent({ onClearComplete }: { onClearComplete?: () => void
     clearCache,
     refreshCacheSize,
   } = useOffline();
+  const { settings, updateSettings } = useCacheSettings();
   const [documents, setDocuments] = useState<CachedDocument[]>([]);
   const [mapRegions, setMapRegions] = useState<OfflineMapRegion[]>([]);
   const [loading, setLoading] = useState(true);
@@ -375,6 +393,19 @@ function CacheManagerContent({ onClearComplete }: { onClearComplete?: () => void
     await refreshCacheSize();
   };
 
+  // A lower budget or shorter auto-clean can evict straight away, so reload what's left
+  const handleBudgetChange = async (storageBudgetMB: number) => {
+    await updateSettings({ storageBudgetMB });
+    await loadCachedItems();
+  };
+
+  const handleAutoCleanChange = async (autoCleanAfterDays: number | null) => {
+    await updateSettings({ autoCleanAfterDays });
+    await loadCachedItems();
+  };
+
+  const formatBudget = (megabytes: number) => formatBytes(megabytes * 1024 * 1024);
+
   if (loading) {
     return (
       <View style={styles.loadingContainer}>
@@ -393,6 +424,9 @@ function CacheManagerContent({ onClearComplete }: { onClearComplete?: () => void
           </Text>
           <Text style={[styles.cacheSummaryValue, { color: colors.text }]}>
             {cacheSize.formatted}
+            <Text style={[styles.cacheSummaryLabel, { color: colors.textSecondary }]}>
+              {' '}of {formatBudget(settings.storageBudgetMB)}
+            </Text>
           </Text>
         </View>
         <View style={styles.cacheBreakdown}>
@@ -418,6 +452,55 @@ function CacheManagerContent({ onClearComplete }: { onClearComplete?: () => void
         </TouchableOpacity>
       </View>
       
+      {/* Storage Limits Section */}
+      <View style={styles.section}>
+        <Text style={[styles.sectionTitle, { color: colors.text }]}>Storage Limit</Text>
+        <View style={styles.optionRow}>
+          {STORAGE_BUDGET_OPTIONS_MB.map((megabytes) => {
+            const selected = settings.storageBudgetMB === megabytes;
+            return (
+              <TouchableOpacity
+                key={megabytes}
+                onPress={() => handleBudgetChange(megabytes)}
+                style={[
+                  styles.optionChip,
+                  { borderColor: selected ? Colors.primary : colors.border },
+                  selected && { backgroundColor: Colors.primary + '15' },
+                ]}
+              >
+                <Text style={[styles.optionChipText, { color: selected ? Colors.primary : colors.text }]}>
+                  {formatBudget(megabytes)}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+        <Text style={[styles.optionHint, { color: colors.textSecondary }]}>
+          When full, the least recently used documents and maps are removed. Pinned, current and upcoming trips are kept.
+        </Text>
+        <Text style={[styles.sectionTitle, { color: colors.text }]}>Remove Ended Trips</Text>
+        <View style={styles.optionRow}>
+          {AUTO_CLEAN_OPTIONS_DAYS.map((days) => {
+            const selected = settings.autoCleanAfterDays === days;
+            return (
+              <TouchableOpacity
+                key={days ?? 'never'}
+                onPress={() => handleAutoCleanChange(days)}
+                style={[
+                  styles.optionChip,
+                  { borderColor: selected ? Colors.primary : colors.border },
+                  selected && { backgroundColor: Colors.primary + '15' },
+                ]}
+              >
+                <Text style={[styles.optionChipText, { color: selected ? Colors.primary : colors.text }]}>
+                  {days === null ? 'Never' : `After ${days} days`}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      </View>
+
       {/* Documents Section */}
       <View style={styles.section}>
         <Text style={[styles.sectionTitle, { color: colors.text }]}>
@@ -721,6 +804,26 @@ const styles = StyleSheet.create({
     fontSize: FontSizes.bodySmall,
     fontStyle: 'italic',
   },
+  optionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.sm,
+    marginBottom: Spacing.sm,
+  },
+  optionChip: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderWidth: 1,
+    borderRadius: BorderRadius.medium,
+  },
+  optionChipText: {
+    fontSize: FontSizes.bodySmall,
+    fontWeight: FontWeights.medium,
+  },
+  optionHint: {
+    fontSize: FontSizes.caption,
+    marginBottom: Spacing.md,
+  },
   cacheItem: {
     flexDirection: 'row',
     alignItems: 'center',
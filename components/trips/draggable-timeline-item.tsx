@@ -0,0 +1,114 @@
+import { Spacing } from '@/constants/theme';
+import { Ionicons } from '@expo/vector-icons';
+import React, { ReactNode, useRef, useState } from 'react';
+import {
+  Animated,
+  GestureResponderEvent,
+  LayoutChangeEvent,
+  PanResponder,
+  PanResponderGestureState,
+  StyleSheet,
+  View,
+} from 'react-native';
+
+export interface DragPosition {
+  pageX: number;
+  pageY: number;
+  dy: number; // Vertical distance from where the drag started
+}
+
+interface DraggableTimelineItemProps {
+  enabled: boolean;
+  handleColor: string;
+  onDragStart?: () => void;
+  onDragMove?: (position: DragPosition) => void;
+  onDragEnd: (position: DragPosition) => void;
+  onLayout?: (event: LayoutChangeEvent) => void;
+  children: ReactNode;
+}
+
+const toPosition = (gesture: PanResponderGestureState): DragPosition => ({
+  pageX: gesture.moveX,
+  pageY: gesture.moveY,
+  dy: gesture.dy,
+});
+
+// A timeline row that can be picked up by its handle and dragged; the parent decides where it lands
+export function DraggableTimelineItem({
+  enabled,
+  handleColor,
+  onDragStart,
+  onDragMove,
+  onDragEnd,
+  onLayout,
+  children,
+}: DraggableTimelineItemProps) {
+  const translateY = useRef(new Animated.Value(0)).current;
+  const [dragging, setDragging] = useState(false);
+
+  // The responder is created once, so it reads the latest callbacks through a ref
+  const callbacks = useRef({ onDragStart, onDragMove, onDragEnd });
+  callbacks.current = { onDragStart, onDragMove, onDragEnd };
+
+  const panResponder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onMoveShouldSetPanResponder: () => true,
+      onPanResponderTerminationRequest: () => false,
+      onPanResponderGrant: () => {
+        setDragging(true);
+        callbacks.current.onDragStart?.();
+      },
+      onPanResponderMove: (_event: GestureResponderEvent, gesture: PanResponderGestureState) => {
+        translateY.setValue(gesture.dy);
+        callbacks.current.onDragMove?.(toPosition(gesture));
+      },
+      onPanResponderRelease: (_event: GestureResponderEvent, gesture: PanResponderGestureState) => {
+        setDragging(false);
+        callbacks.current.onDragEnd(toPosition(gesture));
+        Animated.spring(translateY, { toValue: 0, useNativeDriver: true }).start();
+      },
+      onPanResponderTerminate: () => {
+        setDragging(false);
+        Animated.spring(translateY, { toValue: 0, useNativeDriver: true }).start();
+      },
+    })
+  ).current;
+
+  return (
+    <Animated.View
+      onLayout={onLayout}
+      style={[styles.row, dragging && styles.dragging, { transform: [{ translateY }] }]}
+    >
+      <View style={styles.content}>{children}</View>
+      {enabled && (
+        <View
+          {...panResponder.panHandlers}
+          style={styles.handle}
+          hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+        >
+          <Ionicons name="reorder-three" size={24} color={handleColor} />
+        </View>
+      )}
+    </Animated.View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  dragging: {
+    zIndex: 10,
+    elevation: 10,
+    opacity: 0.9,
+  },
+  content: {
+    flex: 1,
+  },
+  handle: {
+    paddingLeft: Spacing.sm,
+    paddingVertical: Spacing.md,
+  },
+});
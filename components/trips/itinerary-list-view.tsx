@@ -0,0 +1,465 @@
+import { EmptyState } from '@/components/ui/empty-state';
+import { BorderRadius, Colors, FontSizes, FontWeights, Spacing } from '@/constants/theme';
+import { useColorScheme } from '@/hooks/use-color-scheme';
+import { deleteItineraryItems, rescheduleItineraryItems, updateItineraryItems } from '@/services/firestore';
+import {
+  EMPTY_ITINERARY_FILTERS,
+  filterItineraryItems,
+  getItemCategory,
+  hasActiveFilters,
+  ItineraryListFilters,
+} from '@/services/itinerary-filters';
+import { planMoveToDay } from '@/services/itinerary-schedule';
+import { ItineraryCategory, ItineraryItem } from '@/types/database';
+import { Ionicons } from '@expo/vector-icons';
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+
+type BulkPicker = 'move' | 'category';
+
+const CATEGORIES: { id: ItineraryCategory; label: string; icon: keyof typeof Ionicons.glyphMap; color: string }[] = [
+  { id: 'sightseeing', label: 'Sightseeing', icon: 'camera-outline', color: Colors.accent },
+  { id: 'food', label: 'Food', icon: 'restaurant-outline', color: '#F97316' },
+  { id: 'transport', label: 'Transport', icon: 'car-outline', color: Colors.primary },
+  { id: 'accommodation', label: 'Stay', icon: 'bed-outline', color: Colors.secondary },
+  { id: 'activity', label: 'Activity', icon: 'flash-outline', color: '#8B5CF6' },
+  { id: 'other', label: 'Other', icon: 'ellipsis-horizontal-outline', color: '#64748B' },
+];
+
+const getCategory = (item: ItineraryItem) =>
+  CATEGORIES.find((category) => category.id === getItemCategory(item)) || CATEGORIES[CATEGORIES.length - 1];
+
+interface ItineraryListViewProps {
+  items: ItineraryItem[];
+  days: string[]; // Day keys items can be moved to
+  memberNames: Record<string, string>;
+  currentUserId?: string;
+  canEdit: boolean;
+  onItemPress: (itemId: string) => void;
+  onSelectingChange?: (selecting: boolean) => void;
+}
+
+// Compact table of the whole itinerary, with search, filters and bulk edits
+export function ItineraryListView({
+  items,
+  days,
+  memberNames,
+  currentUserId,
+  canEdit,
+  onItemPress,
+  onSelectingChange,
+}: ItineraryListViewProps) {
+  const colorScheme = useColorScheme();
+  const isDark = colorScheme === 'dark';
+  const colors = isDark ? Colors.dark : Colors.light;
+
+  const [filters, setFilters] = useState<ItineraryListFilters>(EMPTY_ITINERARY_FILTERS);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [picker, setPicker] = useState<BulkPicker | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const visibleItems = filterItineraryItems(items, filters);
+  const creators = [...new Set(items.map((item) => item.addedBy))];
+
+  // Drop selections for items that were deleted elsewhere
+  useEffect(() => {
+    setSelectedIds((ids) => {
+      const kept = ids.filter((id) => items.some((item) => item.id === id));
+      return kept.length === ids.length ? ids : kept;
+    });
+  }, [items]);
+
+  useEffect(() => {
+    onSelectingChange?.(selectedIds.length > 0);
+    if (selectedIds.length === 0) setPicker(null);
+  }, [selectedIds.length, onSelectingChange]);
+
+  const getCreatorName = (userId: string) =>
+    userId === currentUserId ? 'You' : memberNames[userId] || 'Former member';
+
+  const formatDay = (date: Date | string) =>
+    new Date(date).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+
+  const formatTime = (date: Date) =>
+    new Date(date).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+
+  const toggleCategory = (categoryId: string) => {
+    setFilters((current) => ({
+      ...current,
+      categories: current.categories.includes(categoryId)
+        ? current.categories.filter((id) => id !== categoryId)
+        : [...current.categories, categoryId],
+    }));
+  };
+
+  const toggleSelected = (itemId: string) => {
+    setSelectedIds((ids) => (ids.includes(itemId) ? ids.filter((id) => id !== itemId) : [...ids, itemId]));
+  };
+
+  const allVisibleSelected = visibleItems.length > 0 && visibleItems.every((item) => selectedIds.includes(item.id));
+
+  const handleSelectAll = () => {
+    setSelectedIds(allVisibleSelected ? [] : visibleItems.map((item) => item.id));
+  };
+
+  const runBulkAction = async (action: () => Promise<void>, failure: string) => {
+    setIsSaving(true);
+    try {
+      await action();
+      setSelectedIds([]);
+    } catch (err: any) {
+      Alert.alert('Error', err.message || failure);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = () => {
+    const count = selectedIds.length;
+    Alert.alert(
+      count === 1 ? 'Delete Activity' : `Delete ${count} Activities`,
+      'Their comments will be deleted too. This cannot be undone.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () => runBulkAction(() => deleteItineraryItems(selectedIds), 'Failed to delete activities'),
+        },
+      ]
+    );
+  };
+
+  const handleMoveToDay = (dayKey: string) => {
+    const changes = planMoveToDay(items, selectedIds, dayKey);
+    runBulkAction(() => rescheduleItineraryItems(changes), 'Failed to move activities');
+  };
+
+  const handleChangeCategory = (category: ItineraryCategory) => {
+    runBulkAction(() => updateItineraryItems(selectedIds, { category }), 'Failed to change category');
+  };
+
+  const renderChip = (label: string, active: boolean, onPress: () => void, key: string = label) => (
+    <TouchableOpacity
+      key={key}
+      style={[
+        styles.chip,
+        { borderColor: active ? Colors.primary : colors.border },
+        active && { backgroundColor: Colors.primary + '15' },
+      ]}
+      onPress={onPress}
+    >
+      <Text style={[styles.chipText, { color: active ? Colors.primary : colors.textSecondary }]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={styles.container}>
+      {/* Search */}
+      <View style={[styles.searchBar, { backgroundColor: colors.backgroundSecondary, borderColor: colors.border }]}>
+        <Ionicons name="search-outline" size={18} color={colors.textMuted} />
+        <TextInput
+          style={[styles.searchInput, { color: colors.text }]}
+          placeholder="Search activities"
+          placeholderTextColor={colors.textMuted}
+          value={filters.query}
+          onChangeText={(query) => setFilters((current) => ({ ...current, query }))}
+          autoCorrect={false}
+        />
+        {filters.query !== '' && (
+          <TouchableOpacity onPress={() => setFilters((current) => ({ ...current, query: '' }))}>
+            <Ionicons name="close-circle" size={18} color={colors.textMuted} />
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {/* Filters */}
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        style={styles.filterRow}
+        contentContainerStyle={styles.filterRowContent}
+      >
+        {hasActiveFilters(filters) && renderChip('Clear', false, () => setFilters(EMPTY_ITINERARY_FILTERS))}
+        {CATEGORIES.map((category) =>
+          renderChip(category.label, filters.categories.includes(category.id), () => toggleCategory(category.id))
+        )}
+        {creators.length > 1 && creators.map((userId) =>
+          renderChip(
+            getCreatorName(userId),
+            filters.addedBy === userId,
+            () => setFilters((current) => ({ ...current, addedBy: current.addedBy === userId ? null : userId })),
+            `creator-${userId}`
+          )
+        )}
+        {renderChip('Has location', filters.hasLocation === true, () =>
+          setFilters((current) => ({ ...current, hasLocation: current.hasLocation === true ? null : true }))
+        )}
+        {renderChip('No location', filters.hasLocation === false, () =>
+          setFilters((current) => ({ ...current, hasLocation: current.hasLocation === false ? null : false }))
+        )}
+      </ScrollView>
+
+      {/* Table header */}
+      <View style={[styles.tableHeader, { borderBottomColor: colors.border }]}>
+        {canEdit && (
+          <TouchableOpacity onPress={handleSelectAll} style={styles.checkbox}>
+            <Ionicons
+              name={allVisibleSelected ? 'checkbox' : 'square-outline'}
+              size={20}
+              color={allVisibleSelected ? Colors.primary : colors.textMuted}
+            />
+          </TouchableOpacity>
+        )}
+        <Text style={[styles.headerText, styles.whenColumn, { color: colors.textMuted }]}>When</Text>
+        <Text style={[styles.headerText, styles.titleColumn, { color: colors.textMuted }]}>Activity</Text>
+        <Text style={[styles.headerText, { color: colors.textMuted }]}>
+          {visibleItems.length === items.length ? items.length : `${visibleItems.length} of ${items.length}`}
+        </Text>
+      </View>
+
+      <ScrollView
+        style={styles.list}
+        contentContainerStyle={styles.listContent}
+        showsVerticalScrollIndicator={false}
+        keyboardShouldPersistTaps="handled"
+      >
+        {visibleItems.length === 0 ? (
+          <EmptyState
+            icon="search-outline"
+            title="No matching activities"
+            description="Try a different search or clear the filters."
+            actionLabel="Clear Filters"
+            onAction={() => setFilters(EMPTY_ITINERARY_FILTERS)}
+          />
+        ) : (
+          visibleItems.map((item) => {
+            const category = getCategory(item);
+            const isSelected = selectedIds.includes(item.id);
+            return (
+              <TouchableOpacity
+                key={item.id}
+                style={[
+                  styles.row,
+                  { borderBottomColor: colors.border },
+                  isSelected && { backgroundColor: Colors.primary + '10' },
+                ]}
+                onPress={() => (selectedIds.length > 0 ? toggleSelected(item.id) : onItemPress(item.id))}
+                onLongPress={canEdit ? () => toggleSelected(item.id) : undefined}
+                activeOpacity={0.7}
+              >
+                {canEdit && (
+                  <TouchableOpacity onPress={() => toggleSelected(item.id)} style={styles.checkbox}>
+                    <Ionicons
+                      name={isSelected ? 'checkbox' : 'square-outline'}
+                      size={20}
+                      color={isSelected ? Colors.primary : colors.textMuted}
+                    />
+                  </TouchableOpacity>
+                )}
+                <View style={styles.whenColumn}>
+                  {item.startTime ? (
+                    <>
+                      <Text style={[styles.rowDate, { color: colors.text }]}>{formatDay(item.startTime)}</Text>
+                      <Text style={[styles.rowTime, { color: colors.textSecondary }]}>{formatTime(item.startTime)}</Text>
+                    </>
+                  ) : (
+                    <Text style={[styles.rowTime, { color: colors.textMuted }]}>No time</Text>
+                  )}
+                </View>
+                <View style={styles.titleColumn}>
+                  <Text style={[styles.rowTitle, { color: colors.text }]} numberOfLines={1}>{item.title}</Text>
+                  <Text style={[styles.rowMeta, { color: colors.textMuted }]} numberOfLines={1}>
+                    {[item.location, getCreatorName(item.addedBy)].filter(Boolean).join(' · ')}
+                  </Text>
+                </View>
+                <View style={[styles.categoryIcon, { backgroundColor: category.color }]}>
+                  <Ionicons name={category.icon} size={14} color="#FFFFFF" />
+                </View>
+              </TouchableOpacity>
+            );
+          })
+        )}
+      </ScrollView>
+
+      {/* Bulk actions */}
+      {selectedIds.length > 0 && (
+        <View style={[styles.bulkBar, { backgroundColor: colors.card, borderTopColor: colors.border }]}>
+          {picker && (
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.pickerRow}>
+              {picker === 'move'
+                ? days.map((day) => renderChip(formatDay(day), false, () => handleMoveToDay(day), day))
+                : CATEGORIES.map((category) =>
+                  renderChip(category.label, false, () => handleChangeCategory(category.id), category.id)
+                )}
+            </ScrollView>
+          )}
+          <View style={styles.bulkActions}>
+            <Text style={[styles.selectedCount, { color: colors.text }]}>{selectedIds.length} selected</Text>
+            {isSaving ? (
+              <ActivityIndicator size="small" color={Colors.primary} />
+            ) : (
+              <>
+                <TouchableOpacity
+                  style={styles.bulkButton}
+                  onPress={() => setPicker(picker === 'move' ? null : 'move')}
+                >
+                  <Ionicons name="calendar-outline" size={18} color={picker === 'move' ? Colors.primary : colors.text} />
+                  <Text style={[styles.bulkButtonText, { color: picker === 'move' ? Colors.primary : colors.text }]}>Move</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.bulkButton}
+                  onPress={() => setPicker(picker === 'category' ? null : 'category')}
+                >
+                  <Ionicons name="pricetag-outline" size={18} color={picker === 'category' ? Colors.primary : colors.text} />
+                  <Text style={[styles.bulkButtonText, { color: picker === 'category' ? Colors.primary : colors.text }]}>Category</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.bulkButton} onPress={handleDelete}>
+                  <Ionicons name="trash-outline" size={18} color={Colors.error} />
+                  <Text style={[styles.bulkButtonText, { color: Colors.error }]}>Delete</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.bulkButton} onPress={() => setSelectedIds([])}>
+                  <Ionicons name="close" size={18} color={colors.textSecondary} />
+                </TouchableOpacity>
+              </>
+            )}
+          </View>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  searchBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+    marginHorizontal: Spacing.screenPadding,
+    paddingHorizontal: Spacing.md,
+    borderRadius: BorderRadius.medium,
+    borderWidth: 1,
+  },
+  searchInput: {
+    flex: 1,
+    fontSize: FontSizes.body,
+    paddingVertical: Spacing.sm,
+  },
+  filterRow: {
+    maxHeight: 48,
+    marginTop: Spacing.sm,
+  },
+  filterRowContent: {
+    paddingHorizontal: Spacing.screenPadding,
+    gap: Spacing.xs,
+    alignItems: 'center',
+  },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: Spacing.md,
+    borderRadius: BorderRadius.pill,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: FontSizes.caption,
+    fontWeight: FontWeights.medium,
+  },
+  tableHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: Spacing.screenPadding,
+    paddingVertical: Spacing.sm,
+    borderBottomWidth: 1,
+  },
+  headerText: {
+    fontSize: FontSizes.caption,
+    fontWeight: FontWeights.semibold,
+    textTransform: 'uppercase',
+  },
+  list: {
+    flex: 1,
+  },
+  listContent: {
+    paddingBottom: Spacing['3xl'] + Spacing.xl,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: Spacing.screenPadding,
+    paddingVertical: Spacing.sm,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  checkbox: {
+    marginRight: Spacing.sm,
+  },
+  whenColumn: {
+    width: 92,
+  },
+  titleColumn: {
+    flex: 1,
+    marginRight: Spacing.sm,
+  },
+  rowDate: {
+    fontSize: FontSizes.caption,
+    fontWeight: FontWeights.semibold,
+  },
+  rowTime: {
+    fontSize: FontSizes.caption,
+  },
+  rowTitle: {
+    fontSize: FontSizes.bodySmall,
+    fontWeight: FontWeights.semibold,
+  },
+  rowMeta: {
+    fontSize: FontSizes.caption,
+    marginTop: 2,
+  },
+  categoryIcon: {
+    width: 24,
+    height: 24,
+    borderRadius: BorderRadius.pill,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  bulkBar: {
+    borderTopWidth: 1,
+    paddingVertical: Spacing.sm,
+  },
+  pickerRow: {
+    paddingHorizontal: Spacing.screenPadding,
+    paddingBottom: Spacing.sm,
+    gap: Spacing.xs,
+  },
+  bulkActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: Spacing.screenPadding,
+    gap: Spacing.md,
+  },
+  selectedCount: {
+    flex: 1,
+    fontSize: FontSizes.bodySmall,
+    fontWeight: FontWeights.semibold,
+  },
+  bulkButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  bulkButtonText: {
+    fontSize: FontSizes.caption,
+    fontWeight: FontWeights.medium,
+  },
+});
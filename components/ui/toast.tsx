@@ -53,9 +53,11 @@ const getToastConfig = (type: ToastType, notificationType?: NotificationType) =>
         return { color: Colors.error, icon: 'person-remove' as const };
       case 'expense_added':
       case 'expense_updated':
+      case 'settlement_recorded':
         return { color: Colors.secondary, icon: 'wallet' as const };
       case 'itinerary_added':
       case 'itinerary_updated':
+      case 'itinerary_comment':
         return { color: Colors.accent, icon: 'calendar' as const };
       case 'trip_invitation':
         return { color: Colors.primary, icon: 'mail' as const };
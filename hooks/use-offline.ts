@@ -3,6 +3,9 @@
  * Provides offline mode functionality including network status, document caching, and map downloads
  */
 
+import { CacheSettings, DEFAULT_CACHE_SETTINGS } from '@/services/cache-policy';
+import { getTripSnapshotData } from '@/services/firestore';
+import { DeadLetterItem, getNextRetryAt, OfflineQueueItem } from '@/services/mutation-queue';
 import {
     CachedDocument,
     cacheDocument,
@@ -12,22 +15,36 @@ import {
     clearAllCache,
     deleteCachedDocument,
     deleteOfflineMapRegion,
+    downloadOfflineMapRegion,
+    enforceCachePolicy,
     formatBytes,
     getCachedDocument,
     getCachedDocumentsForTrip,
     getCachedDocumentsIndex,
     getCachedSession,
     getCachedTrips,
+    getCacheSettings,
     getCacheSize,
+    getDeadLetterQueue,
     getLastSync,
     getOfflineMapRegions,
     getOfflineMapRegionsForTrip,
     getOfflineQueue,
+    getOfflineTrips,
+    getSyncingItemId,
     initializeOfflineStorage,
+    MapDownloadProgress,
+    MapRegionRequest,
     OfflineMapRegion,
+    pauseMapRegionDownload,
     processOfflineQueue,
-    saveOfflineMapRegion,
+    removeTripSnapshot,
+    resumeOfflineMapRegion,
+    saveCacheSettings,
+    saveTripSnapshot,
+    setTripPinned,
     subscribeToNetworkChanges,
+    subscribeToOfflineQueue,
     updateLastSync,
 } from '@/services/offline';
 import { User } from '@/types/database';
@@ -44,6 +61,7 @@ interface OfflineState {
     formatted: string;
   };
   pendingActions: number;
+  failedActions: number; // Changes moved to the dead-letter list
 }
 
 interface UseOfflineReturn extends OfflineState {
@@ -66,7 +84,15 @@ interface UseOfflineReturn extends OfflineState {
   removeDocumentFromCache: (documentId: string) => Promise<void>;
   
   // Maps
-  downloadMapRegion: (region: Omit<OfflineMapRegion, 'cachedAt'>) => Promise<boolean>;
+  downloadMapRegion: (
+    request: MapRegionRequest,
+    onProgress?: (progress: MapDownloadProgress) => void
+  ) => Promise<OfflineMapRegion | null>;
+  resumeMapRegion: (
+    regionId: string,
+    onProgress?: (progress: MapDownloadProgress) => void
+  ) => Promise<OfflineMapRegion | null>;
+  pauseMapRegion: (regionId: string) => void;
   getCachedMapRegions: (tripId?: string) => Promise<OfflineMapRegion[]>;
   removeMapRegion: (regionId: string) => Promise<void>;
   
@@ -88,12 +114,15 @@ export function useOffline(): UseOfflineReturn {
       formatted: '0 B',
     },
     pendingActions: 0,
+    failedActions: 0,
   });
 
   // Initialize offline storage and check network status
   useEffect(() => {
     const initialize = async () => {
       await initializeOfflineStorage();
+      // Clears out trips that ended long ago and anything over the storage budget
+      await enforceCachePolicy();
       
       const [isOnline, lastSyncTime, size, queue] = await Promise.all([
         checkNetworkStatus(),
@@ -118,6 +147,41 @@ export function useOffline(): UseOfflineReturn {
     initialize();
   }, []);
 
+  // Keep the sync status current and retry failed changes once their backoff has passed
+  useEffect(() => {
+    let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const onQueueChange = async () => {
+      const [queue, deadLetters, lastSyncTime] = await Promise.all([
+        getOfflineQueue(),
+        getDeadLetterQueue(),
+        getLastSync(),
+      ]);
+      setState(prev => ({
+        ...prev,
+        pendingActions: queue.length,
+        failedActions: deadLetters.length,
+        lastSync: lastSyncTime ? new Date(lastSyncTime) : null,
+      }));
+
+      if (retryTimer) clearTimeout(retryTimer);
+      retryTimer = null;
+      const nextRetryAt = getNextRetryAt(queue);
+      if (nextRetryAt !== null) {
+        retryTimer = setTimeout(() => {
+          processOfflineQueue().catch((err) => console.warn('Error retrying offline queue:', err));
+        }, nextRetryAt - Date.now());
+      }
+    };
+
+    onQueueChange();
+    const unsubscribe = subscribeToOfflineQueue(onQueueChange);
+    return () => {
+      unsubscribe();
+      if (retryTimer) clearTimeout(retryTimer);
+    };
+  }, []);
+
   // Subscribe to network changes
   useEffect(() => {
     const unsubscribe = subscribeToNetworkChanges(async (isConnected) => {
@@ -188,6 +252,7 @@ export function useOffline(): UseOfflineReturn {
     try {
       const result = await cacheDocument(doc);
       if (result) {
+        await enforceCachePolicy([result.id]);
         await refreshCacheSizeInternal();
         return true;
       }
@@ -224,20 +289,43 @@ export function useOffline(): UseOfflineReturn {
     await refreshCacheSizeInternal();
   }, []);
 
-  // Download map region
+  // Download map region tiles; the result says whether every tile made it
   const downloadMapRegion = useCallback(async (
-    region: Omit<OfflineMapRegion, 'cachedAt'>
-  ): Promise<boolean> => {
+    request: MapRegionRequest,
+    onProgress?: (progress: MapDownloadProgress) => void
+  ): Promise<OfflineMapRegion | null> => {
     try {
-      await saveOfflineMapRegion(region);
+      const region = await downloadOfflineMapRegion(request, onProgress);
+      await enforceCachePolicy([region.id]);
       await refreshCacheSizeInternal();
-      return true;
+      return region;
     } catch (error) {
       console.error('Failed to download map region:', error);
-      return false;
+      return null;
     }
   }, []);
 
+  // Resume an interrupted map download
+  const resumeMapRegion = useCallback(async (
+    regionId: string,
+    onProgress?: (progress: MapDownloadProgress) => void
+  ): Promise<OfflineMapRegion | null> => {
+    try {
+      const region = await resumeOfflineMapRegion(regionId, onProgress);
+      if (region) await enforceCachePolicy([region.id]);
+      await refreshCacheSizeInternal();
+      return region;
+    } catch (error) {
+      console.error('Failed to resume map region download:', error);
+      return null;
+    }
+  }, []);
+
+  // Pause map download
+  const pauseMapRegion = useCallback((regionId: string): void => {
+    pauseMapRegionDownload(regionId);
+  }, []);
+
   // Get cached map regions
   const getCachedMapRegions = useCallback(async (tripId?: string): Promise<OfflineMapRegion[]> => {
     if (tripId) {
@@ -276,14 +364,9 @@ export function useOffline(): UseOfflineReturn {
     await refreshCacheSizeInternal();
   }, []);
 
-  // Sync data
+  // Sync data: replay queued changes now; the queue listener picks up the new status
   const syncData = useCallback(async (): Promise<void> => {
-    await updateLastSync();
-    const lastSyncTime = await getLastSync();
-    setState(prev => ({
-      ...prev,
-      lastSync: lastSyncTime ? new Date(lastSyncTime) : null,
-    }));
+    await processOfflineQueue();
   }, []);
 
   return {
@@ -299,6 +382,8 @@ export function useOffline(): UseOfflineReturn {
     isDocumentCached,
     removeDocumentFromCache,
     downloadMapRegion,
+    resumeMapRegion,
+    pauseMapRegion,
     getCachedMapRegions,
     removeMapRegion,
     refreshCacheSize,
@@ -306,3 +391,130 @@ export function useOffline(): UseOfflineReturn {
     syncData,
   };
 }
+
+interface SyncQueueState {
+  queue: OfflineQueueItem[];
+  deadLetters: DeadLetterItem[];
+  syncingItemId: string | null;
+  loading: boolean;
+}
+
+// The queued and dead-lettered changes themselves, kept current as they sync
+export function useSyncQueue(): SyncQueueState {
+  const [state, setState] = useState<SyncQueueState>({
+    queue: [],
+    deadLetters: [],
+    syncingItemId: null,
+    loading: true,
+  });
+
+  useEffect(() => {
+    let active = true;
+
+    const load = async () => {
+      const [queue, deadLetters] = await Promise.all([getOfflineQueue(), getDeadLetterQueue()]);
+      if (active) {
+        setState({ queue, deadLetters, syncingItemId: getSyncingItemId(), loading: false });
+      }
+    };
+
+    load();
+    const unsubscribe = subscribeToOfflineQueue(load);
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, []);
+
+  return state;
+}
+
+interface UseCacheSettingsReturn {
+  settings: CacheSettings;
+  loading: boolean;
+  updateSettings: (changes: Partial<CacheSettings>) => Promise<void>;
+  setPinned: (tripId: string, pinned: boolean) => Promise<void>;
+}
+
+// Storage budget, auto-clean and pinned trips; changes are applied to the cache straight away
+export function useCacheSettings(): UseCacheSettingsReturn {
+  const [settings, setSettings] = useState<CacheSettings>(DEFAULT_CACHE_SETTINGS);
+  const [loading, setLoading] = useState(true);
+
+  const refresh = useCallback(async () => {
+    setSettings(await getCacheSettings());
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const updateSettings = useCallback(async (changes: Partial<CacheSettings>): Promise<void> => {
+    await saveCacheSettings({ ...(await getCacheSettings()), ...changes });
+    await refresh();
+    await enforceCachePolicy();
+  }, [refresh]);
+
+  const setPinned = useCallback(async (tripId: string, pinned: boolean): Promise<void> => {
+    await setTripPinned(tripId, pinned);
+    await refresh();
+    if (!pinned) await enforceCachePolicy();
+  }, [refresh]);
+
+  return { settings, loading, updateSettings, setPinned };
+}
+
+interface UseTripOfflineSnapshotReturn {
+  isAvailableOffline: boolean;
+  savedAt: Date | null;
+  saving: boolean;
+  makeAvailableOffline: () => Promise<void>;
+  removeOfflineCopy: () => Promise<void>;
+}
+
+// "Make available offline" for one trip: downloads everything its screens show. The trip
+// hooks keep the copy fresh from then on and fall back to it when there is no connection.
+export function useTripOfflineSnapshot(tripId: string | undefined): UseTripOfflineSnapshotReturn {
+  const [savedAt, setSavedAt] = useState<Date | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const refresh = useCallback(async () => {
+    if (!tripId) return;
+    const offlineTrips = await getOfflineTrips();
+    const entry = offlineTrips[tripId];
+    setSavedAt(entry ? new Date(entry.savedAt) : null);
+  }, [tripId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Throws when the trip can't be downloaded, so the caller can say so
+  const makeAvailableOffline = useCallback(async (): Promise<void> => {
+    if (!tripId) return;
+    setSaving(true);
+    try {
+      const snapshot = await getTripSnapshotData(tripId);
+      if (!snapshot) throw new Error('Trip not found');
+      await saveTripSnapshot(tripId, snapshot);
+      await refresh();
+    } finally {
+      setSaving(false);
+    }
+  }, [tripId, refresh]);
+
+  const removeOfflineCopy = useCallback(async (): Promise<void> => {
+    if (!tripId) return;
+    await removeTripSnapshot(tripId);
+    await refresh();
+  }, [tripId, refresh]);
+
+  return {
+    isAvailableOffline: savedAt !== null,
+    savedAt,
+    saving,
+    makeAvailableOffline,
+    removeOfflineCopy,
+  };
+}
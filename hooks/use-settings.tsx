@@ -12,9 +12,7 @@ interface SettingsContextType extends SettingsState {
   setPushNotifications: (value: boolean) => Promise<void>;
   setEmailNotifications: (value: boolean) => Promise<void>;
   setOfflineMode: (value: boolean) => Promise<void>;
-  syncData: () => Promise<void>;
   clearCache: () => Promise<void>;
-  isSyncing: boolean;
   isClearing: boolean;
   isLoading: boolean;
 }
@@ -33,7 +31,6 @@ const SettingsContext = createContext<SettingsContextType | undefined>(undefined
 export function SettingsProvider({ children }: { children: React.ReactNode }) {
   const [settings, setSettings] = useState<SettingsState>(defaultSettings);
   const [isLoading, setIsLoading] = useState(true);
-  const [isSyncing, setIsSyncing] = useState(false);
   const [isClearing, setIsClearing] = useState(false);
 
   // Load settings from storage on mount
@@ -103,29 +100,6 @@ export function SettingsProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
-  const syncData = useCallback(async () => {
-    if (isSyncing) return;
-    
-    setIsSyncing(true);
-    try {
-      // Simulate sync delay - in a real app, this would:
-      // 1. Upload any pending local changes
-      // 2. Fetch latest data from Firestore
-      // 3. Update local cache
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      
-      // Clear any sync queue and refresh data
-      await AsyncStorage.removeItem(`${CACHE_KEYS_PREFIX}sync_queue`);
-      
-      Alert.alert('Sync Complete', 'Your data has been synchronized successfully.');
-    } catch (error) {
-      console.error('Sync failed:', error);
-      Alert.alert('Sync Failed', 'Unable to sync data. Please try again later.');
-    } finally {
-      setIsSyncing(false);
-    }
-  }, [isSyncing]);
-
   const clearCache = useCallback(async () => {
     if (isClearing) return;
     
@@ -163,9 +137,7 @@ export function SettingsProvider({ children }: { children: React.ReactNode }) {
         setPushNotifications,
         setEmailNotifications,
         setOfflineMode,
-        syncData,
         clearCache,
-        isSyncing,
         isClearing,
         isLoading,
       }}
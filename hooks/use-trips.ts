@@ -1,10 +1,49 @@
 import { firestore } from '@/config/firebase';
-import { cacheTripsData, getCachedTrips } from '@/services/offline';
+import {
+    computeMemberBalances,
+    computeSettlementPlan,
+    groupSharesByExpense,
+} from '@/services/balances';
+import {
+    aggregateCounterpartBalances,
+    CounterpartBalance,
+    TripLedger,
+} from '@/services/cross-trip-balances';
+import { isTrashExpired } from '@/services/expense-audit';
+import { getConvertedExpenseAmount, getExchangeRate } from '@/services/exchange-rates';
+import {
+    getSharesForExpenses,
+    getTrip,
+    getTripCollaborators,
+    getTripExpenses,
+    getTripSettlements,
+    getUser,
+    getUserCollaborations,
+} from '@/services/firestore';
+import {
+    cacheTripsData,
+    getCachedTrips,
+    getOfflineQueue,
+    getTripSnapshotSection,
+    subscribeToOfflineQueue,
+    updateTripSnapshotSection,
+} from '@/services/offline';
+import {
+    applyPendingExpenses,
+    applyPendingShares,
+    getPendingExpenseChanges,
+    PendingExpenseChanges,
+} from '@/services/offline-expenses';
+import { TripSnapshotData, TripSnapshotSection } from '@/services/trip-snapshot';
 import {
     COLLECTIONS,
+    DeletedExpense,
     Expense,
+    ExpenseAuditEntry,
     ExpenseShare,
+    ItineraryComment,
     ItineraryItem,
+    Settlement,
     Trip,
     TripCollaborator,
     TripDocument,
@@ -22,7 +61,7 @@ import {
     Timestamp,
     where,
 } from 'firebase/firestore';
-import { useCallback, useEffect, useState } from 'react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
 import { useAuth } from './use-auth';
 
 // Helper to convert Firestore Timestamp to Date
@@ -31,6 +70,41 @@ const timestampToDate = (timestamp: Timestamp | null): Date | null => {
   return timestamp.toDate();
 };
 
+// Trips made available offline show their saved snapshot until live data arrives, and keep
+// showing it while Firestore has nothing cached to offer. Results from the server refresh it.
+const trackTripSnapshot = <K extends TripSnapshotSection>(
+  tripId: string,
+  section: K,
+  show: (data: TripSnapshotData[K]) => void
+) => {
+  let active = true;
+  let live = false;
+  let showingSnapshot = false;
+
+  getTripSnapshotSection(tripId, section).then((stored) => {
+    if (!stored || !active || live) return;
+    showingSnapshot = true;
+    show(stored.data);
+  });
+
+  return {
+    // Whether a live result should replace what is on screen
+    receive: (data: TripSnapshotData[K] | null, fromCache: boolean): boolean => {
+      const isEmpty = data === null || (Array.isArray(data) && data.length === 0);
+      if (fromCache && isEmpty) return !showingSnapshot;
+      if (!fromCache && data !== null) updateTripSnapshotSection(tripId, section, data);
+      live = true;
+      showingSnapshot = false;
+      return true;
+    },
+    // A failed listener goes unnoticed while the snapshot covers for it
+    isShowingSnapshot: () => showingSnapshot,
+    stop: () => {
+      active = false;
+    },
+  };
+};
+
 // ============================================
 // Hook: useTrips - Fetch all user's trips
 // ============================================
@@ -206,13 +280,20 @@ export function useTrip(tripId: string | undefined) {
     setError(null);
 
     const tripRef = doc(firestore, COLLECTIONS.TRIPS, tripId);
+    const offlineCopy = trackTripSnapshot(tripId, 'trip', (snapshotTrip) => {
+      setTrip(snapshotTrip);
+      setError(null);
+      setLoading(false);
+    });
 
     const unsubscribe = onSnapshot(
       tripRef,
       async (docSnap) => {
         if (!docSnap.exists()) {
-          setTrip(null);
-          setLoading(false);
+          if (offlineCopy.receive(null, docSnap.metadata.fromCache)) {
+            setTrip(null);
+            setLoading(false);
+          }
           return;
         }
 
@@ -227,11 +308,15 @@ export function useTrip(tripId: string | undefined) {
           startDate: data.startDate?.toDate() || new Date(),
           endDate: data.endDate?.toDate() || new Date(),
           creatorId: data.creatorId,
+          currency: data.currency,
           transportationMode: data.transportationMode,
           tripType: data.tripType,
           budgetRange: data.budgetRange,
           travelerCount: data.travelerCount,
           accommodationType: data.accommodationType,
+          budget: data.budget || null,
+          planEstimate: data.planEstimate || null,
+          budgetAlertLevels: data.budgetAlertLevels || null,
           createdAt: data.createdAt?.toDate() || new Date(),
         };
 
@@ -254,17 +339,22 @@ export function useTrip(tripId: string | undefined) {
           console.warn('Error fetching creator:', err);
         }
 
-        setTrip(tripData);
-        setLoading(false);
+        if (offlineCopy.receive(tripData, docSnap.metadata.fromCache)) {
+          setTrip(tripData);
+          setLoading(false);
+        }
       },
       (err) => {
         console.error('Error fetching trip:', err);
-        setError(err as Error);
+        if (!offlineCopy.isShowingSnapshot()) setError(err as Error);
         setLoading(false);
       }
     );
 
-    return () => unsubscribe();
+    return () => {
+      offlineCopy.stop();
+      unsubscribe();
+    };
   }, [isAuthenticated, tripId]);
 
   return { trip, loading, error };
@@ -294,6 +384,11 @@ export function useTripItinerary(tripId: string | undefined) {
       where('tripId', '==', tripId),
       orderBy('startTime', 'asc')
     );
+    const offlineCopy = trackTripSnapshot(tripId, 'itinerary', (snapshotItems) => {
+      setItems(snapshotItems);
+      setError(null);
+      setLoading(false);
+    });
 
     const unsubscribe = onSnapshot(
       q,
@@ -315,34 +410,68 @@ export function useTripItinerary(tripId: string | undefined) {
             createdAt: data.createdAt?.toDate() || new Date(),
           } as ItineraryItem;
         });
-        setItems(itineraryItems);
-        setLoading(false);
+        if (offlineCopy.receive(itineraryItems, snapshot.metadata.fromCache)) {
+          setItems(itineraryItems);
+          setLoading(false);
+        }
       },
       (err) => {
         console.error('Error fetching itinerary:', err);
-        setError(err as Error);
+        if (!offlineCopy.isShowingSnapshot()) setError(err as Error);
         setLoading(false);
       }
     );
 
-    return () => unsubscribe();
+    return () => {
+      offlineCopy.stop();
+      unsubscribe();
+    };
   }, [isAuthenticated, tripId]);
 
   return { items, loading, error };
 }
 
+// ============================================
+// Hook: usePendingExpenseChanges - Expense changes waiting in the offline queue
+// ============================================
+const NO_PENDING_EXPENSES: PendingExpenseChanges = { created: [], deleted: [], updates: {}, shares: {} };
+
+function usePendingExpenseChanges(tripId?: string) {
+  const [pending, setPending] = useState<PendingExpenseChanges>(NO_PENDING_EXPENSES);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = () => {
+      getOfflineQueue()
+        .then((queue) => {
+          if (!cancelled) setPending(getPendingExpenseChanges(queue, tripId));
+        })
+        .catch((err) => console.warn('Failed to read pending expenses:', err));
+    };
+
+    load();
+    const unsubscribe = subscribeToOfflineQueue(load);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [tripId]);
+
+  return pending;
+}
+
 // ============================================
 // Hook: useTripExpenses - Real-time expenses
 // ============================================
 export function useTripExpenses(tripId: string | undefined) {
   const { isAuthenticated } = useAuth();
-  const [expenses, setExpenses] = useState<Expense[]>([]);
+  const [syncedExpenses, setSyncedExpenses] = useState<Expense[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<Error | null>(null);
 
   useEffect(() => {
     if (!isAuthenticated || !tripId) {
-      setExpenses([]);
+      setSyncedExpenses([]);
       setLoading(false);
       return;
     }
@@ -355,6 +484,11 @@ export function useTripExpenses(tripId: string | undefined) {
       where('tripId', '==', tripId),
       orderBy('createdAt', 'desc')
     );
+    const offlineCopy = trackTripSnapshot(tripId, 'expenses', (snapshotExpenses) => {
+      setSyncedExpenses(snapshotExpenses);
+      setError(null);
+      setLoading(false);
+    });
 
     const unsubscribe = onSnapshot(
       q,
@@ -367,28 +501,117 @@ export function useTripExpenses(tripId: string | undefined) {
             title: data.title,
             amount: data.amount,
             currency: data.currency || 'USD',
+            exchangeRate: data.exchangeRate ?? 1,
             paidBy: data.paidBy,
             category: data.category || 'other',
+            splitType: data.splitType || 'equal',
+            split: data.split || null,
+            itineraryItemId: data.itineraryItemId || null,
+            receiptDocumentId: data.receiptDocumentId || null,
+            recurringTemplateId: data.recurringTemplateId || null,
+            occurrenceDate: data.occurrenceDate?.toDate() || null,
             createdAt: data.createdAt?.toDate() || new Date(),
           } as Expense;
         });
-        setExpenses(expenseItems);
-        setLoading(false);
+        if (offlineCopy.receive(expenseItems, snapshot.metadata.fromCache)) {
+          setSyncedExpenses(expenseItems);
+          setLoading(false);
+        }
       },
       (err) => {
         console.error('Error fetching expenses:', err);
-        setError(err as Error);
+        if (!offlineCopy.isShowingSnapshot()) setError(err as Error);
         setLoading(false);
       }
     );
 
-    return () => unsubscribe();
+    return () => {
+      offlineCopy.stop();
+      unsubscribe();
+    };
   }, [isAuthenticated, tripId]);
 
-  // Calculate total expenses
-  const totalExpenses = expenses.reduce((sum, exp) => sum + exp.amount, 0);
+  // Expenses saved offline show up straight away, flagged as pending
+  const pending = usePendingExpenseChanges(tripId);
+  const expenses = useMemo(
+    () => applyPendingExpenses(syncedExpenses, pending),
+    [syncedExpenses, pending]
+  );
+
+  // Calculate total expenses in the trip currency
+  const totalExpenses = expenses.reduce((sum, exp) => sum + getConvertedExpenseAmount(exp), 0);
+
+  // Without a connection the live query may never answer; don't hide what was saved offline
+  return { expenses, totalExpenses, loading: loading && pending.created.length === 0, error };
+}
+
+// ============================================
+// Hook: useTripSettlements - Real-time recorded payments
+// ============================================
+export function useTripSettlements(tripId: string | undefined) {
+  const { isAuthenticated } = useAuth();
+  const [settlements, setSettlements] = useState<Settlement[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    if (!isAuthenticated || !tripId) {
+      setSettlements([]);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    const q = query(
+      collection(firestore, COLLECTIONS.SETTLEMENTS),
+      where('tripId', '==', tripId),
+      orderBy('createdAt', 'desc')
+    );
+    const offlineCopy = trackTripSnapshot(tripId, 'settlements', (snapshotSettlements) => {
+      setSettlements(snapshotSettlements);
+      setError(null);
+      setLoading(false);
+    });
+
+    const unsubscribe = onSnapshot(
+      q,
+      (snapshot) => {
+        const items = snapshot.docs.map((docSnap) => {
+          const data = docSnap.data();
+          return {
+            id: docSnap.id,
+            tripId: data.tripId,
+            payerId: data.payerId,
+            payeeId: data.payeeId,
+            amount: data.amount,
+            currency: data.currency || 'USD',
+            method: data.method || 'other',
+            referenceId: data.referenceId || null,
+            recordedBy: data.recordedBy,
+            createdAt: data.createdAt?.toDate() || new Date(),
+          } as Settlement;
+        });
+        if (offlineCopy.receive(items, snapshot.metadata.fromCache)) {
+          setSettlements(items);
+          setLoading(false);
+        }
+      },
+      (err) => {
+        console.error('Error fetching settlements:', err);
+        if (!offlineCopy.isShowingSnapshot()) setError(err as Error);
+        setLoading(false);
+      }
+    );
+
+    return () => {
+      offlineCopy.stop();
+      unsubscribe();
+    };
+  }, [isAuthenticated, tripId]);
 
-  return { expenses, totalExpenses, loading, error };
+  return { settlements, loading, error };
 }
 
 // ============================================
@@ -414,6 +637,11 @@ export function useTripCollaborators(tripId: string | undefined) {
       collection(firestore, COLLECTIONS.TRIP_COLLABORATORS),
       where('tripId', '==', tripId)
     );
+    const offlineCopy = trackTripSnapshot(tripId, 'collaborators', (snapshotCollaborators) => {
+      setCollaborators(snapshotCollaborators);
+      setError(null);
+      setLoading(false);
+    });
 
     const unsubscribe = onSnapshot(
       q,
@@ -439,6 +667,7 @@ export function useTripCollaborators(tripId: string | undefined) {
                   email: userData.email,
                   profilePhoto: userData.profilePhoto,
                   defaultCurrency: userData.defaultCurrency,
+                  upiId: userData.upiId || null,
                   createdAt: userData.createdAt?.toDate() || new Date(),
                   subscriptionTier: userData.subscriptionTier || 'free',
                 };
@@ -451,17 +680,22 @@ export function useTripCollaborators(tripId: string | undefined) {
           })
         );
 
-        setCollaborators(collabsWithUsers);
-        setLoading(false);
+        if (offlineCopy.receive(collabsWithUsers, snapshot.metadata.fromCache)) {
+          setCollaborators(collabsWithUsers);
+          setLoading(false);
+        }
       },
       (err) => {
         console.error('Error fetching collaborators:', err);
-        setError(err as Error);
+        if (!offlineCopy.isShowingSnapshot()) setError(err as Error);
         setLoading(false);
       }
     );
 
-    return () => unsubscribe();
+    return () => {
+      offlineCopy.stop();
+      unsubscribe();
+    };
   }, [isAuthenticated, tripId]);
 
   return { collaborators, loading, error };
@@ -491,6 +725,11 @@ export function useTripDocuments(tripId: string | undefined) {
       where('tripId', '==', tripId),
       orderBy('createdAt', 'desc')
     );
+    const offlineCopy = trackTripSnapshot(tripId, 'documents', (snapshotDocuments) => {
+      setDocuments(snapshotDocuments);
+      setError(null);
+      setLoading(false);
+    });
 
     const unsubscribe = onSnapshot(
       q,
@@ -507,17 +746,22 @@ export function useTripDocuments(tripId: string | undefined) {
             createdAt: data.createdAt?.toDate() || new Date(),
           } as TripDocument;
         });
-        setDocuments(docs);
-        setLoading(false);
+        if (offlineCopy.receive(docs, snapshot.metadata.fromCache)) {
+          setDocuments(docs);
+          setLoading(false);
+        }
       },
       (err) => {
         console.error('Error fetching documents:', err);
-        setError(err as Error);
+        if (!offlineCopy.isShowingSnapshot()) setError(err as Error);
         setLoading(false);
       }
     );
 
-    return () => unsubscribe();
+    return () => {
+      offlineCopy.stop();
+      unsubscribe();
+    };
   }, [isAuthenticated, tripId]);
 
   return { documents, loading, error };
@@ -583,6 +827,120 @@ export function useItineraryItem(itemId: string | undefined) {
   return { item, loading, error };
 }
 
+// ============================================
+// Hook: useItineraryComments - Real-time comments on an itinerary item
+// ============================================
+export function useItineraryComments(itemId: string | undefined) {
+  const { isAuthenticated } = useAuth();
+  const [comments, setComments] = useState<ItineraryComment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    if (!isAuthenticated || !itemId) {
+      setComments([]);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    const q = query(
+      collection(firestore, COLLECTIONS.ITINERARY_COMMENTS),
+      where('itineraryId', '==', itemId),
+      orderBy('createdAt', 'asc')
+    );
+
+    const unsubscribe = onSnapshot(
+      q,
+      (snapshot) => {
+        const items = snapshot.docs.map((docSnap) => {
+          const data = docSnap.data();
+          return {
+            id: docSnap.id,
+            tripId: data.tripId,
+            itineraryId: data.itineraryId,
+            authorId: data.authorId,
+            authorName: data.authorName,
+            text: data.text,
+            // Pending local writes have no server timestamp yet
+            createdAt: data.createdAt?.toDate() || new Date(),
+          } as ItineraryComment;
+        });
+        setComments(items);
+        setLoading(false);
+      },
+      (err) => {
+        console.error('Error fetching itinerary comments:', err);
+        setError(err as Error);
+        setLoading(false);
+      }
+    );
+
+    return () => unsubscribe();
+  }, [isAuthenticated, itemId]);
+
+  return { comments, loading, error };
+}
+
+// ============================================
+// Hook: useItineraryAttachments - Real-time trip documents attached to an itinerary item
+// ============================================
+export function useItineraryAttachments(itemId: string | undefined) {
+  const { isAuthenticated } = useAuth();
+  const [attachments, setAttachments] = useState<TripDocument[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    if (!isAuthenticated || !itemId) {
+      setAttachments([]);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    const q = query(
+      collection(firestore, COLLECTIONS.DOCUMENTS),
+      where('itineraryId', '==', itemId),
+      orderBy('createdAt', 'asc')
+    );
+
+    const unsubscribe = onSnapshot(
+      q,
+      (snapshot) => {
+        const items = snapshot.docs.map((docSnap) => {
+          const data = docSnap.data();
+          return {
+            id: docSnap.id,
+            tripId: data.tripId,
+            itineraryId: data.itineraryId,
+            uploadedBy: data.uploadedBy,
+            fileUrl: data.fileUrl,
+            label: data.label,
+            type: data.type,
+            createdAt: data.createdAt?.toDate() || new Date(),
+          } as TripDocument;
+        });
+        setAttachments(items);
+        setLoading(false);
+      },
+      (err) => {
+        console.error('Error fetching itinerary attachments:', err);
+        setError(err as Error);
+        setLoading(false);
+      }
+    );
+
+    return () => unsubscribe();
+  }, [isAuthenticated, itemId]);
+
+  return { attachments, loading, error };
+}
+
 // ============================================
 // Hook: useExpenseShares - Get shares for an expense
 // ============================================
@@ -659,6 +1017,295 @@ export function useExpenseShares(expenseId: string | undefined) {
   return { shares, loading, error };
 }
 
+// Firestore limits 'in' queries to 30 values
+const IN_QUERY_LIMIT = 30;
+
+// ============================================
+// Hook: useTripExpenseShares - Real-time shares for a list of expenses
+// ============================================
+// With a tripId, expenseIds should cover the whole trip: the trip's offline snapshot is refreshed from them
+export function useTripExpenseShares(expenseIds: string[], tripId?: string) {
+  const { isAuthenticated } = useAuth();
+  const [shares, setShares] = useState<ExpenseShare[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  // Re-subscribe only when the set of expenses actually changes
+  const expenseKey = [...expenseIds].sort().join(',');
+
+  useEffect(() => {
+    const ids = expenseKey ? expenseKey.split(',') : [];
+    if (!isAuthenticated || ids.length === 0) {
+      setShares([]);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    const chunks: string[][] = [];
+    for (let i = 0; i < ids.length; i += IN_QUERY_LIMIT) {
+      chunks.push(ids.slice(i, i + IN_QUERY_LIMIT));
+    }
+
+    const sharesByChunk: ExpenseShare[][] = chunks.map(() => []);
+    const loadedChunks = new Set<number>();
+    const chunksFromServer = new Set<number>();
+    const offlineCopy = tripId
+      ? trackTripSnapshot(tripId, 'expenseShares', (snapshotShares) => {
+          setShares(snapshotShares.filter((share) => ids.includes(share.expenseId)));
+          setError(null);
+          setLoading(false);
+        })
+      : null;
+
+    const unsubscribes = chunks.map((chunk, index) =>
+      onSnapshot(
+        query(
+          collection(firestore, COLLECTIONS.EXPENSE_SHARES),
+          where('expenseId', 'in', chunk)
+        ),
+        (snapshot) => {
+          sharesByChunk[index] = snapshot.docs.map((docSnap) => {
+            const data = docSnap.data();
+            return {
+              id: docSnap.id,
+              expenseId: data.expenseId,
+              userId: data.userId,
+              shareAmount: data.shareAmount,
+            } as ExpenseShare;
+          });
+          loadedChunks.add(index);
+          if (snapshot.metadata.fromCache) chunksFromServer.delete(index);
+          else chunksFromServer.add(index);
+
+          // Only a complete set from the server may replace the snapshot's shares
+          const allShares = sharesByChunk.flat();
+          const fromCache = chunksFromServer.size < chunks.length;
+          if (offlineCopy && !offlineCopy.receive(allShares, fromCache)) return;
+          setShares(allShares);
+          if (loadedChunks.size === chunks.length) {
+            setLoading(false);
+          }
+        },
+        (err) => {
+          console.error('Error fetching trip expense shares:', err);
+          if (!offlineCopy?.isShowingSnapshot()) setError(err as Error);
+          setLoading(false);
+        }
+      )
+    );
+
+    return () => {
+      offlineCopy?.stop();
+      unsubscribes.forEach((unsubscribe) => unsubscribe());
+    };
+  }, [isAuthenticated, expenseKey, tripId]);
+
+  const pending = usePendingExpenseChanges();
+  const mergedShares = useMemo(
+    () => applyPendingShares(shares, pending, expenseKey ? expenseKey.split(',') : []),
+    [shares, pending, expenseKey]
+  );
+
+  return { shares: mergedShares, loading, error };
+}
+
+// ============================================
+// Hook: useExpenseHistory - Real-time change log for an expense
+// ============================================
+export function useExpenseHistory(expenseId: string | undefined) {
+  const { isAuthenticated } = useAuth();
+  const [entries, setEntries] = useState<ExpenseAuditEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    if (!isAuthenticated || !expenseId) {
+      setEntries([]);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    const q = query(
+      collection(firestore, COLLECTIONS.EXPENSE_AUDIT_LOG),
+      where('expenseId', '==', expenseId),
+      orderBy('createdAt', 'desc')
+    );
+
+    const unsubscribe = onSnapshot(
+      q,
+      (snapshot) => {
+        const items = snapshot.docs.map((docSnap) => {
+          const data = docSnap.data();
+          return {
+            id: docSnap.id,
+            tripId: data.tripId,
+            expenseId: data.expenseId,
+            action: data.action,
+            actorId: data.actorId,
+            changes: data.changes || [],
+            createdAt: data.createdAt?.toDate() || new Date(),
+          } as ExpenseAuditEntry;
+        });
+        setEntries(items);
+        setLoading(false);
+      },
+      (err) => {
+        console.error('Error fetching expense history:', err);
+        setError(err as Error);
+        setLoading(false);
+      }
+    );
+
+    return () => unsubscribe();
+  }, [isAuthenticated, expenseId]);
+
+  return { entries, loading, error };
+}
+
+// ============================================
+// Hook: useTripExpenseTrash - Real-time deleted expenses that can still be restored
+// ============================================
+export function useTripExpenseTrash(tripId: string | undefined) {
+  const { isAuthenticated } = useAuth();
+  const [deletedExpenses, setDeletedExpenses] = useState<DeletedExpense[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    if (!isAuthenticated || !tripId) {
+      setDeletedExpenses([]);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    const q = query(collection(firestore, COLLECTIONS.EXPENSE_TRASH), where('tripId', '==', tripId));
+
+    const unsubscribe = onSnapshot(
+      q,
+      (snapshot) => {
+        const items = snapshot.docs
+          .map((docSnap) => {
+            const data = docSnap.data();
+            return {
+              id: docSnap.id,
+              tripId: data.tripId,
+              expense: {
+                ...data.expense,
+                occurrenceDate: data.expense?.occurrenceDate?.toDate() || null,
+                createdAt: data.expense?.createdAt?.toDate() || new Date(),
+                updatedAt: data.expense?.updatedAt?.toDate() || data.expense?.createdAt?.toDate() || new Date(),
+              },
+              shares: data.shares || [],
+              deletedBy: data.deletedBy,
+              deletedAt: data.deletedAt?.toDate() || new Date(),
+              expiresAt: data.expiresAt?.toDate() || new Date(),
+            } as DeletedExpense;
+          })
+          // Expired entries wait for the next purge but can no longer be restored
+          .filter((item) => !isTrashExpired(item.deletedAt))
+          .sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime());
+        setDeletedExpenses(items);
+        setLoading(false);
+      },
+      (err) => {
+        console.error('Error fetching expense trash:', err);
+        setError(err as Error);
+        setLoading(false);
+      }
+    );
+
+    return () => unsubscribe();
+  }, [isAuthenticated, tripId]);
+
+  return { deletedExpenses, loading, error };
+}
+
+// ============================================
+// Hook: useCounterpartBalances - What the user owes / is owed per person across all trips
+// ============================================
+export function useCounterpartBalances() {
+  const { user, isAuthenticated } = useAuth();
+  const [balances, setBalances] = useState<(CounterpartBalance & { user: User | null })[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  const displayCurrency = user?.defaultCurrency || 'USD';
+
+  const load = useCallback(async () => {
+    if (!isAuthenticated || !user) {
+      setBalances([]);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    try {
+      const collaborations = await getUserCollaborations(user.id);
+
+      const ledgers = await Promise.all(
+        collaborations.map(async ({ tripId }): Promise<TripLedger | null> => {
+          const [trip, collaborators, expenses, settlements] = await Promise.all([
+            getTrip(tripId),
+            getTripCollaborators(tripId),
+            getTripExpenses(tripId),
+            getTripSettlements(tripId),
+          ]);
+          if (!trip || expenses.length === 0) return null;
+
+          const shares = await getSharesForExpenses(expenses.map((e) => e.id));
+          const transfers = computeSettlementPlan(
+            computeMemberBalances(
+              expenses,
+              groupSharesByExpense(shares),
+              collaborators.map((c) => c.userId),
+              settlements
+            )
+          );
+          if (transfers.length === 0) return null;
+
+          const currency = trip.currency || displayCurrency;
+          try {
+            const rateToDisplay = await getExchangeRate(currency, displayCurrency);
+            return { tripId, tripTitle: trip.title, currency, rateToDisplay, transfers };
+          } catch (err) {
+            // Leave the trip out rather than netting amounts in different currencies
+            console.warn(`No ${currency} → ${displayCurrency} rate for trip ${tripId}:`, err);
+            return null;
+          }
+        })
+      );
+
+      const counterparts = aggregateCounterpartBalances(
+        user.id,
+        ledgers.filter((ledger): ledger is TripLedger => ledger !== null)
+      );
+      const users = await Promise.all(counterparts.map((c) => getUser(c.userId).catch(() => null)));
+      setBalances(counterparts.map((c, index) => ({ ...c, user: users[index] })));
+    } catch (err) {
+      console.error('Error loading cross-trip balances:', err);
+      setError(err as Error);
+    } finally {
+      setLoading(false);
+    }
+  }, [isAuthenticated, user, displayCurrency]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  return { balances, displayCurrency, loading, error, refresh: load };
+}
+
 // ============================================
 // Hook: useTripInvitations - Real-time invitations
 // ============================================
@@ -0,0 +1,230 @@
+import { CollaboratorRole, Expense, ExpenseShare, Settlement } from '../types/database';
+import { getConvertedExpenseAmount, toTripCurrency } from './exchange-rates';
+
+// ============================================
+// Balance Engine
+// ============================================
+
+export interface MemberBalance {
+  userId: string;
+  paid: number; // Total amount this member paid for the group
+  owed: number; // Total of this member's shares across all expenses
+  settledOut: number; // Recorded settlements this member paid to others
+  settledIn: number; // Recorded settlements this member received
+  balance: number; // paid - owed + settledOut - settledIn (positive = gets back, negative = owes)
+}
+
+// Amounts below this are treated as settled (floating point noise)
+export const BALANCE_EPSILON = 0.01;
+
+// Round to 2 decimal places to keep displayed balances stable
+export const roundAmount = (amount: number): number => Math.round(amount * 100) / 100;
+
+// Group a flat list of shares by their expense ID
+export const groupSharesByExpense = (shares: ExpenseShare[]): Record<string, ExpenseShare[]> => {
+  return shares.reduce(
+    (acc, share) => {
+      if (!acc[share.expenseId]) acc[share.expenseId] = [];
+      acc[share.expenseId].push(share);
+      return acc;
+    },
+    {} as Record<string, ExpenseShare[]>
+  );
+};
+
+// Resolve how much each member owes for a single expense, in the trip currency.
+// Expenses without share rows (legacy data) fall back to an equal split among members.
+export const getExpenseOwedAmounts = (
+  expense: Expense,
+  shares: ExpenseShare[] | undefined,
+  memberIds: string[]
+): Record<string, number> => {
+  const owed: Record<string, number> = {};
+
+  if (shares && shares.length > 0) {
+    shares.forEach((share) => {
+      owed[share.userId] = (owed[share.userId] || 0) + toTripCurrency(share.shareAmount || 0, expense);
+    });
+    return owed;
+  }
+
+  const participants = memberIds.length > 0 ? memberIds : [expense.paidBy];
+  const perPerson = getConvertedExpenseAmount(expense) / participants.length;
+  participants.forEach((userId) => {
+    owed[userId] = (owed[userId] || 0) + perPerson;
+  });
+  return owed;
+};
+
+// Compute paid vs. owed for every member of a trip from actual ExpenseShare records,
+// netting out any settlements that have already been recorded
+export const computeMemberBalances = (
+  expenses: Expense[],
+  sharesByExpense: Record<string, ExpenseShare[]>,
+  memberIds: string[],
+  settlements: Pick<Settlement, 'payerId' | 'payeeId' | 'amount'>[] = []
+): MemberBalance[] => {
+  const paid: Record<string, number> = {};
+  const owed: Record<string, number> = {};
+  const settledOut: Record<string, number> = {};
+  const settledIn: Record<string, number> = {};
+
+  // Members who left the trip may still appear on old expenses
+  const allIds = new Set(memberIds);
+
+  expenses.forEach((expense) => {
+    paid[expense.paidBy] = (paid[expense.paidBy] || 0) + getConvertedExpenseAmount(expense);
+    allIds.add(expense.paidBy);
+
+    const expenseOwed = getExpenseOwedAmounts(expense, sharesByExpense[expense.id], memberIds);
+    Object.entries(expenseOwed).forEach(([userId, amount]) => {
+      owed[userId] = (owed[userId] || 0) + amount;
+      allIds.add(userId);
+    });
+  });
+
+  settlements.forEach((settlement) => {
+    settledOut[settlement.payerId] = (settledOut[settlement.payerId] || 0) + settlement.amount;
+    settledIn[settlement.payeeId] = (settledIn[settlement.payeeId] || 0) + settlement.amount;
+    allIds.add(settlement.payerId);
+    allIds.add(settlement.payeeId);
+  });
+
+  return Array.from(allIds).map((userId) => {
+    const memberPaid = roundAmount(paid[userId] || 0);
+    const memberOwed = roundAmount(owed[userId] || 0);
+    const memberSettledOut = roundAmount(settledOut[userId] || 0);
+    const memberSettledIn = roundAmount(settledIn[userId] || 0);
+    return {
+      userId,
+      paid: memberPaid,
+      owed: memberOwed,
+      settledOut: memberSettledOut,
+      settledIn: memberSettledIn,
+      balance: roundAmount(memberPaid - memberOwed + memberSettledOut - memberSettledIn),
+    };
+  });
+};
+
+// ============================================
+// Settlement Plan (Debt Simplification)
+// ============================================
+
+export interface SettlementTransfer {
+  fromUserId: string; // Payer (currently owes)
+  toUserId: string; // Payee (currently gets back)
+  amount: number;
+}
+
+// Above this many unsettled members the exact search gets too expensive (2^n subsets)
+const EXACT_SETTLEMENT_LIMIT = 14;
+
+// Settle a zero-sum group by repeatedly matching the largest debtor with the largest creditor.
+// Works in integer cents so the group always closes out exactly.
+const settleGroupGreedy = (entries: { userId: string; cents: number }[]): SettlementTransfer[] => {
+  const debtors = entries.filter((e) => e.cents < 0).map((e) => ({ ...e, cents: -e.cents }));
+  const creditors = entries.filter((e) => e.cents > 0).map((e) => ({ ...e }));
+  const transfers: SettlementTransfer[] = [];
+
+  while (debtors.length > 0 && creditors.length > 0) {
+    debtors.sort((a, b) => b.cents - a.cents);
+    creditors.sort((a, b) => b.cents - a.cents);
+
+    const debtor = debtors[0];
+    const creditor = creditors[0];
+    const cents = Math.min(debtor.cents, creditor.cents);
+
+    transfers.push({ fromUserId: debtor.userId, toUserId: creditor.userId, amount: cents / 100 });
+
+    debtor.cents -= cents;
+    creditor.cents -= cents;
+    if (debtor.cents === 0) debtors.shift();
+    if (creditor.cents === 0) creditors.shift();
+  }
+
+  return transfers;
+};
+
+// Split members into the largest possible number of zero-sum groups.
+// Each group of k members needs k - 1 transfers, so more groups means fewer transfers.
+const partitionIntoZeroSumGroups = (
+  entries: { userId: string; cents: number }[]
+): { userId: string; cents: number }[][] => {
+  const n = entries.length;
+  const size = 1 << n;
+  const sums = new Array<number>(size).fill(0);
+  const groups = new Array<number>(size).fill(0);
+  const removed = new Array<number>(size).fill(-1);
+
+  for (let mask = 1; mask < size; mask++) {
+    const lowBit = mask & -mask;
+    const lowIndex = 31 - Math.clz32(lowBit);
+    sums[mask] = sums[mask ^ lowBit] + entries[lowIndex].cents;
+
+    for (let i = 0; i < n; i++) {
+      if (!(mask & (1 << i))) continue;
+      const candidate = groups[mask ^ (1 << i)];
+      if (removed[mask] === -1 || candidate > groups[mask]) {
+        groups[mask] = candidate;
+        removed[mask] = i;
+      }
+    }
+    if (sums[mask] === 0) groups[mask] += 1;
+  }
+
+  // Walk the removal order back to an ordering whose zero-sum prefixes mark group boundaries
+  const order: number[] = [];
+  for (let mask = size - 1; mask > 0; mask ^= 1 << removed[mask]) {
+    order.unshift(removed[mask]);
+  }
+
+  const result: { userId: string; cents: number }[][] = [];
+  let current: { userId: string; cents: number }[] = [];
+  let running = 0;
+  order.forEach((index) => {
+    current.push(entries[index]);
+    running += entries[index].cents;
+    if (running === 0) {
+      result.push(current);
+      current = [];
+    }
+  });
+  if (current.length > 0) result.push(current);
+
+  return result;
+};
+
+// Turn net balances into the smallest set of payer -> payee transfers
+export const computeSettlementPlan = (
+  balances: Pick<MemberBalance, 'userId' | 'balance'>[]
+): SettlementTransfer[] => {
+  const entries = balances
+    .map((b) => ({ userId: b.userId, cents: Math.round(b.balance * 100) }))
+    .filter((e) => e.cents !== 0);
+
+  if (entries.length === 0) return [];
+
+  // Rounding can leave the group a few cents off zero; absorb the drift into the largest creditor
+  const drift = entries.reduce((sum, e) => sum + e.cents, 0);
+  if (drift !== 0) {
+    const largest = entries.reduce((max, e) => (e.cents > max.cents ? e : max), entries[0]);
+    largest.cents -= drift;
+  }
+
+  const groups =
+    entries.length <= EXACT_SETTLEMENT_LIMIT ? partitionIntoZeroSumGroups(entries) : [entries];
+
+  return groups.flatMap(settleGroupGreedy);
+};
+
+// A recorded payment can be undone by the people it involves, whoever recorded it, or the trip owner
+export const canUndoSettlement = (
+  settlement: Pick<Settlement, 'payerId' | 'payeeId' | 'recordedBy'>,
+  userId: string | null | undefined,
+  role: CollaboratorRole | null | undefined
+): boolean =>
+  !!userId &&
+  (userId === settlement.payerId ||
+    userId === settlement.payeeId ||
+    userId === settlement.recordedBy ||
+    role === 'owner');
@@ -0,0 +1,369 @@
+import { CreateInput, DocumentType, ItineraryCategory, ItineraryItem } from '../types/database';
+import { parseDateInLine } from './receipt-parser';
+
+// ============================================
+// Booking Confirmation Parsing
+// ============================================
+
+export type BookingKind = 'flight' | 'hotel' | 'event';
+
+export interface ParsedBooking {
+  kind: BookingKind;
+  title: string;
+  startTime: Date | null;
+  endTime: Date | null;
+  location: string | null;
+  reference: string | null; // Booking reference, PNR or confirmation number
+  notes: string | null;
+}
+
+export interface BookingParseOptions {
+  // Read ambiguous numeric dates like 03/04/2025 as day/month (default) or month/day
+  dayFirst?: boolean;
+}
+
+// Whether a locale writes numeric dates day before month (en-GB, de-DE) rather than after (en-US).
+// Defaults to the device locale.
+export const isDayFirstLocale = (locale?: string): boolean => {
+  const parts = new Intl.DateTimeFormat(locale, { day: 'numeric', month: 'numeric' }).formatToParts(
+    new Date(2000, 11, 31)
+  );
+  return parts.findIndex((part) => part.type === 'day') < parts.findIndex((part) => part.type === 'month');
+};
+
+export const BOOKING_CATEGORIES: Record<BookingKind, ItineraryCategory> = {
+  flight: 'transport',
+  hotel: 'accommodation',
+  event: 'activity',
+};
+
+export const BOOKING_DOCUMENT_TYPES: Record<BookingKind, DocumentType> = {
+  flight: 'flight',
+  hotel: 'hotel',
+  event: 'activity',
+};
+
+// Used when a confirmation gives check-in and check-out dates without times
+const DEFAULT_CHECK_IN_HOUR = 15;
+const DEFAULT_CHECK_OUT_HOUR = 11;
+
+// IATA flight numbers: two-character airline designator, then up to four digits ("TP 1351", "UA901", "U2 8021")
+const FLIGHT_NUMBER = /\b([A-Z]{2}|[A-Z]\d|\d[A-Z])\s?(\d{1,4})\b/;
+const FLIGHT_LINE = /\bflight\b/i;
+
+const REFERENCE =
+  /\b(?:booking\s+ref(?:erence)?|confirmation\s+(?:number|code|no\.?|#)|reservation\s+(?:number|code|no\.?)|record\s+locator|pnr)\s*(?:[:#]|is)?\s*([A-Z0-9][A-Z0-9.-]{3,}[A-Z0-9])/i;
+
+const CHECK_IN_LINE = /\bcheck[\s-]*in\b/i;
+const CHECK_OUT_LINE = /\bcheck[\s-]*out\b/i;
+const DEPARTURE_LINE = /\bdepart(?:s|ure|ing)?\b/i;
+const ARRIVAL_LINE = /\barriv(?:e|es|al|ing)\b/i;
+
+const HOTEL_NAME_PATTERNS = [
+  /^(?:hotel|property|accommodation)(?:\s+name)?\s*:\s*(.+)$/im,
+  /\b(?:booking|reservation|stay)\s+at\s+(.+?)(?:\s+is\s+confirmed|[.!,]|$)/im,
+];
+const ADDRESS_LINE = /^address\s*:\s*(.+)$/im;
+const HOTEL_WORDS = /\b(hotel|hostel|inn|resort|suites?|apartments?|guest\s?house|b&b|check[\s-]*in)\b/i;
+
+// An airport with its code in brackets, such as "London Heathrow (LHR)"
+const AIRPORT = /([A-Za-z][A-Za-z .'-]*?)\s*\(([A-Z]{3})\)/g;
+// Labels and times that can run into the airport name, as in "Departs 5:40 PM San Francisco (SFO)"
+const AIRPORT_LABEL_PREFIX = /^(?:(?:depart(?:s|ure|ing)?|arriv(?:e|es|al|ing)|from|to|[ap]\.?m\.?)\b\s*:?\s*)+/i;
+
+// Numeric dates are removed before looking for a time, so "10.06.2025" isn't read as 10:06
+const NUMERIC_DATE = /\b\d{1,4}[-/.]\d{1,2}[-/.]\d{2,4}\b/g;
+
+const parseTimeInLine = (line: string): { hours: number; minutes: number } | null => {
+  const text = line.replace(NUMERIC_DATE, ' ');
+  const match =
+    /\b([01]?\d|2[0-3])[:.h]([0-5]\d)\s*([ap])?\.?m?\b/i.exec(text) ||
+    /\b(1[0-2]|0?[1-9])()\s*([ap])\.?m\b/i.exec(text);
+  if (!match) return null;
+
+  let hours = Number(match[1]);
+  const meridiem = match[3]?.toLowerCase();
+  if (meridiem === 'p' && hours < 12) hours += 12;
+  if (meridiem === 'a' && hours === 12) hours = 0;
+  return { hours, minutes: Number(match[2] || 0) };
+};
+
+const atTime = (date: Date, time: { hours: number; minutes: number } | null, fallbackHour: number = 0): Date => {
+  const result = new Date(date);
+  result.setHours(time ? time.hours : fallbackHour, time ? time.minutes : 0, 0, 0);
+  return result;
+};
+
+export const findBookingReference = (text: string): string | null => {
+  const match = REFERENCE.exec(text);
+  return match ? match[1] : null;
+};
+
+const findHotelName = (text: string): string | null => {
+  for (const pattern of HOTEL_NAME_PATTERNS) {
+    const match = pattern.exec(text);
+    if (match) return match[1].trim();
+  }
+  return null;
+};
+
+const formatAirport = (name: string, code: string): string => {
+  const label = name.replace(AIRPORT_LABEL_PREFIX, '').replace(/\s+/g, ' ').trim();
+  return label ? `${label} (${code})` : code;
+};
+
+// ============================================
+// Pasted confirmation emails
+// ============================================
+
+// One flight per segment: the lines from a "Flight XX 123" line up to the next one
+const parseFlightSegment = (lines: string[], dayFirst: boolean, reference: string | null): ParsedBooking => {
+  const [, airline, number] = FLIGHT_NUMBER.exec(lines[0])!;
+  const flightNumber = `${airline} ${number}`;
+
+  const airports = lines.flatMap((line) =>
+    [...line.matchAll(AIRPORT)].map((match) => ({ code: match[2], label: formatAirport(match[1], match[2]) }))
+  );
+  const [from, to] = airports;
+
+  let currentDate: Date | null = null;
+  let departure: Date | null = null;
+  let arrival: Date | null = null;
+  const untagged: Date[] = [];
+
+  for (const line of lines) {
+    const date = parseDateInLine(line, dayFirst);
+    if (date) currentDate = date;
+
+    const time = parseTimeInLine(line);
+    if (!time || !(date || currentDate)) continue;
+    const when = atTime((date || currentDate)!, time);
+
+    if (DEPARTURE_LINE.test(line) && !departure) departure = when;
+    else if (ARRIVAL_LINE.test(line) && !arrival) arrival = when;
+    else untagged.push(when);
+  }
+
+  // Without departure and arrival labels, the first two times in the segment are taken in order
+  departure = departure || untagged.shift() || null;
+  arrival = arrival || untagged.shift() || null;
+
+  // An arrival printed without its own date lands the next day when it would otherwise be earlier
+  if (departure && arrival && arrival < departure) arrival.setDate(arrival.getDate() + 1);
+
+  return {
+    kind: 'flight',
+    title: from && to ? `Flight ${flightNumber} ${from.code} → ${to.code}` : `Flight ${flightNumber}`,
+    startTime: departure,
+    endTime: arrival,
+    location: from?.label || null,
+    reference,
+    notes: from && to ? `${from.label} to ${to.label}` : null,
+  };
+};
+
+const parseHotel = (
+  text: string,
+  lines: string[],
+  dayFirst: boolean,
+  reference: string | null
+): ParsedBooking | null => {
+  // The date may sit on the line after the label, as in two-column layouts
+  const findDated = (pattern: RegExp) => {
+    const index = lines.findIndex((line) => pattern.test(line));
+    if (index === -1) return null;
+    const line = [lines[index], lines[index + 1]].find((candidate) => candidate && parseDateInLine(candidate, dayFirst));
+    return line ? { date: parseDateInLine(line, dayFirst)!, time: parseTimeInLine(line) } : null;
+  };
+
+  const checkIn = findDated(CHECK_IN_LINE);
+  if (!checkIn) return null;
+  const checkOut = findDated(CHECK_OUT_LINE);
+
+  const name = findHotelName(text) || lines.find((line) => HOTEL_WORDS.test(line) && !CHECK_IN_LINE.test(line)) || 'Hotel stay';
+  const address = ADDRESS_LINE.exec(text);
+
+  return {
+    kind: 'hotel',
+    title: name,
+    startTime: atTime(checkIn.date, checkIn.time, DEFAULT_CHECK_IN_HOUR),
+    endTime: checkOut ? atTime(checkOut.date, checkOut.time, DEFAULT_CHECK_OUT_HOUR) : null,
+    location: address ? address[1].trim() : name,
+    reference,
+    notes: null,
+  };
+};
+
+/**
+ * Flights and hotel stays found in a pasted confirmation email. Airline emails list one
+ * "Flight XX 123" block per leg; hotel emails give check-in and check-out dates. Anything
+ * that can't be read is left null for the user to fill in.
+ */
+export const parseConfirmationText = (text: string, options: BookingParseOptions = {}): ParsedBooking[] => {
+  const dayFirst = options.dayFirst ?? true;
+  const lines = text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean);
+  const reference = findBookingReference(text);
+
+  const segmentStarts = lines
+    .map((line, index) => (FLIGHT_LINE.test(line) && FLIGHT_NUMBER.test(line) ? index : -1))
+    .filter((index) => index !== -1);
+  const flights = segmentStarts.map((start, i) =>
+    parseFlightSegment(lines.slice(start, segmentStarts[i + 1] ?? lines.length), dayFirst, reference)
+  );
+
+  const hotel = parseHotel(text, lines, dayFirst, reference);
+  return hotel ? [...flights, hotel] : flights;
+};
+
+// ============================================
+// Calendar (.ics) files
+// ============================================
+
+interface IcsProperty {
+  params: Record<string, string>;
+  value: string;
+}
+
+const unescapeIcsText = (value: string): string =>
+  value.replace(/\\([\\;,nN])/g, (_, char: string) => (char.toLowerCase() === 'n' ? '\n' : char));
+
+// Milliseconds the zone is ahead of UTC at a given instant
+const getTimeZoneOffset = (time: number, timeZone: string): number => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(new Date(time));
+  const get = (type: string) => Number(parts.find((part) => part.type === type)?.value);
+  return Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second')) - time;
+};
+
+// DATE, UTC ("...Z"), zoned (TZID=...) or floating local DATE-TIME values
+const parseIcsDate = (property: IcsProperty | undefined): { date: Date; allDay: boolean } | null => {
+  const match = property && /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/.exec(property.value.trim());
+  if (!match) return null;
+
+  const [, year, month, day, hours, minutes, seconds, utc] = match;
+  const parts = [Number(year), Number(month) - 1, Number(day), Number(hours || 0), Number(minutes || 0), Number(seconds || 0)] as const;
+  if (hours === undefined) return { date: new Date(...parts), allDay: true };
+  if (utc) return { date: new Date(Date.UTC(...parts)), allDay: false };
+
+  const timeZone = property.params.TZID;
+  if (timeZone) {
+    try {
+      const wallTime = Date.UTC(...parts);
+      // Checked twice, since the offset at the guessed instant can differ across a DST change
+      const guess = wallTime - getTimeZoneOffset(wallTime, timeZone);
+      return { date: new Date(wallTime - getTimeZoneOffset(guess, timeZone)), allDay: false };
+    } catch {
+      // Unknown zone: read it as local time
+    }
+  }
+  return { date: new Date(...parts), allDay: false };
+};
+
+const parseIcsEvents = (ics: string): Record<string, IcsProperty>[] => {
+  // Long lines are folded onto continuation lines that start with a space or tab
+  const lines = ics.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const events: Record<string, IcsProperty>[] = [];
+  let current: Record<string, IcsProperty> | null = null;
+
+  for (const line of lines) {
+    if (/^BEGIN:VEVENT$/i.test(line)) {
+      current = {};
+    } else if (/^END:VEVENT$/i.test(line)) {
+      if (current) events.push(current);
+      current = null;
+    } else if (current) {
+      const separator = line.indexOf(':');
+      if (separator === -1) continue;
+      const [name, ...paramList] = line.slice(0, separator).split(';');
+      const params = Object.fromEntries(
+        paramList.map((param) => {
+          const [key, value = ''] = param.split('=');
+          return [key.toUpperCase(), value.replace(/^"|"$/g, '')];
+        })
+      );
+      current[name.toUpperCase()] = { params, value: line.slice(separator + 1) };
+    }
+  }
+  return events;
+};
+
+const getEventKind = (summary: string, description: string): BookingKind => {
+  if (FLIGHT_LINE.test(summary) && FLIGHT_NUMBER.test(summary)) return 'flight';
+  if (HOTEL_WORDS.test(summary) || (CHECK_IN_LINE.test(description) && CHECK_OUT_LINE.test(description))) return 'hotel';
+  return 'event';
+};
+
+/**
+ * Every event in a calendar file, typed as a flight, hotel stay or other booking from its
+ * summary. All-day hotel events run from check-in to check-out, at the times the description
+ * gives or the usual ones.
+ */
+export const parseIcsBookings = (ics: string): ParsedBooking[] =>
+  parseIcsEvents(ics).map((event) => {
+    const summary = unescapeIcsText(event.SUMMARY?.value || '').trim();
+    const description = unescapeIcsText(event.DESCRIPTION?.value || '').trim();
+    const location = unescapeIcsText(event.LOCATION?.value || '').trim() || null;
+    const kind = getEventKind(summary, description);
+    const start = parseIcsDate(event.DTSTART);
+    const end = parseIcsDate(event.DTEND);
+
+    let startTime = start?.date || null;
+    let endTime = end?.date || null;
+    if (kind === 'hotel') {
+      const descriptionLines = description.split('\n');
+      const timeOn = (pattern: RegExp) => {
+        const line = descriptionLines.find((candidate) => pattern.test(candidate));
+        return line ? parseTimeInLine(line) : null;
+      };
+      if (start?.allDay) startTime = atTime(start.date, timeOn(CHECK_IN_LINE), DEFAULT_CHECK_IN_HOUR);
+      if (end?.allDay) endTime = atTime(end.date, timeOn(CHECK_OUT_LINE), DEFAULT_CHECK_OUT_HOUR);
+    }
+
+    return {
+      kind,
+      title: (kind === 'hotel' && findHotelName(summary)) || summary || 'Imported booking',
+      startTime,
+      endTime,
+      location,
+      reference: findBookingReference(description) || findBookingReference(summary),
+      notes: description || null,
+    };
+  });
+
+// ============================================
+// Itinerary items
+// ============================================
+
+export const toItineraryItemInput = (
+  booking: ParsedBooking,
+  tripId: string,
+  addedBy: string
+): CreateInput<ItineraryItem> => ({
+  tripId,
+  title: booking.title,
+  // Calendar descriptions usually quote the reference already
+  description: [
+    booking.reference && !booking.notes?.includes(booking.reference) && `Booking reference: ${booking.reference}`,
+    booking.notes,
+  ]
+    .filter(Boolean)
+    .join('\n') || null,
+  location: booking.location,
+  category: BOOKING_CATEGORIES[booking.kind],
+  startTime: booking.startTime,
+  endTime: booking.endTime,
+  addedBy,
+  latitude: null,
+  longitude: null,
+});
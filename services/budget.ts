@@ -0,0 +1,106 @@
+import { Expense, ExpenseCategory, TripBudget } from '../types/database';
+import { getConvertedExpenseAmount } from './exchange-rates';
+
+// ============================================
+// Budget vs. Actual
+// ============================================
+
+export const BUDGET_CATEGORIES: ExpenseCategory[] = [
+  'food',
+  'transport',
+  'accommodation',
+  'activities',
+  'shopping',
+  'other',
+];
+
+// Fractions of a budget line at which collaborators get a reminder
+export const BUDGET_ALERT_THRESHOLDS = [0.8, 1];
+
+// Key used for the overall trip budget alongside the category keys
+export const TOTAL_BUDGET_KEY = 'total';
+
+export interface BudgetLine {
+  key: ExpenseCategory | typeof TOTAL_BUDGET_KEY;
+  limit: number;
+  spent: number;
+  remaining: number; // Negative once overspent
+  ratio: number; // spent / limit
+}
+
+export interface BudgetAlert {
+  key: BudgetLine['key'];
+  threshold: number;
+  spent: number;
+  limit: number;
+}
+
+// Sum spending per category, converted into the trip currency
+export const getSpendingByCategory = (
+  expenses: Pick<Expense, 'amount' | 'exchangeRate' | 'category'>[]
+): Record<ExpenseCategory, number> => {
+  const spending = Object.fromEntries(BUDGET_CATEGORIES.map((c) => [c, 0])) as Record<
+    ExpenseCategory,
+    number
+  >;
+  expenses.forEach((expense) => {
+    const category = expense.category && expense.category in spending ? expense.category : 'other';
+    spending[category] += getConvertedExpenseAmount(expense);
+  });
+  return spending;
+};
+
+const toLine = (key: BudgetLine['key'], limit: number, spent: number): BudgetLine => ({
+  key,
+  limit,
+  spent,
+  remaining: limit - spent,
+  ratio: limit > 0 ? spent / limit : 0,
+});
+
+// Budget lines for the overall total (if set) followed by every category with a limit
+export const computeBudgetStatus = (
+  budget: TripBudget | null | undefined,
+  expenses: Pick<Expense, 'amount' | 'exchangeRate' | 'category'>[]
+): BudgetLine[] => {
+  if (!budget) return [];
+
+  const spending = getSpendingByCategory(expenses);
+  const lines: BudgetLine[] = [];
+
+  if (budget.total && budget.total > 0) {
+    const totalSpent = Object.values(spending).reduce((sum, amount) => sum + amount, 0);
+    lines.push(toLine(TOTAL_BUDGET_KEY, budget.total, totalSpent));
+  }
+
+  BUDGET_CATEGORIES.forEach((category) => {
+    const limit = budget.categoryLimits?.[category];
+    if (limit && limit > 0) {
+      lines.push(toLine(category, limit, spending[category]));
+    }
+  });
+
+  return lines;
+};
+
+// Work out which thresholds were newly crossed since the last alerts were sent.
+// Levels drop back down when spending falls (e.g. an expense is edited), so a line can alert again.
+export const getPendingBudgetAlerts = (
+  lines: BudgetLine[],
+  sentLevels: Record<string, number> = {}
+): { alerts: BudgetAlert[]; levels: Record<string, number> } => {
+  const alerts: BudgetAlert[] = [];
+  const levels: Record<string, number> = {};
+
+  lines.forEach((line) => {
+    const crossed = BUDGET_ALERT_THRESHOLDS.filter((t) => line.ratio >= t);
+    const level = crossed.length > 0 ? crossed[crossed.length - 1] : 0;
+    if (level > 0) levels[line.key] = level;
+
+    if (level > (sentLevels[line.key] || 0)) {
+      alerts.push({ key: line.key, threshold: level, spent: line.spent, limit: line.limit });
+    }
+  });
+
+  return { alerts, levels };
+};
@@ -0,0 +1,131 @@
+// ============================================
+// Offline Cache Policy
+// ============================================
+
+export type CacheEntryKind = 'document' | 'mapRegion';
+
+// One evictable item in the offline cache, as recorded in the cache indexes
+export interface CacheEntry {
+  id: string;
+  kind: CacheEntryKind;
+  tripId: string;
+  bytes: number;
+  lastAccessedAt: number;
+}
+
+export interface CacheUsage {
+  documents: number;
+  maps: number;
+  total: number;
+}
+
+export interface CacheSettings {
+  storageBudgetMB: number;
+  autoCleanAfterDays: number | null; // Ended trips are removed this long after their end date; null keeps them
+  pinnedTripIds: string[]; // Never evicted or auto-cleaned
+}
+
+export interface TripDateRange {
+  id: string;
+  startDate: Date | string; // Cached trip lists come back from storage with ISO strings
+  endDate: Date | string;
+}
+
+export interface CacheCleanupPlan {
+  expiredTripIds: string[];
+  evictions: CacheEntry[];
+}
+
+export const STORAGE_BUDGET_OPTIONS_MB = [250, 500, 1000, 2000];
+export const AUTO_CLEAN_OPTIONS_DAYS: (number | null)[] = [7, 30, 90, null];
+
+export const DEFAULT_CACHE_SETTINGS: CacheSettings = {
+  storageBudgetMB: 500,
+  autoCleanAfterDays: 30,
+  pinnedTripIds: [],
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const BYTES_PER_MB = 1024 * 1024;
+
+// Trips starting this soon count as active, so what was downloaded for them survives until departure
+const UPCOMING_TRIP_DAYS = 7;
+
+const toTime = (value: Date | string) => new Date(value).getTime();
+
+// Underway or about to start; end dates are whole days, so the last day counts too
+export const isTripActive = (trip: TripDateRange, now: number = Date.now()): boolean =>
+  toTime(trip.startDate) - UPCOMING_TRIP_DAYS * DAY_MS <= now && now < toTime(trip.endDate) + DAY_MS;
+
+export const getProtectedTripIds = (
+  trips: TripDateRange[],
+  settings: CacheSettings,
+  now: number = Date.now()
+): Set<string> =>
+  new Set([...settings.pinnedTripIds, ...trips.filter((trip) => isTripActive(trip, now)).map((trip) => trip.id)]);
+
+export const getExpiredTripIds = (
+  trips: TripDateRange[],
+  settings: CacheSettings,
+  now: number = Date.now()
+): string[] => {
+  if (settings.autoCleanAfterDays === null) return [];
+  const cutoff = now - settings.autoCleanAfterDays * DAY_MS;
+  return trips
+    .filter((trip) => !settings.pinnedTripIds.includes(trip.id) && toTime(trip.endDate) + DAY_MS <= cutoff)
+    .map((trip) => trip.id);
+};
+
+export const getCacheUsage = (entries: CacheEntry[]): CacheUsage => {
+  const usage = { documents: 0, maps: 0, total: 0 };
+  for (const entry of entries) {
+    if (entry.kind === 'document') usage.documents += entry.bytes;
+    else usage.maps += entry.bytes;
+    usage.total += entry.bytes;
+  }
+  return usage;
+};
+
+// Least recently used first until the rest fits the budget; protected entries are never picked,
+// so the cache can stay over budget when protected trips alone exceed it
+export const selectEvictions = (
+  entries: CacheEntry[],
+  budgetBytes: number,
+  isProtected: (entry: CacheEntry) => boolean
+): CacheEntry[] => {
+  let total = getCacheUsage(entries).total;
+  const evictions: CacheEntry[] = [];
+  const candidates = entries
+    .filter((entry) => !isProtected(entry))
+    .sort((a, b) => a.lastAccessedAt - b.lastAccessedAt);
+
+  for (const entry of candidates) {
+    if (total <= budgetBytes) break;
+    evictions.push(entry);
+    total -= entry.bytes;
+  }
+  return evictions;
+};
+
+// Everything from long-ended trips goes first, then least recently used entries until the cache fits.
+// keepEntryIds covers what the user has just downloaded, so a new download is never evicted straight away
+export const planCacheCleanup = (
+  entries: CacheEntry[],
+  trips: TripDateRange[],
+  settings: CacheSettings,
+  keepEntryIds: string[] = [],
+  now: number = Date.now()
+): CacheCleanupPlan => {
+  const expiredTripIds = getExpiredTripIds(trips, settings, now);
+  const protectedTripIds = getProtectedTripIds(trips, settings, now);
+  const remaining = entries.filter((entry) => !expiredTripIds.includes(entry.tripId));
+
+  return {
+    expiredTripIds,
+    evictions: selectEvictions(
+      remaining,
+      settings.storageBudgetMB * BYTES_PER_MB,
+      (entry) => protectedTripIds.has(entry.tripId) || keepEntryIds.includes(entry.id)
+    ),
+  };
+};
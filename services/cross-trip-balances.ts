@@ -0,0 +1,90 @@
+import { roundAmount, SettlementTransfer } from './balances';
+
+// ============================================
+// Cross-Trip Balances
+// ============================================
+
+// One trip's settlement plan, with the rate used to show it in the user's currency
+export interface TripLedger {
+  tripId: string;
+  tripTitle: string;
+  currency: string;
+  rateToDisplay: number; // 1 unit of the trip currency in the display currency
+  transfers: SettlementTransfer[];
+}
+
+export interface TripPairBalance {
+  tripId: string;
+  tripTitle: string;
+  currency: string;
+  amount: number; // Trip currency; positive when the counterpart owes the user
+  displayAmount: number; // Same amount in the display currency
+}
+
+export interface CounterpartBalance {
+  userId: string;
+  net: number; // Display currency; positive when the counterpart owes the user overall
+  trips: TripPairBalance[];
+}
+
+export interface CombinedSettlementEntry {
+  tripId: string;
+  payerId: string;
+  payeeId: string;
+  amount: number;
+  currency: string;
+}
+
+// Outstanding amounts between the user and each counterpart across all trips,
+// netted in the display currency. Counterparts with nothing outstanding are left out.
+export const aggregateCounterpartBalances = (
+  userId: string,
+  ledgers: TripLedger[]
+): CounterpartBalance[] => {
+  const byCounterpart: Record<string, TripPairBalance[]> = {};
+
+  ledgers.forEach((ledger) => {
+    const amounts: Record<string, number> = {};
+    ledger.transfers.forEach((transfer) => {
+      if (transfer.toUserId === userId) {
+        amounts[transfer.fromUserId] = (amounts[transfer.fromUserId] || 0) + transfer.amount;
+      } else if (transfer.fromUserId === userId) {
+        amounts[transfer.toUserId] = (amounts[transfer.toUserId] || 0) - transfer.amount;
+      }
+    });
+
+    Object.entries(amounts).forEach(([counterpartId, amount]) => {
+      if (roundAmount(amount) === 0) return;
+      if (!byCounterpart[counterpartId]) byCounterpart[counterpartId] = [];
+      byCounterpart[counterpartId].push({
+        tripId: ledger.tripId,
+        tripTitle: ledger.tripTitle,
+        currency: ledger.currency,
+        amount: roundAmount(amount),
+        displayAmount: roundAmount(amount * ledger.rateToDisplay),
+      });
+    });
+  });
+
+  return Object.entries(byCounterpart)
+    .map(([counterpartId, trips]) => ({
+      userId: counterpartId,
+      net: roundAmount(trips.reduce((sum, trip) => sum + trip.displayAmount, 0)),
+      trips: trips.sort((a, b) => Math.abs(b.displayAmount) - Math.abs(a.displayAmount)),
+    }))
+    .sort((a, b) => Math.abs(b.net) - Math.abs(a.net));
+};
+
+// Settling the combined amount records one settlement per trip, each in that trip's currency,
+// so every trip's own balances close out even though only the net changes hands
+export const buildCombinedSettlements = (
+  userId: string,
+  counterpart: CounterpartBalance
+): CombinedSettlementEntry[] =>
+  counterpart.trips.map((trip) => ({
+    tripId: trip.tripId,
+    payerId: trip.amount > 0 ? counterpart.userId : userId,
+    payeeId: trip.amount > 0 ? userId : counterpart.userId,
+    amount: Math.abs(trip.amount),
+    currency: trip.currency,
+  }));
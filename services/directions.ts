@@ -63,12 +63,7 @@ export interface RouteRequest {
   mode?: 'driving' | 'walking' | 'bicycling' | 'transit';
 }
 
-export const getDirections = async ({ origin, destination, waypoints = [], mode = 'driving' }: RouteRequest) => {
-  if (!GOOGLE_MAPS_API_KEY) {
-    console.warn('Google Maps API key not found');
-    return [];
-  }
-
+const buildDirectionsUrl = ({ origin, destination, waypoints = [], mode = 'driving' }: RouteRequest) => {
   const originStr = `${origin.latitude},${origin.longitude}`;
   const destStr = `${destination.latitude},${destination.longitude}`;
   
@@ -80,9 +75,17 @@ export const getDirections = async ({ origin, destination, waypoints = [], mode
       .join('|');
     url += `&waypoints=optimize:true|${waypointsStr}`;
   }
+  return url;
+};
+
+export const getDirections = async (request: RouteRequest) => {
+  if (!GOOGLE_MAPS_API_KEY) {
+    console.warn('Google Maps API key not found');
+    return [];
+  }
 
   try {
-    const response = await fetch(url);
+    const response = await fetch(buildDirectionsUrl(request));
     const data = await response.json();
 
     if (data.status === 'OK' && data.routes.length > 0) {
@@ -96,3 +99,30 @@ export const getDirections = async ({ origin, destination, waypoints = [], mode
     return [];
   }
 };
+
+/**
+ * Travel time in minutes along the route, or null when there is no route or no API key,
+ * so callers can fall back to their own estimate
+ */
+export const getTravelMinutes = async (request: RouteRequest): Promise<number | null> => {
+  if (!GOOGLE_MAPS_API_KEY) {
+    return null;
+  }
+
+  try {
+    const response = await fetch(buildDirectionsUrl(request));
+    const data = await response.json();
+
+    if (data.status === 'OK' && data.routes.length > 0) {
+      const seconds = data.routes[0].legs.reduce(
+        (total: number, leg: { duration: { value: number } }) => total + leg.duration.value,
+        0
+      );
+      return seconds / 60;
+    }
+    return null;
+  } catch (error) {
+    console.error('Error fetching travel time:', error);
+    return null;
+  }
+};
@@ -0,0 +1,103 @@
+import { Expense } from '../types/database';
+import { EXCHANGE_RATES } from './pricing';
+
+// ============================================
+// Exchange Rate Providers
+// ============================================
+
+export interface ExchangeRateProvider {
+  name: string;
+  // Returns how many units of `to` one unit of `from` is worth
+  getRate: (from: string, to: string) => Promise<number>;
+}
+
+// Provider backed by a fixed table of rates against a common base currency. Defaults to the
+// USD-based table pricing uses, which also stands in for live rates when offline.
+export const createStaticRateProvider = (
+  ratesPerBase: Record<string, number> = EXCHANGE_RATES
+): ExchangeRateProvider => ({
+  name: 'static',
+  getRate: async (from: string, to: string) => {
+    const fromRate = ratesPerBase[from];
+    const toRate = ratesPerBase[to];
+    if (!fromRate || !toRate) {
+      throw new Error(`No exchange rate available for ${from} → ${to}`);
+    }
+    return toRate / fromRate;
+  },
+});
+
+// Rates are cached per base currency for an hour to avoid refetching on every keystroke
+const HTTP_CACHE_TTL_MS = 60 * 60 * 1000;
+
+// Base URL of a rates API that answers `${url}/${base}` with `{ rates: { [code]: number } }`.
+// There is no default: without one the app converts with the static table.
+export const getExchangeRatesUrl = (): string | null => process.env.EXPO_PUBLIC_EXCHANGE_RATES_URL || null;
+
+// Provider backed by a rates API, falling back to the static table when a request fails
+export const createHttpRateProvider = (
+  baseUrl: string,
+  fallback: ExchangeRateProvider = createStaticRateProvider()
+): ExchangeRateProvider => {
+  const cache: Record<string, { rates: Record<string, number>; fetchedAt: number }> = {};
+
+  return {
+    name: 'http',
+    getRate: async (from: string, to: string) => {
+      try {
+        const cached = cache[from];
+        let rates = cached && Date.now() - cached.fetchedAt < HTTP_CACHE_TTL_MS ? cached.rates : null;
+
+        if (!rates) {
+          const response = await fetch(`${baseUrl}/${encodeURIComponent(from)}`);
+          if (!response.ok) {
+            throw new Error(`Rate request failed with status ${response.status}`);
+          }
+          const data = await response.json();
+          rates = (data?.rates || {}) as Record<string, number>;
+          cache[from] = { rates, fetchedAt: Date.now() };
+        }
+
+        if (!rates[to]) {
+          throw new Error(`No exchange rate available for ${from} → ${to}`);
+        }
+        return rates[to];
+      } catch (error) {
+        console.warn('Falling back to offline exchange rates:', error);
+        return fallback.getRate(from, to);
+      }
+    },
+  };
+};
+
+const ratesUrl = getExchangeRatesUrl();
+let activeProvider: ExchangeRateProvider = ratesUrl ? createHttpRateProvider(ratesUrl) : createStaticRateProvider();
+
+export const setExchangeRateProvider = (provider: ExchangeRateProvider): void => {
+  activeProvider = provider;
+};
+
+export const getExchangeRateProvider = (): ExchangeRateProvider => activeProvider;
+
+export const getExchangeRate = async (from: string, to: string): Promise<number> => {
+  if (from === to) return 1;
+  return activeProvider.getRate(from, to);
+};
+
+// ============================================
+// Expense Conversion Helpers
+// ============================================
+
+// Rate stored on the expense at entry time (expense currency → trip currency).
+// Expenses logged before multi-currency support were always in the trip currency.
+export const getExpenseExchangeRate = (expense: Pick<Expense, 'exchangeRate'>): number => {
+  const rate = expense.exchangeRate;
+  return typeof rate === 'number' && rate > 0 ? rate : 1;
+};
+
+// Convert an amount in the expense's own currency (its total or a share) into the trip currency
+export const toTripCurrency = (amount: number, expense: Pick<Expense, 'exchangeRate'>): number =>
+  amount * getExpenseExchangeRate(expense);
+
+export const getConvertedExpenseAmount = (expense: Pick<Expense, 'amount' | 'exchangeRate'>): number =>
+  toTripCurrency(expense.amount, expense);
@@ -0,0 +1,165 @@
+import { Expense, ExpenseCategory, ExpenseShare, Trip, TripBudget } from '../types/database';
+import { computeMemberBalances, roundAmount } from './balances';
+import { BUDGET_CATEGORIES, getSpendingByCategory } from './budget';
+import { getConvertedExpenseAmount } from './exchange-rates';
+
+// ============================================
+// Trip Spending Analytics
+// ============================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type AnalyticsExpense = Pick<Expense, 'amount' | 'exchangeRate' | 'occurrenceDate' | 'createdAt'>;
+
+export interface DailySpendPoint {
+  date: Date; // Local midnight
+  amount: number;
+  inTrip: boolean; // False for spending before or after the trip dates (e.g. advance bookings)
+}
+
+export interface MemberSpend {
+  userId: string;
+  paid: number; // What this member paid for the group
+  consumed: number; // This member's shares across all expenses
+  net: number; // paid - consumed, before settlements
+}
+
+export interface TripBurnRate {
+  totalSpent: number;
+  totalDays: number;
+  elapsedDays: number; // Trip days up to and including today
+  averageDaily: number; // Over elapsed days (over all days once the trip is over)
+  projectedTotal: number; // Spent so far plus the average for every remaining day
+}
+
+export interface EstimateLine {
+  key: ExpenseCategory | 'total';
+  estimated: number;
+  actual: number;
+  difference: number; // Positive when over the estimate
+}
+
+const startOfDay = (date: Date): Date => {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+};
+
+// Whole calendar days from `from` to `to` (negative when `to` is earlier)
+const daysBetween = (from: Date, to: Date): number =>
+  Math.round((startOfDay(to).getTime() - startOfDay(from).getTime()) / DAY_MS);
+
+// The day an expense belongs to: its occurrence or receipt date, otherwise when it was logged
+export const getExpenseDate = (expense: Pick<Expense, 'occurrenceDate' | 'createdAt'>): Date =>
+  startOfDay(expense.occurrenceDate || expense.createdAt);
+
+export const getTripDayCount = (startDate: Date, endDate: Date): number =>
+  Math.max(1, daysBetween(startDate, endDate) + 1);
+
+// Spend for every trip day (zero-filled), plus any days outside the trip that had spending
+export const computeDailySpendSeries = (
+  expenses: AnalyticsExpense[],
+  startDate: Date,
+  endDate: Date
+): DailySpendPoint[] => {
+  const totals: Record<number, number> = {};
+  expenses.forEach((expense) => {
+    const time = getExpenseDate(expense).getTime();
+    totals[time] = (totals[time] || 0) + getConvertedExpenseAmount(expense);
+  });
+
+  const first = startOfDay(startDate);
+  const dayCount = getTripDayCount(startDate, endDate);
+  const tripTimes = Array.from({ length: dayCount }, (_, index) => {
+    const day = new Date(first);
+    day.setDate(first.getDate() + index);
+    return day.getTime();
+  });
+  const tripTimeSet = new Set(tripTimes);
+  const outsideTimes = Object.keys(totals)
+    .map(Number)
+    .filter((time) => !tripTimeSet.has(time));
+
+  return [...tripTimes, ...outsideTimes]
+    .sort((a, b) => a - b)
+    .map((time) => ({
+      date: new Date(time),
+      amount: roundAmount(totals[time] || 0),
+      inTrip: tripTimeSet.has(time),
+    }));
+};
+
+// Paid vs. consumed for every member, largest consumer first
+export const computeMemberSpend = (
+  expenses: Expense[],
+  sharesByExpense: Record<string, ExpenseShare[]>,
+  memberIds: string[]
+): MemberSpend[] =>
+  computeMemberBalances(expenses, sharesByExpense, memberIds)
+    .map((balance) => ({
+      userId: balance.userId,
+      paid: balance.paid,
+      consumed: balance.owed,
+      net: roundAmount(balance.paid - balance.owed),
+    }))
+    .sort((a, b) => b.consumed - a.consumed);
+
+export const computeBurnRate = (
+  expenses: Pick<Expense, 'amount' | 'exchangeRate'>[],
+  startDate: Date,
+  endDate: Date,
+  now: Date = new Date()
+): TripBurnRate => {
+  const totalSpent = roundAmount(
+    expenses.reduce((sum, expense) => sum + getConvertedExpenseAmount(expense), 0)
+  );
+  const totalDays = getTripDayCount(startDate, endDate);
+  const elapsedDays = Math.min(totalDays, Math.max(0, daysBetween(startDate, now) + 1));
+
+  // Before the trip starts there is no burn yet; the projection is what is already booked
+  const averageDaily = elapsedDays > 0 ? totalSpent / elapsedDays : 0;
+
+  return {
+    totalSpent,
+    totalDays,
+    elapsedDays,
+    averageDaily: roundAmount(averageDaily),
+    projectedTotal: roundAmount(totalSpent + averageDaily * (totalDays - elapsedDays)),
+  };
+};
+
+// The AI plan estimate, also for trips created before it was stored separately from the budget
+export const getPlanEstimate = (
+  trip: Pick<Trip, 'planEstimate' | 'budget'> | null | undefined
+): TripBudget | null => {
+  if (trip?.planEstimate) return trip.planEstimate;
+  return trip?.budget?.source === 'ai' ? trip.budget : null;
+};
+
+// Actual spending against the estimate, for the total (projected at trip end) and each estimated category
+export const compareWithEstimate = (
+  estimate: TripBudget,
+  expenses: Pick<Expense, 'amount' | 'exchangeRate' | 'category'>[],
+  projectedTotal: number
+): EstimateLine[] => {
+  const spending = getSpendingByCategory(expenses);
+  const lines: EstimateLine[] = [];
+
+  if (estimate.total && estimate.total > 0) {
+    lines.push({
+      key: 'total',
+      estimated: estimate.total,
+      actual: projectedTotal,
+      difference: roundAmount(projectedTotal - estimate.total),
+    });
+  }
+
+  BUDGET_CATEGORIES.forEach((category) => {
+    const estimated = estimate.categoryLimits?.[category];
+    if (!estimated || estimated <= 0) return;
+    const actual = roundAmount(spending[category]);
+    lines.push({ key: category, estimated, actual, difference: roundAmount(actual - estimated) });
+  });
+
+  return lines;
+};
@@ -0,0 +1,90 @@
+import { CollaboratorRole, ExpenseAuditChange, ExpenseAuditValue } from '../types/database';
+import { roundAmount } from './balances';
+
+// ============================================
+// Expense Change Log & Trash
+// ============================================
+
+export const TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Fields recorded in the change log, in display order
+export const AUDITED_EXPENSE_FIELDS = [
+  'title',
+  'amount',
+  'currency',
+  'exchangeRate',
+  'paidBy',
+  'category',
+  'splitType',
+  'shares',
+  'itineraryItemId',
+  'receiptDocumentId',
+  'occurrenceDate',
+] as const;
+
+export type AuditedExpenseField = (typeof AUDITED_EXPENSE_FIELDS)[number];
+
+// Any expense shape the app writes: a stored Expense, form input, or a raw document
+export interface AuditableExpense {
+  title?: string;
+  amount?: number;
+  currency?: string;
+  exchangeRate?: number | null;
+  paidBy?: string;
+  category?: string | null;
+  splitType?: string | null;
+  itineraryItemId?: string | null;
+  receiptDocumentId?: string | null;
+  occurrenceDate?: Date | null;
+  shares?: { userId: string; shareAmount: number }[];
+}
+
+const toAuditValue = (expense: AuditableExpense, field: AuditedExpenseField): ExpenseAuditValue => {
+  if (field === 'shares') {
+    if (!expense.shares || expense.shares.length === 0) return null;
+    return [...expense.shares]
+      .sort((a, b) => a.userId.localeCompare(b.userId))
+      .reduce<Record<string, number>>((acc, share) => {
+        acc[share.userId] = roundAmount(share.shareAmount);
+        return acc;
+      }, {});
+  }
+  if (field === 'occurrenceDate') {
+    return expense.occurrenceDate ? new Date(expense.occurrenceDate).toISOString() : null;
+  }
+  return expense[field] ?? null;
+};
+
+const isSameValue = (a: ExpenseAuditValue, b: ExpenseAuditValue): boolean =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+// Before/after pairs for every audited field that changed. Pass null as `before` for a
+// new expense and as `after` for a deleted one, so the entry records every value it had.
+export const diffExpense = (
+  before: AuditableExpense | null,
+  after: AuditableExpense | null
+): ExpenseAuditChange[] =>
+  AUDITED_EXPENSE_FIELDS.reduce<ExpenseAuditChange[]>((changes, field) => {
+    const beforeValue = before ? toAuditValue(before, field) : null;
+    const afterValue = after ? toAuditValue(after, field) : null;
+    if (!isSameValue(beforeValue, afterValue)) {
+      changes.push({ field, before: beforeValue, after: afterValue });
+    }
+    return changes;
+  }, []);
+
+export const getTrashExpiry = (deletedAt: Date): Date =>
+  new Date(deletedAt.getTime() + TRASH_RETENTION_DAYS * DAY_MS);
+
+export const isTrashExpired = (deletedAt: Date, now: Date = new Date()): boolean =>
+  now.getTime() >= getTrashExpiry(deletedAt).getTime();
+
+// Whole days left before a deleted expense is purged (0 once expired)
+export const getTrashDaysLeft = (deletedAt: Date, now: Date = new Date()): number =>
+  Math.max(0, Math.ceil((getTrashExpiry(deletedAt).getTime() - now.getTime()) / DAY_MS));
+
+// Viewers can see the trash but only owners and editors can bring expenses back
+export const canRestoreExpenses = (role: CollaboratorRole | null | undefined): boolean =>
+  role === 'owner' || role === 'editor';
@@ -0,0 +1,154 @@
+import * as FileSystem from 'expo-file-system/legacy';
+import * as Sharing from 'expo-sharing';
+import { Expense, ExpenseCategory, ExpenseShare } from '../types/database';
+import { getExpenseOwedAmounts, groupSharesByExpense, roundAmount } from './balances';
+import { getConvertedExpenseAmount, getExpenseExchangeRate } from './exchange-rates';
+
+// ============================================
+// Expense Export
+// ============================================
+
+export type ExpenseExportFormat = 'csv' | 'splitwise';
+
+export interface ExportMember {
+  id: string;
+  name: string;
+}
+
+export interface ExpenseExportInput {
+  expenses: Expense[];
+  shares: ExpenseShare[];
+  members: ExportMember[];
+  tripCurrency: string;
+}
+
+// Splitwise's own category names, so imported expenses land in a sensible bucket
+const SPLITWISE_CATEGORIES: Record<ExpenseCategory, string> = {
+  food: 'Dining out',
+  transport: 'Transportation',
+  accommodation: 'Hotel',
+  activities: 'Entertainment',
+  shopping: 'General',
+  other: 'General',
+};
+
+// Quote values containing separators, quotes or line breaks (RFC 4180)
+export const escapeCsvValue = (value: string | number | null | undefined): string => {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsvRow = (values: (string | number | null | undefined)[]): string =>
+  values.map(escapeCsvValue).join(',');
+
+const formatAmount = (amount: number): string => roundAmount(amount).toFixed(2);
+
+// YYYY-MM-DD in the device's local time
+const formatExportDate = (date: Date): string => {
+  const d = new Date(date);
+  const month = String(d.getMonth() + 1).padStart(2, '0');
+  const day = String(d.getDate()).padStart(2, '0');
+  return `${d.getFullYear()}-${month}-${day}`;
+};
+
+// Oldest first, which is what spreadsheet users and Splitwise expect
+const sortByDate = (expenses: Expense[]): Expense[] =>
+  [...expenses].sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+
+// One row per expense with the converted amount and each member's share in the trip currency
+export const buildExpensesCsv = ({ expenses, shares, members, tripCurrency }: ExpenseExportInput): string => {
+  const sharesByExpense = groupSharesByExpense(shares);
+  const memberIds = members.map((m) => m.id);
+  const nameById = Object.fromEntries(members.map((m) => [m.id, m.name]));
+
+  const header = toCsvRow([
+    'Date',
+    'Description',
+    'Category',
+    'Paid By',
+    'Amount',
+    'Currency',
+    'Exchange Rate',
+    `Amount (${tripCurrency})`,
+    ...members.map((m) => `${m.name} Share (${tripCurrency})`),
+  ]);
+
+  const rows = sortByDate(expenses).map((expense) => {
+    const owed = getExpenseOwedAmounts(expense, sharesByExpense[expense.id], memberIds);
+    return toCsvRow([
+      formatExportDate(expense.createdAt),
+      expense.title,
+      expense.category || 'other',
+      nameById[expense.paidBy] || 'Unknown',
+      formatAmount(expense.amount),
+      expense.currency,
+      getExpenseExchangeRate(expense),
+      formatAmount(getConvertedExpenseAmount(expense)),
+      ...members.map((m) => formatAmount(owed[m.id] || 0)),
+    ]);
+  });
+
+  return [header, ...rows].join('\n');
+};
+
+// Splitwise layout: each member column is their net for the expense
+// (amount paid minus their share) in the expense's own currency
+export const buildSplitwiseCsv = ({ expenses, shares, members }: ExpenseExportInput): string => {
+  const sharesByExpense = groupSharesByExpense(shares);
+  const memberIds = members.map((m) => m.id);
+
+  const header = toCsvRow(['Date', 'Description', 'Category', 'Cost', 'Currency', ...members.map((m) => m.name)]);
+
+  const rows = sortByDate(expenses).map((expense) => {
+    // Owed amounts come back in the trip currency; undo the conversion for Splitwise
+    const rate = getExpenseExchangeRate(expense);
+    const owed = getExpenseOwedAmounts(expense, sharesByExpense[expense.id], memberIds);
+
+    return toCsvRow([
+      formatExportDate(expense.createdAt),
+      expense.title,
+      SPLITWISE_CATEGORIES[expense.category || 'other'] || 'General',
+      formatAmount(expense.amount),
+      expense.currency,
+      ...members.map((m) => {
+        const paid = expense.paidBy === m.id ? expense.amount : 0;
+        return formatAmount(paid - (owed[m.id] || 0) / rate);
+      }),
+    ]);
+  });
+
+  return [header, ...rows].join('\n');
+};
+
+// Build a filesystem-safe file name from the trip title
+export const getExportFileName = (tripTitle: string, format: ExpenseExportFormat): string => {
+  const slug = tripTitle.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'trip';
+  return format === 'splitwise' ? `${slug}-splitwise.csv` : `${slug}-expenses.csv`;
+};
+
+// Write the export to the cache directory and open the OS share sheet
+export const shareExpenseExport = async (
+  tripTitle: string,
+  format: ExpenseExportFormat,
+  input: ExpenseExportInput
+): Promise<void> => {
+  const isAvailable = await Sharing.isAvailableAsync();
+  if (!isAvailable) {
+    throw new Error('Sharing is not available on this device');
+  }
+
+  const contents = format === 'splitwise' ? buildSplitwiseCsv(input) : buildExpensesCsv(input);
+  const fileName = getExportFileName(tripTitle, format);
+  const fileUri = `${FileSystem.cacheDirectory}${fileName}`;
+
+  await FileSystem.writeAsStringAsync(fileUri, contents, {
+    encoding: FileSystem.EncodingType.UTF8,
+  });
+
+  await Sharing.shareAsync(fileUri, {
+    mimeType: 'text/csv',
+    UTI: 'public.comma-separated-values-text',
+    dialogTitle: format === 'splitwise' ? 'Export for Splitwise' : 'Export Expenses',
+  });
+};
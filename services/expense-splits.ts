@@ -0,0 +1,161 @@
+import { ExpenseSplitDefinition, ExpenseSplitItem } from '../types/database';
+
+// ============================================
+// Split Resolution
+// ============================================
+
+const toCents = (amount: number): number => Math.round((amount || 0) * 100);
+
+// Divide a total (in cents) proportionally to weights using the largest remainder method,
+// so the resulting parts always add back up to the exact total
+export const allocateCents = (
+  totalCents: number,
+  weights: { userId: string; weight: number }[]
+): Record<string, number> => {
+  const positive = weights.filter((w) => w.weight > 0);
+  const totalWeight = positive.reduce((sum, w) => sum + w.weight, 0);
+  const result: Record<string, number> = {};
+  if (positive.length === 0 || totalWeight <= 0) return result;
+
+  const parts = positive.map((w) => {
+    const exact = (totalCents * w.weight) / totalWeight;
+    return { userId: w.userId, cents: Math.floor(exact), remainder: exact - Math.floor(exact) };
+  });
+
+  let leftover = totalCents - parts.reduce((sum, p) => sum + p.cents, 0);
+  [...parts]
+    .sort((a, b) => b.remainder - a.remainder)
+    .forEach((part) => {
+      if (leftover > 0) {
+        part.cents += 1;
+        leftover -= 1;
+      }
+    });
+
+  parts.forEach((p) => {
+    result[p.userId] = (result[p.userId] || 0) + p.cents;
+  });
+  return result;
+};
+
+export const getItemsSubtotal = (items: ExpenseSplitItem[] = []): number =>
+  items.reduce((sum, item) => sum + (item.amount || 0), 0);
+
+// Total of an itemized receipt including tax and tip
+export const getItemizedTotal = (split: Pick<ExpenseSplitDefinition, 'items' | 'tax' | 'tip'>): number =>
+  getItemsSubtotal(split.items) + (split.tax || 0) + (split.tip || 0);
+
+// Each member pays for the items assigned to them, plus tax and tip in proportion to those items
+const resolveItemizedCents = (
+  totalCents: number,
+  items: ExpenseSplitItem[]
+): Record<string, number> => {
+  const itemCents: Record<string, number> = {};
+
+  items.forEach((item) => {
+    const parts = allocateCents(
+      toCents(item.amount),
+      item.assignedTo.map((userId) => ({ userId, weight: 1 }))
+    );
+    Object.entries(parts).forEach(([userId, cents]) => {
+      itemCents[userId] = (itemCents[userId] || 0) + cents;
+    });
+  });
+
+  const subtotal = Object.values(itemCents).reduce((sum, cents) => sum + cents, 0);
+  const extras = allocateCents(
+    totalCents - subtotal,
+    Object.entries(itemCents).map(([userId, cents]) => ({ userId, weight: cents }))
+  );
+
+  const result: Record<string, number> = {};
+  Object.entries(itemCents).forEach(([userId, cents]) => {
+    result[userId] = cents + (extras[userId] || 0);
+  });
+  return result;
+};
+
+// Turn a split definition into the amount each member owes (in the expense currency)
+export const resolveSplitShares = (
+  amount: number,
+  split: ExpenseSplitDefinition
+): Record<string, number> => {
+  const totalCents = toCents(amount);
+  let cents: Record<string, number>;
+
+  switch (split.type) {
+    case 'custom':
+      cents = {};
+      split.participants.forEach((userId) => {
+        cents[userId] = toCents(split.customAmounts?.[userId] || 0);
+      });
+      break;
+    case 'percentage':
+      cents = allocateCents(
+        totalCents,
+        split.participants.map((userId) => ({ userId, weight: split.percentages?.[userId] || 0 }))
+      );
+      break;
+    case 'shares':
+      cents = allocateCents(
+        totalCents,
+        split.participants.map((userId) => ({ userId, weight: split.weights?.[userId] || 0 }))
+      );
+      break;
+    case 'itemized':
+      cents = resolveItemizedCents(totalCents, split.items || []);
+      break;
+    case 'equal':
+    default:
+      cents = allocateCents(
+        totalCents,
+        split.participants.map((userId) => ({ userId, weight: 1 }))
+      );
+      break;
+  }
+
+  const shares: Record<string, number> = {};
+  Object.entries(cents).forEach(([userId, value]) => {
+    if (value !== 0) shares[userId] = value / 100;
+  });
+  return shares;
+};
+
+// Returns a user-facing error message, or null when the split can be saved
+export const validateSplit = (amount: number, split: ExpenseSplitDefinition): string | null => {
+  const totalCents = toCents(amount);
+
+  switch (split.type) {
+    case 'custom': {
+      if (split.participants.length === 0) return 'Select at least one member';
+      const sum = split.participants.reduce(
+        (acc, userId) => acc + toCents(split.customAmounts?.[userId] || 0),
+        0
+      );
+      return sum === totalCents ? null : 'Custom amounts must equal the total expense amount';
+    }
+    case 'percentage': {
+      if (split.participants.length === 0) return 'Select at least one member';
+      const sum = split.participants.reduce((acc, userId) => acc + (split.percentages?.[userId] || 0), 0);
+      return Math.abs(sum - 100) < 0.01 ? null : 'Percentages must add up to 100';
+    }
+    case 'shares': {
+      const hasWeight = split.participants.some((userId) => (split.weights?.[userId] || 0) > 0);
+      return hasWeight ? null : 'Give at least one member a share';
+    }
+    case 'itemized': {
+      const items = split.items || [];
+      if (items.length === 0) return 'Add at least one item';
+      const invalidItem = items.find((item) => !(item.amount > 0));
+      if (invalidItem) return `Enter a price for "${invalidItem.name || 'Untitled item'}"`;
+      const unassigned = items.find((item) => item.assignedTo.length === 0);
+      if (unassigned) return `Assign "${unassigned.name || 'Untitled item'}" to at least one member`;
+      return toCents(getItemizedTotal(split)) === totalCents
+        ? null
+        : 'Items, tax and tip must add up to the total amount';
+    }
+    case 'equal':
+    default:
+      return split.participants.length > 0 ? null : 'Select at least one member';
+  }
+};
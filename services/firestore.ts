@@ -1,28 +1,61 @@
-import { addToOfflineQueue, cacheTrips, checkNetworkStatus } from '@/services/offline';
+import {
+    addToOfflineQueue,
+    cacheTrips,
+    checkNetworkStatus,
+    getOfflineQueue,
+    removeFromOfflineQueue,
+    removeTripSnapshot,
+    updateOfflineQueueItem,
+} from '@/services/offline';
 import {
     addDoc,
     collection,
     deleteDoc,
     doc,
     DocumentData,
+    DocumentReference,
     getDoc,
+    getDocFromCache,
     getDocs,
     orderBy,
     query,
     setDoc,
     Timestamp,
     updateDoc,
-    where
+    where,
+    writeBatch
 } from 'firebase/firestore';
 import { firestore } from '../config/firebase';
+import { canUndoSettlement } from './balances';
+import { AuditableExpense, canRestoreExpenses, diffExpense, getTrashExpiry, isTrashExpired } from './expense-audit';
+import { collectLocalIds, createLocalId, isLocalId, MutationBase } from './mutation-queue';
+import {
+    findQueuedExpenseCreate,
+    QueuedExpenseCreate,
+    queuedCreateToExpense,
+    QueuedExpenseUpdate,
+    QueuedShare,
+} from './offline-expenses';
+import { canDeleteItineraryContent } from './itinerary-comments';
+import { ItineraryTimeChange } from './itinerary-schedule';
+import { getFutureOccurrenceDates, getOccurrenceDates } from './recurring-expenses';
+import { TripSnapshotData } from './trip-snapshot';
 import {
     CollaboratorRole,
     COLLECTIONS,
     CreateInput,
+    DeletedExpense,
     Expense,
+    ExpenseAuditAction,
+    ExpenseAuditChange,
     ExpenseShare,
+    ExpenseSplitDefinition,
     InvitationStatus,
+    ItineraryComment,
     ItineraryItem,
+    RecurringExpenseTemplate,
+    Settlement,
+    SettlementMethod,
     Trip,
     TripCollaborator,
     TripDocument,
@@ -61,6 +94,74 @@ export const timestampToDate = (timestamp: Timestamp | null | undefined): Date =
 // Convert Date to Firestore Timestamp
 export const dateToTimestamp = (date: Date): Timestamp => Timestamp.fromDate(date);
 
+const timestampsToDates = (data: DocumentData): Record<string, unknown> =>
+  Object.fromEntries(
+    Object.entries(data).map(([key, value]) => [key, value instanceof Timestamp ? value.toDate() : value])
+  );
+
+// A document's raw fields, with Timestamps as Dates
+export const getDocumentData = async (
+  collectionName: string,
+  documentId: string
+): Promise<Record<string, unknown> | null> => {
+  const docSnap = await getDoc(doc(firestore, collectionName, sanitizeDocumentId(documentId)));
+  return docSnap.exists() ? timestampsToDates(docSnap.data()) : null;
+};
+
+type BatchWrite = (batch: ReturnType<typeof writeBatch>) => void;
+
+// Firestore caps a batch at 500 writes; long trips with many members can exceed that
+const BATCH_WRITE_LIMIT = 450;
+
+// Commit writes across as many batches as needed. Each group (a document and the documents that
+// belong to it, such as an expense and its shares) always lands in a single batch, so a failure
+// part way through never leaves one half-written.
+const commitBatchedWrites = async (groups: BatchWrite[][]): Promise<void> => {
+  let batch = writeBatch(firestore);
+  let size = 0;
+  for (const group of groups) {
+    if (size > 0 && size + group.length > BATCH_WRITE_LIMIT) {
+      await batch.commit();
+      batch = writeBatch(firestore);
+      size = 0;
+    }
+    group.forEach((write) => write(batch));
+    size += group.length;
+  }
+  if (size > 0) await batch.commit();
+};
+
+// ============================================
+// Offline Writes
+// ============================================
+
+// Writes wait in the offline queue while there is no connection, and also while they point at
+// records that so far only exist in the queue, so they reach Firestore after those do
+const shouldQueueWrite = async (data: unknown): Promise<boolean> =>
+  collectLocalIds(data).size > 0 || !(await checkNetworkStatus());
+
+// What an offline edit is made against, from Firestore's local cache when it has the document.
+// Without it the edit still syncs, just without a conflict check.
+const getMutationBase = async (
+  collectionName: string,
+  documentId: string,
+  fields: string[]
+): Promise<MutationBase> => {
+  if (isLocalId(documentId)) return {};
+  try {
+    const docSnap = await getDocFromCache(doc(firestore, collectionName, documentId));
+    if (!docSnap.exists()) return {};
+    const data = timestampsToDates(docSnap.data());
+    const updatedAt = (data.updatedAt || data.createdAt) as Date | undefined;
+    return {
+      base: Object.fromEntries(fields.map((field) => [field, data[field] ?? null])),
+      baseUpdatedAt: updatedAt ? updatedAt.getTime() : null,
+    };
+  } catch {
+    return {};
+  }
+};
+
 // ============================================
 // Users Collection
 // ============================================
@@ -106,7 +207,7 @@ export const createTrip = async (tripData: CreateInput<Trip>): Promise<string> =
   // If offline, queue the creation and cache locally
   const isOnline = await checkNetworkStatus();
   if (!isOnline) {
-    const tempId = `local_${Date.now()}`;
+    const tempId = createLocalId();
     const localTrip: Trip = {
       id: tempId,
       title: (tripData as any).title || 'Untitled Trip',
@@ -139,6 +240,7 @@ export const createTrip = async (tripData: CreateInput<Trip>): Promise<string> =
     startDate: dateToTimestamp(tripData.startDate as unknown as Date),
     endDate: dateToTimestamp(tripData.endDate as unknown as Date),
     createdAt: Timestamp.now(),
+    updatedAt: Timestamp.now(),
   });
   return docRef.id;
 };
@@ -182,16 +284,24 @@ export const updateTrip = async (tripId: string, data: Partial<Trip>): Promise<v
   if (data.startDate) updateData.startDate = dateToTimestamp(data.startDate);
   if (data.endDate) updateData.endDate = dateToTimestamp(data.endDate);
 
-  const isOnline = await checkNetworkStatus();
-  if (!isOnline) {
-    // Queue update for later sync
-    await addToOfflineQueue({ type: 'update', collection: COLLECTIONS.TRIPS, data: { tripId, updateData } });
+  if (await shouldQueueWrite(tripId)) {
+    // Queue the plain values for later sync; Timestamps don't survive storage
+    const changes = Object.fromEntries(Object.entries(data).filter(([_, v]) => v !== undefined)) as Partial<Trip>;
+    await addToOfflineQueue({
+      type: 'update',
+      collection: COLLECTIONS.TRIPS,
+      data: {
+        tripId,
+        updateData: changes,
+        ...(await getMutationBase(COLLECTIONS.TRIPS, tripId, Object.keys(changes))),
+      },
+    });
 
     // Optimistically update cached trips
     try {
       const { getCachedTrips, cacheTrips: cacheTripsData } = await import('@/services/offline');
       const cached = (await getCachedTrips()) || [];
-      const updated = cached.map((t: any) => (t.id === tripId ? { ...t, ...updateData } : t));
+      const updated = cached.map((t: any) => (t.id === tripId ? { ...t, ...changes } : t));
       await cacheTripsData(updated);
     } catch (err) {
       console.warn('Failed to update cached trip locally:', err);
@@ -199,13 +309,13 @@ export const updateTrip = async (tripId: string, data: Partial<Trip>): Promise<v
     return;
   }
 
-  await updateDoc(docRef, updateData);
+  await updateDoc(docRef, { ...updateData, updatedAt: Timestamp.now() });
 };
 
 export const deleteTrip = async (tripId: string): Promise<void> => {
   const docRef = doc(firestore, COLLECTIONS.TRIPS, tripId);
-  const isOnline = await checkNetworkStatus();
-  if (!isOnline) {
+  await removeTripSnapshot(tripId);
+  if (await shouldQueueWrite(tripId)) {
     await addToOfflineQueue({ type: 'delete', collection: COLLECTIONS.TRIPS, data: { tripId } });
     // Remove from cached trips
     try {
@@ -229,7 +339,17 @@ export const deleteTrip = async (tripId: string): Promise<void> => {
 export const collaboratorsCollection = collection(firestore, COLLECTIONS.TRIP_COLLABORATORS);
 
 export const addCollaborator = async (data: CreateInput<TripCollaborator>): Promise<string> => {
-  const docRef = await addDoc(collaboratorsCollection, data);
+  if (await shouldQueueWrite(data.tripId)) {
+    const tempId = createLocalId();
+    await addToOfflineQueue({
+      type: 'create',
+      collection: COLLECTIONS.TRIP_COLLABORATORS,
+      data: { tempId, collaboratorData: data },
+    });
+    return tempId;
+  }
+
+  const docRef = await addDoc(collaboratorsCollection, { ...data, updatedAt: Timestamp.now() });
   return docRef.id;
 };
 
@@ -246,13 +366,31 @@ export const getUserCollaborations = async (userId: string): Promise<TripCollabo
 };
 
 export const removeCollaborator = async (collaboratorId: string): Promise<void> => {
+  if (await shouldQueueWrite(collaboratorId)) {
+    await addToOfflineQueue({ type: 'delete', collection: COLLECTIONS.TRIP_COLLABORATORS, data: { collaboratorId } });
+    return;
+  }
+
   const docRef = doc(firestore, COLLECTIONS.TRIP_COLLABORATORS, collaboratorId);
   await deleteDoc(docRef);
 };
 
 export const updateCollaboratorRole = async (collaboratorId: string, role: CollaboratorRole): Promise<void> => {
+  if (await shouldQueueWrite(collaboratorId)) {
+    await addToOfflineQueue({
+      type: 'update',
+      collection: COLLECTIONS.TRIP_COLLABORATORS,
+      data: {
+        collaboratorId,
+        changes: { role },
+        ...(await getMutationBase(COLLECTIONS.TRIP_COLLABORATORS, collaboratorId, ['role'])),
+      },
+    });
+    return;
+  }
+
   const docRef = doc(firestore, COLLECTIONS.TRIP_COLLABORATORS, collaboratorId);
-  await updateDoc(docRef, { role });
+  await updateDoc(docRef, { role, updatedAt: Timestamp.now() });
 };
 
 export const getCollaboratorByUserAndTrip = async (userId: string, tripId: string): Promise<TripCollaborator | null> => {
@@ -528,15 +666,54 @@ export const resendInvitation = async (invitationId: string): Promise<string> =>
 export const itineraryCollection = collection(firestore, COLLECTIONS.ITINERARY_ITEMS);
 
 export const createItineraryItem = async (data: CreateInput<ItineraryItem>): Promise<string> => {
+  if (await shouldQueueWrite(data.tripId)) {
+    const tempId = createLocalId();
+    await addToOfflineQueue({
+      type: 'create',
+      collection: COLLECTIONS.ITINERARY_ITEMS,
+      data: { tempId, itemData: data },
+    });
+    return tempId;
+  }
+
   const docRef = await addDoc(itineraryCollection, {
     ...data,
     startTime: data.startTime ? dateToTimestamp(data.startTime as unknown as Date) : null,
     endTime: data.endTime ? dateToTimestamp(data.endTime as unknown as Date) : null,
     createdAt: Timestamp.now(),
+    updatedAt: Timestamp.now(),
   });
   return docRef.id;
 };
 
+// Several new items written together, such as bookings from an import, so a failure adds none of them
+export const createItineraryItems = async (items: CreateInput<ItineraryItem>[]): Promise<string[]> => {
+  if (items.length === 0) return [];
+  if (await shouldQueueWrite(items.map((item) => item.tripId))) {
+    const ids: string[] = [];
+    for (const item of items) {
+      ids.push(await createItineraryItem(item));
+    }
+    return ids;
+  }
+
+  const now = Timestamp.now();
+  const refs = items.map(() => doc(itineraryCollection));
+  await commitBatchedWrites(
+    items.map((item, index) => [
+      (batch) =>
+        batch.set(refs[index], {
+          ...item,
+          startTime: item.startTime ? dateToTimestamp(item.startTime as unknown as Date) : null,
+          endTime: item.endTime ? dateToTimestamp(item.endTime as unknown as Date) : null,
+          createdAt: now,
+          updatedAt: now,
+        }),
+    ])
+  );
+  return refs.map((ref) => ref.id);
+};
+
 export const getTripItinerary = async (tripId: string): Promise<ItineraryItem[]> => {
   const q = query(itineraryCollection, where('tripId', '==', tripId), orderBy('startTime', 'asc'));
   const snapshot = await getDocs(q);
@@ -553,16 +730,130 @@ export const getTripItinerary = async (tripId: string): Promise<ItineraryItem[]>
 };
 
 export const updateItineraryItem = async (itemId: string, data: Partial<ItineraryItem>): Promise<void> => {
+  if (await shouldQueueWrite(itemId)) {
+    await addToOfflineQueue({
+      type: 'update',
+      collection: COLLECTIONS.ITINERARY_ITEMS,
+      data: {
+        itemId,
+        changes: data,
+        ...(await getMutationBase(COLLECTIONS.ITINERARY_ITEMS, itemId, Object.keys(data))),
+      },
+    });
+    return;
+  }
+
   const docRef = doc(firestore, COLLECTIONS.ITINERARY_ITEMS, itemId);
-  const updateData: DocumentData = { ...data };
+  const updateData: DocumentData = { ...data, updatedAt: Timestamp.now() };
   if (data.startTime) updateData.startTime = dateToTimestamp(data.startTime);
   if (data.endTime) updateData.endTime = dateToTimestamp(data.endTime);
   await updateDoc(docRef, updateData);
 };
 
 export const deleteItineraryItem = async (itemId: string): Promise<void> => {
-  const docRef = doc(firestore, COLLECTIONS.ITINERARY_ITEMS, itemId);
-  await deleteDoc(docRef);
+  if (await shouldQueueWrite(itemId)) {
+    await addToOfflineQueue({ type: 'delete', collection: COLLECTIONS.ITINERARY_ITEMS, data: { itemId } });
+    return;
+  }
+
+  // The item's comments go with it; attachments stay in the trip's documents
+  const comments = await getDocs(query(itineraryCommentsCollection, where('itineraryId', '==', itemId)));
+  const batch = writeBatch(firestore);
+  batch.delete(doc(firestore, COLLECTIONS.ITINERARY_ITEMS, itemId));
+  comments.docs.forEach((commentDoc) => batch.delete(commentDoc.ref));
+  await batch.commit();
+};
+
+// Bulk delete from the list view; each item goes in the same batch as its comments
+export const deleteItineraryItems = async (itemIds: string[]): Promise<void> => {
+  if (itemIds.length === 0) return;
+  if (await shouldQueueWrite(itemIds)) {
+    for (const itemId of itemIds) {
+      await deleteItineraryItem(itemId);
+    }
+    return;
+  }
+
+  const comments = await Promise.all(
+    itemIds.map((itemId) => getDocs(query(itineraryCommentsCollection, where('itineraryId', '==', itemId))))
+  );
+  await commitBatchedWrites(
+    itemIds.map((itemId, index) => [
+      (batch) => batch.delete(doc(firestore, COLLECTIONS.ITINERARY_ITEMS, itemId)),
+      ...comments[index].docs.map((commentDoc): BatchWrite => (batch) => batch.delete(commentDoc.ref)),
+    ])
+  );
+};
+
+// The same change applied to several items at once, such as a new category
+export const updateItineraryItems = async (itemIds: string[], data: Partial<ItineraryItem>): Promise<void> => {
+  if (itemIds.length === 0) return;
+  if (await shouldQueueWrite(itemIds)) {
+    for (const itemId of itemIds) {
+      await updateItineraryItem(itemId, data);
+    }
+    return;
+  }
+
+  const updateData: DocumentData = { ...data, updatedAt: Timestamp.now() };
+  if (data.startTime) updateData.startTime = dateToTimestamp(data.startTime);
+  if (data.endTime) updateData.endTime = dateToTimestamp(data.endTime);
+  await commitBatchedWrites(
+    itemIds.map((itemId) => [(batch) => batch.update(doc(firestore, COLLECTIONS.ITINERARY_ITEMS, itemId), updateData)])
+  );
+};
+
+// Move items to their new times together. A drag only touches one day, which always fits in a single
+// batch, so it never leaves the day half-shifted; bulk moves from the list view may take several.
+export const rescheduleItineraryItems = async (changes: ItineraryTimeChange[]): Promise<void> => {
+  if (changes.length === 0) return;
+  if (await shouldQueueWrite(changes)) {
+    // Offline, each new time is queued as an edit of its own and replayed in order
+    for (const change of changes) {
+      await updateItineraryItem(change.itemId, { startTime: change.startTime, endTime: change.endTime });
+    }
+    return;
+  }
+
+  const updatedAt = Timestamp.now();
+  await commitBatchedWrites(
+    changes.map((change) => [
+      (batch) =>
+        batch.update(doc(firestore, COLLECTIONS.ITINERARY_ITEMS, change.itemId), {
+          startTime: dateToTimestamp(change.startTime),
+          endTime: change.endTime ? dateToTimestamp(change.endTime) : null,
+          updatedAt,
+        }),
+    ])
+  );
+};
+
+// ============================================
+// Itinerary Comments Collection
+// ============================================
+
+export const itineraryCommentsCollection = collection(firestore, COLLECTIONS.ITINERARY_COMMENTS);
+
+export const addItineraryComment = async (data: CreateInput<ItineraryComment>): Promise<string> => {
+  const docRef = await addDoc(itineraryCommentsCollection, {
+    ...data,
+    text: sanitizeUserInput(data.text.trim()),
+    createdAt: Timestamp.now(),
+  });
+  return docRef.id;
+};
+
+export const deleteItineraryComment = async (commentId: string, actorId: string): Promise<void> => {
+  const commentRef = doc(firestore, COLLECTIONS.ITINERARY_COMMENTS, sanitizeDocumentId(commentId));
+  const commentSnap = await getDoc(commentRef);
+  if (!commentSnap.exists()) return;
+
+  const comment = commentSnap.data();
+  const collaborator = await getCollaboratorByUserAndTrip(actorId, comment.tripId);
+  if (!canDeleteItineraryContent(comment.authorId, actorId, collaborator?.role)) {
+    throw new Error('Only the author, the trip owner or an editor can delete this comment.');
+  }
+  await deleteDoc(commentRef);
 };
 
 // ============================================
@@ -607,24 +898,100 @@ export const getTripUserLocations = async (tripId: string): Promise<UserLocation
 
 export const expensesCollection = collection(firestore, COLLECTIONS.EXPENSES);
 
-export const createExpense = async (data: {
-  tripId: string;
+// The editable fields of an expense, as the expense form saves them
+export interface ExpenseUpdateInput {
   title: string;
   amount: number;
   currency: string;
+  exchangeRate?: number | null;
   paidBy: string;
   category?: string;
-}): Promise<string> => {
-  const docRef = await addDoc(expensesCollection, {
+  split?: ExpenseSplitDefinition | null;
+  itineraryItemId?: string | null;
+  receiptDocumentId?: string | null;
+}
+
+// Fold an edit to an expense that so far only exists in the offline queue into its queued create
+const updateQueuedExpenseCreate = async (
+  tempId: string,
+  changes: Partial<ExpenseUpdateInput>,
+  shares?: QueuedShare[]
+): Promise<void> => {
+  const item = findQueuedExpenseCreate(await getOfflineQueue(), tempId);
+  if (!item) {
+    throw new Error('This expense has just synced. Reopen it and try again.');
+  }
+  const { expenseData } = item.data as QueuedExpenseCreate;
+  await updateOfflineQueueItem(item.id, {
+    tempId,
+    expenseData: { ...expenseData, ...changes, ...(shares && { shares }) },
+  } as QueuedExpenseCreate);
+};
+
+// Offline, the expense and its shares are queued and shown from the queue until they sync
+export const createExpense = async (
+  data: ExpenseUpdateInput & {
+    tripId: string;
+    occurrenceDate?: Date | null;
+    shares?: { userId: string; shareAmount: number }[];
+    actorId: string;
+  }
+): Promise<string> => {
+  const { tripId, itineraryItemId, receiptDocumentId } = data;
+  if (await shouldQueueWrite({ tripId, itineraryItemId, receiptDocumentId })) {
+    const tempId = createLocalId();
+    await addToOfflineQueue({
+      type: 'create',
+      collection: COLLECTIONS.EXPENSES,
+      data: { tempId, expenseData: data } as QueuedExpenseCreate,
+    });
+    return tempId;
+  }
+
+  const expenseRef = doc(expensesCollection);
+  const shares = data.shares || [];
+  const batch = writeBatch(firestore);
+
+  batch.set(expenseRef, {
     tripId: data.tripId,
     title: data.title,
     amount: data.amount,
     currency: data.currency,
+    exchangeRate: data.exchangeRate ?? 1,
     paidBy: data.paidBy,
     category: data.category || 'other',
+    splitType: data.split?.type || 'equal',
+    split: data.split ?? null,
+    itineraryItemId: data.itineraryItemId ?? null,
+    receiptDocumentId: data.receiptDocumentId ?? null,
+    occurrenceDate: data.occurrenceDate ? Timestamp.fromDate(data.occurrenceDate) : null,
     createdAt: Timestamp.now(),
   });
-  return docRef.id;
+
+  shares.forEach((share) => {
+    batch.set(doc(sharesCollection), {
+      expenseId: expenseRef.id,
+      userId: share.userId,
+      shareAmount: share.shareAmount,
+    });
+  });
+
+  queueExpenseAudit(batch, {
+    tripId: data.tripId,
+    expenseId: expenseRef.id,
+    action: 'created',
+    actorId: data.actorId,
+    changes: diffExpense(null, {
+      ...data,
+      exchangeRate: data.exchangeRate ?? 1,
+      category: data.category || 'other',
+      splitType: data.split?.type || 'equal',
+      shares,
+    }),
+  });
+
+  await batch.commit();
+  return expenseRef.id;
 };
 
 export const getTripExpenses = async (tripId: string): Promise<Expense[]> => {
@@ -640,14 +1007,133 @@ export const getTripExpenses = async (tripId: string): Promise<Expense[]> => {
   });
 };
 
-export const updateExpense = async (expenseId: string, data: Partial<Expense>): Promise<void> => {
+export const getExpense = async (expenseId: string): Promise<Expense | null> => {
+  if (isLocalId(expenseId)) {
+    const item = findQueuedExpenseCreate(await getOfflineQueue(), expenseId);
+    return item ? queuedCreateToExpense(item) : null;
+  }
+
+  const docRef = doc(firestore, COLLECTIONS.EXPENSES, sanitizeDocumentId(expenseId));
+  const docSnap = await getDoc(docRef);
+  if (!docSnap.exists()) return null;
+  const data = docSnap.data();
+  return {
+    id: docSnap.id,
+    ...data,
+    exchangeRate: data.exchangeRate ?? 1,
+    occurrenceDate: data.occurrenceDate ? timestampToDate(data.occurrenceDate) : null,
+    createdAt: timestampToDate(data.createdAt),
+    updatedAt: timestampToDate(data.updatedAt || data.createdAt),
+  } as Expense;
+};
+
+// Stored expense fields in the shape the change log compares
+const docToAuditableExpense = (
+  data: DocumentData,
+  shares: { userId: string; shareAmount: number }[]
+): AuditableExpense => ({
+  ...data,
+  occurrenceDate: data.occurrenceDate ? timestampToDate(data.occurrenceDate) : null,
+  shares,
+});
+
+export const updateExpense = async (
+  expenseId: string,
+  data: Partial<Expense>,
+  actorId: string
+): Promise<void> => {
+  const queuedChanges = data as Partial<ExpenseUpdateInput>;
+  if (isLocalId(expenseId)) {
+    await updateQueuedExpenseCreate(expenseId, queuedChanges);
+    return;
+  }
+  if (await shouldQueueWrite(queuedChanges)) {
+    const base = await getMutationBase(COLLECTIONS.EXPENSES, expenseId, Object.keys(queuedChanges));
+    await addToOfflineQueue({
+      type: 'update',
+      collection: COLLECTIONS.EXPENSES,
+      data: { expenseId, changes: queuedChanges, actorId, ...base } as QueuedExpenseUpdate,
+    });
+    return;
+  }
+
   const docRef = doc(firestore, COLLECTIONS.EXPENSES, expenseId);
-  await updateDoc(docRef, data as DocumentData);
+  const [docSnap, shares] = await Promise.all([getDoc(docRef), getExpenseShares(expenseId)]);
+  if (!docSnap.exists()) throw new Error('Expense not found.');
+
+  const before = docToAuditableExpense(docSnap.data(), shares);
+  const batch = writeBatch(firestore);
+  batch.update(docRef, { ...data, updatedAt: Timestamp.now() } as DocumentData);
+
+  const changes = diffExpense(before, { ...before, ...data });
+  if (changes.length > 0) {
+    queueExpenseAudit(batch, {
+      tripId: docSnap.data().tripId,
+      expenseId,
+      action: 'updated',
+      actorId,
+      changes,
+    });
+  }
+
+  await batch.commit();
 };
 
-export const deleteExpense = async (expenseId: string): Promise<void> => {
+// Move an expense and its shares to the trip's trash, where it can be restored until it expires
+export const deleteExpense = async (expenseId: string, actorId: string): Promise<void> => {
+  // Never synced, so there is nothing to keep in the trash
+  if (isLocalId(expenseId)) {
+    const item = findQueuedExpenseCreate(await getOfflineQueue(), expenseId);
+    if (item) await removeFromOfflineQueue(item.id);
+    return;
+  }
+  if (await shouldQueueWrite(expenseId)) {
+    await addToOfflineQueue({ type: 'delete', collection: COLLECTIONS.EXPENSES, data: { expenseId, actorId } });
+    return;
+  }
+
   const docRef = doc(firestore, COLLECTIONS.EXPENSES, expenseId);
-  await deleteDoc(docRef);
+  const [docSnap, shares] = await Promise.all([getDoc(docRef), getExpenseShares(expenseId)]);
+  if (!docSnap.exists()) throw new Error('Expense not found.');
+
+  const batch = writeBatch(firestore);
+  getExpenseTrashWrites(expenseId, docSnap.data(), shares, actorId).forEach((write) => write(batch));
+  await batch.commit();
+};
+
+// The writes that move an expense and its shares to the trash, with their log entry
+const getExpenseTrashWrites = (
+  expenseId: string,
+  data: DocumentData,
+  shares: ExpenseShare[],
+  actorId: string
+): BatchWrite[] => {
+  const keptShares = shares.map((share) => ({ userId: share.userId, shareAmount: share.shareAmount }));
+  const deletedAt = new Date();
+
+  return [
+    (batch) =>
+      batch.set(doc(firestore, COLLECTIONS.EXPENSE_TRASH, expenseId), {
+        tripId: data.tripId,
+        expense: data,
+        shares: keptShares,
+        deletedBy: actorId,
+        deletedAt: Timestamp.fromDate(deletedAt),
+        expiresAt: Timestamp.fromDate(getTrashExpiry(deletedAt)),
+      }),
+    ...shares.map((share): BatchWrite => (batch) =>
+      batch.delete(doc(firestore, COLLECTIONS.EXPENSE_SHARES, share.id))
+    ),
+    (batch) => batch.delete(doc(firestore, COLLECTIONS.EXPENSES, expenseId)),
+    (batch) =>
+      queueExpenseAudit(batch, {
+        tripId: data.tripId,
+        expenseId,
+        action: 'deleted',
+        actorId,
+        changes: diffExpense(docToAuditableExpense(data, keptShares), null),
+      }),
+  ];
 };
 
 // ============================================
@@ -657,19 +1143,547 @@ export const deleteExpense = async (expenseId: string): Promise<void> => {
 export const sharesCollection = collection(firestore, COLLECTIONS.EXPENSE_SHARES);
 
 export const createExpenseShare = async (data: CreateInput<ExpenseShare>): Promise<string> => {
+  if (await shouldQueueWrite(data.expenseId)) {
+    const tempId = createLocalId();
+    await addToOfflineQueue({ type: 'create', collection: COLLECTIONS.EXPENSE_SHARES, data: { tempId, shareData: data } });
+    return tempId;
+  }
+
   const docRef = await addDoc(sharesCollection, data);
   return docRef.id;
 };
 
 export const getExpenseShares = async (expenseId: string): Promise<ExpenseShare[]> => {
+  if (isLocalId(expenseId)) {
+    const item = findQueuedExpenseCreate(await getOfflineQueue(), expenseId);
+    const shares = item ? (item.data as QueuedExpenseCreate).expenseData.shares || [] : [];
+    return shares.map((share) => ({ id: `${expenseId}_${share.userId}`, expenseId, ...share }));
+  }
+
   const q = query(sharesCollection, where('expenseId', '==', expenseId));
   const snapshot = await getDocs(q);
   return snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() }) as ExpenseShare);
 };
 
-export const deleteExpenseShares = async (expenseId: string): Promise<void> => {
-  const shares = await getExpenseShares(expenseId);
-  await Promise.all(shares.map((share) => deleteDoc(doc(firestore, COLLECTIONS.EXPENSE_SHARES, share.id))));
+// Firestore `in` queries accept at most 30 values
+const IN_QUERY_LIMIT = 30;
+
+export const getSharesForExpenses = async (expenseIds: string[]): Promise<ExpenseShare[]> => {
+  const chunks: string[][] = [];
+  for (let i = 0; i < expenseIds.length; i += IN_QUERY_LIMIT) {
+    chunks.push(expenseIds.slice(i, i + IN_QUERY_LIMIT));
+  }
+  const snapshots = await Promise.all(
+    chunks.map((chunk) => getDocs(query(sharesCollection, where('expenseId', 'in', chunk))))
+  );
+  return snapshots.flatMap((snapshot) =>
+    snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() }) as ExpenseShare)
+  );
+};
+
+// Update an expense and replace all of its shares in a single atomic batch,
+// so balances never see the expense with a half-written split
+export const updateExpenseWithShares = async (
+  expenseId: string,
+  data: ExpenseUpdateInput,
+  shares: { userId: string; shareAmount: number }[],
+  actorId: string
+): Promise<void> => {
+  if (isLocalId(expenseId)) {
+    await updateQueuedExpenseCreate(expenseId, data, shares);
+    return;
+  }
+  if (await shouldQueueWrite(data)) {
+    const base = await getMutationBase(COLLECTIONS.EXPENSES, expenseId, Object.keys(data));
+    await addToOfflineQueue({
+      type: 'update',
+      collection: COLLECTIONS.EXPENSES,
+      data: { expenseId, changes: data, shares, actorId, ...base } as QueuedExpenseUpdate,
+    });
+    return;
+  }
+
+  const docRef = doc(firestore, COLLECTIONS.EXPENSES, expenseId);
+  const [docSnap, existingShares] = await Promise.all([getDoc(docRef), getExpenseShares(expenseId)]);
+  if (!docSnap.exists()) throw new Error('Expense not found.');
+
+  const before = docToAuditableExpense(docSnap.data(), existingShares);
+  const fields = {
+    title: data.title,
+    amount: data.amount,
+    currency: data.currency,
+    exchangeRate: data.exchangeRate ?? 1,
+    paidBy: data.paidBy,
+    category: data.category || 'other',
+    splitType: data.split?.type || 'equal',
+    split: data.split ?? null,
+    itineraryItemId: data.itineraryItemId ?? null,
+    receiptDocumentId: data.receiptDocumentId ?? null,
+  };
+  const batch = writeBatch(firestore);
+
+  batch.update(docRef, {
+    ...fields,
+    // A recurring occurrence edited on its own keeps its edit when the template changes
+    ...(docSnap.data().recurringTemplateId && { editedIndividually: true }),
+    updatedAt: Timestamp.now(),
+  });
+
+  existingShares.forEach((share) => {
+    batch.delete(doc(firestore, COLLECTIONS.EXPENSE_SHARES, share.id));
+  });
+
+  shares.forEach((share) => {
+    batch.set(doc(sharesCollection), {
+      expenseId,
+      userId: share.userId,
+      shareAmount: share.shareAmount,
+    });
+  });
+
+  const changes = diffExpense(before, { ...before, ...fields, shares });
+  if (changes.length > 0) {
+    queueExpenseAudit(batch, {
+      tripId: docSnap.data().tripId,
+      expenseId,
+      action: 'updated',
+      actorId,
+      changes,
+    });
+  }
+
+  await batch.commit();
+};
+
+// ============================================
+// Expense Audit Log Collection
+// ============================================
+
+export const expenseAuditCollection = collection(firestore, COLLECTIONS.EXPENSE_AUDIT_LOG);
+
+// Entries are only ever added, in the same batch as the expense write they describe
+const queueExpenseAudit = (
+  batch: ReturnType<typeof writeBatch>,
+  entry: {
+    tripId: string;
+    expenseId: string;
+    action: ExpenseAuditAction;
+    actorId: string;
+    changes: ExpenseAuditChange[];
+  }
+): void => {
+  batch.set(doc(expenseAuditCollection), { ...entry, createdAt: Timestamp.now() });
+};
+
+// ============================================
+// Expense Trash Collection
+// ============================================
+
+export const expenseTrashCollection = collection(firestore, COLLECTIONS.EXPENSE_TRASH);
+
+const docToDeletedExpense = (docSnap: { id: string; data: () => DocumentData }): DeletedExpense => {
+  const data = docSnap.data();
+  return {
+    id: docSnap.id,
+    tripId: data.tripId,
+    expense: {
+      ...data.expense,
+      occurrenceDate: data.expense.occurrenceDate ? timestampToDate(data.expense.occurrenceDate) : null,
+      createdAt: timestampToDate(data.expense.createdAt),
+      updatedAt: timestampToDate(data.expense.updatedAt || data.expense.createdAt),
+    },
+    shares: data.shares || [],
+    deletedBy: data.deletedBy,
+    deletedAt: timestampToDate(data.deletedAt),
+    expiresAt: timestampToDate(data.expiresAt),
+  };
+};
+
+export const getTripExpenseTrash = async (tripId: string): Promise<DeletedExpense[]> => {
+  const q = query(expenseTrashCollection, where('tripId', '==', tripId));
+  const snapshot = await getDocs(q);
+  return snapshot.docs.map(docToDeletedExpense);
+};
+
+// Bring a deleted expense back under its original ID, with its shares
+export const restoreExpense = async (expenseId: string, actorId: string): Promise<void> => {
+  const trashRef = doc(firestore, COLLECTIONS.EXPENSE_TRASH, sanitizeDocumentId(expenseId));
+  const trashSnap = await getDoc(trashRef);
+  if (!trashSnap.exists()) {
+    throw new Error('This expense is no longer in the trash.');
+  }
+
+  const trashed = trashSnap.data();
+  const collaborator = await getCollaboratorByUserAndTrip(actorId, trashed.tripId);
+  if (!canRestoreExpenses(collaborator?.role)) {
+    throw new Error('Only the trip owner or an editor can restore expenses.');
+  }
+  if (isTrashExpired(timestampToDate(trashed.deletedAt))) {
+    throw new Error('This expense was deleted too long ago to be restored.');
+  }
+
+  const shares: { userId: string; shareAmount: number }[] = trashed.shares || [];
+  const batch = writeBatch(firestore);
+
+  batch.set(doc(firestore, COLLECTIONS.EXPENSES, trashSnap.id), {
+    ...trashed.expense,
+    updatedAt: Timestamp.now(),
+  });
+  shares.forEach((share) => {
+    batch.set(doc(sharesCollection), {
+      expenseId: trashSnap.id,
+      userId: share.userId,
+      shareAmount: share.shareAmount,
+    });
+  });
+  batch.delete(trashRef);
+
+  queueExpenseAudit(batch, {
+    tripId: trashed.tripId,
+    expenseId: trashSnap.id,
+    action: 'restored',
+    actorId,
+    changes: diffExpense(null, docToAuditableExpense(trashed.expense, shares)),
+  });
+
+  await batch.commit();
+};
+
+// Permanently remove trashed expenses past the retention period
+export const purgeExpiredExpenseTrash = async (tripId: string): Promise<number> => {
+  const trash = await getTripExpenseTrash(tripId);
+  const expired = trash.filter((item) => isTrashExpired(item.deletedAt));
+  await Promise.all(
+    expired.map((item) => deleteDoc(doc(firestore, COLLECTIONS.EXPENSE_TRASH, item.id)))
+  );
+  return expired.length;
+};
+
+// ============================================
+// Recurring Expenses Collection
+// ============================================
+
+export const recurringExpensesCollection = collection(firestore, COLLECTIONS.RECURRING_EXPENSES);
+
+type RecurringExpenseInput = Omit<RecurringExpenseTemplate, 'id' | 'createdAt' | 'updatedAt'>;
+
+interface FutureOccurrence {
+  ref: DocumentReference;
+  data: DocumentData;
+  occurrenceDate: Date;
+  shares: ExpenseShare[];
+}
+
+// Occurrences from today onwards, with their shares; past occurrences are never rewritten
+const getFutureOccurrences = async (templateId: string): Promise<FutureOccurrence[]> => {
+  const q = query(expensesCollection, where('recurringTemplateId', '==', templateId));
+  const snapshot = await getDocs(q);
+  const futureDocs = snapshot.docs.filter((docSnap) => {
+    const occurrenceDate = timestampToDate(docSnap.data().occurrenceDate);
+    return getFutureOccurrenceDates([occurrenceDate]).length > 0;
+  });
+
+  const sharesByExpense = await Promise.all(futureDocs.map((docSnap) => getExpenseShares(docSnap.id)));
+  return futureDocs.map((docSnap, index) => ({
+    ref: docSnap.ref,
+    data: docSnap.data(),
+    occurrenceDate: timestampToDate(docSnap.data().occurrenceDate),
+    shares: sharesByExpense[index],
+  }));
+};
+
+// The fields every occurrence copies from its template
+const toOccurrenceFields = (data: RecurringExpenseInput) => ({
+  title: data.title,
+  amount: data.amount,
+  currency: data.currency,
+  exchangeRate: data.exchangeRate ?? 1,
+  paidBy: data.paidBy,
+  category: data.category || 'other',
+  splitType: data.split.type,
+  split: data.split,
+});
+
+// One normal expense plus its shares, written together
+const queueOccurrenceCreate = (
+  groups: BatchWrite[][],
+  templateId: string,
+  data: RecurringExpenseInput,
+  date: Date,
+  shares: { userId: string; shareAmount: number }[],
+  actorId: string
+): void => {
+  const expenseRef = doc(expensesCollection);
+  const fields = toOccurrenceFields(data);
+  groups.push([
+    (batch) =>
+      batch.set(expenseRef, {
+        tripId: data.tripId,
+        ...fields,
+        recurringTemplateId: templateId,
+        occurrenceDate: Timestamp.fromDate(date),
+        // Occurrences are listed under the day they apply to
+        createdAt: Timestamp.fromDate(date),
+      }),
+    ...shares.map((share): BatchWrite => (batch) =>
+      batch.set(doc(sharesCollection), {
+        expenseId: expenseRef.id,
+        userId: share.userId,
+        shareAmount: share.shareAmount,
+      })
+    ),
+    (batch) =>
+      queueExpenseAudit(batch, {
+        tripId: data.tripId,
+        expenseId: expenseRef.id,
+        action: 'created',
+        actorId,
+        changes: diffExpense(null, { ...fields, occurrenceDate: date, shares }),
+      }),
+  ]);
+};
+
+// Rewrite an existing occurrence to match its template, keeping its ID and its day
+const queueOccurrenceUpdate = (
+  groups: BatchWrite[][],
+  occurrence: FutureOccurrence,
+  data: RecurringExpenseInput,
+  shares: { userId: string; shareAmount: number }[],
+  actorId: string
+): void => {
+  const fields = toOccurrenceFields(data);
+  const before = docToAuditableExpense(occurrence.data, occurrence.shares);
+  const changes = diffExpense(before, { ...before, ...fields, shares });
+  if (changes.length === 0) return;
+
+  groups.push([
+    (batch) => batch.update(occurrence.ref, { ...fields, updatedAt: Timestamp.now() }),
+    ...occurrence.shares.map((share): BatchWrite => (batch) =>
+      batch.delete(doc(firestore, COLLECTIONS.EXPENSE_SHARES, share.id))
+    ),
+    ...shares.map((share): BatchWrite => (batch) =>
+      batch.set(doc(sharesCollection), {
+        expenseId: occurrence.ref.id,
+        userId: share.userId,
+        shareAmount: share.shareAmount,
+      })
+    ),
+    (batch) =>
+      queueExpenseAudit(batch, {
+        tripId: occurrence.data.tripId,
+        expenseId: occurrence.ref.id,
+        action: 'updated',
+        actorId,
+        changes,
+      }),
+  ]);
+};
+
+// Removed occurrences go to the trash like any deleted expense
+const queueOccurrenceDelete = (groups: BatchWrite[][], occurrence: FutureOccurrence, actorId: string): void => {
+  groups.push(getExpenseTrashWrites(occurrence.ref.id, occurrence.data, occurrence.shares, actorId));
+};
+
+const docToRecurringExpense = (docSnap: { id: string; data: () => DocumentData }): RecurringExpenseTemplate => {
+  const data = docSnap.data();
+  return {
+    id: docSnap.id,
+    ...data,
+    startDate: timestampToDate(data.startDate),
+    endDate: timestampToDate(data.endDate),
+    createdAt: timestampToDate(data.createdAt),
+    updatedAt: timestampToDate(data.updatedAt),
+  } as RecurringExpenseTemplate;
+};
+
+// Create a template and generate every occurrence as a regular expense with shares
+export const createRecurringExpense = async (
+  data: RecurringExpenseInput,
+  shares: { userId: string; shareAmount: number }[],
+  actorId: string
+): Promise<string> => {
+  const templateRef = doc(recurringExpensesCollection);
+  const groups: BatchWrite[][] = [
+    [
+      (batch) =>
+        batch.set(templateRef, {
+          ...data,
+          exchangeRate: data.exchangeRate ?? 1,
+          category: data.category || 'other',
+          startDate: dateToTimestamp(data.startDate),
+          endDate: dateToTimestamp(data.endDate),
+          createdAt: Timestamp.now(),
+          updatedAt: Timestamp.now(),
+        }),
+    ],
+  ];
+
+  getOccurrenceDates(data.frequency, data.startDate, data.endDate).forEach((date) => {
+    queueOccurrenceCreate(groups, templateRef.id, data, date, shares, actorId);
+  });
+
+  await commitBatchedWrites(groups);
+  return templateRef.id;
+};
+
+export const getRecurringExpense = async (templateId: string): Promise<RecurringExpenseTemplate | null> => {
+  const docRef = doc(firestore, COLLECTIONS.RECURRING_EXPENSES, sanitizeDocumentId(templateId));
+  const docSnap = await getDoc(docRef);
+  if (!docSnap.exists()) return null;
+  return docToRecurringExpense(docSnap);
+};
+
+// Update a template and bring its future occurrences in line with it. Occurrences keep their IDs,
+// and any edited on their own ("This Day Only") are left as they are.
+export const updateRecurringExpense = async (
+  templateId: string,
+  data: RecurringExpenseInput,
+  shares: { userId: string; shareAmount: number }[],
+  actorId: string
+): Promise<void> => {
+  const existing = await getFutureOccurrences(templateId);
+  const byDay = new Map(existing.map((occurrence) => [occurrence.occurrenceDate.toDateString(), occurrence]));
+  const groups: BatchWrite[][] = [
+    [
+      (batch) =>
+        batch.update(doc(firestore, COLLECTIONS.RECURRING_EXPENSES, templateId), {
+          ...data,
+          exchangeRate: data.exchangeRate ?? 1,
+          category: data.category || 'other',
+          startDate: dateToTimestamp(data.startDate),
+          endDate: dateToTimestamp(data.endDate),
+          updatedAt: Timestamp.now(),
+        }),
+    ],
+  ];
+
+  const dates = getFutureOccurrenceDates(getOccurrenceDates(data.frequency, data.startDate, data.endDate));
+  dates.forEach((date) => {
+    const occurrence = byDay.get(date.toDateString());
+    byDay.delete(date.toDateString());
+    if (!occurrence) {
+      queueOccurrenceCreate(groups, templateId, data, date, shares, actorId);
+    } else if (!occurrence.data.editedIndividually) {
+      queueOccurrenceUpdate(groups, occurrence, data, shares, actorId);
+    }
+  });
+
+  // Days the new schedule no longer covers
+  byDay.forEach((occurrence) => {
+    if (!occurrence.data.editedIndividually) queueOccurrenceDelete(groups, occurrence, actorId);
+  });
+
+  await commitBatchedWrites(groups);
+};
+
+// Remove a template along with its future occurrences
+export const deleteRecurringExpense = async (templateId: string, actorId: string): Promise<void> => {
+  const groups: BatchWrite[][] = [];
+  (await getFutureOccurrences(templateId)).forEach((occurrence) => {
+    queueOccurrenceDelete(groups, occurrence, actorId);
+  });
+  groups.push([(batch) => batch.delete(doc(firestore, COLLECTIONS.RECURRING_EXPENSES, templateId))]);
+  await commitBatchedWrites(groups);
+};
+
+// ============================================
+// Settlements Collection
+// ============================================
+
+export const settlementsCollection = collection(firestore, COLLECTIONS.SETTLEMENTS);
+
+export const createSettlement = async (data: {
+  tripId: string;
+  payerId: string;
+  payeeId: string;
+  amount: number;
+  currency: string;
+  method: SettlementMethod;
+  referenceId?: string | null;
+  recordedBy: string;
+}): Promise<string> => {
+  if (data.payerId === data.payeeId) {
+    throw new Error('Payer and payee must be different people.');
+  }
+  if (!(data.amount > 0)) {
+    throw new Error('Settlement amount must be greater than zero.');
+  }
+
+  const docRef = await addDoc(settlementsCollection, {
+    tripId: data.tripId,
+    payerId: data.payerId,
+    payeeId: data.payeeId,
+    amount: data.amount,
+    currency: data.currency,
+    method: data.method,
+    referenceId: data.referenceId ? sanitizeUserInput(data.referenceId.trim()) : null,
+    recordedBy: data.recordedBy,
+    createdAt: Timestamp.now(),
+  });
+  return docRef.id;
+};
+
+// Record several settlements at once (e.g. one per trip when settling up across trips)
+export const createSettlements = async (
+  settlements: {
+    tripId: string;
+    payerId: string;
+    payeeId: string;
+    amount: number;
+    currency: string;
+    method: SettlementMethod;
+    referenceId?: string | null;
+    recordedBy: string;
+  }[]
+): Promise<void> => {
+  const batch = writeBatch(firestore);
+  settlements.forEach((data) => {
+    if (data.payerId === data.payeeId) {
+      throw new Error('Payer and payee must be different people.');
+    }
+    if (!(data.amount > 0)) {
+      throw new Error('Settlement amount must be greater than zero.');
+    }
+    batch.set(doc(settlementsCollection), {
+      tripId: data.tripId,
+      payerId: data.payerId,
+      payeeId: data.payeeId,
+      amount: data.amount,
+      currency: data.currency,
+      method: data.method,
+      referenceId: data.referenceId ? sanitizeUserInput(data.referenceId.trim()) : null,
+      recordedBy: data.recordedBy,
+      createdAt: Timestamp.now(),
+    });
+  });
+  await batch.commit();
+};
+
+export const getTripSettlements = async (tripId: string): Promise<Settlement[]> => {
+  const q = query(settlementsCollection, where('tripId', '==', tripId), orderBy('createdAt', 'desc'));
+  const snapshot = await getDocs(q);
+  return snapshot.docs.map((doc) => {
+    const data = doc.data();
+    return {
+      id: doc.id,
+      ...data,
+      createdAt: timestampToDate(data.createdAt),
+    } as Settlement;
+  });
+};
+
+// Undo a payment recorded by mistake
+export const deleteSettlement = async (settlementId: string, actorId: string): Promise<void> => {
+  const settlementRef = doc(firestore, COLLECTIONS.SETTLEMENTS, sanitizeDocumentId(settlementId));
+  const settlementSnap = await getDoc(settlementRef);
+  if (!settlementSnap.exists()) return;
+
+  const settlement = settlementSnap.data();
+  const collaborator = await getCollaboratorByUserAndTrip(actorId, settlement.tripId);
+  if (!canUndoSettlement(settlement, actorId, collaborator?.role)) {
+    throw new Error('Only the payer, the payee, whoever recorded it or the trip owner can undo this payment.');
+  }
+  await deleteDoc(settlementRef);
 };
 
 // ============================================
@@ -679,6 +1693,13 @@ export const deleteExpenseShares = async (expenseId: string): Promise<void> => {
 export const documentsCollection = collection(firestore, COLLECTIONS.DOCUMENTS);
 
 export const createDocument = async (data: CreateInput<TripDocument>): Promise<string> => {
+  // The file itself is already uploaded; only its record waits for the connection
+  if (await shouldQueueWrite({ tripId: data.tripId, itineraryId: data.itineraryId })) {
+    const tempId = createLocalId();
+    await addToOfflineQueue({ type: 'create', collection: COLLECTIONS.DOCUMENTS, data: { tempId, documentData: data } });
+    return tempId;
+  }
+
   const docRef = await addDoc(documentsCollection, {
     ...data,
     createdAt: Timestamp.now(),
@@ -700,6 +1721,57 @@ export const getTripDocuments = async (tripId: string): Promise<TripDocument[]>
 };
 
 export const deleteDocument = async (documentId: string): Promise<void> => {
+  if (await shouldQueueWrite(documentId)) {
+    await addToOfflineQueue({ type: 'delete', collection: COLLECTIONS.DOCUMENTS, data: { documentId } });
+    return;
+  }
+
   const docRef = doc(firestore, COLLECTIONS.DOCUMENTS, documentId);
   await deleteDoc(docRef);
 };
+
+// Itinerary attachments are documents linked to the item; only the uploader, the owner or an editor can remove one
+export const deleteItineraryAttachment = async (documentId: string, actorId: string): Promise<void> => {
+  const docSnap = await getDoc(doc(firestore, COLLECTIONS.DOCUMENTS, sanitizeDocumentId(documentId)));
+  if (!docSnap.exists()) return;
+
+  const attachment = docSnap.data();
+  const collaborator = await getCollaboratorByUserAndTrip(actorId, attachment.tripId);
+  if (!canDeleteItineraryContent(attachment.uploadedBy, actorId, collaborator?.role)) {
+    throw new Error('Only the uploader, the trip owner or an editor can remove this attachment.');
+  }
+  await deleteDocument(docSnap.id);
+};
+
+// ============================================
+// Offline Trip Snapshots
+// ============================================
+
+// Everything a trip's screens show, read in one go so the trip can be kept offline
+export const getTripSnapshotData = async (tripId: string): Promise<TripSnapshotData | null> => {
+  const trip = await getTrip(tripId);
+  if (!trip) return null;
+
+  const [itinerary, expenses, settlements, collaborators, documents] = await Promise.all([
+    getTripItinerary(tripId),
+    getTripExpenses(tripId),
+    getTripSettlements(tripId),
+    getTripCollaborators(tripId),
+    getTripDocuments(tripId),
+  ]);
+  const expenseShares = expenses.length > 0 ? await getSharesForExpenses(expenses.map((e) => e.id)) : [];
+
+  const userIds = [...new Set([trip.creatorId, ...collaborators.map((c) => c.userId)])];
+  const users = await Promise.all(userIds.map((userId) => getUser(userId).catch(() => null)));
+  const usersById = new Map(users.filter((u): u is User => !!u).map((u) => [u.id, u]));
+
+  return {
+    trip: { ...trip, creator: usersById.get(trip.creatorId) },
+    itinerary,
+    expenses,
+    expenseShares,
+    settlements,
+    collaborators: collaborators.map((c) => ({ ...c, user: usersById.get(c.userId) })),
+    documents,
+  };
+};
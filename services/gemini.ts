@@ -1,5 +1,5 @@
 // Gemini AI Service for Trip Planning
-import { ItineraryItem } from "@/types/database";
+import { ExpenseCategory, ItineraryItem, TripBudget } from "@/types/database";
 import { GoogleGenAI } from "@google/genai";
 import Constants from "expo-constants";
 
@@ -399,23 +399,48 @@ export const convertToItineraryItems = (
   return items;
 };
 
-// Convert expense breakdown to expenses format
-export const convertToExpenses = (
-  tripPlan: GeneratedTripPlan,
-  tripId: string,
-  userId: string,
-): {
-  title: string;
-  amount: number;
-  currency: string;
-  tripId: string;
-  paidBy: string;
-}[] => {
-  return tripPlan.expenseBreakdown.map((expense) => ({
-    tripId,
-    title: expense.category,
-    amount: expense.estimatedAmount,
-    currency: expense.currency,
-    paidBy: userId,
-  }));
+// Map the AI's free-form breakdown labels onto expense categories
+const BREAKDOWN_CATEGORY_MAP: Record<string, ExpenseCategory> = {
+  accommodation: "accommodation",
+  lodging: "accommodation",
+  stay: "accommodation",
+  hotel: "accommodation",
+  food: "food",
+  dining: "food",
+  meals: "food",
+  transport: "transport",
+  transportation: "transport",
+  travel: "transport",
+  activities: "activities",
+  sightseeing: "activities",
+  entertainment: "activities",
+  shopping: "shopping",
+  souvenirs: "shopping",
+};
+
+// Seed a trip budget from the expense breakdown (estimates, not real expenses)
+export const convertToBudget = (tripPlan: GeneratedTripPlan): TripBudget => {
+  const categoryLimits: Partial<Record<ExpenseCategory, number>> = {};
+
+  tripPlan.expenseBreakdown.forEach((expense) => {
+    if (!(expense.estimatedAmount > 0)) return;
+    const category =
+      BREAKDOWN_CATEGORY_MAP[expense.category.trim().toLowerCase()] || "other";
+    categoryLimits[category] =
+      (categoryLimits[category] || 0) + expense.estimatedAmount;
+  });
+
+  const categoryTotal = Object.values(categoryLimits).reduce(
+    (sum, amount) => sum + (amount || 0),
+    0,
+  );
+
+  return {
+    total:
+      tripPlan.totalEstimatedCost > 0
+        ? tripPlan.totalEstimatedCost
+        : categoryTotal,
+    categoryLimits,
+    source: "ai",
+  };
 };
@@ -0,0 +1,29 @@
+import { CollaboratorRole, TripDocument } from '../types/database';
+
+// ============================================
+// Itinerary Comments & Attachments
+// ============================================
+
+// Longest quote of a comment shown in a notification
+const COMMENT_PREVIEW_LENGTH = 80;
+
+// Anyone on the trip can remove what they added; owners and editors can also remove other people's
+export const canDeleteItineraryContent = (
+  authorId: string,
+  userId: string | null | undefined,
+  role: CollaboratorRole | null | undefined
+): boolean => !!userId && (authorId === userId || role === 'owner' || role === 'editor');
+
+// A single-line excerpt of a comment, cut at a word where possible
+export const getCommentPreview = (text: string): string => {
+  const flattened = text.replace(/\s+/g, ' ').trim();
+  if (flattened.length <= COMMENT_PREVIEW_LENGTH) return flattened;
+
+  const cut = flattened.slice(0, COMMENT_PREVIEW_LENGTH - 1);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${lastSpace > COMMENT_PREVIEW_LENGTH / 2 ? cut.slice(0, lastSpace) : cut}…`;
+};
+
+// Attachments are trip documents linked to the item; photos are stored with the 'photo' type
+export const isImageAttachment = (document: Pick<TripDocument, 'type' | 'label'>): boolean =>
+  document.type === 'photo' || /\.(jpe?g|png|gif|heic|webp)$/i.test(document.label || '');
@@ -0,0 +1,56 @@
+import { ItineraryItem } from '../types/database';
+
+// ============================================
+// Itinerary List Filters
+// ============================================
+
+export interface ItineraryListFilters {
+  query: string;
+  categories: string[]; // Empty shows every category
+  addedBy: string | null;
+  hasLocation: boolean | null; // null shows items with and without a location
+}
+
+export const EMPTY_ITINERARY_FILTERS: ItineraryListFilters = {
+  query: '',
+  categories: [],
+  addedBy: null,
+  hasLocation: null,
+};
+
+type FilterableItem = Pick<
+  ItineraryItem,
+  'title' | 'description' | 'location' | 'category' | 'addedBy' | 'latitude' | 'longitude' | 'startTime'
+>;
+
+// Uncategorised items are listed under 'other', as everywhere else in the itinerary
+export const getItemCategory = (item: Pick<ItineraryItem, 'category'>): string => item.category || 'other';
+
+export const hasActiveFilters = (filters: ItineraryListFilters): boolean =>
+  filters.query.trim() !== '' ||
+  filters.categories.length > 0 ||
+  filters.addedBy !== null ||
+  filters.hasLocation !== null;
+
+const matchesQuery = (item: FilterableItem, query: string): boolean => {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  const text = [item.title, item.description, item.location].filter(Boolean).join(' ').toLowerCase();
+  return terms.every((term) => text.includes(term));
+};
+
+// Matching items in date order, with anything not yet scheduled at the end
+export const filterItineraryItems = <T extends FilterableItem>(items: T[], filters: ItineraryListFilters): T[] =>
+  items
+    .filter((item) => {
+      if (filters.categories.length > 0 && !filters.categories.includes(getItemCategory(item))) return false;
+      if (filters.addedBy !== null && item.addedBy !== filters.addedBy) return false;
+      if (filters.hasLocation !== null) {
+        const located = item.latitude != null && item.longitude != null;
+        if (located !== filters.hasLocation) return false;
+      }
+      return matchesQuery(item, filters.query);
+    })
+    .sort((a, b) => {
+      if (!a.startTime || !b.startTime) return (a.startTime ? 0 : 1) - (b.startTime ? 0 : 1);
+      return new Date(a.startTime).getTime() - new Date(b.startTime).getTime();
+    });
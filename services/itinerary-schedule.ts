@@ -0,0 +1,148 @@
+import { ItineraryItem } from '../types/database';
+
+// ============================================
+// Itinerary Rescheduling
+// ============================================
+
+export interface ItineraryTimeChange {
+  itemId: string;
+  startTime: Date;
+  endTime: Date | null;
+}
+
+type ScheduledItem = Pick<ItineraryItem, 'id' | 'startTime' | 'endTime'>;
+
+const MINUTE_MS = 60 * 1000;
+
+// Items without an end time are treated as taking this long when others are moved around them
+export const UNTIMED_ITEM_MINUTES = 30;
+
+// Where an item with no time yet lands when it is moved onto a day
+const DEFAULT_START_HOUR = 9;
+
+// Timeline days are keyed the way the itinerary screen groups them
+export const getDayKey = (date: Date | string): string => new Date(date).toDateString();
+
+const getStart = (item: ScheduledItem) => new Date(item.startTime!).getTime();
+
+const getDuration = (item: ScheduledItem): number | null =>
+  item.endTime ? Math.max(0, new Date(item.endTime).getTime() - getStart(item)) : null;
+
+const getSlotEnd = (start: number, duration: number | null) =>
+  start + (duration ?? UNTIMED_ITEM_MINUTES * MINUTE_MS);
+
+// The day's scheduled items in timeline order
+export const getItemsForDay = <T extends ScheduledItem>(items: T[], dayKey: string): T[] =>
+  items
+    .filter((item) => item.startTime && getDayKey(item.startTime) === dayKey)
+    .sort((a, b) => getStart(a) - getStart(b));
+
+// Every day of the trip, plus any day outside it that already has items, in order
+export const getItineraryDayKeys = (
+  startDate: Date | string | null | undefined,
+  endDate: Date | string | null | undefined,
+  items: ScheduledItem[]
+): string[] => {
+  const days = new Set<string>();
+  if (startDate && endDate) {
+    const day = new Date(startDate);
+    day.setHours(0, 0, 0, 0);
+    const last = new Date(endDate).getTime();
+    while (day.getTime() <= last) {
+      days.add(day.toDateString());
+      day.setDate(day.getDate() + 1);
+    }
+  }
+  items.forEach((item) => {
+    if (item.startTime) days.add(getDayKey(item.startTime));
+  });
+  return [...days].sort((a, b) => new Date(a).getTime() - new Date(b).getTime());
+};
+
+// The same clock time on another day
+const onDay = (time: number, dayKey: string): number => {
+  const moved = new Date(dayKey);
+  const original = new Date(time);
+  moved.setHours(original.getHours(), original.getMinutes(), original.getSeconds(), original.getMilliseconds());
+  return moved.getTime();
+};
+
+/**
+ * New times for dropping an item at `targetIndex` among another day's (or its own day's) items.
+ * The item keeps its clock time if that still fits between its new neighbours, otherwise it
+ * starts when the item before it ends. Items after it that would now overlap are pushed back,
+ * keeping their durations, until a gap absorbs the shift. Only items whose times change are returned.
+ */
+export const planItineraryMove = (
+  items: ScheduledItem[],
+  itemId: string,
+  targetDayKey: string,
+  targetIndex: number
+): ItineraryTimeChange[] => {
+  const moving = items.find((item) => item.id === itemId);
+  if (!moving?.startTime) return [];
+
+  const dayItems = getItemsForDay(items.filter((item) => item.id !== itemId), targetDayKey);
+  const index = Math.min(Math.max(targetIndex, 0), dayItems.length);
+  const previous = dayItems[index - 1];
+  const next = dayItems[index];
+  const duration = getDuration(moving);
+
+  const keptStart = onDay(getStart(moving), targetDayKey);
+  const earliest = previous ? getSlotEnd(getStart(previous), getDuration(previous)) : -Infinity;
+  const latest = next ? getStart(next) : Infinity;
+
+  let start = keptStart;
+  if (keptStart < earliest || keptStart > latest) {
+    start = previous
+      ? earliest
+      : Math.max(new Date(targetDayKey).getTime(), latest - (duration ?? UNTIMED_ITEM_MINUTES * MINUTE_MS));
+  }
+
+  const changes: ItineraryTimeChange[] = [];
+  const toChange = (item: ScheduledItem, newStart: number): ItineraryTimeChange => {
+    const itemDuration = getDuration(item);
+    return {
+      itemId: item.id,
+      startTime: new Date(newStart),
+      endTime: itemDuration === null ? null : new Date(newStart + itemDuration),
+    };
+  };
+
+  if (start !== getStart(moving)) changes.push(toChange(moving, start));
+
+  let cursor = getSlotEnd(start, duration);
+  for (const item of dayItems.slice(index)) {
+    if (getStart(item) >= cursor) break;
+    changes.push(toChange(item, cursor));
+    cursor = getSlotEnd(cursor, getDuration(item));
+  }
+
+  return changes;
+};
+
+// Moving several items to another day from the list: each keeps its clock time and length, so
+// nothing else on that day is pushed around. Items without a time yet start the morning of that day.
+export const planMoveToDay = (
+  items: ScheduledItem[],
+  itemIds: string[],
+  targetDayKey: string
+): ItineraryTimeChange[] =>
+  items.flatMap((item) => {
+    if (!itemIds.includes(item.id)) return [];
+
+    if (!item.startTime) {
+      const start = new Date(targetDayKey);
+      start.setHours(DEFAULT_START_HOUR, 0, 0, 0);
+      return [{ itemId: item.id, startTime: start, endTime: null }];
+    }
+
+    const start = onDay(getStart(item), targetDayKey);
+    if (start === getStart(item)) return [];
+    const duration = getDuration(item);
+    return [{
+      itemId: item.id,
+      startTime: new Date(start),
+      endTime: duration === null ? null : new Date(start + duration),
+    }];
+  });
@@ -0,0 +1,48 @@
+import { Expense, ItineraryItem } from '../types/database';
+import { getConvertedExpenseAmount } from './exchange-rates';
+
+// ============================================
+// Itinerary Spending
+// ============================================
+
+type SpendExpense = Pick<
+  Expense,
+  'amount' | 'exchangeRate' | 'itineraryItemId' | 'occurrenceDate' | 'createdAt'
+>;
+
+// Expenses linked to a single itinerary item
+export const getLinkedExpenses = <T extends Pick<Expense, 'itineraryItemId'>>(
+  expenses: T[],
+  itemId: string
+): T[] => expenses.filter((expense) => expense.itineraryItemId === itemId);
+
+// Total of a set of expenses in the trip currency
+export const sumConvertedExpenses = (expenses: Pick<Expense, 'amount' | 'exchangeRate'>[]): number =>
+  expenses.reduce((sum, expense) => sum + getConvertedExpenseAmount(expense), 0);
+
+// The day an expense counts towards, keyed like the itinerary timeline (Date.toDateString()).
+// Linked expenses follow their item's day; others use the day they were logged for.
+export const getExpenseDayKey = (
+  expense: SpendExpense,
+  itemsById: Record<string, Pick<ItineraryItem, 'startTime'>>
+): string => {
+  const linkedItem = expense.itineraryItemId ? itemsById[expense.itineraryItemId] : undefined;
+  const date = linkedItem?.startTime || expense.occurrenceDate || expense.createdAt;
+  return new Date(date).toDateString();
+};
+
+// Spend per day in the trip currency
+export const computeDailySpend = (
+  expenses: SpendExpense[],
+  items: Pick<ItineraryItem, 'id' | 'startTime'>[]
+): Record<string, number> => {
+  const itemsById = Object.fromEntries(items.map((item) => [item.id, item]));
+  return expenses.reduce(
+    (acc, expense) => {
+      const key = getExpenseDayKey(expense, itemsById);
+      acc[key] = (acc[key] || 0) + getConvertedExpenseAmount(expense);
+      return acc;
+    },
+    {} as Record<string, number>
+  );
+};
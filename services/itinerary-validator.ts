@@ -0,0 +1,190 @@
+import { calculateDistance, Coordinates, ItineraryItem, Trip } from '../types/database';
+import { getDayKey, getItemsForDay } from './itinerary-schedule';
+
+// ============================================
+// Itinerary Checks
+// ============================================
+
+export type ItineraryWarningType =
+  | 'overlap'
+  | 'outsideTrip'
+  | 'impossibleTransfer'
+  | 'missingAccommodation'
+  | 'lateNightGap';
+
+export interface ItineraryWarning {
+  type: ItineraryWarningType;
+  itemId: string | null; // null for warnings about the day as a whole
+  message: string;
+}
+
+// Minutes needed to get from one place to the next, or null when it can't be worked out
+export type TravelTimeEstimator = (origin: Coordinates, destination: Coordinates) => Promise<number | null>;
+
+type ValidatedTrip = Pick<Trip, 'startDate' | 'endDate'>;
+
+const MINUTE_MS = 60 * 1000;
+
+// Straight-line estimate: short hops are walked, anything longer is driven along roads
+// that run this much further than the crow flies
+const WALKING_DISTANCE_KM = 1.5;
+const WALKING_SPEED_KMH = 5;
+const DRIVING_SPEED_KMH = 40;
+const ROAD_DETOUR_FACTOR = 1.3;
+
+// Ending between these hours with nothing booked for a while means finding transport or a bed at night
+const LATE_NIGHT_START_HOUR = 23;
+const LATE_NIGHT_END_HOUR = 5;
+const LATE_NIGHT_GAP_MINUTES = 60;
+
+const isAccommodation = (item: ItineraryItem) => item.category === 'accommodation';
+
+const getStart = (item: ItineraryItem) => new Date(item.startTime!).getTime();
+
+const getEnd = (item: ItineraryItem) => (item.endTime ? new Date(item.endTime).getTime() : getStart(item));
+
+const getCoordinates = (item: ItineraryItem): Coordinates | null =>
+  item.latitude != null && item.longitude != null ? { latitude: item.latitude, longitude: item.longitude } : null;
+
+const startOfDay = (date: Date | string | number) => {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day.getTime();
+};
+
+const formatTime = (time: number) =>
+  new Date(time).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+
+const formatMinutes = (minutes: number) => {
+  const rounded = Math.round(minutes);
+  if (rounded < 60) return `${rounded} min`;
+  const hours = Math.floor(rounded / 60);
+  const rest = rounded % 60;
+  return rest ? `${hours} h ${rest} min` : `${hours} h`;
+};
+
+const getStraightLineMinutes = (origin: Coordinates, destination: Coordinates): number => {
+  const distance = calculateDistance(origin, destination);
+  if (distance <= WALKING_DISTANCE_KM) return (distance / WALKING_SPEED_KMH) * 60;
+  return ((distance * ROAD_DETOUR_FACTOR) / DRIVING_SPEED_KMH) * 60;
+};
+
+// Used when no routing service is available, such as offline
+export const estimateStraightLineMinutes: TravelTimeEstimator = async (origin, destination) =>
+  getStraightLineMinutes(origin, destination);
+
+// Nights run from check-in day up to, but not including, check-out day; a stay without a
+// check-out time covers just the night it starts
+const isNightCovered = (items: ItineraryItem[], dayKey: string): boolean => {
+  const night = startOfDay(dayKey);
+  return items.some((item) => {
+    if (!item.startTime || !isAccommodation(item)) return false;
+    const checkIn = startOfDay(item.startTime);
+    const checkOut = item.endTime ? startOfDay(item.endTime) : checkIn;
+    return checkIn <= night && (night < checkOut || night === checkIn);
+  });
+};
+
+/**
+ * Everything worth flagging on one day of the trip: overlapping items, items outside the trip
+ * dates, transfers that can't be made in the time between stops, nights with nowhere to stay
+ * and late finishes with nothing booked after them. `items` is the whole itinerary, since stays
+ * and late-night gaps reach across days.
+ */
+export const validateItineraryDay = async (
+  trip: ValidatedTrip,
+  items: ItineraryItem[],
+  dayKey: string,
+  estimateTravelMinutes: TravelTimeEstimator = estimateStraightLineMinutes
+): Promise<ItineraryWarning[]> => {
+  const warnings: ItineraryWarning[] = [];
+  const dayItems = getItemsForDay(items, dayKey);
+  const tripStart = startOfDay(trip.startDate);
+  const tripEnd = startOfDay(trip.endDate);
+  const day = startOfDay(dayKey);
+
+  // Outside the trip dates
+  if (day < tripStart || day > tripEnd) {
+    dayItems.forEach((item) => {
+      warnings.push({
+        type: 'outsideTrip',
+        itemId: item.id,
+        message: `"${item.title}" is ${day < tripStart ? 'before the trip starts' : 'after the trip ends'}`,
+      });
+    });
+  }
+
+  // Overlaps, against whichever earlier item runs latest
+  let latest: ItineraryItem | null = null;
+  for (const item of dayItems) {
+    if (latest && getStart(item) < getEnd(latest)) {
+      warnings.push({
+        type: 'overlap',
+        itemId: item.id,
+        message: `Overlaps with "${latest.title}", which runs until ${formatTime(getEnd(latest))}`,
+      });
+    }
+    if (!latest || getEnd(item) > getEnd(latest)) latest = item;
+  }
+
+  // Transfers between consecutive stops that both have a location
+  for (let i = 1; i < dayItems.length; i++) {
+    const previous = dayItems[i - 1];
+    const item = dayItems[i];
+    const from = getCoordinates(previous);
+    const to = getCoordinates(item);
+    const gapMinutes = (getStart(item) - getEnd(previous)) / MINUTE_MS;
+    if (!from || !to || gapMinutes < 0) continue;
+
+    const travelMinutes = (await estimateTravelMinutes(from, to)) ?? getStraightLineMinutes(from, to);
+    if (travelMinutes > gapMinutes) {
+      warnings.push({
+        type: 'impossibleTransfer',
+        itemId: item.id,
+        message: `Getting here from "${previous.title}" takes about ${formatMinutes(travelMinutes)}, but there ${
+          gapMinutes === 0 ? 'is no time' : `${gapMinutes === 1 ? 'is' : 'are'} only ${formatMinutes(gapMinutes)}`
+        } between them`,
+      });
+    }
+  }
+
+  // Late finishes with nowhere to stay and nothing booked soon after
+  dayItems.forEach((item) => {
+    const end = getEnd(item);
+    const endHour = new Date(end).getHours();
+    if (isAccommodation(item) || (endHour < LATE_NIGHT_START_HOUR && endHour >= LATE_NIGHT_END_HOUR)) return;
+
+    // Finishing after midnight still belongs to the night before
+    const night = new Date(end);
+    if (endHour < LATE_NIGHT_END_HOUR) night.setDate(night.getDate() - 1);
+    if (isNightCovered(items, getDayKey(night))) return;
+
+    const next = items
+      .filter((other) => other.id !== item.id && other.startTime && getStart(other) >= end)
+      .sort((a, b) => getStart(a) - getStart(b))[0];
+    if (next && getStart(next) - end <= LATE_NIGHT_GAP_MINUTES * MINUTE_MS) return;
+
+    warnings.push({
+      type: 'lateNightGap',
+      itemId: item.id,
+      message: next
+        ? `Ends at ${formatTime(end)} with nowhere to stay and nothing planned until "${next.title}" at ${formatTime(getStart(next))}`
+        : `Ends at ${formatTime(end)} with nowhere to stay and nothing planned afterwards`,
+    });
+  });
+
+  // Every night of the trip except the last needs somewhere to stay
+  if (day >= tripStart && day < tripEnd && !isNightCovered(items, dayKey)) {
+    warnings.push({
+      type: 'missingAccommodation',
+      itemId: null,
+      message: 'No accommodation planned for tonight',
+    });
+  }
+
+  return warnings;
+};
+
+// Warnings for one item of the timeline
+export const getItemWarnings = (warnings: ItineraryWarning[], itemId: string): ItineraryWarning[] =>
+  warnings.filter((warning) => warning.itemId === itemId);
@@ -0,0 +1,142 @@
+// ============================================
+// Offline Map Tiles
+// ============================================
+
+export interface BoundingBox {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
+export interface MapTile {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface MapDownloadEstimate {
+  tileCount: number;
+  sizeInMB: number;
+}
+
+// Standard slippy-map tiles from a server whose terms allow bulk downloads for offline use
+// (a commercial provider or a self-hosted server). There is no default: the public
+// OpenStreetMap servers forbid prefetching, so saving maps offline stays off until one is set.
+export const getTileUrlTemplate = (): string | null => process.env.EXPO_PUBLIC_MAP_TILE_URL || null;
+
+export const isOfflineMapDownloadAvailable = (): boolean => getTileUrlTemplate() !== null;
+
+export const TILE_SIZE = 256;
+
+// Streets are readable from 12; 16 shows buildings and footpaths
+export const DEFAULT_MIN_ZOOM = 10;
+export const DEFAULT_MAX_ZOOM = 16;
+
+// A typical 256px raster tile; used only to estimate before downloading
+const AVERAGE_TILE_BYTES = 20 * 1024;
+
+// Keeps a careless zoom range from queueing a whole country at street level
+export const MAX_TILES_PER_REGION = 10000;
+
+// Web Mercator stops short of the poles
+const MAX_LATITUDE = 85.0511;
+
+// Area to download around a single point, such as a trip destination with no mapped stops yet
+const DEFAULT_SPAN_DEGREES = 0.05;
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+// The box around every stop with coordinates, padded so the outermost stops aren't on the edge
+export const getBoundsForPoints = (
+  points: { latitude?: number | null; longitude?: number | null }[],
+  paddingRatio: number = 0.1
+): BoundingBox | null => {
+  const located = points.filter(
+    (point): point is { latitude: number; longitude: number } =>
+      point.latitude != null && point.longitude != null
+  );
+  if (located.length === 0) return null;
+
+  const latitudes = located.map((point) => point.latitude);
+  const longitudes = located.map((point) => point.longitude);
+  const north = Math.max(...latitudes);
+  const south = Math.min(...latitudes);
+  const east = Math.max(...longitudes);
+  const west = Math.min(...longitudes);
+
+  const latPadding = Math.max((north - south) * paddingRatio, DEFAULT_SPAN_DEGREES / 2);
+  const lngPadding = Math.max((east - west) * paddingRatio, DEFAULT_SPAN_DEGREES / 2);
+  return {
+    north: clamp(north + latPadding, -MAX_LATITUDE, MAX_LATITUDE),
+    south: clamp(south - latPadding, -MAX_LATITUDE, MAX_LATITUDE),
+    east: clamp(east + lngPadding, -180, 180),
+    west: clamp(west - lngPadding, -180, 180),
+  };
+};
+
+export const getBoundsCenter = (bounds: BoundingBox) => ({
+  latitude: (bounds.north + bounds.south) / 2,
+  longitude: (bounds.east + bounds.west) / 2,
+  latitudeDelta: bounds.north - bounds.south,
+  longitudeDelta: bounds.east - bounds.west,
+});
+
+export const longitudeToTileX = (longitude: number, zoom: number): number => {
+  const tiles = 2 ** zoom;
+  return clamp(Math.floor(((longitude + 180) / 360) * tiles), 0, tiles - 1);
+};
+
+export const latitudeToTileY = (latitude: number, zoom: number): number => {
+  const tiles = 2 ** zoom;
+  const radians = (clamp(latitude, -MAX_LATITUDE, MAX_LATITUDE) * Math.PI) / 180;
+  const y = ((1 - Math.log(Math.tan(radians) + 1 / Math.cos(radians)) / Math.PI) / 2) * tiles;
+  return clamp(Math.floor(y), 0, tiles - 1);
+};
+
+// Tile columns and rows covering the box at one zoom level; y grows southwards
+export const getTileRange = (bounds: BoundingBox, zoom: number) => ({
+  minX: longitudeToTileX(bounds.west, zoom),
+  maxX: longitudeToTileX(bounds.east, zoom),
+  minY: latitudeToTileY(bounds.north, zoom),
+  maxY: latitudeToTileY(bounds.south, zoom),
+});
+
+export const countTiles = (bounds: BoundingBox, minZoom: number, maxZoom: number): number => {
+  let count = 0;
+  for (let zoom = minZoom; zoom <= maxZoom; zoom++) {
+    const { minX, maxX, minY, maxY } = getTileRange(bounds, zoom);
+    count += (maxX - minX + 1) * (maxY - minY + 1);
+  }
+  return count;
+};
+
+export const estimateMapDownload = (
+  bounds: BoundingBox,
+  minZoom: number,
+  maxZoom: number
+): MapDownloadEstimate => {
+  const tileCount = countTiles(bounds, minZoom, maxZoom);
+  return {
+    tileCount,
+    sizeInMB: Math.round(((tileCount * AVERAGE_TILE_BYTES) / (1024 * 1024)) * 10) / 10,
+  };
+};
+
+// Every tile in the box, lowest zoom first so a partial download is still useful zoomed out
+export function* iterateTiles(bounds: BoundingBox, minZoom: number, maxZoom: number): Generator<MapTile> {
+  for (let z = minZoom; z <= maxZoom; z++) {
+    const { minX, maxX, minY, maxY } = getTileRange(bounds, z);
+    for (let x = minX; x <= maxX; x++) {
+      for (let y = minY; y <= maxY; y++) {
+        yield { x, y, z };
+      }
+    }
+  }
+}
+
+export const getTileUrl = (template: string, { x, y, z }: MapTile): string =>
+  template.replace('{z}', String(z)).replace('{x}', String(x)).replace('{y}', String(y));
+
+// Where a tile lives under its region's directory; matches the {z}/{x}/{y} layout map overlays read
+export const getTilePath = ({ x, y, z }: MapTile): string => `${z}/${x}/${y}.png`;
@@ -0,0 +1,187 @@
+import { COLLECTIONS, Expense } from '../types/database';
+import {
+    addCollaborator,
+    createDocument,
+    createExpense,
+    createExpenseShare,
+    createItineraryItem,
+    createTrip,
+    deleteDocument,
+    deleteExpense,
+    deleteItineraryItem,
+    deleteTrip,
+    ExpenseUpdateInput,
+    getDocumentData,
+    removeCollaborator,
+    updateCollaboratorRole,
+    updateExpense,
+    updateExpenseWithShares,
+    updateItineraryItem,
+    updateTrip,
+} from './firestore';
+import {
+    checkMutationConflict,
+    ConflictCheck,
+    ConflictPolicy,
+    getMutationChanges,
+    getMutationTargetId,
+    MutationCollection,
+    OfflineMutation,
+    OfflineQueueItem,
+    reviveDateFields,
+} from './mutation-queue';
+import { cacheTrips, getCachedTrips } from './offline';
+import { reviveQueuedExpenseInput } from './offline-expenses';
+
+// ============================================
+// Offline Mutation Handlers
+// ============================================
+
+type MutationOf<C extends MutationCollection> = Extract<OfflineMutation, { collection: C }>;
+
+interface MutationHandler<C extends MutationCollection> {
+  conflictPolicy: ConflictPolicy;
+  // The document as it is in Firestore now, to check queued edits against
+  getRemote: (id: string) => Promise<Record<string, unknown> | null>;
+  // Write the change; creates return the ID Firestore gave the new document
+  apply: (mutation: MutationOf<C>) => Promise<string | void>;
+}
+
+export type MutationResult =
+  | { outcome: 'done'; createdId?: string }
+  | { outcome: 'unsupported' }
+  | Exclude<ConflictCheck, { outcome: 'apply' }>;
+
+const TRIP_DATE_FIELDS = ['startDate', 'endDate'];
+const ITINERARY_DATE_FIELDS = ['startTime', 'endTime'];
+
+// The trip list shows offline-created trips from the cache; point them at their real ID
+const replaceCachedTripId = async (tempId: string, realId: string): Promise<void> => {
+  try {
+    const cached = (await getCachedTrips()) || [];
+    await cacheTrips(cached.map((trip: any) => (trip.id === tempId ? { ...trip, id: realId } : trip)));
+  } catch (err) {
+    console.warn('Failed to update cached trips after create sync:', err);
+  }
+};
+
+const MUTATION_HANDLERS: { [C in MutationCollection]: MutationHandler<C> } = {
+  [COLLECTIONS.TRIPS]: {
+    conflictPolicy: 'field-merge',
+    getRemote: (id) => getDocumentData(COLLECTIONS.TRIPS, id),
+    apply: async (mutation) => {
+      switch (mutation.type) {
+        case 'create': {
+          const { tempId, tripData } = mutation.data;
+          const realId = await createTrip(reviveDateFields(tripData, TRIP_DATE_FIELDS));
+          await replaceCachedTripId(tempId, realId);
+          return realId;
+        }
+        case 'update':
+          return updateTrip(mutation.data.tripId, reviveDateFields(mutation.data.updateData, TRIP_DATE_FIELDS));
+        case 'delete':
+          return deleteTrip(mutation.data.tripId);
+      }
+    },
+  },
+
+  [COLLECTIONS.ITINERARY_ITEMS]: {
+    conflictPolicy: 'field-merge',
+    getRemote: (id) => getDocumentData(COLLECTIONS.ITINERARY_ITEMS, id),
+    apply: async (mutation) => {
+      switch (mutation.type) {
+        case 'create':
+          return createItineraryItem(reviveDateFields(mutation.data.itemData, ITINERARY_DATE_FIELDS));
+        case 'update':
+          return updateItineraryItem(
+            mutation.data.itemId,
+            reviveDateFields(mutation.data.changes, ITINERARY_DATE_FIELDS)
+          );
+        case 'delete':
+          return deleteItineraryItem(mutation.data.itemId);
+      }
+    },
+  },
+
+  [COLLECTIONS.EXPENSES]: {
+    conflictPolicy: 'field-merge',
+    getRemote: (id) => getDocumentData(COLLECTIONS.EXPENSES, id),
+    apply: async (mutation) => {
+      switch (mutation.type) {
+        case 'create':
+          // Shares are written in the same batch as the expense
+          return createExpense(reviveQueuedExpenseInput(mutation.data.expenseData));
+        case 'update': {
+          const { expenseId, changes, shares, actorId } = mutation.data;
+          if (shares) {
+            return updateExpenseWithShares(expenseId, changes as ExpenseUpdateInput, shares, actorId);
+          }
+          return updateExpense(expenseId, changes as Partial<Expense>, actorId);
+        }
+        case 'delete':
+          return deleteExpense(mutation.data.expenseId, mutation.data.actorId);
+      }
+    },
+  },
+
+  [COLLECTIONS.EXPENSE_SHARES]: {
+    conflictPolicy: 'last-write-wins',
+    getRemote: (id) => getDocumentData(COLLECTIONS.EXPENSE_SHARES, id),
+    apply: (mutation) => createExpenseShare(mutation.data.shareData),
+  },
+
+  [COLLECTIONS.DOCUMENTS]: {
+    conflictPolicy: 'last-write-wins',
+    getRemote: (id) => getDocumentData(COLLECTIONS.DOCUMENTS, id),
+    apply: async (mutation) => {
+      switch (mutation.type) {
+        case 'create':
+          return createDocument(mutation.data.documentData);
+        case 'delete':
+          return deleteDocument(mutation.data.documentId);
+      }
+    },
+  },
+
+  [COLLECTIONS.TRIP_COLLABORATORS]: {
+    // A role is a single value; the later change is the one that should stick
+    conflictPolicy: 'last-write-wins',
+    getRemote: (id) => getDocumentData(COLLECTIONS.TRIP_COLLABORATORS, id),
+    apply: async (mutation) => {
+      switch (mutation.type) {
+        case 'create':
+          return addCollaborator(mutation.data.collaboratorData);
+        case 'update':
+          return updateCollaboratorRole(mutation.data.collaboratorId, mutation.data.changes.role);
+        case 'delete':
+          return removeCollaborator(mutation.data.collaboratorId);
+      }
+    },
+  },
+};
+
+// Replay one queued change. Edits are checked against the live document first;
+// deletes of documents that are already gone count as done.
+export const runMutation = async (item: OfflineQueueItem): Promise<MutationResult> => {
+  const handler = MUTATION_HANDLERS[item.collection] as MutationHandler<MutationCollection> | undefined;
+  if (!handler) return { outcome: 'unsupported' };
+
+  if (item.type !== 'create') {
+    const remote = await handler.getRemote(getMutationTargetId(item));
+    if (item.type === 'delete' && !remote) return { outcome: 'done' };
+
+    if (item.type === 'update') {
+      const check = checkMutationConflict(
+        getMutationChanges(item),
+        item.data,
+        remote,
+        item.timestamp,
+        handler.conflictPolicy
+      );
+      if (check.outcome !== 'apply') return check;
+    }
+  }
+
+  const createdId = await handler.apply(item);
+  return createdId ? { outcome: 'done', createdId } : { outcome: 'done' };
+};
@@ -0,0 +1,337 @@
+import {
+    CollaboratorRole,
+    COLLECTIONS,
+    CreateInput,
+    ExpenseShare,
+    ItineraryItem,
+    Trip,
+    TripCollaborator,
+    TripDocument,
+} from '../types/database';
+import type { QueuedExpenseCreate, QueuedExpenseUpdate } from './offline-expenses';
+
+// ============================================
+// Local IDs
+// ============================================
+
+// Records created offline get a local ID until their queued create reaches Firestore
+export const LOCAL_ID_PREFIX = 'local_';
+
+export const isLocalId = (id: string): boolean => id.startsWith(LOCAL_ID_PREFIX);
+
+export const createLocalId = (): string =>
+  `${LOCAL_ID_PREFIX}${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
+
+// ============================================
+// Mutation Types
+// ============================================
+
+// What an offline edit was made against, so replay can tell whether someone else changed the document since
+export interface MutationBase {
+  base?: Record<string, unknown>; // Values of the edited fields before the edit
+  baseUpdatedAt?: number | null; // The document's updatedAt (ms) when it was edited
+}
+
+export type OfflineMutation =
+  | { collection: typeof COLLECTIONS.TRIPS; type: 'create'; data: { tempId: string; tripData: CreateInput<Trip> } }
+  | { collection: typeof COLLECTIONS.TRIPS; type: 'update'; data: { tripId: string; updateData: Partial<Trip> } & MutationBase }
+  | { collection: typeof COLLECTIONS.TRIPS; type: 'delete'; data: { tripId: string } }
+  | { collection: typeof COLLECTIONS.ITINERARY_ITEMS; type: 'create'; data: { tempId: string; itemData: CreateInput<ItineraryItem> } }
+  | { collection: typeof COLLECTIONS.ITINERARY_ITEMS; type: 'update'; data: { itemId: string; changes: Partial<ItineraryItem> } & MutationBase }
+  | { collection: typeof COLLECTIONS.ITINERARY_ITEMS; type: 'delete'; data: { itemId: string } }
+  | { collection: typeof COLLECTIONS.EXPENSES; type: 'create'; data: QueuedExpenseCreate }
+  | { collection: typeof COLLECTIONS.EXPENSES; type: 'update'; data: QueuedExpenseUpdate }
+  | { collection: typeof COLLECTIONS.EXPENSES; type: 'delete'; data: { expenseId: string; actorId: string } }
+  // Shares normally travel with their expense; this covers shares written on their own
+  | { collection: typeof COLLECTIONS.EXPENSE_SHARES; type: 'create'; data: { tempId: string; shareData: CreateInput<ExpenseShare> } }
+  | { collection: typeof COLLECTIONS.DOCUMENTS; type: 'create'; data: { tempId: string; documentData: CreateInput<TripDocument> } }
+  | { collection: typeof COLLECTIONS.DOCUMENTS; type: 'delete'; data: { documentId: string } }
+  | { collection: typeof COLLECTIONS.TRIP_COLLABORATORS; type: 'create'; data: { tempId: string; collaboratorData: CreateInput<TripCollaborator> } }
+  | { collection: typeof COLLECTIONS.TRIP_COLLABORATORS; type: 'update'; data: { collaboratorId: string; changes: { role: CollaboratorRole } } & MutationBase }
+  | { collection: typeof COLLECTIONS.TRIP_COLLABORATORS; type: 'delete'; data: { collaboratorId: string } };
+
+export type MutationCollection = OfflineMutation['collection'];
+export type MutationType = OfflineMutation['type'];
+
+// Fields edited both offline and elsewhere since, waiting for the user to pick a side
+export interface MutationConflict {
+  fields: string[];
+  remote: Record<string, unknown>; // Their current values for those fields
+  remoteUpdatedAt: number | null;
+  detectedAt: number;
+}
+
+export type OfflineQueueItem = OfflineMutation & {
+  id: string;
+  timestamp: number; // When the change was made
+  attempts?: number; // Failed replays so far
+  nextAttemptAt?: number | null; // Not replayed again before this time
+  lastError?: string | null;
+  conflict?: MutationConflict | null;
+};
+
+// Changes that can't be synced, kept so the user can see what was lost
+export type DeadLetterItem = OfflineQueueItem & {
+  reason: string;
+  failedAt: number;
+};
+
+// The field that holds the target document's ID for updates and deletes
+const TARGET_ID_FIELDS: Record<MutationCollection, string> = {
+  [COLLECTIONS.TRIPS]: 'tripId',
+  [COLLECTIONS.ITINERARY_ITEMS]: 'itemId',
+  [COLLECTIONS.EXPENSES]: 'expenseId',
+  [COLLECTIONS.EXPENSE_SHARES]: 'shareId',
+  [COLLECTIONS.DOCUMENTS]: 'documentId',
+  [COLLECTIONS.TRIP_COLLABORATORS]: 'collaboratorId',
+};
+
+// The document a mutation creates, edits or deletes
+export const getMutationTargetId = (mutation: OfflineMutation): string => {
+  const data = mutation.data as unknown as Record<string, string>;
+  return mutation.type === 'create' ? data.tempId : data[TARGET_ID_FIELDS[mutation.collection]];
+};
+
+// The fields an update writes
+export const getMutationChanges = (mutation: OfflineMutation): Record<string, unknown> => {
+  if (mutation.type !== 'update') return {};
+  if (mutation.collection === COLLECTIONS.TRIPS) return mutation.data.updateData;
+  return mutation.data.changes;
+};
+
+// ============================================
+// Temp ID Remapping
+// ============================================
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype;
+
+export const collectLocalIds = (value: unknown, found: Set<string> = new Set()): Set<string> => {
+  if (typeof value === 'string') {
+    if (isLocalId(value)) found.add(value);
+  } else if (Array.isArray(value)) {
+    value.forEach((entry) => collectLocalIds(entry, found));
+  } else if (isPlainObject(value)) {
+    Object.values(value).forEach((entry) => collectLocalIds(entry, found));
+  }
+  return found;
+};
+
+// Swap local IDs for the real IDs their creates were given, wherever they appear in the payload
+export const remapLocalIds = <T>(value: T, idMap: Record<string, string>): T => {
+  if (typeof value === 'string') return (idMap[value] ?? value) as T;
+  if (Array.isArray(value)) return value.map((entry) => remapLocalIds(entry, idMap)) as T;
+  if (isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [key, remapLocalIds(entry, idMap)])
+    ) as T;
+  }
+  return value;
+};
+
+// IDs a mutation touches; mutations sharing one replay strictly in queue order
+export const getMutationKeys = (mutation: OfflineMutation): string[] => [
+  ...new Set([getMutationTargetId(mutation), ...collectLocalIds(mutation.data)]),
+];
+
+// Offline-created records a mutation refers to, which must reach Firestore first
+export const getMutationDependencies = (mutation: OfflineMutation): string[] => {
+  const ownId = mutation.type === 'create' ? getMutationTargetId(mutation) : null;
+  return [...collectLocalIds(mutation.data)].filter((id) => id !== ownId);
+};
+
+// Dates come back from storage as ISO strings
+export const reviveDateFields = <T extends object>(data: T, fields: string[]): T => {
+  const revived = { ...data } as Record<string, unknown>;
+  fields.forEach((field) => {
+    if (typeof revived[field] === 'string') revived[field] = new Date(revived[field] as string);
+  });
+  return revived as T;
+};
+
+// ============================================
+// Retries
+// ============================================
+
+export const MAX_MUTATION_ATTEMPTS = 8;
+const RETRY_BASE_DELAY_MS = 5 * 1000;
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+
+// Firestore error codes a retry can't fix
+const PERMANENT_ERROR_CODES = ['permission-denied', 'not-found', 'invalid-argument', 'already-exists'];
+
+// 5s, 10s, 20s, ... capped at an hour
+export const getRetryDelay = (attempts: number): number =>
+  Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_DELAY_MS);
+
+export const isPermanentMutationError = (error: unknown): boolean => {
+  const code = (error as { code?: unknown } | null)?.code;
+  return typeof code === 'string' && PERMANENT_ERROR_CODES.includes(code);
+};
+
+// Count a failed replay; `deadLetter` once retrying is pointless or has gone on long enough
+export const recordMutationFailure = (
+  item: OfflineQueueItem,
+  error: unknown,
+  now: number = Date.now()
+): { item: OfflineQueueItem; deadLetter: boolean } => {
+  const attempts = (item.attempts || 0) + 1;
+  return {
+    item: {
+      ...item,
+      attempts,
+      nextAttemptAt: now + getRetryDelay(attempts),
+      lastError: error instanceof Error ? error.message : String(error),
+    },
+    deadLetter: isPermanentMutationError(error) || attempts >= MAX_MUTATION_ATTEMPTS,
+  };
+};
+
+// When the queue next has something to retry, or null if nothing is backing off
+export const getNextRetryAt = (queue: OfflineQueueItem[], now: number = Date.now()): number | null => {
+  const times = queue
+    .filter((item) => !item.conflict && (item.nextAttemptAt ?? 0) > now)
+    .map((item) => item.nextAttemptAt as number);
+  return times.length > 0 ? Math.min(...times) : null;
+};
+
+// ============================================
+// Conflict Detection
+// ============================================
+
+// Last-write-wins keeps whichever edit was made later; field-merge applies edits
+// to fields nobody else touched and stops on the ones both sides changed
+export type ConflictPolicy = 'last-write-wins' | 'field-merge';
+
+export type ConflictCheck =
+  | { outcome: 'apply' }
+  | { outcome: 'superseded' }
+  | { outcome: 'missing' }
+  | { outcome: 'conflict'; conflict: MutationConflict };
+
+const toMillis = (value: unknown): number | null => {
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string') {
+    const parsed = Date.parse(value);
+    return Number.isNaN(parsed) ? null : parsed;
+  }
+  return null;
+};
+
+// Stored and live values compare by content, so a Date matches its ISO string and key order doesn't matter
+const toComparable = (value: unknown): unknown => {
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.map(toComparable);
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    return Object.fromEntries(Object.keys(record).sort().map((key) => [key, toComparable(record[key])]));
+  }
+  return value ?? null;
+};
+
+const isSameValue = (a: unknown, b: unknown): boolean =>
+  JSON.stringify(toComparable(a)) === JSON.stringify(toComparable(b));
+
+export const checkMutationConflict = (
+  changes: Record<string, unknown>,
+  { base, baseUpdatedAt }: MutationBase,
+  remote: Record<string, unknown> | null,
+  queuedAt: number,
+  policy: ConflictPolicy,
+  now: number = Date.now()
+): ConflictCheck => {
+  if (!remote) return { outcome: 'missing' };
+
+  const remoteUpdatedAt = toMillis(remote.updatedAt ?? remote.createdAt);
+  // Nobody else has written since the edit, or there is nothing to tell by
+  if (baseUpdatedAt == null || remoteUpdatedAt == null || remoteUpdatedAt <= baseUpdatedAt) {
+    return { outcome: 'apply' };
+  }
+
+  if (policy === 'last-write-wins') {
+    return remoteUpdatedAt > queuedAt ? { outcome: 'superseded' } : { outcome: 'apply' };
+  }
+
+  const fields = Object.keys(changes).filter(
+    (field) =>
+      !isSameValue(remote[field], changes[field]) &&
+      (!base || !(field in base) || !isSameValue(remote[field], base[field]))
+  );
+  if (fields.length === 0) return { outcome: 'apply' };
+
+  return {
+    outcome: 'conflict',
+    conflict: {
+      fields,
+      remote: Object.fromEntries(fields.map((field) => [field, remote[field] ?? null])),
+      remoteUpdatedAt,
+      detectedAt: now,
+    },
+  };
+};
+
+// Resolve a conflict in favour of the offline edit: it replays as if made on top of their version
+export const keepLocalChanges = (item: OfflineQueueItem): OfflineQueueItem => {
+  if (!item.conflict || item.type !== 'update') return item;
+  const data = item.data as MutationBase;
+  return {
+    ...item,
+    data: {
+      ...item.data,
+      base: { ...data.base, ...item.conflict.remote },
+      baseUpdatedAt: item.conflict.remoteUpdatedAt,
+    },
+    conflict: null,
+    attempts: 0,
+    nextAttemptAt: null,
+    lastError: null,
+  } as OfflineQueueItem;
+};
+
+// ============================================
+// Sync Status
+// ============================================
+
+export type MutationStatus = 'pending' | 'syncing' | 'failed' | 'conflict';
+
+export const getMutationStatus = (item: OfflineQueueItem, syncingItemId: string | null): MutationStatus => {
+  if (item.conflict) return 'conflict';
+  if (item.id === syncingItemId) return 'syncing';
+  if (item.lastError) return 'failed';
+  return 'pending';
+};
+
+const ENTITY_LABELS: Record<MutationCollection, string> = {
+  [COLLECTIONS.TRIPS]: 'Trip',
+  [COLLECTIONS.ITINERARY_ITEMS]: 'Itinerary item',
+  [COLLECTIONS.EXPENSES]: 'Expense',
+  [COLLECTIONS.EXPENSE_SHARES]: 'Expense split',
+  [COLLECTIONS.DOCUMENTS]: 'Document',
+  [COLLECTIONS.TRIP_COLLABORATORS]: 'Collaborator',
+};
+
+const ACTION_LABELS: Record<MutationType, string> = {
+  create: 'Added',
+  update: 'Edited',
+  delete: 'Deleted',
+};
+
+// The record's name, when the queued payload carries one
+const getMutationTitle = (mutation: OfflineMutation): string | null => {
+  const payloads = [getMutationChanges(mutation), ...Object.values(mutation.data).filter(isPlainObject)];
+  for (const payload of payloads) {
+    const title = payload.title ?? payload.label;
+    if (typeof title === 'string' && title.trim()) return title.trim();
+  }
+  return null;
+};
+
+// How a queued change is listed in the sync center
+export const describeMutation = (
+  mutation: OfflineMutation
+): { entity: string; action: string; title: string | null } => ({
+  entity: ENTITY_LABELS[mutation.collection] ?? mutation.collection,
+  action: ACTION_LABELS[mutation.type],
+  title: getMutationTitle(mutation),
+});
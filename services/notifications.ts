@@ -21,7 +21,9 @@ import {
     Notification,
     NotificationType
 } from '../types/database';
-import { dateToTimestamp, timestampToDate } from './firestore';
+import { computeBudgetStatus, getPendingBudgetAlerts, TOTAL_BUDGET_KEY } from './budget';
+import { dateToTimestamp, getTrip, getTripExpenses, timestampToDate, updateTrip } from './firestore';
+import { getCommentPreview } from './itinerary-comments';
 
 // ============================================
 // Notifications Collection
@@ -435,6 +437,84 @@ export const notifyExpenseAdded = async (
   });
 };
 
+export const notifyExpenseUpdated = async (
+  tripId: string,
+  tripTitle: string,
+  expenseId: string,
+  expenseTitle: string,
+  amount: string,
+  actorId: string,
+  actorName: string
+): Promise<void> => {
+  await notifyTripCollaborators({
+    tripId,
+    tripTitle,
+    excludeUserId: actorId,
+    type: 'expense_updated',
+    title: 'Expense Updated',
+    message: `${actorName} updated "${expenseTitle}" (${amount}) in ${tripTitle}`,
+    actorId,
+    actorName,
+    expenseId,
+  });
+};
+
+// Send reminders for budget lines that just passed 80% or 100%.
+// Call after expenses change; thresholds already alerted are not repeated.
+export const checkBudgetAlerts = async (tripId: string): Promise<void> => {
+  const trip = await getTrip(tripId);
+  if (!trip?.budget) return;
+
+  const expenses = await getTripExpenses(tripId);
+  const lines = computeBudgetStatus(trip.budget, expenses);
+  const sentLevels = trip.budgetAlertLevels || {};
+  const { alerts, levels } = getPendingBudgetAlerts(lines, sentLevels);
+  const currency = trip.currency || 'USD';
+
+  for (const alert of alerts) {
+    const label = alert.key === TOTAL_BUDGET_KEY
+      ? 'Total'
+      : alert.key.charAt(0).toUpperCase() + alert.key.slice(1);
+    const percent = Math.round((alert.spent / alert.limit) * 100);
+
+    await notifyTripCollaborators({
+      tripId,
+      tripTitle: trip.title,
+      type: 'reminder',
+      title: alert.threshold >= 1 ? 'Budget Exceeded' : 'Budget Alert',
+      message: `${label} spending is at ${percent}% of the ${currency} ${alert.limit.toFixed(2)} budget for ${trip.title}`,
+    });
+  }
+
+  // Persist levels whenever they change, including drops so a line can alert again
+  const levelsChanged = Object.keys({ ...sentLevels, ...levels }).some(
+    (key) => levels[key] !== sentLevels[key]
+  );
+  if (levelsChanged) {
+    await updateTrip(tripId, { budgetAlertLevels: levels });
+  }
+};
+
+export const notifySettlementRecorded = async (
+  payeeId: string,
+  tripId: string,
+  tripTitle: string,
+  payerName: string,
+  amount: string,
+  actorId: string,
+  actorName: string
+): Promise<void> => {
+  await createNotification({
+    userId: payeeId,
+    type: 'settlement_recorded',
+    title: 'Payment Recorded',
+    message: `${payerName} paid you ${amount} in ${tripTitle}`,
+    tripId,
+    actorId,
+    actorName,
+  });
+};
+
 export const notifyItineraryAdded = async (
   tripId: string,
   tripTitle: string,
@@ -456,6 +536,28 @@ export const notifyItineraryAdded = async (
   });
 };
 
+export const notifyItineraryComment = async (
+  tripId: string,
+  tripTitle: string,
+  itineraryId: string,
+  itemTitle: string,
+  commentText: string,
+  actorId: string,
+  actorName: string
+): Promise<void> => {
+  await notifyTripCollaborators({
+    tripId,
+    tripTitle,
+    excludeUserId: actorId,
+    type: 'itinerary_comment',
+    title: 'New Comment',
+    message: `${actorName} commented on "${itemTitle}": ${getCommentPreview(commentText)}`,
+    actorId,
+    actorName,
+    itineraryId,
+  });
+};
+
 export const notifyTripInvitation = async (
   userId: string,
   tripId: string,
@@ -0,0 +1,154 @@
+import { COLLECTIONS, Expense, ExpenseShare } from '../types/database';
+import type { ExpenseUpdateInput } from './firestore';
+import type { MutationBase, OfflineQueueItem } from './mutation-queue';
+
+// ============================================
+// Offline Expense Entry
+// ============================================
+
+export interface QueuedShare {
+  userId: string;
+  shareAmount: number;
+}
+
+// What createExpense receives; dates come back from storage as ISO strings
+export interface QueuedExpenseInput extends ExpenseUpdateInput {
+  tripId: string;
+  occurrenceDate?: Date | string | null;
+  shares?: QueuedShare[];
+  actorId: string;
+}
+
+export interface QueuedExpenseCreate {
+  tempId: string;
+  expenseData: QueuedExpenseInput;
+}
+
+// An offline edit to an expense that is already in Firestore. With `shares`, `changes`
+// holds the whole form and replays through updateExpenseWithShares, otherwise through updateExpense.
+export interface QueuedExpenseUpdate extends MutationBase {
+  expenseId: string;
+  changes: Partial<ExpenseUpdateInput>;
+  shares?: QueuedShare[];
+  actorId: string;
+}
+
+export interface PendingExpenseChanges {
+  created: Expense[];
+  deleted: string[]; // Synced expenses deleted offline
+  updates: Record<string, QueuedExpenseUpdate>;
+  shares: Record<string, ExpenseShare[]>; // Replacement shares, keyed by expense ID
+}
+
+const reviveDate = (value: Date | string | null | undefined): Date | null =>
+  value ? new Date(value) : null;
+
+export const reviveQueuedExpenseInput = (data: QueuedExpenseInput): QueuedExpenseInput & { occurrenceDate: Date | null } => ({
+  ...data,
+  occurrenceDate: reviveDate(data.occurrenceDate),
+});
+
+const toShares = (expenseId: string, shares: QueuedShare[]): ExpenseShare[] =>
+  shares.map((share) => ({
+    id: `${expenseId}_${share.userId}`,
+    expenseId,
+    userId: share.userId,
+    shareAmount: share.shareAmount,
+  }));
+
+// How a queued create looks once synced, so it can be listed and edited before then
+export const queuedCreateToExpense = (item: OfflineQueueItem): Expense => {
+  const { tempId, expenseData } = item.data as QueuedExpenseCreate;
+  const queuedAt = new Date(item.timestamp);
+  return {
+    id: tempId,
+    tripId: expenseData.tripId,
+    title: expenseData.title,
+    amount: expenseData.amount,
+    currency: expenseData.currency,
+    exchangeRate: expenseData.exchangeRate ?? 1,
+    paidBy: expenseData.paidBy,
+    category: (expenseData.category || 'other') as Expense['category'],
+    splitType: expenseData.split?.type || 'equal',
+    split: expenseData.split ?? null,
+    itineraryItemId: expenseData.itineraryItemId ?? null,
+    receiptDocumentId: expenseData.receiptDocumentId ?? null,
+    recurringTemplateId: null,
+    occurrenceDate: reviveDate(expenseData.occurrenceDate),
+    createdAt: queuedAt,
+    updatedAt: queuedAt,
+    pendingSync: true,
+  };
+};
+
+const isExpenseItem = (item: OfflineQueueItem, type: OfflineQueueItem['type']): boolean =>
+  item.collection === COLLECTIONS.EXPENSES && item.type === type;
+
+export const findQueuedExpenseCreate = (
+  queue: OfflineQueueItem[],
+  tempId: string
+): OfflineQueueItem | undefined =>
+  queue.find((item) => isExpenseItem(item, 'create') && (item.data as QueuedExpenseCreate).tempId === tempId);
+
+// Everything still waiting in the queue for a trip's expenses (or every trip's), in queue order
+export const getPendingExpenseChanges = (
+  queue: OfflineQueueItem[],
+  tripId?: string
+): PendingExpenseChanges => {
+  const pending: PendingExpenseChanges = { created: [], deleted: [], updates: {}, shares: {} };
+
+  queue.forEach((item) => {
+    if (isExpenseItem(item, 'create')) {
+      const { tempId, expenseData } = item.data as QueuedExpenseCreate;
+      if (tripId && expenseData.tripId !== tripId) return;
+      pending.created.push(queuedCreateToExpense(item));
+      pending.shares[tempId] = toShares(tempId, expenseData.shares || []);
+    } else if (isExpenseItem(item, 'update')) {
+      const update = item.data as QueuedExpenseUpdate;
+      const previous = pending.updates[update.expenseId];
+      // Later edits win field by field, like they will when replayed in order
+      pending.updates[update.expenseId] = {
+        ...update,
+        changes: { ...previous?.changes, ...update.changes },
+        shares: update.shares ?? previous?.shares,
+      };
+      if (update.shares) {
+        pending.shares[update.expenseId] = toShares(update.expenseId, update.shares);
+      }
+    } else if (isExpenseItem(item, 'delete')) {
+      pending.deleted.push((item.data as { expenseId: string }).expenseId);
+    }
+  });
+
+  return pending;
+};
+
+// Synced expenses with offline edits and deletes applied, plus expenses created offline, newest first
+export const applyPendingExpenses = (expenses: Expense[], pending: PendingExpenseChanges): Expense[] => {
+  const edited = expenses
+    .filter((expense) => !pending.deleted.includes(expense.id))
+    .map((expense) => {
+      const update = pending.updates[expense.id];
+      if (!update) return expense;
+      const { category, split, ...changes } = update.changes;
+      return {
+        ...expense,
+        ...changes,
+        ...(category !== undefined && { category: category as Expense['category'] }),
+        ...(split !== undefined && { split, splitType: split?.type || 'equal' }),
+        pendingSync: true,
+      };
+    });
+
+  return [...pending.created, ...edited].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+};
+
+// Shares for the given expenses, with the split of every offline-created or re-split expense swapped in
+export const applyPendingShares = (
+  shares: ExpenseShare[],
+  pending: PendingExpenseChanges,
+  expenseIds: string[]
+): ExpenseShare[] => [
+  ...shares.filter((share) => !pending.shares[share.expenseId]),
+  ...expenseIds.flatMap((expenseId) => pending.shares[expenseId] || []),
+];
@@ -3,10 +3,50 @@
  * Handles caching of user data, documents, and map regions for offline access
  */
 
-import { User } from '@/types/database';
+import { COLLECTIONS, User } from '@/types/database';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import NetInfo, { NetInfoState } from '@react-native-community/netinfo';
+import Constants from 'expo-constants';
 import * as FileSystem from 'expo-file-system/legacy';
+import {
+    CacheCleanupPlan,
+    CacheEntry,
+    CacheSettings,
+    CacheUsage,
+    DEFAULT_CACHE_SETTINGS,
+    getCacheUsage,
+    planCacheCleanup,
+    TripDateRange,
+} from './cache-policy';
+import {
+    BoundingBox,
+    countTiles,
+    getBoundsCenter,
+    getTilePath,
+    getTileUrl,
+    getTileUrlTemplate,
+    iterateTiles,
+    MAX_TILES_PER_REGION,
+} from './map-tiles';
+import {
+    DeadLetterItem,
+    getMutationDependencies,
+    getMutationKeys,
+    getMutationTargetId,
+    keepLocalChanges,
+    OfflineMutation,
+    OfflineQueueItem,
+    recordMutationFailure,
+    remapLocalIds,
+} from './mutation-queue';
+import {
+    parseSnapshotSection,
+    serializeSnapshotSection,
+    StoredSnapshotSection,
+    TRIP_SNAPSHOT_SECTIONS,
+    TripSnapshotData,
+    TripSnapshotSection,
+} from './trip-snapshot';
 
 // Storage Keys
 const STORAGE_KEYS = {
@@ -17,6 +57,10 @@ const STORAGE_KEYS = {
   OFFLINE_MAP_REGIONS: '@tripbuddy/offline_map_regions',
   LAST_SYNC: '@tripbuddy/last_sync',
   OFFLINE_QUEUE: '@tripbuddy/offline_queue',
+  DEAD_LETTER_QUEUE: '@tripbuddy/dead_letter_queue',
+  OFFLINE_TRIPS: '@tripbuddy/offline_trips',
+  TRIP_SNAPSHOT_PREFIX: '@tripbuddy/trip_snapshot/',
+  CACHE_SETTINGS: '@tripbuddy/cache_settings',
 };
 
 // Directory for cached files
@@ -42,9 +86,15 @@ export interface CachedDocument {
   originalUrl: string;
   type: string;
   cachedAt: number;
+  lastAccessedAt?: number; // Missing on documents cached before eviction; cachedAt stands in
   fileSize: number;
 }
 
+export interface OfflineTrip {
+  tripId: string;
+  savedAt: number; // When the full snapshot was downloaded
+}
+
 export interface OfflineMapRegion {
   id: string;
   tripId: string;
@@ -53,18 +103,25 @@ export interface OfflineMapRegion {
   longitude: number;
   latitudeDelta: number;
   longitudeDelta: number;
-  zoomLevel: number;
+  bounds: BoundingBox;
+  minZoom: number;
+  maxZoom: number;
+  tileUrlTemplate: string; // Where the tiles come from, so a resumed download fetches the same set
   cachedAt: number;
+  lastAccessedAt?: number; // Last shown on the map; missing on regions saved before eviction
   tileCount: number;
-  sizeInMB: number;
+  downloadedTiles: number;
+  sizeInMB: number; // On disk so far
+  status: 'downloading' | 'incomplete' | 'complete';
 }
 
-export interface OfflineQueueItem {
-  id: string;
-  type: 'create' | 'update' | 'delete';
-  collection: string;
-  data: any;
-  timestamp: number;
+export type MapRegionRequest = Pick<OfflineMapRegion, 'id' | 'tripId' | 'name' | 'bounds' | 'minZoom' | 'maxZoom'>;
+
+export interface MapDownloadProgress {
+  regionId: string;
+  tileCount: number;
+  downloadedTiles: number;
+  failedTiles: number;
 }
 
 // Initialize cache directories
@@ -188,6 +245,72 @@ export const getCachedTrips = async (): Promise<any[] | null> => {
 // Alias for cacheTrips for use in hooks
 export const cacheTripsData = cacheTrips;
 
+// Trip Snapshots: whole trips kept on the device, one storage key per section
+const getSnapshotKey = (tripId: string, section: TripSnapshotSection) =>
+  `${STORAGE_KEYS.TRIP_SNAPSHOT_PREFIX}${tripId}/${section}`;
+
+export const getOfflineTrips = async (): Promise<Record<string, OfflineTrip>> => {
+  try {
+    const tripsStr = await AsyncStorage.getItem(STORAGE_KEYS.OFFLINE_TRIPS);
+    return tripsStr ? JSON.parse(tripsStr) : {};
+  } catch (error) {
+    console.error('Failed to get offline trips:', error);
+    return {};
+  }
+};
+
+// Make a trip available offline, replacing any earlier snapshot of it
+export const saveTripSnapshot = async (tripId: string, snapshot: TripSnapshotData): Promise<void> => {
+  const now = Date.now();
+  await AsyncStorage.multiSet(
+    TRIP_SNAPSHOT_SECTIONS.map((section) => [
+      getSnapshotKey(tripId, section),
+      serializeSnapshotSection(snapshot[section], now),
+    ])
+  );
+  const offlineTrips = await getOfflineTrips();
+  offlineTrips[tripId] = { tripId, savedAt: now };
+  await AsyncStorage.setItem(STORAGE_KEYS.OFFLINE_TRIPS, JSON.stringify(offlineTrips));
+};
+
+export const getTripSnapshotSection = async <K extends TripSnapshotSection>(
+  tripId: string,
+  section: K
+): Promise<StoredSnapshotSection<K> | null> => {
+  try {
+    return parseSnapshotSection(section, await AsyncStorage.getItem(getSnapshotKey(tripId, section)));
+  } catch (error) {
+    console.error('Failed to read trip snapshot:', error);
+    return null;
+  }
+};
+
+// Refresh one section from live data; trips that aren't kept offline are left alone
+export const updateTripSnapshotSection = async <K extends TripSnapshotSection>(
+  tripId: string,
+  section: K,
+  data: TripSnapshotData[K]
+): Promise<void> => {
+  try {
+    const offlineTrips = await getOfflineTrips();
+    if (!offlineTrips[tripId]) return;
+    await AsyncStorage.setItem(getSnapshotKey(tripId, section), serializeSnapshotSection(data));
+  } catch (error) {
+    console.error('Failed to update trip snapshot:', error);
+  }
+};
+
+export const removeTripSnapshot = async (tripId: string): Promise<void> => {
+  try {
+    await AsyncStorage.multiRemove(TRIP_SNAPSHOT_SECTIONS.map((section) => getSnapshotKey(tripId, section)));
+    const offlineTrips = await getOfflineTrips();
+    delete offlineTrips[tripId];
+    await AsyncStorage.setItem(STORAGE_KEYS.OFFLINE_TRIPS, JSON.stringify(offlineTrips));
+  } catch (error) {
+    console.error('Failed to remove trip snapshot:', error);
+  }
+};
+
 // Document Caching
 export const cacheDocument = async (
   document: { id: string; tripId: string; fileName: string; url: string; type?: string }
@@ -215,6 +338,7 @@ export const cacheDocument = async (
       originalUrl: document.url,
       type: document.type || 'other',
       cachedAt: Date.now(),
+      lastAccessedAt: Date.now(),
       fileSize,
     };
     
@@ -246,6 +370,9 @@ export const getCachedDocument = async (documentId: string): Promise<CachedDocum
       return null;
     }
     
+    // Opening a document keeps it from being evicted ahead of ones nobody looks at
+    cached.lastAccessedAt = Date.now();
+    await AsyncStorage.setItem(STORAGE_KEYS.CACHED_DOCUMENTS, JSON.stringify(index));
     return cached;
   } catch (error) {
     console.error('Failed to get cached document:', error);
@@ -333,6 +460,8 @@ export const getOfflineMapRegionsForTrip = async (tripId: string): Promise<Offli
 
 export const deleteOfflineMapRegion = async (regionId: string): Promise<void> => {
   try {
+    pauseMapRegionDownload(regionId);
+    await FileSystem.deleteAsync(getMapRegionDirectory(regionId), { idempotent: true });
     const regions = await getOfflineMapRegions();
     delete regions[regionId];
     await AsyncStorage.setItem(STORAGE_KEYS.OFFLINE_MAP_REGIONS, JSON.stringify(regions));
@@ -341,19 +470,213 @@ export const deleteOfflineMapRegion = async (regionId: string): Promise<void> =>
   }
 };
 
+// Map Tile Downloads
+const TILE_DOWNLOAD_CONCURRENCY = 4;
+const TILE_PROGRESS_SAVE_BATCHES = 25; // Batches between progress writes
+
+const activeMapDownloads = new Set<string>();
+const pausedMapDownloads = new Set<string>();
+
+const getMapRegionDirectory = (regionId: string) => `${MAPS_CACHE_DIR}${regionId}/`;
+
+export const isMapRegionDownloading = (regionId: string): boolean => activeMapDownloads.has(regionId);
+
+// Stops after the tiles in flight; the region can be resumed later
+export const pauseMapRegionDownload = (regionId: string): void => {
+  if (activeMapDownloads.has(regionId)) pausedMapDownloads.add(regionId);
+};
+
+// Tile servers ask bulk clients to identify themselves
+const getTileRequestHeaders = (): Record<string, string> => {
+  const appId = Constants.expoConfig?.ios?.bundleIdentifier || Constants.expoConfig?.android?.package || 'tripbuddy';
+  return { 'User-Agent': `TripBuddy/${Constants.expoConfig?.version || '1.0.0'} (${appId}; offline maps)` };
+};
+
+// Fetch one tile unless an earlier run already has it; returns its size on disk
+const downloadTile = async (url: string, path: string, directory: string): Promise<number> => {
+  const existing = await FileSystem.getInfoAsync(path);
+  if (existing.exists && 'size' in existing && existing.size > 0) return existing.size;
+
+  await FileSystem.makeDirectoryAsync(directory, { intermediates: true });
+  const result = await FileSystem.downloadAsync(url, path, { headers: getTileRequestHeaders() });
+  if (result.status !== 200) {
+    await FileSystem.deleteAsync(path, { idempotent: true });
+    throw new Error(`Tile request failed with status ${result.status}`);
+  }
+  const saved = await FileSystem.getInfoAsync(path);
+  return saved.exists && 'size' in saved ? saved.size : 0;
+};
+
+// Tiles already on disk are skipped, which is what makes a download resumable
+const runMapTileDownload = async (
+  region: OfflineMapRegion,
+  onProgress?: (progress: MapDownloadProgress) => void
+): Promise<OfflineMapRegion> => {
+  if (activeMapDownloads.has(region.id)) return region;
+  activeMapDownloads.add(region.id);
+  pausedMapDownloads.delete(region.id);
+
+  const regionDir = getMapRegionDirectory(region.id);
+  const tiles = [...iterateTiles(region.bounds, region.minZoom, region.maxZoom)];
+  let downloadedTiles = 0;
+  let failedTiles = 0;
+  let bytes = 0;
+
+  const snapshot = (status: OfflineMapRegion['status']): Omit<OfflineMapRegion, 'cachedAt'> => ({
+    ...region,
+    tileCount: tiles.length,
+    downloadedTiles,
+    sizeInMB: bytes / (1024 * 1024),
+    status,
+  });
+
+  try {
+    await saveOfflineMapRegion(snapshot('downloading'));
+    for (let i = 0; i < tiles.length; i += TILE_DOWNLOAD_CONCURRENCY) {
+      if (pausedMapDownloads.has(region.id)) break;
+
+      await Promise.all(
+        tiles.slice(i, i + TILE_DOWNLOAD_CONCURRENCY).map(async (tile) => {
+          try {
+            bytes += await downloadTile(
+              getTileUrl(region.tileUrlTemplate, tile),
+              `${regionDir}${getTilePath(tile)}`,
+              `${regionDir}${tile.z}/${tile.x}/`
+            );
+            downloadedTiles++;
+          } catch (error) {
+            failedTiles++;
+            console.warn('Failed to download map tile:', tile, error);
+          }
+        })
+      );
+
+      onProgress?.({ regionId: region.id, tileCount: tiles.length, downloadedTiles, failedTiles });
+      if ((i / TILE_DOWNLOAD_CONCURRENCY + 1) % TILE_PROGRESS_SAVE_BATCHES === 0) {
+        await saveOfflineMapRegion(snapshot('downloading'));
+      }
+    }
+  } finally {
+    activeMapDownloads.delete(region.id);
+    pausedMapDownloads.delete(region.id);
+  }
+
+  const finished = snapshot(downloadedTiles === tiles.length ? 'complete' : 'incomplete');
+  await saveOfflineMapRegion(finished);
+  return { ...finished, cachedAt: Date.now() };
+};
+
+// Download every tile covering the region's bounds across its zoom range
+export const downloadOfflineMapRegion = async (
+  request: MapRegionRequest,
+  onProgress?: (progress: MapDownloadProgress) => void
+): Promise<OfflineMapRegion> => {
+  const tileUrlTemplate = getTileUrlTemplate();
+  if (!tileUrlTemplate) {
+    throw new Error('No map tile source that allows offline downloads is configured');
+  }
+  const tileCount = countTiles(request.bounds, request.minZoom, request.maxZoom);
+  if (tileCount > MAX_TILES_PER_REGION) {
+    throw new Error(`This area needs ${tileCount} tiles; zoom in or lower the detail level`);
+  }
+
+  return runMapTileDownload(
+    {
+      ...request,
+      ...getBoundsCenter(request.bounds),
+      tileUrlTemplate,
+      cachedAt: Date.now(),
+      tileCount,
+      downloadedTiles: 0,
+      sizeInMB: 0,
+      status: 'downloading',
+    },
+    onProgress
+  );
+};
+
+// Pick up a paused or interrupted download where it left off
+export const resumeOfflineMapRegion = async (
+  regionId: string,
+  onProgress?: (progress: MapDownloadProgress) => void
+): Promise<OfflineMapRegion | null> => {
+  const region = (await getOfflineMapRegions())[regionId];
+  // Regions saved before tiles were downloaded have nothing to resume
+  if (!region?.bounds) return null;
+
+  // Only the configured source is ever used, even for regions started against another server
+  const tileUrlTemplate = getTileUrlTemplate();
+  if (!tileUrlTemplate) {
+    throw new Error('No map tile source that allows offline downloads is configured');
+  }
+  return runMapTileDownload({ ...region, tileUrlTemplate }, onProgress);
+};
+
+// Path templates for MapView's local tile overlay, one per region with tiles on disk.
+// Showing a region counts as using it for eviction.
+export const getOfflineTileTemplates = async (tripId: string): Promise<string[]> => {
+  const regions = await getOfflineMapRegions();
+  const shown = Object.values(regions).filter((region) => region.tripId === tripId && region.downloadedTiles > 0);
+  if (shown.length > 0) {
+    const now = Date.now();
+    shown.forEach((region) => {
+      region.lastAccessedAt = now;
+    });
+    await AsyncStorage.setItem(STORAGE_KEYS.OFFLINE_MAP_REGIONS, JSON.stringify(regions));
+  }
+  return shown.map((region) => `${getMapRegionDirectory(region.id)}{z}/{x}/{y}.png`.replace(/^file:\/\//, ''));
+};
+
 // Offline Queue for pending actions
-export const addToOfflineQueue = async (item: Omit<OfflineQueueItem, 'id' | 'timestamp'>): Promise<void> => {
+const queueListeners = new Set<() => void>();
+
+// Lets screens show queued changes optimistically and refresh as they sync
+export const subscribeToOfflineQueue = (listener: () => void): (() => void) => {
+  queueListeners.add(listener);
+  return () => {
+    queueListeners.delete(listener);
+  };
+};
+
+const notifyQueueListeners = () => {
+  queueListeners.forEach((listener) => listener());
+};
+
+const saveOfflineQueue = async (queue: OfflineQueueItem[]): Promise<void> => {
+  await AsyncStorage.setItem(STORAGE_KEYS.OFFLINE_QUEUE, JSON.stringify(queue));
+  notifyQueueListeners();
+};
+
+// Throws if the item can't be stored, so callers never report an unsaved change as saved
+export const addToOfflineQueue = async (mutation: OfflineMutation): Promise<void> => {
   try {
     const queue = await getOfflineQueue();
-    const newItem: OfflineQueueItem = {
-      ...item,
+    const newItem = {
+      ...mutation,
       id: `${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
       timestamp: Date.now(),
-    };
+      attempts: 0,
+    } as OfflineQueueItem;
     queue.push(newItem);
-    await AsyncStorage.setItem(STORAGE_KEYS.OFFLINE_QUEUE, JSON.stringify(queue));
+    await saveOfflineQueue(queue);
   } catch (error) {
     console.error('Failed to add to offline queue:', error);
+    throw error;
+  }
+};
+
+// Replace the payload of a queued item in place, keeping its position in the queue
+export const updateOfflineQueueItem = async (
+  itemId: string,
+  data: OfflineQueueItem['data']
+): Promise<void> => {
+  try {
+    const queue = await getOfflineQueue();
+    const updated = queue.map((item) => (item.id === itemId ? ({ ...item, data } as OfflineQueueItem) : item));
+    await saveOfflineQueue(updated);
+  } catch (error) {
+    console.error('Failed to update offline queue item:', error);
+    throw error;
   }
 };
 
@@ -370,7 +693,7 @@ export const getOfflineQueue = async (): Promise<OfflineQueueItem[]> => {
 
 export const clearOfflineQueue = async (): Promise<void> => {
   try {
-    await AsyncStorage.setItem(STORAGE_KEYS.OFFLINE_QUEUE, JSON.stringify([]));
+    await saveOfflineQueue([]);
   } catch (error) {
     console.error('Failed to clear offline queue:', error);
   }
@@ -380,104 +703,320 @@ export const removeFromOfflineQueue = async (itemId: string): Promise<void> => {
   try {
     const queue = await getOfflineQueue();
     const filtered = queue.filter(item => item.id !== itemId);
-    await AsyncStorage.setItem(STORAGE_KEYS.OFFLINE_QUEUE, JSON.stringify(filtered));
+    await saveOfflineQueue(filtered);
   } catch (error) {
     console.error('Failed to remove from offline queue:', error);
   }
 };
 
-// Process offline queue: attempt to sync queued actions when online
+// Drop a synced item and point everything queued after it at the real ID it was given,
+// in one write so a crash can never leave dependents referring to a local ID that is gone
+const completeOfflineQueueItem = async (itemId: string, idMap: Record<string, string>): Promise<void> => {
+  const queue = await getOfflineQueue();
+  await saveOfflineQueue(
+    queue
+      .filter((item) => item.id !== itemId)
+      .map((item) => ({ ...item, data: remapLocalIds(item.data, idMap) }) as OfflineQueueItem)
+  );
+};
+
+const replaceOfflineQueueItem = async (updated: OfflineQueueItem): Promise<void> => {
+  const queue = await getOfflineQueue();
+  await saveOfflineQueue(queue.map((item) => (item.id === updated.id ? updated : item)));
+};
+
+// Dead-letter list: changes that failed for good, kept out of the queue so they stop blocking it
+export const getDeadLetterQueue = async (): Promise<DeadLetterItem[]> => {
+  try {
+    const listStr = await AsyncStorage.getItem(STORAGE_KEYS.DEAD_LETTER_QUEUE);
+    if (!listStr) return [];
+    return JSON.parse(listStr);
+  } catch (error) {
+    console.error('Failed to get dead-letter queue:', error);
+    return [];
+  }
+};
+
+const saveDeadLetterQueue = async (deadLetters: DeadLetterItem[]): Promise<void> => {
+  await AsyncStorage.setItem(STORAGE_KEYS.DEAD_LETTER_QUEUE, JSON.stringify(deadLetters));
+  notifyQueueListeners();
+};
+
+const moveToDeadLetterQueue = async (item: OfflineQueueItem, reason: string): Promise<void> => {
+  console.warn('Offline change could not be synced:', item.collection, item.type, reason);
+  const deadLetters = await getDeadLetterQueue();
+  deadLetters.push({ ...item, reason, failedAt: Date.now() });
+  await saveDeadLetterQueue(deadLetters);
+  await removeFromOfflineQueue(item.id);
+};
+
+// Give a dead-lettered change another go, from the back of the queue
+export const retryDeadLetterItem = async (itemId: string): Promise<void> => {
+  const deadLetters = await getDeadLetterQueue();
+  const deadLetter = deadLetters.find((item) => item.id === itemId);
+  if (!deadLetter) return;
+
+  const { reason, failedAt, ...item } = deadLetter;
+  const queue = await getOfflineQueue();
+  await saveOfflineQueue([
+    ...queue,
+    { ...item, attempts: 0, nextAttemptAt: null, lastError: null, conflict: null } as OfflineQueueItem,
+  ]);
+  await saveDeadLetterQueue(deadLetters.filter((entry) => entry.id !== itemId));
+  await processOfflineQueue();
+};
+
+export const discardDeadLetterItem = async (itemId: string): Promise<void> => {
+  try {
+    const deadLetters = await getDeadLetterQueue();
+    await saveDeadLetterQueue(deadLetters.filter((item) => item.id !== itemId));
+  } catch (error) {
+    console.error('Failed to discard dead-letter item:', error);
+  }
+};
+
+// Retry a change that is backing off without waiting for its next attempt
+export const retryOfflineQueueItem = async (itemId: string): Promise<void> => {
+  const item = (await getOfflineQueue()).find((queued) => queued.id === itemId);
+  if (!item) return;
+  await replaceOfflineQueueItem({ ...item, nextAttemptAt: null });
+  await processOfflineQueue();
+};
+
+// Drop a queued change without syncing it. Anything queued against a record it created
+// is dead-lettered on the next sync, since that record will never exist.
+export const discardOfflineQueueItem = async (itemId: string): Promise<void> => {
+  const item = (await getOfflineQueue()).find((queued) => queued.id === itemId);
+  if (!item) return;
+  await removeFromOfflineQueue(itemId);
+
+  // Trips created offline are listed from the cache until they sync
+  if (item.collection === COLLECTIONS.TRIPS && item.type === 'create') {
+    const cached = (await getCachedTrips()) || [];
+    await cacheTrips(cached.filter((trip: any) => trip.id !== item.data.tempId));
+  }
+};
+
+// Settle a conflict: 'mine' replays the offline edit over theirs, 'theirs' drops it
+export const resolveQueuedConflict = async (itemId: string, keep: 'mine' | 'theirs'): Promise<void> => {
+  const item = (await getOfflineQueue()).find((queued) => queued.id === itemId);
+  if (!item?.conflict) return;
+
+  if (keep === 'theirs') {
+    await removeFromOfflineQueue(itemId);
+    return;
+  }
+  await replaceOfflineQueueItem(keepLocalChanges(item));
+  processOfflineQueue().catch((err) => console.warn('Failed to sync resolved change:', err));
+};
+
+let isProcessingQueue = false;
+let syncingItemId: string | null = null;
+
+// The queued change being written to Firestore right now, if any
+export const getSyncingItemId = (): string | null => syncingItemId;
+
+const setSyncingItemId = (itemId: string | null) => {
+  syncingItemId = itemId;
+  notifyQueueListeners();
+};
+
+// Process offline queue: attempt to sync queued actions when online.
+// Items replay in the order they were queued. A failure backs off and holds back only
+// the items that touch the same records; everything else carries on.
 export const processOfflineQueue = async (): Promise<void> => {
+  // Reconnect events can fire in quick succession; never replay the same item twice
+  if (isProcessingQueue) return;
+  isProcessingQueue = true;
+
   try {
-    const queue = await getOfflineQueue();
-    if (!queue || queue.length === 0) return;
+    if (!(await checkNetworkStatus())) return;
+    const initialQueue = await getOfflineQueue();
+    if (initialQueue.length === 0) {
+      await updateLastSync();
+      return;
+    }
+
+    // Import handlers dynamically to avoid circular imports with the firestore service
+    const { runMutation } = await import('@/services/mutation-handlers');
+    const heldBack = new Set<string>();
+    const now = Date.now();
+    let hasFailures = false;
+
+    for (const { id } of initialQueue) {
+      // Re-read each time: creates earlier in the run may have remapped this item's local IDs
+      const queue = await getOfflineQueue();
+      const item = queue.find((queued) => queued.id === id);
+      if (!item) continue;
+
+      const keys = getMutationKeys(item);
+      const dependencies = getMutationDependencies(item);
+      const orphaned = dependencies.filter(
+        (localId) => !queue.some((queued) => queued.type === 'create' && getMutationTargetId(queued) === localId)
+      );
+      if (orphaned.length > 0) {
+        await moveToDeadLetterQueue(item, 'It depends on a change that failed to sync');
+        continue;
+      }
 
-    // Import firestore service dynamically to avoid circular imports
-    const firestoreSvc = await import('@/services/firestore');
+      const isWaiting =
+        dependencies.length > 0 ||
+        !!item.conflict ||
+        (item.nextAttemptAt ?? 0) > now ||
+        keys.some((key) => heldBack.has(key));
+      if (isWaiting) {
+        keys.forEach((key) => heldBack.add(key));
+        continue;
+      }
 
-    for (const item of queue) {
+      setSyncingItemId(item.id);
       try {
-        if (item.collection === 'trips') {
-          if (item.type === 'create') {
-            // item.data expected to have { tempId, tripData }
-            const { tempId, tripData } = item.data as any;
-            const realId = await firestoreSvc.createTrip(tripData);
-
-            // Replace tempId in cached trips with real trip
-            try {
-              const { getCachedTrips, cacheTrips } = await import('@/services/offline');
-              const cached = (await getCachedTrips()) || [];
-              const updated = cached.map((t: any) => (t.id === tempId ? { ...t, id: realId } : t));
-              await cacheTrips(updated);
-            } catch (err) {
-              console.warn('Failed to update cached trips after create sync:', err);
-            }
-          } else if (item.type === 'update') {
-            const { tripId, updateData } = item.data as any;
-            await firestoreSvc.updateTrip(tripId, updateData);
-          } else if (item.type === 'delete') {
-            const { tripId } = item.data as any;
-            await firestoreSvc.deleteTrip(tripId);
-          }
-        } else {
-          // For other collections, attempt to call a generic handler if available
-          // e.g., documents, expenses - try to call a sync handler on firestoreSvc
-          const handlerName = `${item.collection}Sync`;
-          if ((firestoreSvc as any)[handlerName]) {
-            await (firestoreSvc as any)[handlerName](item);
-          }
+        const result = await runMutation(item);
+        switch (result.outcome) {
+          case 'done':
+            await completeOfflineQueueItem(
+              item.id,
+              result.createdId ? { [getMutationTargetId(item)]: result.createdId } : {}
+            );
+            break;
+          case 'conflict':
+            hasFailures = true;
+            await replaceOfflineQueueItem({ ...item, conflict: result.conflict });
+            keys.forEach((key) => heldBack.add(key));
+            break;
+          case 'superseded':
+            await moveToDeadLetterQueue(item, 'A newer change made elsewhere replaced it');
+            break;
+          case 'missing':
+            await moveToDeadLetterQueue(item, 'It was deleted elsewhere');
+            break;
+          case 'unsupported':
+            await moveToDeadLetterQueue(item, 'This kind of change cannot be synced');
+            break;
         }
-
-        // If successful, remove from queue
-        await removeFromOfflineQueue(item.id);
       } catch (err) {
-        console.warn('Failed to process offline queue item, keeping it for retry:', item.id, err);
-        // keep item in queue for retry
+        hasFailures = true;
+        const failure = recordMutationFailure(item, err);
+        if (failure.deadLetter) {
+          await moveToDeadLetterQueue(failure.item, failure.item.lastError || 'It failed to sync');
+        } else {
+          console.warn('Failed to process offline queue item, retrying later:', item.id, err);
+          await replaceOfflineQueueItem(failure.item);
+          keys.forEach((key) => heldBack.add(key));
+        }
+      } finally {
+        setSyncingItemId(null);
       }
     }
+
+    if (!hasFailures) await updateLastSync();
   } catch (error) {
     console.error('Failed to process offline queue:', error);
+  } finally {
+    isProcessingQueue = false;
+    notifyQueueListeners();
   }
 };
 
 // Cache Size Management
-export const getCacheSize = async (): Promise<{ documents: number; maps: number; total: number }> => {
+// Every document and map region in the cache, with the size recorded when it was saved
+const getCacheEntries = async (): Promise<CacheEntry[]> => {
+  const [documents, regions] = await Promise.all([getCachedDocumentsIndex(), getOfflineMapRegions()]);
+  return [
+    ...Object.values(documents).map((doc): CacheEntry => ({
+      id: doc.id,
+      kind: 'document',
+      tripId: doc.tripId,
+      bytes: doc.fileSize,
+      lastAccessedAt: doc.lastAccessedAt ?? doc.cachedAt,
+    })),
+    ...Object.values(regions).map((region): CacheEntry => ({
+      id: region.id,
+      kind: 'mapRegion',
+      tripId: region.tripId,
+      bytes: Math.round((region.sizeInMB || 0) * 1024 * 1024),
+      lastAccessedAt: region.lastAccessedAt ?? region.cachedAt,
+    })),
+  ];
+};
+
+// Sizes come from the cache indexes, which are updated as files are saved, rather than the file system
+export const getCacheSize = async (): Promise<CacheUsage> => {
   try {
-    let documentsSize = 0;
-    let mapsSize = 0;
-    
-    // Get documents cache size
-    const docsInfo = await FileSystem.getInfoAsync(DOCUMENTS_CACHE_DIR);
-    if (docsInfo.exists) {
-      const docFiles = await FileSystem.readDirectoryAsync(DOCUMENTS_CACHE_DIR);
-      for (const file of docFiles) {
-        const fileInfo = await FileSystem.getInfoAsync(`${DOCUMENTS_CACHE_DIR}${file}`);
-        if (fileInfo.exists && 'size' in fileInfo) {
-          documentsSize += fileInfo.size;
-        }
+    return getCacheUsage(await getCacheEntries());
+  } catch (error) {
+    console.error('Failed to get cache size:', error);
+    return { documents: 0, maps: 0, total: 0 };
+  }
+};
+
+// Cache Policy
+export const getCacheSettings = async (): Promise<CacheSettings> => {
+  try {
+    const settingsStr = await AsyncStorage.getItem(STORAGE_KEYS.CACHE_SETTINGS);
+    return settingsStr ? { ...DEFAULT_CACHE_SETTINGS, ...JSON.parse(settingsStr) } : DEFAULT_CACHE_SETTINGS;
+  } catch (error) {
+    console.error('Failed to get cache settings:', error);
+    return DEFAULT_CACHE_SETTINGS;
+  }
+};
+
+export const saveCacheSettings = async (settings: CacheSettings): Promise<void> => {
+  await AsyncStorage.setItem(STORAGE_KEYS.CACHE_SETTINGS, JSON.stringify(settings));
+};
+
+// Pinned trips keep their documents, maps and offline copy however full the cache gets
+export const setTripPinned = async (tripId: string, pinned: boolean): Promise<void> => {
+  const settings = await getCacheSettings();
+  const pinnedTripIds = settings.pinnedTripIds.filter((id) => id !== tripId);
+  await saveCacheSettings({ ...settings, pinnedTripIds: pinned ? [...pinnedTripIds, tripId] : pinnedTripIds });
+};
+
+const removeTripFromCache = async (tripId: string, entries: CacheEntry[]): Promise<void> => {
+  for (const entry of entries.filter((item) => item.tripId === tripId)) {
+    if (entry.kind === 'document') await deleteCachedDocument(entry.id);
+    else await deleteOfflineMapRegion(entry.id);
+  }
+  await removeTripSnapshot(tripId);
+};
+
+let isEnforcingCachePolicy = false;
+
+// Remove trips that ended long ago, then evict least recently used documents and maps until the
+// cache fits the storage budget. Pinned, active and upcoming trips are left alone, as are map
+// regions still downloading and the entries in keepEntryIds.
+export const enforceCachePolicy = async (keepEntryIds: string[] = []): Promise<CacheCleanupPlan | null> => {
+  if (isEnforcingCachePolicy) return null;
+  isEnforcingCachePolicy = true;
+
+  try {
+    const [entries, settings, cachedTrips, offlineTrips] = await Promise.all([
+      getCacheEntries(),
+      getCacheSettings(),
+      getCachedTrips(),
+      getOfflineTrips(),
+    ]);
+    const trips: TripDateRange[] = (cachedTrips || []).filter(
+      (trip) => trip?.id && trip.startDate && trip.endDate
+    );
+    const downloading = entries.filter((entry) => isMapRegionDownloading(entry.id)).map((entry) => entry.id);
+    const plan = planCacheCleanup(entries, trips, settings, [...keepEntryIds, ...downloading]);
+
+    for (const tripId of plan.expiredTripIds) {
+      if (offlineTrips[tripId] || entries.some((entry) => entry.tripId === tripId)) {
+        await removeTripFromCache(tripId, entries);
       }
     }
-    
-    // Get maps cache size
-    const mapsInfo = await FileSystem.getInfoAsync(MAPS_CACHE_DIR);
-    if (mapsInfo.exists) {
-      const mapFiles = await FileSystem.readDirectoryAsync(MAPS_CACHE_DIR);
-      for (const file of mapFiles) {
-        const fileInfo = await FileSystem.getInfoAsync(`${MAPS_CACHE_DIR}${file}`);
-        if (fileInfo.exists && 'size' in fileInfo) {
-          mapsSize += fileInfo.size;
-        }
-      }
+    for (const entry of plan.evictions) {
+      if (entry.kind === 'document') await deleteCachedDocument(entry.id);
+      else await deleteOfflineMapRegion(entry.id);
     }
-    
-    return {
-      documents: documentsSize,
-      maps: mapsSize,
-      total: documentsSize + mapsSize,
-    };
+    return plan;
   } catch (error) {
-    console.error('Failed to get cache size:', error);
-    return { documents: 0, maps: 0, total: 0 };
+    console.error('Failed to enforce cache policy:', error);
+    return null;
+  } finally {
+    isEnforcingCachePolicy = false;
   }
 };
 
@@ -489,11 +1028,14 @@ export const clearAllCache = async (): Promise<void> => {
       await FileSystem.deleteAsync(CACHE_DIRECTORY, { idempotent: true });
     }
     
-    // Clear AsyncStorage cache items
+    // Clear AsyncStorage cache items, including trips kept offline
+    const allKeys = await AsyncStorage.getAllKeys();
     await AsyncStorage.multiRemove([
       STORAGE_KEYS.CACHED_DOCUMENTS,
       STORAGE_KEYS.OFFLINE_MAP_REGIONS,
       STORAGE_KEYS.CACHED_TRIPS,
+      STORAGE_KEYS.OFFLINE_TRIPS,
+      ...allKeys.filter((key) => key.startsWith(STORAGE_KEYS.TRIP_SNAPSHOT_PREFIX)),
     ]);
     
     // Reinitialize directories
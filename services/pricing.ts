@@ -1,7 +1,8 @@
 
 // Simulated "Redis" cache of exchange rates (Base: USD)
 // In production, this would be fetched from your backend API
-const EXCHANGE_RATES: Record<string, number> = {
+// Also the offline fallback for expense conversion (see services/exchange-rates.ts)
+export const EXCHANGE_RATES: Record<string, number> = {
   USD: 1,
   EUR: 0.92,
   GBP: 0.79,
@@ -9,6 +10,11 @@ const EXCHANGE_RATES: Record<string, number> = {
   JPY: 151.2,
   CAD: 1.36,
   AUD: 1.52,
+  SGD: 1.35,
+  THB: 36.5,
+  AED: 3.67,
+  CHF: 0.9,
+  NZD: 1.66,
   // Add fallback for others
 };
 
@@ -0,0 +1,287 @@
+import { EXCHANGE_RATES } from './pricing';
+
+// ============================================
+// Receipt Text Parsing
+// ============================================
+
+export interface ParsedReceiptItem {
+  name: string;
+  amount: number; // Line total
+  quantity?: number;
+}
+
+export interface ParsedReceipt {
+  merchant: string | null;
+  date: Date | null;
+  currency: string | null;
+  subtotal: number | null;
+  tax: number | null;
+  tip: number | null;
+  total: number | null;
+  items: ParsedReceiptItem[];
+}
+
+export interface ReceiptParseOptions {
+  // Read ambiguous numeric dates like 03/04/2024 as day/month (default) or month/day
+  dayFirst?: boolean;
+}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const MONTH_PATTERN = '(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\\.?';
+
+// Symbols are checked in order, so prefixed dollars come before the bare `$`
+const CURRENCY_SYMBOLS: [RegExp, string][] = [
+  [/₹|\bRs\.?(?=\s*\d)/i, 'INR'],
+  [/€/, 'EUR'],
+  [/£/, 'GBP'],
+  [/฿/, 'THB'],
+  [/¥|円/, 'JPY'],
+  [/A\$/, 'AUD'],
+  [/C\$/, 'CAD'],
+  [/S\$/, 'SGD'],
+  [/\$/, 'USD'],
+];
+
+// An amount at the end of a line, optionally followed by a currency code
+const TRAILING_AMOUNT = /(\d{1,3}(?:[,.]\d{3})*(?:[.,]\d{1,2})?|\d+(?:[.,]\d{1,2})?)\s*(?:[A-Z]{3})?\s*$/;
+
+const GRAND_TOTAL_LINE =
+  /\b(grand\s*total|total\s*(amount|due|payable)|amount\s*(due|payable)|balance\s*due|net\s*(total|amount|payable))\b/i;
+const TOTAL_LINE = /\btotal\b/i;
+const NOT_TOTAL_LINE = /\b(sub\s*-?\s*total|total\s*(tax|vat|gst|items?|qty|quantity|savings|discount))\b/i;
+const SUBTOTAL_LINE = /\bsub\s*-?\s*total\b/i;
+const TAX_LINE = /\b(tax|vat|gst|cgst|sgst|igst|hst|service\s*(charge|tax))\b/i;
+const TIP_LINE = /\b(tip|gratuity)\b/i;
+
+// Lines that carry a number but are never a purchased item
+const NON_ITEM_LINE =
+  /\b(date|time|cash|change|card|visa|mastercard|amex|upi|tender(ed)?|paid|payment|balance|discount|savings|round(ing|\s*off)|qty|items?\s*sold|tel|phone|ph|fax|gstin|invoice|bill\s*(no|#)|order\s*(no|#)|table|receipt\s*(no|#)|txn|ref|auth|terminal)\b/i;
+
+// Header lines that are never the merchant name
+const NON_MERCHANT_LINE =
+  /\b(receipt|invoice|welcome|thank|bill|order|table|tel|phone|gstin|cashier|server|guest)\b|www\.|https?:|@/i;
+
+// Parse a printed amount, accepting both 1,234.56 and 1.234,56 styles
+export const parseReceiptAmount = (raw: string): number | null => {
+  const value = raw.replace(/\s/g, '');
+  const normalized = /^\d{1,3}(\.\d{3})*,\d{1,2}$|^\d+,\d{1,2}$/.test(value)
+    ? value.replace(/\./g, '').replace(',', '.')
+    : value.replace(/,/g, '');
+  const amount = parseFloat(normalized);
+  return Number.isFinite(amount) ? amount : null;
+};
+
+const getTrailingAmount = (
+  line: string
+): { amount: number; index: number; hasDecimals: boolean } | null => {
+  const match = TRAILING_AMOUNT.exec(line);
+  if (!match) return null;
+  const amount = parseReceiptAmount(match[1]);
+  return amount === null
+    ? null
+    : { amount, index: match.index, hasDecimals: /[.,]\d{1,2}$/.test(match[1]) };
+};
+
+const toDate = (year: number, month: number, day: number): Date | null => {
+  const fullYear = year < 100 ? 2000 + year : year;
+  if (month < 1 || month > 12 || day < 1) return null;
+  const date = new Date(fullYear, month - 1, day);
+  return date.getMonth() === month - 1 ? date : null;
+};
+
+// The first date written in a line; also used to read booking confirmations
+export const parseDateInLine = (line: string, dayFirst: boolean): Date | null => {
+  let match = /\b(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})\b/.exec(line);
+  if (match) return toDate(Number(match[1]), Number(match[2]), Number(match[3]));
+
+  match = /\b(\d{1,2})[-/.](\d{1,2})[-/.](\d{4}|\d{2})\b/.exec(line);
+  if (match) {
+    const first = Number(match[1]);
+    const second = Number(match[2]);
+    // Only one reading is valid when either part is above 12
+    const readDayFirst = first > 12 ? true : second > 12 ? false : dayFirst;
+    return readDayFirst
+      ? toDate(Number(match[3]), second, first)
+      : toDate(Number(match[3]), first, second);
+  }
+
+  match = new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?[\\s-]*${MONTH_PATTERN}[\\s,-]*(\\d{4}|\\d{2})\\b`, 'i').exec(line);
+  if (match) {
+    return toDate(Number(match[3]), MONTHS.indexOf(match[2].toLowerCase()) + 1, Number(match[1]));
+  }
+
+  match = new RegExp(`\\b${MONTH_PATTERN}\\s+(\\d{1,2})(?:st|nd|rd|th)?,?\\s+(\\d{4})\\b`, 'i').exec(line);
+  if (match) {
+    return toDate(Number(match[3]), MONTHS.indexOf(match[1].toLowerCase()) + 1, Number(match[2]));
+  }
+
+  return null;
+};
+
+export const detectReceiptCurrency = (text: string): string | null => {
+  const codes = Object.keys(EXCHANGE_RATES);
+  const codeMatch = new RegExp(`\\b(${codes.join('|')})\\b`).exec(text);
+  if (codeMatch) return codeMatch[1];
+
+  const symbol = CURRENCY_SYMBOLS.find(([pattern]) => pattern.test(text));
+  return symbol ? symbol[1] : null;
+};
+
+const toTitleCase = (value: string): string =>
+  value.toLowerCase().replace(/(^|\s)\S/g, (letter) => letter.toUpperCase());
+
+const findMerchant = (lines: string[], dayFirst: boolean): string | null => {
+  const candidate = lines
+    .slice(0, 5)
+    .find(
+      (line) =>
+        (line.match(/[a-z]/gi) || []).length >= 2 &&
+        !NON_MERCHANT_LINE.test(line) &&
+        !parseDateInLine(line, dayFirst) &&
+        !getTrailingAmount(line)
+    );
+  if (!candidate) return null;
+
+  const name = candidate.replace(/\s+/g, ' ').replace(/[\s*#:,.-]+$/, '');
+  return name === name.toUpperCase() ? toTitleCase(name) : name;
+};
+
+// Turn an item line such as "2 x Latte @ 3.50   7.00" into its name and quantity
+const parseItemLine = (line: string, amountIndex: number, amount: number): ParsedReceiptItem | null => {
+  let name = line
+    .slice(0, amountIndex)
+    .replace(/[₹€£฿¥$]|\bRs\.?/gi, '')
+    .replace(/\s*@\s*[\d.,]+\s*$/, '')
+    .trim();
+
+  // Quantity as a prefix ("2 x Latte"), a suffix ("Rolls x6") or its own column ("Naan   3")
+  let quantity: number | undefined;
+  const leadingQuantity = /^(\d{1,2})\s*(?:x\s*)?(?=[a-z])/i.exec(name);
+  const trailingQuantity = /\s+x\s*(\d{1,2})$|\s{2,}(\d{1,2})$/i.exec(name);
+  if (leadingQuantity) {
+    quantity = Number(leadingQuantity[1]);
+    name = name.slice(leadingQuantity[0].length);
+  } else if (trailingQuantity) {
+    quantity = Number(trailingQuantity[1] || trailingQuantity[2]);
+    name = name.slice(0, trailingQuantity.index);
+  }
+
+  name = name.replace(/[\s.:*-]+$/, '').trim();
+  if ((name.match(/[a-z]/gi) || []).length < 2) return null;
+
+  return quantity && quantity > 1 ? { name, amount, quantity } : { name, amount };
+};
+
+const roundAmount = (amount: number): number => Math.round(amount * 100) / 100;
+
+// Extract merchant, date, currency, totals and line items from OCR text.
+// Every field is best-effort and left null when it cannot be found.
+export const parseReceiptText = (text: string, options: ReceiptParseOptions = {}): ParsedReceipt => {
+  const dayFirst = options.dayFirst ?? true;
+  const lines = text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+  let date: Date | null = null;
+  let subtotal: number | null = null;
+  let tax: number | null = null;
+  let tip: number | null = null;
+  const totals: { amount: number; priority: number }[] = [];
+  const itemCandidates: { item: ParsedReceiptItem; hasDecimals: boolean }[] = [];
+  let inSummary = false;
+
+  for (const line of lines) {
+    if (!date) date = parseDateInLine(line, dayFirst);
+
+    const trailing = getTrailingAmount(line);
+    if (!trailing) continue;
+
+    if (GRAND_TOTAL_LINE.test(line)) {
+      totals.push({ amount: trailing.amount, priority: 2 });
+      inSummary = true;
+    } else if (SUBTOTAL_LINE.test(line)) {
+      subtotal = trailing.amount;
+      inSummary = true;
+    } else if (TAX_LINE.test(line) && !/\b(incl|inclusive)\b/i.test(line)) {
+      tax = roundAmount((tax || 0) + trailing.amount);
+      inSummary = true;
+    } else if (TIP_LINE.test(line)) {
+      tip = roundAmount((tip || 0) + trailing.amount);
+      inSummary = true;
+    } else if (TOTAL_LINE.test(line) && !NOT_TOTAL_LINE.test(line)) {
+      totals.push({ amount: trailing.amount, priority: 1 });
+      inSummary = true;
+    } else if (!inSummary && !NON_ITEM_LINE.test(line) && !parseDateInLine(line, dayFirst)) {
+      // Items are only read above the totals block
+      const item = parseItemLine(line, trailing.index, trailing.amount);
+      if (item) itemCandidates.push({ item, hasDecimals: trailing.hasDecimals });
+    }
+  }
+
+  // On receipts priced in decimals, whole numbers above the totals are postcodes or IDs
+  const usesDecimals = itemCandidates.some((candidate) => candidate.hasDecimals);
+  const items = itemCandidates
+    .filter((candidate) => !usesDecimals || candidate.hasDecimals)
+    .map((candidate) => candidate.item);
+
+  const topPriority = Math.max(0, ...totals.map((t) => t.priority));
+  const topTotals = totals.filter((t) => t.priority === topPriority).map((t) => t.amount);
+  let total = topTotals.length > 0 ? Math.max(...topTotals) : null;
+
+  if (total === null) {
+    const base = subtotal ?? (items.length > 0 ? items.reduce((sum, item) => sum + item.amount, 0) : null);
+    total = base === null ? null : roundAmount(base + (tax || 0) + (tip || 0));
+  }
+
+  return {
+    merchant: findMerchant(lines, dayFirst),
+    date,
+    currency: detectReceiptCurrency(text),
+    subtotal,
+    tax,
+    tip,
+    total,
+    items,
+  };
+};
+
+// ============================================
+// Recognized Text Layout
+// ============================================
+
+// A line of text found on a photo by OCR, with its position in pixels
+export interface RecognizedTextLine {
+  text: string;
+  top: number;
+  left: number;
+  height: number;
+}
+
+// OCR engines read a receipt's columns as separate blocks, so an item and its price come back
+// on different lines. Rebuild the printed rows by joining lines that sit at the same height.
+export const joinRecognizedLines = (lines: RecognizedTextLine[]): string => {
+  const rows: RecognizedTextLine[][] = [];
+
+  [...lines]
+    .filter((line) => line.text.trim())
+    .sort((a, b) => a.top - b.top)
+    .forEach((line) => {
+      const row = rows[rows.length - 1];
+      const rowMiddle = row ? row[0].top + row[0].height / 2 : 0;
+      if (row && Math.abs(line.top + line.height / 2 - rowMiddle) < Math.min(row[0].height, line.height) / 2) {
+        row.push(line);
+      } else {
+        rows.push([line]);
+      }
+    });
+
+  return rows
+    .map((row) =>
+      row
+        .sort((a, b) => a.left - b.left)
+        .map((line) => line.text.trim())
+        .join(' ')
+    )
+    .join('\n');
+};
@@ -0,0 +1,112 @@
+import TextRecognition from '@react-native-ml-kit/text-recognition';
+import { createDocument } from './firestore';
+import {
+  joinRecognizedLines,
+  ParsedReceipt,
+  parseReceiptText,
+  ReceiptParseOptions,
+  RecognizedTextLine,
+} from './receipt-parser';
+import { uploadFileToStorage } from './storage';
+
+// ============================================
+// Receipt Recognition Pipeline
+// ============================================
+
+// Turns a receipt photo into raw text. Swap in another OCR engine with setReceiptTextRecognizer.
+export interface ReceiptTextRecognizer {
+  name: string;
+  recognizeText: (imageUri: string, mimeType?: string) => Promise<string>;
+}
+
+export type ReceiptParser = (text: string, options?: ReceiptParseOptions) => ParsedReceipt;
+
+// ML Kit text recognition, run on the device so the photo is never sent anywhere to be read
+export const createDeviceReceiptRecognizer = (): ReceiptTextRecognizer => ({
+  name: 'mlkit',
+  recognizeText: async (imageUri: string) => {
+    const result = await TextRecognition.recognize(imageUri);
+    const lines: RecognizedTextLine[] = result.blocks.flatMap((block) =>
+      block.lines.map((line) => ({
+        text: line.text,
+        top: line.frame?.top ?? 0,
+        left: line.frame?.left ?? 0,
+        height: line.frame?.height ?? 0,
+      }))
+    );
+    return lines.length > 0 ? joinRecognizedLines(lines) : result.text;
+  },
+});
+
+let activeRecognizer: ReceiptTextRecognizer = createDeviceReceiptRecognizer();
+let activeParser: ReceiptParser = parseReceiptText;
+
+export const setReceiptTextRecognizer = (recognizer: ReceiptTextRecognizer): void => {
+  activeRecognizer = recognizer;
+};
+
+export const getReceiptTextRecognizer = (): ReceiptTextRecognizer => activeRecognizer;
+
+export const setReceiptParser = (parser: ReceiptParser): void => {
+  activeParser = parser;
+};
+
+export const scanReceiptImage = async (
+  imageUri: string,
+  options: ReceiptParseOptions & { mimeType?: string } = {}
+): Promise<{ text: string; receipt: ParsedReceipt }> => {
+  const text = await activeRecognizer.recognizeText(imageUri, options.mimeType);
+  return { text, receipt: activeParser(text, options) };
+};
+
+// ============================================
+// Receipt Capture
+// ============================================
+
+// Results waiting to prefill the expense form, keyed by the receipt's document ID
+const pendingScans: Record<string, ParsedReceipt> = {};
+
+export const takePendingReceiptScan = (documentId: string): ParsedReceipt | null => {
+  const receipt = pendingScans[documentId] || null;
+  delete pendingScans[documentId];
+  return receipt;
+};
+
+// Upload the photo as a trip document and read it in parallel. A failed scan still keeps
+// the uploaded receipt so it can be linked to a manually entered expense.
+export const captureReceipt = async (params: {
+  tripId: string;
+  userId: string;
+  imageUri: string;
+  mimeType?: string;
+  dayFirst?: boolean;
+}): Promise<{ documentId: string; receipt: ParsedReceipt | null }> => {
+  const fileName = `receipt_${Date.now()}.jpg`;
+
+  const [upload, scan] = await Promise.allSettled([
+    uploadFileToStorage(
+      params.imageUri,
+      `trips/${params.tripId}/documents/${fileName}`,
+      params.mimeType || 'image/jpeg'
+    ).then((fileUrl) =>
+      createDocument({
+        tripId: params.tripId,
+        uploadedBy: params.userId,
+        fileUrl,
+        label: fileName,
+        type: 'other',
+      })
+    ),
+    scanReceiptImage(params.imageUri, { mimeType: params.mimeType, dayFirst: params.dayFirst }),
+  ]);
+
+  if (upload.status === 'rejected') throw upload.reason;
+
+  if (scan.status === 'rejected') {
+    console.warn('Receipt scan failed:', scan.reason);
+    return { documentId: upload.value, receipt: null };
+  }
+
+  pendingScans[upload.value] = scan.value.receipt;
+  return { documentId: upload.value, receipt: scan.value.receipt };
+};
@@ -0,0 +1,57 @@
+import { RecurrenceFrequency } from '../types/database';
+
+// ============================================
+// Recurring Expense Schedules
+// ============================================
+
+const startOfDay = (date: Date): Date => {
+  const d = new Date(date);
+  return new Date(d.getFullYear(), d.getMonth(), d.getDate());
+};
+
+const addDays = (date: Date, days: number): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+// Dates an expense occurs on between startDate and endDate.
+// Daily includes both ends; nightly stops the night before endDate (check-out).
+export const getOccurrenceDates = (
+  frequency: RecurrenceFrequency,
+  startDate: Date,
+  endDate: Date
+): Date[] => {
+  const start = startOfDay(startDate);
+  const last = frequency === 'nightly' ? addDays(startOfDay(endDate), -1) : startOfDay(endDate);
+  const dates: Date[] = [];
+
+  for (let day = start; day.getTime() <= last.getTime(); day = addDays(day, 1)) {
+    dates.push(day);
+  }
+  return dates;
+};
+
+// Occurrences on or after the given day; earlier ones are history and never rewritten
+export const getFutureOccurrenceDates = (dates: Date[], from: Date = new Date()): Date[] => {
+  const today = startOfDay(from);
+  return dates.filter((date) => startOfDay(date).getTime() >= today.getTime());
+};
+
+// Returns a user-facing error message, or null when the schedule can be saved
+export const validateRecurrence = (
+  frequency: RecurrenceFrequency,
+  startDate: Date,
+  endDate: Date,
+  tripStart: Date,
+  tripEnd: Date
+): string | null => {
+  const start = startOfDay(startDate).getTime();
+  const end = startOfDay(endDate).getTime();
+
+  if (end < start) return 'End date must be after the start date';
+  if (start < startOfDay(tripStart).getTime() || end > startOfDay(tripEnd).getTime()) {
+    return 'Recurring dates must fall within the trip';
+  }
+  if (getOccurrenceDates(frequency, startDate, endDate).length === 0) {
+    return 'Pick at least one night';
+  }
+  return null;
+};
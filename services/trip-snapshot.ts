@@ -0,0 +1,111 @@
+import {
+    Expense,
+    ExpenseShare,
+    ItineraryItem,
+    Settlement,
+    TripCollaborator,
+    TripDocument,
+    TripWithDetails,
+    User,
+} from '../types/database';
+import { reviveDateFields } from './mutation-queue';
+
+// ============================================
+// Offline Trip Snapshots
+// ============================================
+
+// Bump when the stored shape changes; older snapshots are ignored until the trip is downloaded again
+export const TRIP_SNAPSHOT_VERSION = 1;
+
+export type CollaboratorWithUser = TripCollaborator & { user?: User };
+
+// Everything a trip's screens show, kept on the device for trips made available offline
+export interface TripSnapshotData {
+  trip: TripWithDetails;
+  itinerary: ItineraryItem[];
+  expenses: Expense[];
+  expenseShares: ExpenseShare[];
+  settlements: Settlement[];
+  collaborators: CollaboratorWithUser[];
+  documents: TripDocument[];
+}
+
+export type TripSnapshotSection = keyof TripSnapshotData;
+
+export const TRIP_SNAPSHOT_SECTIONS: TripSnapshotSection[] = [
+  'trip',
+  'itinerary',
+  'expenses',
+  'expenseShares',
+  'settlements',
+  'collaborators',
+  'documents',
+];
+
+// Each section is stored on its own, so hooks refreshing different sections never overwrite each other
+export interface StoredSnapshotSection<K extends TripSnapshotSection = TripSnapshotSection> {
+  version: number;
+  savedAt: number;
+  data: TripSnapshotData[K];
+}
+
+const USER_DATE_FIELDS = ['createdAt'];
+
+const reviveUser = <T extends { createdAt?: unknown } | undefined>(user: T): T =>
+  user ? reviveDateFields(user, USER_DATE_FIELDS) : user;
+
+// Dates come back from storage as ISO strings
+const SECTION_REVIVERS: { [K in TripSnapshotSection]: (data: TripSnapshotData[K]) => TripSnapshotData[K] } = {
+  trip: (trip) => {
+    const revived = reviveDateFields(trip, ['startDate', 'endDate', 'createdAt', 'updatedAt']);
+    return { ...revived, creator: reviveUser(revived.creator) };
+  },
+  itinerary: (items) =>
+    items.map((item) => reviveDateFields(item, ['startTime', 'endTime', 'createdAt', 'updatedAt'])),
+  expenses: (expenses) =>
+    expenses.map((expense) => reviveDateFields(expense, ['occurrenceDate', 'createdAt', 'updatedAt'])),
+  expenseShares: (shares) => shares,
+  settlements: (settlements) => settlements.map((settlement) => reviveDateFields(settlement, ['createdAt'])),
+  collaborators: (collaborators) =>
+    collaborators.map((collaborator) => ({ ...collaborator, user: reviveUser(collaborator.user) })),
+  documents: (documents) => documents.map((document) => reviveDateFields(document, ['createdAt'])),
+};
+
+// Firestore Timestamps don't survive JSON; store them as Dates like everything else
+const toStorable = (value: unknown): unknown => {
+  if (value && typeof (value as { toDate?: unknown }).toDate === 'function') {
+    return (value as { toDate: () => Date }).toDate();
+  }
+  if (Array.isArray(value)) return value.map(toStorable);
+  if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, toStorable(entry)]));
+  }
+  return value;
+};
+
+export const serializeSnapshotSection = <K extends TripSnapshotSection>(
+  data: TripSnapshotData[K],
+  now: number = Date.now()
+): string => {
+  const stored: StoredSnapshotSection<K> = {
+    version: TRIP_SNAPSHOT_VERSION,
+    savedAt: now,
+    data: toStorable(data) as TripSnapshotData[K],
+  };
+  return JSON.stringify(stored);
+};
+
+// A stored section with its dates restored, or null if it is missing, unreadable or from another version
+export const parseSnapshotSection = <K extends TripSnapshotSection>(
+  section: K,
+  raw: string | null
+): StoredSnapshotSection<K> | null => {
+  if (!raw) return null;
+  try {
+    const stored = JSON.parse(raw) as StoredSnapshotSection<K>;
+    if (stored.version !== TRIP_SNAPSHOT_VERSION || stored.data == null) return null;
+    return { ...stored, data: SECTION_REVIVERS[section](stored.data) };
+  } catch {
+    return null;
+  }
+};
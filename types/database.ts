@@ -41,9 +41,19 @@ export interface Trip {
   travelerCount?: string | null;
   tripDuration?: string | null;
   accommodationType?: string | null;
+  budget?: TripBudget | null;
+  planEstimate?: TripBudget | null; // AI plan's cost estimate, kept when the budget is edited
+  budgetAlertLevels?: Record<string, number> | null; // Highest alert threshold already sent per budget line
   createdAt: Date;
 }
 
+// Planned spending for a trip, in the trip currency
+export interface TripBudget {
+  total?: number | null;
+  categoryLimits: Partial<Record<ExpenseCategory, number>>;
+  source?: "manual" | "ai"; // "ai" when seeded from the generated plan's expense breakdown
+}
+
 export type CollaboratorRole = "viewer" | "editor" | "owner";
 
 export interface TripCollaborator {
@@ -96,6 +106,18 @@ export interface ItineraryItem {
   createdAt: Date;
 }
 
+// A comment left on an itinerary item. The author's name is stored with it so the
+// comment still reads right after they leave the trip.
+export interface ItineraryComment {
+  id: string;
+  tripId: string;
+  itineraryId: string;
+  authorId: string;
+  authorName: string;
+  text: string;
+  createdAt: Date;
+}
+
 export interface UserLocation {
   id: string; // composite: `${userId}_${tripId}`
   userId: string;
@@ -109,24 +131,84 @@ export interface UserLocation {
 // 4.3 Financials & Assets
 // ============================================
 
+export type ExpenseCategory =
+  | "food"
+  | "transport"
+  | "accommodation"
+  | "activities"
+  | "shopping"
+  | "other";
+
 export interface Expense {
   id: string;
   tripId: string;
   title: string;
   amount: number;
   currency: string;
+  exchangeRate?: number | null; // 1 unit of `currency` in the trip currency, captured at entry time
+  paidBy: string;
+  category?: ExpenseCategory;
+  splitType?: ExpenseSplitType;
+  split?: ExpenseSplitDefinition | null; // Original split inputs, kept so the expense can be edited
+  itineraryItemId?: string | null; // Activity this cost belongs to (e.g. a dinner reservation)
+  receiptDocumentId?: string | null; // TripDocument holding the receipt
+  recurringTemplateId?: string | null; // Set on occurrences generated from a recurring template
+  editedIndividually?: boolean; // Occurrence changed with "This Day Only"; template edits leave it alone
+  occurrenceDate?: Date | null; // Day the cost was incurred (recurring occurrence or receipt date)
+  pendingSync?: boolean; // Local only: saved offline and waiting in the offline queue
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// "daily" repeats every day in the range, "nightly" every night (the last day is check-out)
+export type RecurrenceFrequency = "daily" | "nightly";
+
+// Template for expenses that repeat across the trip (hotels, car rentals, per-diems)
+export interface RecurringExpenseTemplate {
+  id: string;
+  tripId: string;
+  title: string;
+  amount: number; // Per occurrence
+  currency: string;
+  exchangeRate?: number | null;
   paidBy: string;
-  category?:
-    | "food"
-    | "transport"
-    | "accommodation"
-    | "activities"
-    | "shopping"
-    | "other";
+  category?: ExpenseCategory;
+  split: ExpenseSplitDefinition;
+  frequency: RecurrenceFrequency;
+  startDate: Date;
+  endDate: Date;
+  createdBy: string;
   createdAt: Date;
   updatedAt: Date;
 }
 
+export type ExpenseSplitType =
+  | "equal"
+  | "percentage"
+  | "custom"
+  | "shares"
+  | "itemized";
+
+// A receipt line item, split equally among the members it is assigned to
+export interface ExpenseSplitItem {
+  id: string;
+  name: string;
+  amount: number;
+  assignedTo: string[]; // User IDs
+}
+
+// How an expense was divided, as entered by the user (amounts in the expense currency)
+export interface ExpenseSplitDefinition {
+  type: ExpenseSplitType;
+  participants: string[]; // User IDs included in the split
+  customAmounts?: Record<string, number>; // custom: exact amount per user
+  percentages?: Record<string, number>; // percentage: percent per user
+  weights?: Record<string, number>; // shares: weight per user (e.g. a couple counts as 2)
+  items?: ExpenseSplitItem[]; // itemized: receipt line items
+  tax?: number; // itemized: spread proportionally to each member's items
+  tip?: number; // itemized: spread proportionally to each member's items
+}
+
 export interface ExpenseShare {
   id: string;
   expenseId: string;
@@ -134,6 +216,56 @@ export interface ExpenseShare {
   shareAmount: number;
 }
 
+export type ExpenseAuditAction = "created" | "updated" | "deleted" | "restored";
+
+// Field values as recorded in the change log (dates as ISO strings, shares as userId -> amount)
+export type ExpenseAuditValue = string | number | Record<string, number> | null;
+
+export interface ExpenseAuditChange {
+  field: string;
+  before: ExpenseAuditValue;
+  after: ExpenseAuditValue;
+}
+
+// Immutable change-log entry, written in the same batch as the change it describes
+export interface ExpenseAuditEntry {
+  id: string;
+  tripId: string;
+  expenseId: string;
+  action: ExpenseAuditAction;
+  actorId: string;
+  changes: ExpenseAuditChange[];
+  createdAt: Date;
+}
+
+// A deleted expense with its shares, kept in the trip's trash until it expires.
+// The document ID is the original expense ID so a restore brings back the same expense.
+export interface DeletedExpense {
+  id: string;
+  tripId: string;
+  expense: Omit<Expense, "id">;
+  shares: { userId: string; shareAmount: number }[];
+  deletedBy: string;
+  deletedAt: Date;
+  expiresAt: Date;
+}
+
+export type SettlementMethod = "upi" | "cash" | "bank" | "other";
+
+// A recorded payment from one member to another that pays down balances
+export interface Settlement {
+  id: string;
+  tripId: string;
+  payerId: string;
+  payeeId: string;
+  amount: number;
+  currency: string;
+  method: SettlementMethod;
+  referenceId?: string | null; // UPI transaction ID, bank reference, etc.
+  recordedBy: string;
+  createdAt: Date;
+}
+
 export type DocumentType = "flight" | "hotel" | "activity" | "other";
 
 export interface TripDocument {
@@ -163,8 +295,10 @@ export type NotificationType =
   | "invitation_accepted"
   | "expense_added"
   | "expense_updated"
+  | "settlement_recorded"
   | "itinerary_added"
   | "itinerary_updated"
+  | "itinerary_comment"
   | "trip_updated"
   | "system"
   | "reminder";
@@ -197,9 +331,14 @@ export const COLLECTIONS = {
   TRIP_COLLABORATORS: "tripCollaborators",
   TRIP_INVITATIONS: "tripInvitations",
   ITINERARY_ITEMS: "itineraryItems",
+  ITINERARY_COMMENTS: "itineraryComments",
   USER_LOCATIONS: "userLocations",
   EXPENSES: "expenses",
   EXPENSE_SHARES: "expenseShares",
+  EXPENSE_AUDIT_LOG: "expenseAuditLog",
+  EXPENSE_TRASH: "expenseTrash",
+  SETTLEMENTS: "settlements",
+  RECURRING_EXPENSES: "recurringExpenses",
   DOCUMENTS: "documents",
   NOTIFICATIONS: "notifications",
 } as const;